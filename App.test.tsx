@@ -0,0 +1,221 @@
+// @vitest-environment jsdom
+import React, { useState } from 'react';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, cleanup, within } from '@testing-library/react';
+import { GridContext, GridNode } from './App';
+import { parseXML } from './utils';
+import { ExpansionState, DEFAULT_EXPANSION, setPathExpanded, expandSubtree, collapseSubtree } from './expansion';
+import { TableView } from './tableView';
+
+const CATALOG = `<catalog>
+  <book id="b1"><title>Dune</title><author>Herbert</author></book>
+  <book id="b2" lang="en"><title>Emma</title><author>Austen</author><author>Editor</author></book>
+  <book id="b3"><title>Ulysses</title><series><name>Classics</name></series></book>
+  <publisher><name>Acme</name></publisher>
+</catalog>`;
+
+// Wires the grid's expansion and table view callbacks to state the way App does
+const Grid: React.FC<{
+  source: string;
+  initial?: ExpansionState;
+  onCopyXPath?: (path: string) => void;
+  onShowStatistics?: (path: string) => void;
+}> = ({
+  source, initial = DEFAULT_EXPANSION, onCopyXPath = () => { }, onShowStatistics,
+}) => {
+  const [expansion, setExpansion] = useState(initial);
+  const [tableViews, setTableViews] = useState<Record<string, TableView>>({});
+  const [root] = useState(() => parseXML(source).root!);
+  return (
+    <GridContext.Provider value={{
+      expansion,
+      showNamespaceDeclarations: false,
+      highlightedKeys: new Set(),
+      activeHighlightKey: null,
+      cursorKey: null,
+      diffMarks: new Map(),
+      validationIssues: new Map(),
+      tableViews,
+      editable: false,
+      onCopyXPath,
+      onSetExpanded: (path, expanded) => setExpansion(current => setPathExpanded(current, path, expanded)),
+      onExpandPath: path => setExpansion(current => expandSubtree(current, path)),
+      onCollapsePath: path => setExpansion(current => collapseSubtree(current, path)),
+      onEdit: () => { },
+      onRevealSource: () => { },
+      onTableViewChange: (key, view) => setTableViews(current => ({ ...current, [key]: view })),
+      onShowStatistics,
+    }}>
+      <div data-grid-scroller>
+        <GridNode node={root} depth={0} />
+      </div>
+    </GridContext.Provider>
+  );
+};
+
+const table = (tagName = 'book') => screen.getByText(tagName, { selector: 'span' }).closest('.w-max') as HTMLElement;
+const tableHeader = () => table().firstElementChild as HTMLElement;
+const headers = (element: HTMLElement) => within(element).queryAllByRole('columnheader').map(th => th.textContent);
+const rowKeys = (caption = 'order') => within(table(caption)).getAllByRole('row').filter(row => row.hasAttribute('data-highlight-key'))
+  .map(row => row.getAttribute('data-highlight-key'));
+
+const ORDERS = `<orders>
+  <order id="1"><total>120.5</total><placed>2024-03-01</placed><paid>true</paid></order>
+  <order id="2"><total>9</total><placed>2023-12-24</placed><paid>false</paid></order>
+  <order id="3"><placed>2024-01-15</placed><paid>true</paid></order>
+  <order id="4"><total>30</total><placed>2024-02-10</placed><paid>false</paid></order>
+</orders>`;
+
+afterEach(cleanup);
+
+describe('GridNode and NodeTable', () => {
+  it('groups repeated children into one table and shows single children as nodes', () => {
+    render(<Grid source={CATALOG} initial={setPathExpanded(DEFAULT_EXPANSION, '/catalog/book', true)} />);
+    expect(screen.getByText('(3)')).toBeTruthy();
+    expect(headers(table())).toEqual(['@id', '@lang', 'author', 'series', 'title']);
+    const rows = within(table()).getAllByRole('row').slice(1);
+    expect(rows.map(row => row.getAttribute('data-highlight-key'))).toEqual(['/catalog[1]/book[1]', '/catalog[1]/book[2]', '/catalog[1]/book[3]']);
+    // Cells with several children of the same name list each of them
+    expect(within(rows[1]).getByText('Austen')).toBeTruthy();
+    expect(within(rows[1]).getByText('Editor')).toBeTruthy();
+    // A nested element in a cell is a node of its own; a missing child is shown as -
+    expect(within(rows[2]).getByText('series')).toBeTruthy();
+    expect(within(rows[0]).getAllByText('-')).toHaveLength(1);
+    // <publisher> occurs once, so it is not a table
+    expect(screen.getByText('publisher').closest('table')).toBeNull();
+  });
+
+  it('builds the XPath of every value it shows', () => {
+    const onCopyXPath = vi.fn();
+    render(<Grid source={CATALOG} initial={expandSubtree(DEFAULT_EXPANSION, '/catalog')} onCopyXPath={onCopyXPath} />);
+    fireEvent.doubleClick(screen.getByText('en'));
+    fireEvent.doubleClick(screen.getByText('Ulysses'));
+    fireEvent.doubleClick(screen.getByText('Editor'));
+    fireEvent.doubleClick(screen.getByText('Classics'));
+    fireEvent.doubleClick(screen.getByText('Acme'));
+    expect(onCopyXPath.mock.calls.map(([path]) => path)).toEqual([
+      '/catalog/book[2]/@lang',
+      '/catalog/book[3]/title',
+      '/catalog/book[2]/author[2]',
+      '/catalog/book[3]/series/name',
+      '/catalog/publisher/name',
+    ]);
+    expect(screen.getByText('Dune').closest('[title]')!.getAttribute('title')).toMatch(/^XPath: \/catalog\/book\[1\]\/title /);
+  });
+
+  it('opens the top level only, then follows the header toggles', () => {
+    render(<Grid source={CATALOG} />);
+    // The root is open and the table below it closed
+    expect(screen.getByText('(3)')).toBeTruthy();
+    expect(screen.queryByText('Dune')).toBeNull();
+    fireEvent.click(screen.getByText('book'));
+    expect(screen.getByText('Dune')).toBeTruthy();
+    expect(screen.queryByText('Classics')).toBeNull();
+    fireEvent.click(screen.getByText('book'));
+    expect(screen.queryByText('Dune')).toBeNull();
+  });
+
+  it('expands and collapses a whole subtree from its recursive toggle', () => {
+    render(<Grid source={CATALOG} />);
+    // Expand path: the table and everything below it opens
+    fireEvent.click(screen.getByTitle('Expand all book items recursively'));
+    expect(screen.getByText('Dune')).toBeTruthy();
+    expect(screen.getByText('Classics')).toBeTruthy();
+    // Nodes outside the subtree keep their state
+    expect(screen.queryByText('Acme')).toBeNull();
+
+    // Collapse path: the table stays open with the nodes in its rows closed
+    fireEvent.click(within(tableHeader()).getByTitle('Collapse next level'));
+    expect(screen.getByText('Dune')).toBeTruthy();
+    expect(screen.queryByText('Classics')).toBeNull();
+    expect(within(tableHeader()).getByTitle('Expand all book items recursively')).toBeTruthy();
+  });
+
+  it('sorts rows by number, date and text from the column headers, empty cells last', () => {
+    render(<Grid source={ORDERS} initial={setPathExpanded(DEFAULT_EXPANSION, '/orders/order', true)} />);
+    const header = (name: string) => within(table('order')).getByRole('columnheader', { name });
+    fireEvent.click(header('total'));
+    expect(rowKeys()).toEqual(['/orders[1]/order[2]', '/orders[1]/order[4]', '/orders[1]/order[1]', '/orders[1]/order[3]']);
+    expect(header('total').getAttribute('aria-sort')).toBe('ascending');
+    fireEvent.click(header('total'));
+    expect(rowKeys()).toEqual(['/orders[1]/order[1]', '/orders[1]/order[4]', '/orders[1]/order[2]', '/orders[1]/order[3]']);
+    fireEvent.click(header('total'));
+    expect(rowKeys()).toEqual(['/orders[1]/order[1]', '/orders[1]/order[2]', '/orders[1]/order[3]', '/orders[1]/order[4]']);
+    fireEvent.click(header('placed'));
+    expect(rowKeys()).toEqual(['/orders[1]/order[2]', '/orders[1]/order[3]', '/orders[1]/order[4]', '/orders[1]/order[1]']);
+    // Sorted rows keep the XPath of their place in the document
+    expect(screen.getByText('2023-12-24').closest('[title]')!.getAttribute('title')).toMatch(/^XPath: \/orders\/order\[2\]\/placed /);
+    // Numbers are right-aligned
+    expect(header('total').className).toContain('text-right');
+  });
+
+  it('filters rows by text or comparison and hides columns from the columns menu', () => {
+    render(<Grid source={ORDERS} initial={setPathExpanded(DEFAULT_EXPANSION, '/orders/order', true)} />);
+    fireEvent.click(screen.getByTitle('Filter the order rows'));
+    fireEvent.change(screen.getByLabelText('Filter total'), { target: { value: '>= 30' } });
+    expect(rowKeys()).toEqual(['/orders[1]/order[1]', '/orders[1]/order[4]']);
+    expect(screen.getByText('(2 of 4)')).toBeTruthy();
+    fireEvent.change(screen.getByLabelText('Filter paid'), { target: { value: 'FALSE' } });
+    expect(rowKeys()).toEqual(['/orders[1]/order[4]']);
+
+    fireEvent.click(screen.getByTitle('Group and arrange the order table'));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'placed' }));
+    fireEvent.click(screen.getByTitle('Pin paid to the left edge'));
+    expect(headers(table('order')).filter(Boolean)).toEqual(['paid', '@id', 'total']);
+  });
+
+  it('exports the rows and columns the table shows, as filtered and sorted', () => {
+    const writeText = vi.fn(() => Promise.resolve());
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    render(<Grid source={ORDERS} initial={setPathExpanded(DEFAULT_EXPANSION, '/orders/order', true)} />);
+    fireEvent.click(screen.getByTitle('Filter the order rows'));
+    fireEvent.change(screen.getByLabelText('Filter paid'), { target: { value: 'true' } });
+    fireEvent.click(within(table('order')).getByRole('columnheader', { name: 'placed' }));
+    fireEvent.click(within(table('order')).getByRole('columnheader', { name: 'placed' }));
+    fireEvent.click(screen.getByTitle('Group and arrange the order table'));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'paid' }));
+    fireEvent.click(screen.getByTitle('Pin total to the left edge'));
+    fireEvent.click(document.querySelector('.fixed.inset-0')!);
+
+    fireEvent.click(screen.getByTitle('Export the order table'));
+    fireEvent.click(screen.getByTitle('Copy the table for pasting into a spreadsheet or document'));
+    expect(writeText).toHaveBeenCalledWith('total\t@id\tplaced\r\n120.5\t1\t2024-03-01\r\n\t3\t2024-01-15');
+  });
+
+  it('shows a single element as a table and flattens its descendants from the grouping menu', () => {
+    render(<Grid source={'<order id="A1"><date>2024-03-01</date><lines><line sku="p1"/><line sku="p2"/></lines></order>'} />);
+    fireEvent.click(screen.getByTitle('Show order as a table'));
+    expect(rowKeys()).toEqual(['/order[1]']);
+    fireEvent.click(screen.getByTitle('Group and arrange the order table'));
+    fireEvent.change(screen.getByLabelText('Grouping'), { target: { value: 'flatten' } });
+    fireEvent.change(screen.getByDisplayValue('order/lines'), { target: { value: 'lines/line' } });
+    expect(rowKeys('order/lines/line')).toEqual(['/order[1]/lines[1]/line[1]', '/order[1]/lines[1]/line[2]']);
+    expect(headers(table('order/lines/line'))).toEqual(['order/@id', 'order/date', '@sku']);
+    // Key cells point at the ancestor they came from
+    expect(screen.getAllByText('A1')[1].closest('td')!.getAttribute('title')).toBe('XPath: /order/@id (Double-click to copy)');
+
+    fireEvent.change(screen.getByLabelText('Grouping'), { target: { value: 'tag' } });
+    expect(screen.getByTitle('Show order as a table')).toBeTruthy();
+  });
+
+  it('opens the statistics of a table column and of a flattened table\'s key column', () => {
+    const onShowStatistics = vi.fn();
+    render(<Grid source={ORDERS} onShowStatistics={onShowStatistics} />);
+    fireEvent.click(screen.getByTitle('Group and arrange the order table'));
+    fireEvent.click(screen.getByTitle('Statistics for @id'));
+    expect(onShowStatistics).toHaveBeenLastCalledWith('/orders/order/@id');
+    expect(screen.queryByLabelText('Grouping')).toBeNull();
+
+    cleanup();
+    render(<Grid source={'<order id="A1"><lines><line sku="p1"/><line sku="p2"/></lines></order>'} onShowStatistics={onShowStatistics} />);
+    fireEvent.click(screen.getByTitle('Show order as a table'));
+    fireEvent.click(screen.getByTitle('Group and arrange the order table'));
+    fireEvent.change(screen.getByLabelText('Grouping'), { target: { value: 'flatten' } });
+    fireEvent.change(screen.getByDisplayValue('order/lines'), { target: { value: 'lines/line' } });
+    fireEvent.click(screen.getByTitle('Statistics for order/@id'));
+    expect(onShowStatistics).toHaveBeenLastCalledWith('/order/@id');
+    fireEvent.click(screen.getByTitle('Group and arrange the order/lines/line table'));
+    fireEvent.click(screen.getByTitle('Statistics for @sku'));
+    expect(onShowStatistics).toHaveBeenLastCalledWith('/order/lines/line/@sku');
+  });
+});
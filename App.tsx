@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useMemo, useContext, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useLayoutEffect, useMemo, useContext, useRef } from 'react';
 import {
   FileCode,
   Play,
@@ -17,35 +17,244 @@ import {
   ChevronsDown,
   ChevronsUp,
   Moon,
-  Sun
+  Sun,
+  Shrink,
+  SlidersHorizontal,
+  Eye,
+  EyeOff,
+  TextSearch,
+  Pencil,
+  Plus,
+  AtSign,
+  CopyPlus,
+  ArrowUp,
+  ArrowDown,
+  X,
+  Undo,
+  Redo,
+  History,
+  Loader2,
+  Bookmark,
+  FileDown,
+  Braces,
+  GitCompare,
+  FileCog,
+  ShieldCheck,
+  Wand2,
+  AlertTriangle,
+  Link2,
+  Filter,
+  Pin,
+  Table2,
+  BarChart3
 } from 'lucide-react';
-import { parseXML, prettifyXML, SAMPLE_XML } from './utils';
-import { XMLNode, XMLAttribute } from './types';
+import { parseXML, isNamespaceDeclaration, serializeDocument, documentHeader, SAMPLE_XML } from './utils';
+import { applyEdit, describeEdit, editSource, EditOperation, EditError } from './treeEdit';
+import { useHistory, createHistory, HistoryState } from './history';
+import { useWindowedList } from './windowing';
+import {
+  ExpansionState, DEFAULT_EXPANSION, isPathExpanded, isPathRecursivelyExpanded, setPathExpanded, expandPaths,
+  expandSubtree, collapseSubtree, expandAll, collapseAll, useSavedViews,
+} from './expansion';
+import { parseInWorker, ParseTask, WORKER_PARSE_THRESHOLD } from './workerParser';
+import { ContentItem, contentItems, tableColumns } from './gridLayout';
+import { GridTable, groupTables, flattenCandidates, discriminatorCandidates } from './grouping';
+import {
+  TableView, DEFAULT_TABLE_VIEW, tableViewKey, columnKeys, orderColumns, nextSort, valueKind, columnKinds, viewRows, useTableViews,
+} from './tableView';
+import { formatXPath, XPathStyle, ancestorPaths, nodeAtOffset, sourceRangeOf } from './paths';
+import XPathQueryBar from './components/XPathQueryBar';
+import SearchPanel from './components/SearchPanel';
+import HistoryPanel from './components/HistoryPanel';
+import SavedViewsMenu from './components/SavedViewsMenu';
+import ExportMenu from './components/ExportMenu';
+import ConvertPanel from './components/ConvertPanel';
+import CompareView, { CompareGridProps } from './components/CompareView';
+import XsltWorkbench from './components/XsltWorkbench';
+import ValidationPanel, { ValidationReport, isSchemaFileName, readSchemaFiles } from './components/ValidationPanel';
+import InferencePanel from './components/InferencePanel';
+import StatisticsPanel from './components/StatisticsPanel';
+import TabBar, { TabInfo } from './components/TabBar';
+import TableColumnsMenu from './components/TableColumnsMenu';
+import SourceEditor, { SourceEditorHandle } from './components/SourceEditor';
+import { prettifyXML, minifyXML, FormatOptions, DEFAULT_FORMAT_OPTIONS, readFormatOptions } from './formatter';
+import { DiffKind } from './xmlDiff';
+import { Grammar, ValidationIssue, validateTree } from './validation';
+import { compileSchemas, SchemaFile } from './xsd';
+import { compileDtd } from './dtd';
+import { StoredWorkspace, loadWorkspace, saveWorkspace, newTabId, untitledName } from './workspace';
+import { SharedView, encodeSharedView, decodeSharedView, LONG_SHARE_LINK, MAX_SHARE_LINK } from './shareLink';
+import { XMLNode, XMLAttribute, XMLChildNode, XMLTextNode, XMLProcessingInstruction, ParseResult, ParseError, DoctypeDeclaration } from './types';
 
 // --- Context for Global Actions ---
-type ViewAction =
-  | { type: 'EXPAND_ALL'; id: number }
-  | { type: 'COLLAPSE_ALL'; id: number }
-  | { type: 'EXPAND_PATH'; path: string; id: number }
-  | { type: 'COLLAPSE_PATH'; path: string; id: number };
-
-const GridContext = React.createContext<{
-  viewAction: ViewAction | null;
+// GridContext, GridNode and NodeTable are exported for the grid's component tests (App.test.tsx)
+export const GridContext = React.createContext<{
+  expansion: ExpansionState;
+  showNamespaceDeclarations: boolean;
+  highlightedKeys: Set<string>;
+  activeHighlightKey: string | null;
+  // Highlight key of the element or attribute the source editor's caret is in
+  cursorKey: string | null;
+  // Compare mode: how each highlight key differs from the other document
+  diffMarks: Map<string, DiffKind>;
+  // Validation messages by highlight key, shown as markers on the offending cells
+  validationIssues: Map<string, string[]>;
+  // Column arrangement, sorting and filtering of the tables, by tableViewKey
+  tableViews: Record<string, TableView>;
+  editable: boolean;
   onCopyXPath: (path: string) => void;
+  onSetExpanded: (path: string, expanded: boolean) => void;
   onExpandPath: (path: string) => void;
   onCollapsePath: (path: string) => void;
+  onEdit: (op: EditOperation) => void;
+  // Selects the source of an element, attribute or child node given by its highlight key
+  onRevealSource: (key: string) => void;
+  onTableViewChange: (key: string, view: TableView) => void;
+  // Opens the statistics panel on an element or attribute path; tables offer it per column when set
+  onShowStatistics?: (path: string) => void;
 }>({
-  viewAction: null,
+  expansion: DEFAULT_EXPANSION,
+  showNamespaceDeclarations: false,
+  highlightedKeys: new Set(),
+  activeHighlightKey: null,
+  cursorKey: null,
+  diffMarks: new Map(),
+  validationIssues: new Map(),
+  tableViews: {},
+  editable: false,
   onCopyXPath: () => { },
+  onSetExpanded: () => { },
   onExpandPath: () => { },
   onCollapsePath: () => { },
+  onEdit: () => { },
+  onRevealSource: () => { },
+  onTableViewChange: () => { },
 });
 
-// --- Helper Types for Grouping ---
-interface GroupedNodes {
-  [tagName: string]: XMLNode[];
+// Query matches get a ring; the active match a stronger one. Cells also get a background tint.
+// The element or attribute under the source editor's caret gets a blue ring when it is not a match.
+// In compare mode, added, removed and changed nodes are outlined green, red and amber.
+const DIFF_CLASSES: Record<DiffKind, [string, string]> = {
+  added: ['ring-2 ring-green-500', 'bg-green-50 dark:bg-green-900/30'],
+  removed: ['ring-2 ring-red-500', 'bg-red-50 dark:bg-red-900/30'],
+  changed: ['ring-2 ring-amber-400', 'bg-amber-50 dark:bg-amber-900/30'],
+};
+
+const useHighlightClass = () => {
+  const { highlightedKeys, activeHighlightKey, cursorKey, diffMarks } = useContext(GridContext);
+  return (key: string, withBackground: boolean = true): string => {
+    if (key === activeHighlightKey) {
+      return `ring-2 ring-orange-500 ${withBackground ? 'bg-orange-100 dark:bg-orange-900/40' : ''}`;
+    }
+    if (highlightedKeys.has(key)) {
+      return `ring-2 ring-yellow-400 ${withBackground ? 'bg-yellow-50 dark:bg-yellow-900/30' : ''}`;
+    }
+    if (key === cursorKey) {
+      return `ring-2 ring-sky-500 ${withBackground ? 'bg-sky-50 dark:bg-sky-900/30' : ''}`;
+    }
+    const diffKind = diffMarks.get(key);
+    if (diffKind) {
+      const [ring, background] = DIFF_CLASSES[diffKind];
+      return `${ring} ${withBackground ? background : ''}`;
+    }
+    return '';
+  };
+};
+
+// A warning badge whose tooltip lists why the node with this highlight key is invalid
+const ValidationMarker: React.FC<{ issueKey: string }> = ({ issueKey }) => {
+  const { validationIssues } = useContext(GridContext);
+  const messages = validationIssues.get(issueKey);
+  if (!messages) return null;
+  return (
+    <span
+      className="inline-flex items-center justify-center shrink-0 ml-1 p-0.5 rounded-full bg-red-600 text-white align-middle cursor-help"
+      title={messages.join('\n')}
+    >
+      <AlertTriangle size={10} />
+    </span>
+  );
+};
+
+// --- Inline Editing ---
+interface EditableTextProps {
+  value: string;
+  onCommit: (value: string) => void;
+  placeholder?: string;
+  // Open straight into the input (used for new names); onClose fires once it is committed or cancelled
+  autoEdit?: boolean;
+  onClose?: () => void;
+  // Shown instead of the raw value while not editing
+  children?: React.ReactNode;
 }
 
+// Click to edit, Enter or blur commits, Esc cancels. Outside edit mode it renders just the value.
+const EditableText: React.FC<EditableTextProps> = ({ value, onCommit, placeholder, autoEdit = false, onClose, children }) => {
+  const { editable } = useContext(GridContext);
+  const [draft, setDraft] = useState<string | null>(autoEdit ? value : null);
+  // Esc unmounts the input, which may still fire a blur; only the first outcome counts
+  const settled = useRef(false);
+
+  if (!editable) return <>{children ?? value}</>;
+
+  if (draft === null) {
+    return (
+      <span
+        onClick={(e) => { e.stopPropagation(); settled.current = false; setDraft(value); }}
+        className="cursor-text border-b border-dashed border-blue-400/60 min-w-[1.5em] inline-block"
+        title="Click to edit"
+      >
+        {children ?? (value || <span className="italic opacity-50">{placeholder}</span>)}
+      </span>
+    );
+  }
+
+  const finish = (commit: boolean) => {
+    if (settled.current) return;
+    settled.current = true;
+    if (commit && draft !== value) onCommit(draft);
+    setDraft(null);
+    onClose?.();
+  };
+
+  return (
+    <input
+      autoFocus
+      value={draft}
+      placeholder={placeholder}
+      size={Math.max(6, draft.length + 1)}
+      onChange={(e) => setDraft(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') finish(true);
+        else if (e.key === 'Escape') finish(false);
+      }}
+      onBlur={() => finish(true)}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      className="px-1 font-mono text-xs font-normal text-gray-900 dark:text-gray-100 bg-white dark:bg-slate-900 border border-blue-500 rounded focus:outline-none"
+      spellCheck={false}
+    />
+  );
+};
+
+const EditActionButton: React.FC<{ title: string; onClick: () => void; children: React.ReactNode; className?: string }> = ({ title, onClick, children, className = '' }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onClick(); }}
+    className={`p-0.5 rounded hover:bg-black/15 dark:hover:bg-white/15 transition-colors shrink-0 ${className}`}
+    title={title}
+  >
+    {children}
+  </button>
+);
+
+// Whether a highlight key (element id, `${id}/@attr` or child node id) points into this subtree
+const subtreeContains = (node: XMLNode, key: string): boolean => {
+  const id = key.split('/@')[0];
+  const visit = (element: XMLNode): boolean =>
+    element.id === id || element.nodes.some(child => (child.type === 'element' ? visit(child) : child.id === id));
+  return visit(node);
+};
+
 // --- Custom Logo Component ---
 const AppLogo = () => (
   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64" className="w-8 h-8 shrink-0">
@@ -54,84 +263,184 @@ const AppLogo = () => (
   </svg>
 );
 
-// --- Table View Component for Repeated Nodes ---
-interface NodeTableProps {
-  nodes: XMLNode[];
-  tagName: string;
-  parentPath: string;
-  depth: number;
+// --- Formatting Options Popover ---
+interface FormatOptionsMenuProps {
+  options: FormatOptions;
+  onChange: (options: FormatOptions) => void;
+  onClose: () => void;
 }
 
-const NodeTable: React.FC<NodeTableProps> = ({ nodes, tagName, parentPath, depth }) => {
-  const { viewAction, onCopyXPath, onExpandPath, onCollapsePath } = useContext(GridContext);
-  const tablePath = `${parentPath}/${tagName}`;
-
-  const [isExpanded, setIsExpanded] = useState(() => {
-    if (viewAction?.type === 'COLLAPSE_ALL') return false;
-    if (viewAction?.type === 'EXPAND_ALL') return true;
-    return depth < 1;
-  });
-
-  const [isRecursivelyExpanded, setIsRecursivelyExpanded] = useState(false);
+const FormatOptionsMenu: React.FC<FormatOptionsMenuProps> = ({ options, onChange, onClose }) => {
+  const update = (patch: Partial<FormatOptions>) => onChange({ ...options, ...patch });
+  const selectClass = "w-full mt-0.5 px-1.5 py-1 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded text-xs";
 
-  useEffect(() => {
-    if (!viewAction) return;
-    if (viewAction.type === 'EXPAND_ALL') {
-      setIsExpanded(true);
-      setIsRecursivelyExpanded(true);
-    }
-    if (viewAction.type === 'COLLAPSE_ALL') {
-      setIsExpanded(false);
-      setIsRecursivelyExpanded(false);
-    }
-
-    if (viewAction.type === 'EXPAND_PATH') {
-      if (tablePath.startsWith(viewAction.path)) {
-        setIsExpanded(true);
-        if (tablePath === viewAction.path) setIsRecursivelyExpanded(true);
-      }
-    }
+  return (
+    <>
+      <div className="fixed inset-0 z-30" onClick={onClose} />
+      <div className="absolute left-0 top-full mt-1 z-40 w-60 p-3 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-lg shadow-xl flex flex-col gap-2 text-xs text-gray-700 dark:text-gray-200">
+        <label>
+          Indentation
+          <select
+            className={selectClass}
+            value={String(options.indent)}
+            onChange={(e) => update({ indent: e.target.value === 'tab' ? 'tab' : Number(e.target.value) })}
+          >
+            <option value="2">2 spaces</option>
+            <option value="4">4 spaces</option>
+            <option value="tab">Tabs</option>
+          </select>
+        </label>
+        <label>
+          Line endings
+          <select
+            className={selectClass}
+            value={options.newline}
+            onChange={(e) => update({ newline: e.target.value as FormatOptions['newline'] })}
+          >
+            <option value="lf">LF (Unix)</option>
+            <option value="crlf">CRLF (Windows)</option>
+          </select>
+        </label>
+        <label>
+          Empty elements
+          <select
+            className={selectClass}
+            value={options.selfClosing}
+            onChange={(e) => update({ selfClosing: e.target.value as FormatOptions['selfClosing'] })}
+          >
+            <option value="preserve">Keep as written</option>
+            <option value="collapse">Self-closing &lt;a/&gt;</option>
+            <option value="expand">Open/close &lt;a&gt;&lt;/a&gt;</option>
+          </select>
+        </label>
+        <label>
+          Wrap attributes past column
+          <input
+            type="number"
+            min={0}
+            className={selectClass}
+            value={options.maxLineWidth}
+            onChange={(e) => update({ maxLineWidth: Math.max(0, Number(e.target.value) || 0) })}
+            title="0 keeps every start tag on one line"
+          />
+        </label>
+        <label className="flex items-center gap-2 mt-1">
+          <input
+            type="checkbox"
+            checked={options.preserveSpace}
+            onChange={(e) => update({ preserveSpace: e.target.checked })}
+          />
+          Keep xml:space="preserve" as written
+        </label>
+      </div>
+    </>
+  );
+};
 
-    if (viewAction.type === 'COLLAPSE_PATH') {
-      if (tablePath.startsWith(viewAction.path) && tablePath !== viewAction.path) {
-        setIsExpanded(false);
-      }
-      if (tablePath.startsWith(viewAction.path)) {
-        setIsRecursivelyExpanded(false);
-      }
-    }
-  }, [viewAction, tablePath]);
+// --- Table View Component for Repeated Nodes ---
+interface NodeTableProps {
+  table: GridTable;
+  // The element rows are added to; null when the rows have different parents
+  parentId: string | null;
+  depth: number;
+}
 
-  const columns = useMemo(() => {
-    const attrKeys = new Set<string>();
-    const childKeys = new Set<string>();
+// Dates and booleans stand out from plain text; numbers line up digit by digit
+const TypedValue: React.FC<{ value: string }> = ({ value }) => {
+  switch (valueKind(value)) {
+    case 'number':
+      return <span className="tabular-nums">{value}</span>;
+    case 'date':
+      return <span className="tabular-nums text-violet-700 dark:text-violet-300">{value}</span>;
+    case 'boolean':
+      return (
+        <span className={`px-1 rounded text-[10px] font-semibold uppercase ${value.trim() === 'true' ? 'bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300' : 'bg-gray-200 dark:bg-slate-600 text-gray-600 dark:text-gray-300'}`}>
+          {value}
+        </span>
+      );
+    default:
+      return <>{value}</>;
+  }
+};
 
-    nodes.forEach(node => {
-      node.attributes.forEach(attr => attrKeys.add(attr.name));
-      node.children.forEach(child => childKeys.add(child.name));
+export const NodeTable: React.FC<NodeTableProps> = ({ table, parentId, depth }) => {
+  const { expansion, showNamespaceDeclarations, editable, activeHighlightKey, cursorKey, tableViews, onCopyXPath, onSetExpanded, onExpandPath, onCollapsePath, onEdit, onRevealSource, onTableViewChange, onShowStatistics } = useContext(GridContext);
+  const highlightClass = useHighlightClass();
+  const { tablePath, groupPath, caption, tagName, rows: nodes, paths, keyColumns } = table;
+  const viewKey = tableViewKey(table.viewPath);
+  const view = tableViews[viewKey] ?? DEFAULT_TABLE_VIEW;
+  const updateView = (patch: Partial<TableView>) => onTableViewChange(viewKey, { ...view, ...patch });
+  // The grouping is set on the group, which a table split off by attribute is only part of
+  const groupKey = tableViewKey(groupPath);
+  const groupView = tableViews[groupKey] ?? DEFAULT_TABLE_VIEW;
+
+  const isExpanded = tablePath !== groupPath && expansion.nodes[tablePath] !== undefined
+    ? expansion.nodes[tablePath]
+    : isPathExpanded(expansion, groupPath, depth);
+  const isRecursivelyExpanded = isPathRecursivelyExpanded(expansion, tablePath);
+
+  const allColumns = useMemo(
+    () => orderColumns([
+      ...keyColumns.map(column => column.name),
+      ...columnKeys(tableColumns(nodes, showNamespaceDeclarations, view.columnOrder)),
+    ], view),
+    [nodes, keyColumns, showNamespaceDeclarations, view]
+  );
+  const columns = allColumns.filter(column => !view.hidden.includes(column));
+  const pinnedCount = columns.filter(column => view.pinned.includes(column)).length;
+  const keyCells = useMemo(() => new Map(keyColumns.map(column => [column.name, column.cells])), [keyColumns]);
+  const kinds = useMemo(() => columnKinds(nodes, allColumns, keyColumns), [nodes, allColumns, keyColumns]);
+  // Indexes into nodes of the rows shown, filtered and sorted
+  const rowOrder = useMemo(() => viewRows(nodes, view, kinds, keyColumns), [nodes, view, kinds, keyColumns]);
+
+  const rows = useWindowedList<HTMLTableSectionElement>(rowOrder.length, isExpanded);
+  const [exportAnchor, setExportAnchor] = useState<DOMRect | null>(null);
+  const [columnsAnchor, setColumnsAnchor] = useState<DOMRect | null>(null);
+  const [showFilters, setShowFilters] = useState(() => Object.keys(view.filters).length > 0);
+
+  // A match in a row outside the rendered window has to be mounted before it can be scrolled to
+  const mountRowContaining = (key: string | null) => {
+    if (!rows.enabled || !key) return;
+    const index = rowOrder.findIndex(nodeIndex => subtreeContains(nodes[nodeIndex], key));
+    if (index !== -1 && (index < rows.start || index >= rows.end)) rows.scrollToIndex(index);
+  };
+  useEffect(() => mountRowContaining(activeHighlightKey), [activeHighlightKey, rows.enabled, rowOrder]);
+  useEffect(() => mountRowContaining(cursorKey), [cursorKey, rows.enabled, rowOrder]);
+
+  // Pinned columns stick at the summed widths of the pinned columns before them
+  const headerRow = useRef<HTMLTableRowElement>(null);
+  const [pinOffsets, setPinOffsets] = useState<number[]>([]);
+  useLayoutEffect(() => {
+    const cells = headerRow.current ? Array.from(headerRow.current.cells).slice(0, pinnedCount) : [];
+    let left = 0;
+    const offsets = cells.map(cell => {
+      const offset = left;
+      left += cell.offsetWidth;
+      return offset;
     });
+    setPinOffsets(current => (current.join() === offsets.join() ? current : offsets));
+  });
+  const pinStyle = (columnIndex: number): React.CSSProperties | undefined =>
+    columnIndex < pinnedCount ? { position: 'sticky', left: pinOffsets[columnIndex] ?? 0, zIndex: 1 } : undefined;
+  const pinClass = (columnIndex: number) =>
+    columnIndex < pinnedCount ? `bg-white dark:bg-slate-800 ${columnIndex === pinnedCount - 1 ? 'shadow-[1px_0_0_0_rgba(0,0,0,0.15)]' : ''}` : '';
+
+  const setFilter = (column: string, text: string) => {
+    const { [column]: _previous, ...filters } = view.filters;
+    updateView({ filters: text ? { ...filters, [column]: text } : filters });
+  };
 
-    return {
-      attributes: Array.from(attrKeys).sort(),
-      children: Array.from(childKeys).sort(),
-    };
-  }, [nodes]);
+  const columnCount = columns.length + (editable ? 1 : 0);
 
   const toggleExpand = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsExpanded(!isExpanded);
+    onSetExpanded(tablePath, !isExpanded);
   };
 
   const handleRecursiveToggle = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (isRecursivelyExpanded) {
-      onCollapsePath(tablePath);
-      setIsRecursivelyExpanded(false);
-    } else {
-      setIsExpanded(true);
-      onExpandPath(tablePath);
-      setIsRecursivelyExpanded(true);
-    }
+    if (isRecursivelyExpanded) onCollapsePath(tablePath);
+    else onExpandPath(tablePath);
   };
 
   const handleValueDoubleClick = (e: React.MouseEvent, path: string) => {
@@ -139,6 +448,9 @@ const NodeTable: React.FC<NodeTableProps> = ({ nodes, tagName, parentPath, depth
     onCopyXPath(path);
   };
 
+  const headerButtonClass = "ml-1 p-0.5 rounded hover:bg-gray-300 dark:hover:bg-slate-600 text-gray-400 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors shrink-0";
+  const isFiltered = Object.keys(view.filters).length > 0;
+
   return (
     <div className="border border-gray-300 dark:border-slate-600 shadow-sm m-1 bg-white dark:bg-slate-800 flex flex-col overflow-hidden w-max">
       {/* Table Header */}
@@ -150,7 +462,9 @@ const NodeTable: React.FC<NodeTableProps> = ({ nodes, tagName, parentPath, depth
           {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
         </span>
         <span className="font-bold text-gray-900 dark:text-gray-100 tracking-wide">
-          {tagName} <span className="text-gray-500 dark:text-gray-400 font-normal">({nodes.length})</span>
+          {caption} <span className="text-gray-500 dark:text-gray-400 font-normal">
+            ({rowOrder.length === nodes.length ? nodes.length : `${rowOrder.length} of ${nodes.length}`})
+          </span>
         </span>
 
         {/* Recursive Expand/Collapse Button for Table */}
@@ -161,6 +475,72 @@ const NodeTable: React.FC<NodeTableProps> = ({ nodes, tagName, parentPath, depth
         >
           {isRecursivelyExpanded ? <ChevronsUp size={14} /> : <ChevronsDown size={14} />}
         </button>
+
+        <button
+          onClick={(e) => { e.stopPropagation(); setExportAnchor(e.currentTarget.getBoundingClientRect()); }}
+          className={`${headerButtonClass} ${exportAnchor ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          title={`Export the ${tagName} table`}
+        >
+          <FileDown size={14} />
+        </button>
+        {exportAnchor && (
+          <ExportMenu
+            name={tagName}
+            elements={rowOrder.map(nodeIndex => nodes[nodeIndex])}
+            keyColumns={keyColumns.map(column => ({ name: column.name, values: rowOrder.map(nodeIndex => column.cells[nodeIndex]?.value ?? '') }))}
+            columns={columns}
+            includeNamespaceDeclarations={showNamespaceDeclarations}
+            anchor={exportAnchor}
+            onClose={() => setExportAnchor(null)}
+          />
+        )}
+
+        <button
+          onClick={(e) => { e.stopPropagation(); setColumnsAnchor(e.currentTarget.getBoundingClientRect()); }}
+          className={`${headerButtonClass} ${columnsAnchor || view.hidden.length || view.pinned.length ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          title={`Group and arrange the ${caption} table`}
+        >
+          <SlidersHorizontal size={14} />
+        </button>
+        {columnsAnchor && (
+          <TableColumnsMenu
+            name={caption}
+            columns={allColumns}
+            view={view}
+            onChange={(next) => onTableViewChange(viewKey, next)}
+            grouping={groupView.grouping}
+            groupName={groupPath.slice(groupPath.lastIndexOf('/') + 1)}
+            discriminators={discriminatorCandidates(table.members, showNamespaceDeclarations)}
+            descendants={flattenCandidates(table.members)}
+            onGroupingChange={(grouping) => onTableViewChange(groupKey, { ...groupView, grouping })}
+            onShowStatistics={onShowStatistics && ((column) => onShowStatistics(
+              // Key columns are named from the group's parent down (order/@id)
+              keyColumns.some(key => key.name === column)
+                ? `${groupKey.slice(0, groupKey.lastIndexOf('/'))}/${column}`
+                : `${viewKey}/${column}`
+            ))}
+            anchor={columnsAnchor}
+            onClose={() => setColumnsAnchor(null)}
+          />
+        )}
+
+        <button
+          onClick={(e) => { e.stopPropagation(); if (!showFilters) onSetExpanded(tablePath, true); setShowFilters(!showFilters); }}
+          className={`${headerButtonClass} ${showFilters || isFiltered ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} ${isFiltered ? 'text-blue-600 dark:text-blue-400' : ''}`}
+          title={showFilters ? 'Hide the filters' : `Filter the ${tagName} rows`}
+        >
+          <Filter size={14} />
+        </button>
+
+        {editable && parentId && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onSetExpanded(tablePath, true); onEdit({ type: 'addRow', parentId, tagName }); }}
+            className="ml-auto pl-3 flex items-center gap-0.5 text-xs font-normal text-blue-600 dark:text-blue-400 hover:underline"
+            title={`Append an empty ${tagName} shaped like the last row`}
+          >
+            <Plus size={12} /> Row
+          </button>
+        )}
       </div>
 
       {/* Table Body */}
@@ -168,47 +548,148 @@ const NodeTable: React.FC<NodeTableProps> = ({ nodes, tagName, parentPath, depth
         <div className="overflow-x-auto custom-scrollbar bg-white dark:bg-slate-800">
           <table className="border-collapse w-full text-xs text-left">
             <thead>
-              <tr className="bg-white dark:bg-slate-800 border-b border-gray-200 dark:border-slate-600">
-                {columns.attributes.map(attr => (
-                  <th key={`head-attr-${attr}`} className="p-2 border-r border-gray-200 dark:border-slate-600 font-bold text-amber-800 dark:text-amber-300 whitespace-nowrap bg-amber-50 dark:bg-amber-900/30">
-                    @{attr}
-                  </th>
-                ))}
-                {columns.children.map(child => (
-                  <th key={`head-child-${child}`} className="p-2 border-r border-gray-200 dark:border-slate-600 font-bold text-green-800 dark:text-green-300 whitespace-nowrap">
-                    {child}
-                  </th>
-                ))}
+              <tr ref={headerRow} className="bg-white dark:bg-slate-800 border-b border-gray-200 dark:border-slate-600">
+                {columns.map((column, columnIndex) => {
+                  const sorted = view.sort?.column === column ? view.sort.direction : null;
+                  const colorClass = keyCells.has(column)
+                    ? `text-slate-600 dark:text-slate-300 ${columnIndex < pinnedCount ? 'bg-slate-100 dark:bg-slate-800' : 'bg-slate-100 dark:bg-slate-700/60'}`
+                    : column.startsWith('@')
+                      ? `text-amber-800 dark:text-amber-300 ${columnIndex < pinnedCount ? 'bg-amber-50 dark:bg-slate-800' : 'bg-amber-50 dark:bg-amber-900/30'}`
+                      : `text-green-800 dark:text-green-300 ${pinClass(columnIndex)}`;
+                  return (
+                    <th
+                      key={`head-${column}`}
+                      style={pinStyle(columnIndex)}
+                      aria-sort={sorted === 'asc' ? 'ascending' : sorted === 'desc' ? 'descending' : undefined}
+                      onClick={(e) => { e.stopPropagation(); updateView({ sort: nextSort(view.sort, column) }); }}
+                      className={`p-2 border-r border-gray-200 dark:border-slate-600 font-bold whitespace-nowrap cursor-pointer select-none hover:underline ${kinds.get(column) === 'number' ? 'text-right' : ''} ${colorClass}`}
+                      title={sorted === 'desc' ? 'Back to document order' : `Sort by ${column}${sorted ? ', descending' : ''}`}
+                    >
+                      {columnIndex < pinnedCount && <Pin size={10} className="inline mr-1 opacity-60" />}
+                      {column}
+                      {sorted === 'asc' && <ArrowUp size={10} className="inline ml-1" />}
+                      {sorted === 'desc' && <ArrowDown size={10} className="inline ml-1" />}
+                    </th>
+                  );
+                })}
+                {editable && <th className="p-2" />}
               </tr>
+              {showFilters && (
+                <tr className="border-b border-gray-200 dark:border-slate-600">
+                  {columns.map((column, columnIndex) => (
+                    <th key={`filter-${column}`} style={pinStyle(columnIndex)} className={`px-1 py-0.5 border-r border-gray-200 dark:border-slate-600 font-normal ${pinClass(columnIndex) || 'bg-white dark:bg-slate-800'}`}>
+                      <input
+                        value={view.filters[column] ?? ''}
+                        onChange={(e) => setFilter(column, e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        placeholder="Filter"
+                        aria-label={`Filter ${column}`}
+                        title={kinds.get(column) === 'number' || kinds.get(column) === 'date'
+                          ? 'Text to look for, or a comparison such as > 10'
+                          : 'Text to look for'}
+                        className="w-full min-w-[60px] px-1 py-0.5 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded font-mono text-xs"
+                        spellCheck={false}
+                      />
+                    </th>
+                  ))}
+                  {editable && <th />}
+                </tr>
+              )}
             </thead>
-            <tbody>
-              {nodes.map((node, nodeIndex) => {
-                const rowPath = `${parentPath}/${tagName}[${nodeIndex + 1}]`;
+            <tbody ref={rows.containerRef}>
+              {rows.paddingTop > 0 && (
+                <tr data-spacer="true" style={{ height: rows.paddingTop }}><td colSpan={columnCount} /></tr>
+              )}
+              {rowOrder.slice(rows.start, rows.end).map(nodeIndex => {
+                const node = nodes[nodeIndex];
+                const rowPath = paths[nodeIndex];
 
                 return (
-                  <tr key={node.id} className="border-b border-gray-100 dark:border-slate-700 last:border-0 hover:bg-gray-50 dark:hover:bg-slate-700/50">
-                    {columns.attributes.map(attrKey => {
-                      const attr = node.attributes.find(a => a.name === attrKey);
-                      const attrPath = `${rowPath}/@${attrKey}`;
-                      return (
-                        <td
-                          key={`${node.id}-attr-${attrKey}`}
-                          className="p-2 border-r border-gray-100 dark:border-slate-700 align-top text-gray-900 dark:text-gray-200 whitespace-nowrap hover:bg-blue-50 dark:hover:bg-slate-600 cursor-copy"
-                          title={attr ? `XPath: ${attrPath} (Double-click to copy)` : ''}
-                          onDoubleClick={(e) => attr && handleValueDoubleClick(e, attrPath)}
-                        >
-                          {attr ? attr.value : ''}
-                        </td>
-                      );
-                    })}
-
-                    {columns.children.map(childKey => {
+                  <tr
+                    key={node.id}
+                    data-highlight-key={node.id}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRevealSource(node.id);
+                    }}
+                    className={`border-b border-gray-100 dark:border-slate-700 last:border-0 hover:bg-gray-50 dark:hover:bg-slate-700/50 ${highlightClass(node.id)}`}
+                  >
+                    {columns.map((column, columnIndex) => {
+                      const alignClass = kinds.get(column) === 'number' ? 'text-right' : '';
+                      // Issues with the row element itself are marked in its first cell
+                      const rowMarker = columnIndex === 0 && <ValidationMarker issueKey={node.id} />;
+
+                      // A value from the row's ancestors in a flattened table
+                      const keyColumn = keyCells.get(column);
+                      if (keyColumn) {
+                        const cell = keyColumn[nodeIndex];
+                        return (
+                          <td
+                            key={`${node.id}-key-${column}`}
+                            data-highlight-key={cell?.key}
+                            style={pinStyle(columnIndex)}
+                            className={`p-2 border-r border-gray-100 dark:border-slate-700 align-top text-slate-600 dark:text-slate-300 whitespace-nowrap cursor-copy ${alignClass} ${pinClass(columnIndex) || 'bg-slate-50 dark:bg-slate-800/60'} ${cell ? highlightClass(cell.key) : ''}`}
+                            title={cell ? `XPath: ${cell.path} (Double-click to copy)` : ''}
+                            onDoubleClick={(e) => cell && handleValueDoubleClick(e, cell.path)}
+                            onClick={(e) => {
+                              if (!cell) return;
+                              e.stopPropagation();
+                              onRevealSource(cell.key);
+                            }}
+                          >
+                            {rowMarker}
+                            {cell && <TypedValue value={cell.value} />}
+                          </td>
+                        );
+                      }
+
+                      if (column.startsWith('@')) {
+                        const attrKey = column.slice(1);
+                        const attr = node.attributes.find(a => a.name === attrKey);
+                        const attrPath = `${rowPath}/@${attrKey}`;
+                        return (
+                          <td
+                            key={`${node.id}-attr-${attrKey}`}
+                            data-highlight-key={`${node.id}/@${attrKey}`}
+                            style={pinStyle(columnIndex)}
+                            className={`p-2 border-r border-gray-100 dark:border-slate-700 align-top text-gray-900 dark:text-gray-200 whitespace-nowrap hover:bg-blue-50 dark:hover:bg-slate-600 cursor-copy ${alignClass} ${pinClass(columnIndex)} ${highlightClass(`${node.id}/@${attrKey}`)}`}
+                            title={attr ? `XPath: ${attrPath} (Double-click to copy)` : ''}
+                            onDoubleClick={(e) => attr && handleValueDoubleClick(e, attrPath)}
+                            onClick={(e) => {
+                              if (!attr) return;
+                              e.stopPropagation();
+                              onRevealSource(`${node.id}/@${attrKey}`);
+                            }}
+                          >
+                            {rowMarker}
+                            <EditableText
+                              value={attr ? attr.value : ''}
+                              onCommit={(value) => onEdit({ type: 'setAttribute', id: node.id, name: attrKey, value })}
+                            >
+                              {attr && <TypedValue value={attr.value} />}
+                            </EditableText>
+                            <ValidationMarker issueKey={`${node.id}/@${attrKey}`} />
+                          </td>
+                        );
+                      }
+
+                      const childKey = column;
                       const matches = node.children.filter(c => c.name === childKey);
 
                       return (
-                        <td key={`${node.id}-child-${childKey}`} className="p-1 border-r border-gray-100 dark:border-slate-700 align-top min-w-[80px]">
+                        <td
+                          key={`${node.id}-child-${childKey}`}
+                          style={pinStyle(columnIndex)}
+                          className={`p-1 border-r border-gray-100 dark:border-slate-700 align-top min-w-[80px] ${alignClass} ${pinClass(columnIndex)}`}
+                        >
+                          {rowMarker}
                           {matches.length === 0 ? (
-                            <span className="text-gray-300 dark:text-slate-600">-</span>
+                            <EditableText
+                              value=""
+                              onCommit={(value) => onEdit({ type: 'insertChild', parentId: node.id, name: childKey, value })}
+                            >
+                              <span className="text-gray-300 dark:text-slate-600">-</span>
+                            </EditableText>
                           ) : (
                             <div className="flex flex-col gap-1">
                               {matches.map((match, matchIdx) => {
@@ -219,14 +700,24 @@ const NodeTable: React.FC<NodeTableProps> = ({ nodes, tagName, parentPath, depth
                                   : `${rowPath}/${childKey}`;
 
                                 if (isLeaf) {
+                                  // A leaf cell stands for the element and its text, so either can be the match
+                                  const textNode = match.nodes.find(n => n.type === 'text' || n.type === 'cdata');
+                                  const leafKey = textNode && !highlightClass(match.id) ? textNode.id : match.id;
                                   return (
                                     <div
                                       key={match.id}
-                                      className="truncate max-w-[200px] text-gray-900 dark:text-gray-200 font-medium hover:bg-blue-50 dark:hover:bg-slate-600 cursor-copy p-0.5 rounded"
+                                      data-highlight-key={leafKey}
+                                      className={`truncate max-w-[200px] text-gray-900 dark:text-gray-200 font-medium hover:bg-blue-50 dark:hover:bg-slate-600 cursor-copy p-0.5 rounded ${highlightClass(leafKey)}`}
                                       title={`XPath: ${childPath} (Double-click to copy)\nValue: ${match.content}`}
                                       onDoubleClick={(e) => handleValueDoubleClick(e, childPath)}
                                     >
-                                      {match.content}
+                                      <EditableText
+                                        value={match.content || ''}
+                                        onCommit={(value) => onEdit({ type: 'setText', id: match.id, value })}
+                                      >
+                                        {match.content && <TypedValue value={match.content} />}
+                                      </EditableText>
+                                      <ValidationMarker issueKey={match.id} />
                                     </div>
                                   );
                                 } else {
@@ -238,9 +729,21 @@ const NodeTable: React.FC<NodeTableProps> = ({ nodes, tagName, parentPath, depth
                         </td>
                       );
                     })}
+
+                    {editable && (
+                      <td className="p-1 align-top whitespace-nowrap text-gray-500 dark:text-gray-400">
+                        <EditActionButton title="Duplicate row" onClick={() => onEdit({ type: 'duplicate', id: node.id })}><CopyPlus size={12} /></EditActionButton>
+                        <EditActionButton title="Move up" onClick={() => onEdit({ type: 'move', id: node.id, direction: -1 })}><ArrowUp size={12} /></EditActionButton>
+                        <EditActionButton title="Move down" onClick={() => onEdit({ type: 'move', id: node.id, direction: 1 })}><ArrowDown size={12} /></EditActionButton>
+                        <EditActionButton title="Delete row" onClick={() => onEdit({ type: 'remove', id: node.id })} className="hover:text-red-600"><Trash2 size={12} /></EditActionButton>
+                      </td>
+                    )}
                   </tr>
                 );
               })}
+              {rows.paddingBottom > 0 && (
+                <tr data-spacer="true" style={{ height: rows.paddingBottom }}><td colSpan={columnCount} /></tr>
+              )}
             </tbody>
           </table>
         </div>
@@ -249,6 +752,81 @@ const NodeTable: React.FC<NodeTableProps> = ({ nodes, tagName, parentPath, depth
   );
 };
 
+// --- Non-element Child Nodes (text, CDATA, comments, processing instructions) ---
+interface MiscNodeViewProps {
+  node: XMLTextNode | XMLProcessingInstruction;
+  path: string;
+}
+
+const MiscNodeView: React.FC<MiscNodeViewProps> = ({ node, path }) => {
+  const { onCopyXPath, onEdit, onRevealSource } = useContext(GridContext);
+  const highlightClass = useHighlightClass();
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onCopyXPath(path);
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onRevealSource(node.id);
+  };
+
+  if (node.type === 'comment') {
+    return (
+      <div
+        data-highlight-key={node.id}
+        className={`px-2 py-1 m-1 font-mono text-xs italic text-gray-500 dark:text-slate-400 whitespace-pre cursor-copy hover:bg-gray-100 dark:hover:bg-slate-700 rounded ${highlightClass(node.id)}`}
+        title={`XPath: ${path} (Double-click to copy)`}
+        onDoubleClick={handleDoubleClick}
+        onClick={handleClick}
+      >
+        {'<!--'}
+        <EditableText value={node.value} onCommit={(value) => onEdit({ type: 'setText', id: node.id, value })} />
+        {'-->'}
+      </div>
+    );
+  }
+
+  if (node.type === 'pi') {
+    return (
+      <div
+        data-highlight-key={node.id}
+        className={`px-2 py-1 m-1 font-mono text-xs text-violet-700 dark:text-violet-300 whitespace-nowrap cursor-copy hover:bg-violet-50 dark:hover:bg-slate-700 rounded ${highlightClass(node.id)}`}
+        title={`XPath: ${path} (Double-click to copy)`}
+        onDoubleClick={handleDoubleClick}
+        onClick={handleClick}
+      >
+        {`<?${node.target}${node.value ? ' ' + node.value : ''}?>`}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      data-highlight-key={node.id}
+      className={`p-2 text-gray-900 dark:text-gray-100 font-mono whitespace-nowrap bg-gray-50 dark:bg-slate-700 border border-gray-100 dark:border-slate-600 m-1 min-w-[50px] hover:bg-blue-50 dark:hover:bg-slate-600 cursor-copy transition-colors flex items-center gap-2 ${highlightClass(node.id)}`}
+      title={`XPath: ${path} (Double-click to copy)`}
+      onDoubleClick={handleDoubleClick}
+      onClick={handleClick}
+    >
+      {node.type === 'cdata' && (
+        <span className="text-[10px] font-sans font-semibold uppercase px-1 rounded bg-sky-100 dark:bg-sky-900/50 text-sky-700 dark:text-sky-300">
+          CDATA
+        </span>
+      )}
+      <EditableText value={node.value.trim()} onCommit={(value) => onEdit({ type: 'setText', id: node.id, value })} />
+    </div>
+  );
+};
+
+// XPath of a comment or PI that sits next to the root element
+const documentLevelPath = (child: XMLTextNode | XMLProcessingInstruction, preceding: XMLChildNode[]): string => {
+  const kind = child.type === 'pi' ? 'processing-instruction()' : 'comment()';
+  const index = preceding.filter(n => n.type === child.type).length + 1;
+  return `/${kind}[${index}]`;
+};
+
 // --- Recursive Grid Node Component ---
 interface GridNodeProps {
   node: XMLNode;
@@ -256,46 +834,69 @@ interface GridNodeProps {
   path?: string;
 }
 
-const GridNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
-  const { viewAction, onCopyXPath, onExpandPath, onCollapsePath } = useContext(GridContext);
+interface ElementGroupProps {
+  tagName: string;
+  nodes: XMLNode[];
+  // Grid path of each node
+  paths: string[];
+  parentId: string | null;
+  parentPath: string;
+  depth: number;
+  // Set for the document root, which is rendered without an explicit path
+  isRoot?: boolean;
+}
 
-  const currentPath = path || `/${node.name}`;
+// Same-named siblings, shown as tables or as a single node as the grouping set on their path says
+const ElementGroup: React.FC<ElementGroupProps> = ({ tagName, nodes, paths, parentId, parentPath, depth, isRoot = false }) => {
+  const { tableViews, showNamespaceDeclarations } = useContext(GridContext);
+  const grouping = (tableViews[tableViewKey(`${parentPath}/${tagName}`)] ?? DEFAULT_TABLE_VIEW).grouping;
+  const tables = useMemo(
+    () => groupTables(tagName, nodes, paths, parentPath, grouping, showNamespaceDeclarations),
+    [tagName, nodes, paths, parentPath, grouping, showNamespaceDeclarations]
+  );
 
-  const [isExpanded, setIsExpanded] = useState(() => {
-    if (viewAction?.type === 'COLLAPSE_ALL') return false;
-    if (viewAction?.type === 'EXPAND_ALL') return true;
-    return depth < 1;
-  });
+  if (!tables) return <ElementNode node={nodes[0]} depth={depth} path={isRoot ? undefined : paths[0]} />;
+  return (
+    <>
+      {tables.map(table => (
+        <NodeTable key={table.tablePath} table={table} parentId={table.keyColumns.length ? null : parentId} depth={depth} />
+      ))}
+    </>
+  );
+};
 
-  const [isRecursivelyExpanded, setIsRecursivelyExpanded] = useState(false);
+// An element on its own: the document root, a child that is not repeated, or a nested cell value.
+// Its grouping can still make it a table.
+export const GridNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
+  const currentPath = path || `/${node.name}`;
+  const parentPath = currentPath.slice(0, currentPath.lastIndexOf('/'));
+  const parentId = node.id.slice(0, node.id.lastIndexOf('/')) || null;
+  const nodes = useMemo(() => [node], [node]);
+  const paths = useMemo(() => [currentPath], [currentPath]);
+  return (
+    <ElementGroup
+      tagName={node.name}
+      nodes={nodes}
+      paths={paths}
+      parentId={parentId}
+      parentPath={parentPath}
+      depth={depth}
+      isRoot={path === undefined}
+    />
+  );
+};
 
-  useEffect(() => {
-    if (!viewAction) return;
-    if (viewAction.type === 'EXPAND_ALL') {
-      setIsExpanded(true);
-      setIsRecursivelyExpanded(true);
-    }
-    if (viewAction.type === 'COLLAPSE_ALL') {
-      setIsExpanded(false);
-      setIsRecursivelyExpanded(false);
-    }
+const ElementNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
+  const { expansion, showNamespaceDeclarations, editable, activeHighlightKey, cursorKey, tableViews, onCopyXPath, onSetExpanded, onExpandPath, onCollapsePath, onEdit, onRevealSource, onTableViewChange } = useContext(GridContext);
+  const highlightClass = useHighlightClass();
 
-    if (viewAction.type === 'EXPAND_PATH') {
-      if (currentPath.startsWith(viewAction.path)) {
-        setIsExpanded(true);
-        if (currentPath === viewAction.path) setIsRecursivelyExpanded(true);
-      }
-    }
+  const currentPath = path || `/${node.name}`;
+  // Only the document root is rendered without an explicit path
+  const isRoot = path === undefined;
+  const [adding, setAdding] = useState<'attribute' | 'child' | null>(null);
 
-    if (viewAction.type === 'COLLAPSE_PATH') {
-      if (currentPath.startsWith(viewAction.path) && currentPath !== viewAction.path) {
-        setIsExpanded(false);
-      }
-      if (currentPath.startsWith(viewAction.path)) {
-        setIsRecursivelyExpanded(false);
-      }
-    }
-  }, [viewAction, currentPath]);
+  const isExpanded = isPathExpanded(expansion, currentPath, depth);
+  const isRecursivelyExpanded = isPathRecursivelyExpanded(expansion, currentPath);
 
   const headerColors = [
     'bg-blue-600 dark:bg-blue-700',
@@ -309,19 +910,14 @@ const GridNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
 
   const toggleExpand = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsExpanded(!isExpanded);
+    onSetExpanded(currentPath, !isExpanded);
+    onRevealSource(node.id);
   };
 
   const handleRecursiveToggle = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (isRecursivelyExpanded) {
-      onCollapsePath(currentPath);
-      setIsRecursivelyExpanded(false);
-    } else {
-      setIsExpanded(true);
-      onExpandPath(currentPath);
-      setIsRecursivelyExpanded(true);
-    }
+    if (isRecursivelyExpanded) onCollapsePath(currentPath);
+    else onExpandPath(currentPath);
   };
 
   const handleValueDoubleClick = (e: React.MouseEvent, targetPath: string) => {
@@ -329,23 +925,43 @@ const GridNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
     onCopyXPath(targetPath);
   };
 
-  const groupedChildren: GroupedNodes = useMemo(() => {
-    const groups: GroupedNodes = {};
-    node.children.forEach(child => {
-      if (!groups[child.name]) {
-        groups[child.name] = [];
-      }
-      groups[child.name].push(child);
-    });
-    return groups;
-  }, [node.children]);
+  const showAsTable = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const groupKey = tableViewKey(currentPath);
+    onTableViewChange(groupKey, { ...(tableViews[groupKey] ?? DEFAULT_TABLE_VIEW), grouping: { by: 'table' } });
+  };
 
-  const hasAttributes = node.attributes.length > 0;
+  const startAdding = (kind: 'attribute' | 'child') => {
+    onSetExpanded(currentPath, true);
+    setAdding(kind);
+  };
+
+  // Repeated tags are gathered at the position of their first occurrence
+  const items: ContentItem[] = useMemo(() => contentItems(node, currentPath), [node, currentPath]);
+
+  const siblings = useWindowedList<HTMLDivElement>(items.length, isExpanded);
+
+  const mountItemContaining = (key: string | null) => {
+    if (!siblings.enabled || !key) return;
+    const index = items.findIndex(item => (item.kind === 'misc'
+      ? item.node.id === key
+      : item.nodes.some(child => subtreeContains(child, key))));
+    if (index !== -1 && (index < siblings.start || index >= siblings.end)) siblings.scrollToIndex(index);
+  };
+  useEffect(() => mountItemContaining(activeHighlightKey), [activeHighlightKey, siblings.enabled]);
+  useEffect(() => mountItemContaining(cursorKey), [cursorKey, siblings.enabled]);
+
+  const visibleAttributes = showNamespaceDeclarations
+    ? node.attributes
+    : node.attributes.filter(attr => !isNamespaceDeclaration(attr));
+  const hasAttributes = visibleAttributes.length > 0;
   const hasChildren = node.children.length > 0;
-  const hasContent = node.content !== null && node.content !== '';
 
   return (
-    <div className="border border-gray-300 dark:border-slate-600 shadow-sm m-1 min-w-[120px] bg-white dark:bg-slate-800 text-sm overflow-hidden flex flex-col w-max">
+    <div
+      data-highlight-key={node.id}
+      className={`border border-gray-300 dark:border-slate-600 shadow-sm m-1 min-w-[120px] bg-white dark:bg-slate-800 text-sm overflow-hidden flex flex-col w-max ${highlightClass(node.id, false)}`}
+    >
       {/* Node Header */}
       <div
         onClick={toggleExpand}
@@ -356,7 +972,20 @@ const GridNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
           <span className="mr-1">
             {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
           </span>
-          <span className="font-bold tracking-wide">{node.name}</span>
+          {node.namespaceURI && (
+            <span
+              className="mr-1 px-1 rounded bg-white/25 text-[10px] font-mono font-semibold leading-4"
+              title={`Namespace: ${node.namespaceURI}`}
+            >
+              {node.prefix || 'default'}
+            </span>
+          )}
+          <span className="font-bold tracking-wide">
+            <EditableText value={node.name} onCommit={(name) => onEdit({ type: 'rename', id: node.id, name })}>
+              {node.localName}
+            </EditableText>
+          </span>
+          <ValidationMarker issueKey={node.id} />
 
           {hasChildren && (
             <button
@@ -367,7 +996,31 @@ const GridNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
               {isRecursivelyExpanded ? <ChevronsUp size={14} /> : <ChevronsDown size={14} />}
             </button>
           )}
+          {(hasChildren || hasAttributes) && (
+            <button
+              onClick={showAsTable}
+              className="ml-1 p-0.5 rounded hover:bg-white/20 text-white hover:text-white transition-colors shrink-0 opacity-0 group-hover:opacity-70"
+              title={`Show ${node.name} as a table`}
+            >
+              <Table2 size={14} />
+            </button>
+          )}
         </div>
+
+        {editable && (
+          <div className="ml-auto pl-3 flex items-center gap-0.5">
+            <EditActionButton title="Add attribute" onClick={() => startAdding('attribute')}><AtSign size={12} /></EditActionButton>
+            <EditActionButton title="Add child element" onClick={() => startAdding('child')}><Plus size={12} /></EditActionButton>
+            {!isRoot && (
+              <>
+                <EditActionButton title="Duplicate" onClick={() => onEdit({ type: 'duplicate', id: node.id })}><CopyPlus size={12} /></EditActionButton>
+                <EditActionButton title="Move up" onClick={() => onEdit({ type: 'move', id: node.id, direction: -1 })}><ArrowUp size={12} /></EditActionButton>
+                <EditActionButton title="Move down" onClick={() => onEdit({ type: 'move', id: node.id, direction: 1 })}><ArrowDown size={12} /></EditActionButton>
+                <EditActionButton title="Delete element" onClick={() => onEdit({ type: 'remove', id: node.id })}><Trash2 size={12} /></EditActionButton>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Node Body */}
@@ -375,25 +1028,51 @@ const GridNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
         <div className="flex flex-col">
 
           {/* Attributes Section */}
-          {hasAttributes && (
+          {(hasAttributes || adding === 'attribute') && (
             <div className="bg-amber-50 dark:bg-amber-900/20 border-b border-gray-200 dark:border-slate-600 p-1 overflow-x-auto custom-scrollbar">
               <table className="text-xs">
                 <tbody>
-                  {node.attributes.map((attr, idx) => {
+                  {visibleAttributes.map((attr, idx) => {
                     const attrPath = `${currentPath}/@${attr.name}`;
                     return (
                       <tr key={idx}>
                         <td className="font-semibold text-amber-800 dark:text-amber-300 pr-2 whitespace-nowrap">@{attr.name}:</td>
                         <td
-                          className="text-gray-900 dark:text-gray-200 whitespace-nowrap hover:bg-amber-100 dark:hover:bg-amber-800/40 cursor-copy px-1 rounded transition-colors"
+                          data-highlight-key={`${node.id}/@${attr.name}`}
+                          className={`text-gray-900 dark:text-gray-200 whitespace-nowrap hover:bg-amber-100 dark:hover:bg-amber-800/40 cursor-copy px-1 rounded transition-colors ${highlightClass(`${node.id}/@${attr.name}`)}`}
                           title={`XPath: ${attrPath} (Double-click to copy)`}
                           onDoubleClick={(e) => handleValueDoubleClick(e, attrPath)}
+                          onClick={() => onRevealSource(`${node.id}/@${attr.name}`)}
                         >
-                          {attr.value}
+                          <EditableText
+                            value={attr.value}
+                            onCommit={(value) => onEdit({ type: 'setAttribute', id: node.id, name: attr.name, value })}
+                          />
+                          <ValidationMarker issueKey={`${node.id}/@${attr.name}`} />
                         </td>
+                        {editable && (
+                          <td className="text-gray-400 hover:text-red-600">
+                            <EditActionButton title={`Remove @${attr.name}`} onClick={() => onEdit({ type: 'removeAttribute', id: node.id, name: attr.name })}>
+                              <X size={12} />
+                            </EditActionButton>
+                          </td>
+                        )}
                       </tr>
                     );
                   })}
+                  {adding === 'attribute' && (
+                    <tr>
+                      <td colSpan={3} className="text-amber-800 dark:text-amber-300">
+                        @<EditableText
+                          value=""
+                          placeholder="name"
+                          autoEdit
+                          onClose={() => setAdding(null)}
+                          onCommit={(name) => onEdit({ type: 'setAttribute', id: node.id, name, value: '' })}
+                        />
+                      </td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
@@ -403,50 +1082,46 @@ const GridNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
           <div className="p-1 overflow-x-auto custom-scrollbar">
             <div className="flex flex-col gap-1 w-max items-start">
 
-              {/* Text Content */}
-              {hasContent && (
-                <div
-                  className="p-2 text-gray-900 dark:text-gray-100 font-mono whitespace-nowrap bg-gray-50 dark:bg-slate-700 border border-gray-100 dark:border-slate-600 m-1 min-w-[50px] hover:bg-blue-50 dark:hover:bg-slate-600 cursor-copy transition-colors"
-                  title={`XPath: ${currentPath} (Double-click to copy)`}
-                  onDoubleClick={(e) => handleValueDoubleClick(e, currentPath)}
-                >
-                  {node.content}
-                </div>
-              )}
-
-              {/* Render Grouped Children */}
-              {hasChildren && (
-                <div className="flex flex-col gap-1 w-max">
-                  {Object.keys(groupedChildren).map(tagName => {
-                    const group = groupedChildren[tagName];
-
-                    if (group.length > 1) {
-                      return (
-                        <NodeTable
-                          key={`group-${tagName}`}
-                          nodes={group}
-                          tagName={tagName}
-                          parentPath={currentPath}
-                          depth={depth + 1}
-                        />
-                      );
-                    }
+              {/* Content in document order: text runs, CDATA, comments, PIs and grouped children */}
+              <div ref={siblings.containerRef} className="flex flex-col gap-1 items-start">
+                {siblings.paddingTop > 0 && <div data-spacer="true" style={{ height: siblings.paddingTop }} />}
+                {items.slice(siblings.start, siblings.end).map(item => {
+                  if (item.kind === 'misc') {
+                    return <MiscNodeView key={item.node.id} node={item.node} path={item.path} />;
+                  }
+
+                  return (
+                    <ElementGroup
+                      key={`group-${item.tagName}`}
+                      tagName={item.tagName}
+                      nodes={item.nodes}
+                      paths={item.paths}
+                      parentId={node.id}
+                      parentPath={currentPath}
+                      depth={depth + 1}
+                    />
+                  );
+                })}
+                {siblings.paddingBottom > 0 && <div data-spacer="true" style={{ height: siblings.paddingBottom }} />}
+              </div>
 
-                    return (
-                      <GridNode
-                        key={group[0].id}
-                        node={group[0]}
-                        depth={depth + 1}
-                        path={`${currentPath}/${tagName}`}
-                      />
-                    );
-                  })}
+              {adding === 'child' && (
+                <div className="text-xs p-1 px-2 text-green-800 dark:text-green-300">
+                  &lt;<EditableText
+                    value=""
+                    placeholder="element name"
+                    autoEdit
+                    onClose={() => setAdding(null)}
+                    onCommit={(name) => onEdit({ type: 'insertChild', parentId: node.id, name })}
+                  />&gt;
                 </div>
               )}
 
-              {!hasContent && !hasChildren && !hasAttributes && (
+              {node.nodes.every(child => child.type === 'text' && child.value.trim() === '') && (editable || !hasAttributes) && (
                 <div className="text-gray-400 dark:text-slate-500 italic text-xs p-1 px-2 whitespace-nowrap">
-                  (empty)
+                  <EditableText value="" onCommit={(value) => onEdit({ type: 'setText', id: node.id, value })}>
+                    (empty)
+                  </EditableText>
                 </div>
               )}
             </div>
@@ -457,15 +1132,116 @@ const GridNode: React.FC<GridNodeProps> = ({ node, depth, path }) => {
   );
 };
 
+// --- Compare Mode ---
+const NO_KEYS = new Set<string>();
+const NO_DIFF_MARKS = new Map<string, DiffKind>();
+const NO_VALIDATION_ISSUES = new Map<string, string[]>();
+
+// One side of the compare view: a read-only grid with the differences as overlays
+interface ReadOnlyGridSettings {
+  showNamespaceDeclarations: boolean;
+  tableViews: Record<string, TableView>;
+  onCopyXPath: (path: string) => void;
+  onTableViewChange: (key: string, view: TableView) => void;
+}
+
+const CompareGrid: React.FC<CompareGridProps & ReadOnlyGridSettings> = ({
+  root, marks, activeKey, expansion, onExpansionChange, showNamespaceDeclarations, tableViews, onCopyXPath, onTableViewChange,
+}) => (
+  <GridContext.Provider value={{
+    expansion,
+    showNamespaceDeclarations,
+    highlightedKeys: NO_KEYS,
+    activeHighlightKey: activeKey,
+    cursorKey: null,
+    diffMarks: marks,
+    validationIssues: NO_VALIDATION_ISSUES,
+    tableViews,
+    editable: false,
+    onCopyXPath,
+    onSetExpanded: (path, expanded) => onExpansionChange(state => setPathExpanded(state, path, expanded)),
+    onExpandPath: (path) => onExpansionChange(state => expandSubtree(state, path)),
+    onCollapsePath: (path) => onExpansionChange(state => collapseSubtree(state, path)),
+    onEdit: () => { },
+    onRevealSource: () => { },
+    onTableViewChange,
+  }}>
+    <GridNode node={root} depth={0} />
+  </GridContext.Provider>
+);
+
+// --- Document Snapshots for Undo/Redo ---
+interface OuterNodes {
+  prolog: XMLChildNode[];
+  epilog: XMLChildNode[];
+  isFragment: boolean;
+  doctype?: DoctypeDeclaration;
+}
+
+// Everything one undo step puts back
+interface DocumentSnapshot {
+  source: string;
+  root: XMLNode | null;
+  // The source the tree was parsed from. Source ranges in the tree only hold while it is still the source.
+  parsedSource: string;
+  outerNodes: OuterNodes;
+  error: string | null;
+  parseErrors: ParseError[];
+}
+
+const EMPTY_OUTER_NODES: OuterNodes = { prolog: [], epilog: [], isFragment: false };
+const EMPTY_SNAPSHOT: DocumentSnapshot = { source: '', root: null, parsedSource: '', outerNodes: EMPTY_OUTER_NODES, error: null, parseErrors: [] };
+
+const snapshotOf = (source: string, { root, error, errors = [], prolog = [], epilog = [], isFragment = false, doctype }: ParseResult): DocumentSnapshot => {
+  return error
+    ? { source, root: null, parsedSource: source, outerNodes: EMPTY_OUTER_NODES, error, parseErrors: errors }
+    : { source, root, parsedSource: source, outerNodes: { prolog, epilog, isFragment, doctype }, error: null, parseErrors: [] };
+};
+
+// --- Workspace Tabs ---
+// The active document lives in the App state; the others are parked in their tab until shown
+interface ParkedDocument {
+  source: string;
+  // Null until the tab is first shown: opened files and restored tabs are parsed then
+  snapshot: DocumentSnapshot | null;
+  history: HistoryState<DocumentSnapshot> | null;
+  expansion: ExpansionState;
+  scroll: { top: number; left: number };
+}
+
+interface WorkspaceTab extends TabInfo {
+  // Null for the active tab
+  parked: ParkedDocument | null;
+}
+
+const WORKSPACE_SAVE_DELAY = 500;
+
+const unparsedDocument = (source: string): ParkedDocument =>
+  ({ source, snapshot: null, history: null, expansion: DEFAULT_EXPANSION, scroll: { top: 0, left: 0 } });
+
 // --- Main App Component ---
 const App: React.FC = () => {
   const [inputXml, setInputXml] = useState<string>('');
   const [parsedData, setParsedData] = useState<XMLNode | null>(null);
+  const [parsedSource, setParsedSource] = useState('');
+  const [outerNodes, setOuterNodes] = useState<OuterNodes>(EMPTY_OUTER_NODES);
   const [error, setError] = useState<string | null>(null);
+  const [parseErrors, setParseErrors] = useState<ParseError[]>([]);
+  const history = useHistory<DocumentSnapshot>(EMPTY_SNAPSHOT, 'Empty document');
+  const [showHistory, setShowHistory] = useState(false);
+  const sourceRef = useRef<SourceEditorHandle>(null);
+  // Background parse of a large document: its progress (0..1) and the task to cancel
+  const [parseProgress, setParseProgress] = useState<number | null>(null);
+  const pendingParse = useRef<{ task: ParseTask; label: string } | null>(null);
   const [isCopied, setIsCopied] = useState(false);
-  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [toast, setToast] = useState<{ message: string; isError: boolean } | null>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [viewAction, setViewAction] = useState<ViewAction | null>(null);
+  const [expansion, setExpansion] = useState<ExpansionState>(DEFAULT_EXPANSION);
+  const savedViews = useSavedViews();
+  const tableViews = useTableViews();
+  const [showViews, setShowViews] = useState(false);
+  const [exportAnchor, setExportAnchor] = useState<DOMRect | null>(null);
   const [darkMode, setDarkMode] = useState(() => {
     if (typeof window !== 'undefined') {
       return localStorage.getItem('theme') === 'dark' ||
@@ -474,6 +1250,42 @@ const App: React.FC = () => {
     return false;
   });
 
+  const [formatOptions, setFormatOptions] = useState<FormatOptions>(() => {
+    try {
+      const saved = localStorage.getItem('formatOptions');
+      return saved ? readFormatOptions(JSON.parse(saved)) : DEFAULT_FORMAT_OPTIONS;
+    } catch {
+      return DEFAULT_FORMAT_OPTIONS;
+    }
+  });
+  const [showFormatOptions, setShowFormatOptions] = useState(false);
+  const [showNamespaceDeclarations, setShowNamespaceDeclarations] = useState(false);
+  const [xpathStyle, setXPathStyle] = useState<XPathStyle>('plain');
+  const [showSearch, setShowSearch] = useState(false);
+  const [showConvert, setShowConvert] = useState(false);
+  const [showValidation, setShowValidation] = useState(false);
+  const [showInference, setShowInference] = useState(false);
+  const [showStatistics, setShowStatistics] = useState(false);
+  const [statisticsPath, setStatisticsPath] = useState('');
+  const [schemas, setSchemas] = useState<SchemaFile[]>([]);
+  // A full-width view shown in place of the editor and grid
+  const [workbench, setWorkbench] = useState<'compare' | 'xslt' | null>(null);
+  const [workspace, setWorkspace] = useState<{ tabs: WorkspaceTab[]; activeId: string }>(() => {
+    const id = newTabId();
+    return { tabs: [{ id, name: 'Untitled', parked: null }], activeId: id };
+  });
+  // Autosave waits until the saved workspace has been read, so it cannot overwrite it
+  const [workspaceLoaded, setWorkspaceLoaded] = useState(false);
+  const gridScrollRef = useRef<HTMLDivElement>(null);
+  // Where to scroll the grid once the tab just shown has its tree
+  const pendingScroll = useRef<{ top: number; left: number } | null>(null);
+  // The node to select once a document opened from a link has its tree
+  const pendingSelection = useRef<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [editMode, setEditMode] = useState(false);
+  const [highlight, setHighlight] = useState<{ keys: Set<string>; active: string | null }>({ keys: new Set(), active: null });
+  const [cursorKey, setCursorKey] = useState<string | null>(null);
+
   // --- Resizable Panel State ---
   const [topPanelHeight, setTopPanelHeight] = useState(35); // Percentage
   const isResizing = useRef(false);
@@ -491,6 +1303,10 @@ const App: React.FC = () => {
 
   const toggleDarkMode = () => setDarkMode(!darkMode);
 
+  useEffect(() => {
+    localStorage.setItem('formatOptions', JSON.stringify(formatOptions));
+  }, [formatOptions]);
+
   // --- Resizing Logic ---
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -522,73 +1338,130 @@ const App: React.FC = () => {
     document.body.style.userSelect = 'none';
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setInputXml(e.target.value);
-    if (error) setError(null);
-  };
-
-  // Centralized parsing function for button click, paste, and drop
-  const executeParse = useCallback((xmlString: string) => {
-    setError(null);
-    const { root, error: parseError } = parseXML(xmlString);
-    if (parseError) {
-      setError(parseError);
-      setParsedData(null);
-    } else {
-      setParsedData(root);
-      setViewAction(null);
-    }
+  // --- History ---
+  const restoreSnapshot = useCallback((snapshot: DocumentSnapshot) => {
+    setInputXml(snapshot.source);
+    setParsedData(snapshot.root);
+    setParsedSource(snapshot.parsedSource);
+    setOuterNodes(snapshot.outerNodes);
+    setError(snapshot.error);
+    setParseErrors(snapshot.parseErrors);
   }, []);
 
-  // Update input and parse immediately
-  const processInput = useCallback((content: string) => {
-    setInputXml(content);
-    executeParse(content);
-  }, [executeParse]);
+  // Every change to the document goes through here so it can be undone
+  const { record } = history;
+  const commitSnapshot = useCallback((label: string, snapshot: DocumentSnapshot, group?: string) => {
+    restoreSnapshot(snapshot);
+    record(label, snapshot, group);
+  }, [restoreSnapshot, record]);
 
-  const handleParseButton = () => {
-    executeParse(inputXml);
-  };
+  const currentSnapshot = (): DocumentSnapshot => ({ source: inputXml, root: parsedData, parsedSource, outerNodes, error, parseErrors });
 
-  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
-    // Get pasted data via clipboard API
-    const pastedData = e.clipboardData.getData('Text');
-    // If it looks like XML, auto submit
-    if (pastedData && pastedData.trim().length > 0) {
-      e.preventDefault(); // Prevent default browser paste to avoid duplication/race conditions
+  const handleUndo = useCallback(() => {
+    const snapshot = history.undo();
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [history.undo, restoreSnapshot]);
 
-      const textarea = e.currentTarget;
-      const start = textarea.selectionStart;
-      const end = textarea.selectionEnd;
+  const handleRedo = useCallback(() => {
+    const snapshot = history.redo();
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [history.redo, restoreSnapshot]);
 
-      const newValue = inputXml.substring(0, start) + pastedData + inputXml.substring(end);
+  const handleJumpToHistory = (index: number) => {
+    const snapshot = history.jumpTo(index);
+    if (snapshot) restoreSnapshot(snapshot);
+  };
 
-      processInput(newValue);
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Other fields (search, XPath, inline grid editors) keep their own native undo.
+      // The source editor has none of its own, so it falls through to the document history.
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleInputChange = (value: string, isPaste: boolean) => {
+    // Pasting parses straight away
+    if (isPaste) {
+      processInput(value, 'Paste');
+      return;
+    }
+    // Keystrokes in quick succession become a single history entry
+    commitSnapshot('Edit source', { ...currentSnapshot(), source: value, error: null, parseErrors: [] }, 'typing');
+  };
 
-      // Attempt to restore cursor position (next render will handle value update)
-      // We can't easily sync cursor without layout effect, but correct data is priority.
-      setTimeout(() => {
-        if (textarea) {
-          textarea.setSelectionRange(start + pastedData.length, start + pastedData.length);
-        }
-      }, 0);
+  const applyParseResult = useCallback((content: string, label: string, result: ParseResult) => {
+    const snapshot = snapshotOf(content, result);
+    // The expansion state is left alone, so the view is kept across reparses
+    commitSnapshot(label, snapshot);
+  }, [commitSnapshot]);
+
+  // Centralized parsing function for button click, paste, sample and drop.
+  // Large inputs go to the parse worker; the source shows at once and the grid follows when it is done.
+  const processInput = useCallback((content: string, label: string) => {
+    pendingParse.current?.task.cancel();
+    pendingParse.current = null;
+
+    if (content.length < WORKER_PARSE_THRESHOLD) {
+      setParseProgress(null);
+      applyParseResult(content, label, parseXML(content));
+      return;
     }
+
+    setInputXml(content);
+    setParseProgress(0);
+    const task = parseInWorker(content, setParseProgress);
+    pendingParse.current = { task, label };
+    task.promise.then(result => {
+      if (pendingParse.current?.task !== task || !result) return;
+      pendingParse.current = null;
+      setParseProgress(null);
+      applyParseResult(content, label, result);
+    });
+  }, [applyParseResult]);
+
+  // The new source stays in the editor (and in the history) with the previous grid
+  const handleCancelParse = () => {
+    if (!pendingParse.current) return;
+    const { task, label } = pendingParse.current;
+    pendingParse.current = null;
+    task.cancel();
+    setParseProgress(null);
+    commitSnapshot(`${label} (parse cancelled)`, currentSnapshot());
+  };
+
+  const handleParseButton = () => {
+    processInput(inputXml, 'Parse');
   };
 
   const handlePrettify = () => {
     try {
-      const formatted = prettifyXML(inputXml);
-      setInputXml(formatted);
+      const formatted = prettifyXML(inputXml, formatOptions);
+      commitSnapshot('Prettify', { ...currentSnapshot(), source: formatted });
+    } catch (e) {
+      handleParseButton();
+    }
+  };
+
+  const handleMinify = () => {
+    try {
+      const minified = minifyXML(inputXml, formatOptions);
+      commitSnapshot('Minify', { ...currentSnapshot(), source: minified });
     } catch (e) {
       handleParseButton();
     }
   };
 
   const handleClear = () => {
-    setInputXml('');
-    setParsedData(null);
-    setError(null);
-    setViewAction(null);
+    commitSnapshot('Clear', EMPTY_SNAPSHOT);
+    setExpansion(DEFAULT_EXPANSION);
   };
 
   const handleCopySource = () => {
@@ -598,23 +1471,317 @@ const App: React.FC = () => {
     });
   };
 
+  const showToast = useCallback((message: string, isError: boolean = false) => {
+    setToast({ message, isError });
+    setTimeout(() => setToast(null), 3000);
+  }, []);
+
   const handleCopyXPath = useCallback((path: string) => {
-    navigator.clipboard.writeText(path).then(() => {
-      setToastMessage(`XPath copied: ${path}`);
-      setTimeout(() => setToastMessage(null), 3000);
+    const { xpath, namespaces } = parsedData ? formatXPath(parsedData, path, xpathStyle) : { xpath: path, namespaces: {} };
+    const bindings = Object.keys(namespaces).map(prefix => `${prefix}=${namespaces[prefix]}`).join(', ');
+    navigator.clipboard.writeText(xpath).then(() => {
+      showToast(`XPath copied: ${xpath}${bindings ? ` (${bindings})` : ''}`);
     });
+  }, [parsedData, xpathStyle, showToast]);
+
+  // Grid edits change the tree and regenerate the source from it. The new source is then parsed
+  // again, which checks it and gives every node its range in it; since ids follow the document
+  // structure, the nodes the edit did not touch keep their ids (and the grid its expansion state).
+  const handleEdit = useCallback((op: EditOperation) => {
+    if (!parsedData) return;
+    try {
+      const updated = applyEdit(parsedData, op);
+      // Only the edited characters change; the whole document is written out again only when the
+      // tree has no source ranges to place the edit with
+      const source = editSource(inputXml, parsedData, updated, op, outerNodes.isFragment)
+        ?? prettifyXML(serializeDocument(updated, outerNodes, documentHeader(inputXml)), formatOptions);
+      const result = parseXML(source);
+      if (result.error) throw new EditError(result.error);
+      commitSnapshot(describeEdit(op), snapshotOf(source, result));
+    } catch (e: any) {
+      showToast(`Edit rejected: ${e.message}`, true);
+    }
+  }, [parsedData, outerNodes, inputXml, formatOptions, showToast, commitSnapshot]);
+
+  const handleSetExpanded = useCallback((path: string, expanded: boolean) => {
+    setExpansion(current => setPathExpanded(current, path, expanded));
   }, []);
 
   const handleExpandPath = useCallback((path: string) => {
-    setViewAction({ type: 'EXPAND_PATH', path, id: Date.now() });
+    setExpansion(current => expandSubtree(current, path));
   }, []);
 
   const handleCollapsePath = useCallback((path: string) => {
-    setViewAction({ type: 'COLLAPSE_PATH', path, id: Date.now() });
+    setExpansion(current => collapseSubtree(current, path));
+  }, []);
+
+  const handleHighlight = useCallback((keys: string[], activeKey: string | null, revealPaths: string[]) => {
+    setHighlight({ keys: new Set(keys), active: activeKey });
+    if (revealPaths.length > 0) {
+      setExpansion(current => expandPaths(current, ancestorPaths(revealPaths)));
+    }
+  }, []);
+
+  // Bring the active match into view once the revealed nodes have rendered
+  useEffect(() => {
+    if (!highlight.active) return;
+    const timer = setTimeout(() => {
+      const target = document.querySelector(`[data-highlight-key="${CSS.escape(highlight.active!)}"]`);
+      target?.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'smooth' });
+    }, 50);
+    return () => clearTimeout(timer);
+  }, [highlight]);
+
+  // --- Source/grid selection sync ---
+  // Only while the editor still shows the text the tree was parsed from
+  const rangesValid = parsedData !== null && inputXml === parsedSource;
+
+  const handleCursorMove = useCallback((offset: number) => {
+    const found = rangesValid ? nodeAtOffset(parsedData!, offset, outerNodes.isFragment) : null;
+    setCursorKey(found ? found.key : null);
+    if (found) setExpansion(current => expandPaths(current, ancestorPaths([found.gridPath])));
+  }, [rangesValid, parsedData, outerNodes.isFragment]);
+
+  const handleRevealSource = useCallback((key: string) => {
+    const range = rangesValid ? sourceRangeOf(parsedData!, key) : null;
+    if (!range) return;
+    sourceRef.current?.revealRange(range.start, range.end);
+    setCursorKey(key);
+  }, [rangesValid, parsedData]);
+
+  useEffect(() => {
+    if (!cursorKey) return;
+    const timer = setTimeout(() => {
+      const target = document.querySelector(`[data-highlight-key="${CSS.escape(cursorKey)}"]`);
+      target?.scrollIntoView({ block: 'nearest', inline: 'nearest', behavior: 'smooth' });
+    }, 50);
+    return () => clearTimeout(timer);
+  }, [cursorKey]);
+
+  // --- Workspace ---
+  const cancelPendingParse = () => {
+    pendingParse.current?.task.cancel();
+    pendingParse.current = null;
+    setParseProgress(null);
+  };
+
+  // A document still being parsed is parked unparsed and parsed again when shown
+  const parkActiveDocument = (): ParkedDocument => ({
+    source: inputXml,
+    snapshot: pendingParse.current ? null : currentSnapshot(),
+    history: history.state,
+    expansion,
+    scroll: { top: gridScrollRef.current?.scrollTop ?? 0, left: gridScrollRef.current?.scrollLeft ?? 0 },
+  });
+
+  // Makes a parked document the live one. One that was never shown is parsed now, under label.
+  const showDocument = (parked: ParkedDocument | null, label: string) => {
+    setHighlight({ keys: new Set(), active: null });
+    setCursorKey(null);
+    setExpansion(parked?.expansion ?? DEFAULT_EXPANSION);
+    pendingScroll.current = parked && (parked.scroll.top || parked.scroll.left) ? parked.scroll : null;
+    history.replace(parked?.history ?? createHistory(EMPTY_SNAPSHOT, 'Empty document'));
+    if (parked?.snapshot) {
+      restoreSnapshot(parked.snapshot);
+      return;
+    }
+    restoreSnapshot(EMPTY_SNAPSHOT);
+    if (parked?.source) processInput(parked.source, label);
+  };
+
+  const handleSelectTab = (id: string) => {
+    const target = workspace.tabs.find(tab => tab.id === id);
+    if (!target || id === workspace.activeId) return;
+    const parked = parkActiveDocument();
+    cancelPendingParse();
+    setWorkspace({
+      tabs: workspace.tabs.map(tab => (tab.id === workspace.activeId ? { ...tab, parked } : tab.id === id ? { ...tab, parked: null } : tab)),
+      activeId: id,
+    });
+    showDocument(target.parked, `Open ${target.name}`);
+  };
+
+  const handleNewTab = () => {
+    const parked = parkActiveDocument();
+    cancelPendingParse();
+    const tab: WorkspaceTab = { id: newTabId(), name: untitledName(workspace.tabs.map(other => other.name)), parked: null };
+    setWorkspace({
+      tabs: [...workspace.tabs.map(other => (other.id === workspace.activeId ? { ...other, parked } : other)), tab],
+      activeId: tab.id,
+    });
+    showDocument(null, '');
+  };
+
+  // Each document gets a tab of its own after the active one; an empty active tab takes the first
+  const openDocuments = (documents: { name: string; source: string; expansion?: ExpansionState }[], verb: string) => {
+    if (documents.length === 0) return;
+    const created: WorkspaceTab[] = documents.map(doc => ({
+      id: newTabId(),
+      name: doc.name,
+      parked: { ...unparsedDocument(doc.source), expansion: doc.expansion ?? DEFAULT_EXPANSION },
+    }));
+    const index = workspace.tabs.findIndex(tab => tab.id === workspace.activeId);
+    const tabs = [...workspace.tabs];
+    if (!inputXml.trim()) {
+      cancelPendingParse();
+      const [first, ...rest] = created;
+      tabs.splice(index, 1, { id: workspace.activeId, name: first.name, parked: null }, ...rest);
+      setWorkspace({ tabs, activeId: workspace.activeId });
+      setExpansion(first.parked!.expansion);
+      processInput(documents[0].source, `${verb} ${first.name}`);
+    } else {
+      tabs[index] = { ...tabs[index], parked: parkActiveDocument() };
+      cancelPendingParse();
+      tabs.splice(index + 1, 0, { ...created[0], parked: null }, ...created.slice(1));
+      setWorkspace({ tabs, activeId: created[0].id });
+      showDocument(created[0].parked, `${verb} ${created[0].name}`);
+    }
+  };
+
+  const handleCloseTab = (id: string) => {
+    const index = workspace.tabs.findIndex(tab => tab.id === id);
+    const remaining = workspace.tabs.filter(tab => tab.id !== id);
+    if (id !== workspace.activeId) {
+      setWorkspace({ ...workspace, tabs: remaining });
+      return;
+    }
+    cancelPendingParse();
+    // The neighbour to the right takes over, or to the left for the last tab; closing the only
+    // tab leaves a fresh one
+    const next = remaining[Math.min(index, remaining.length - 1)] ?? { id: newTabId(), name: 'Untitled', parked: null };
+    setWorkspace({
+      tabs: remaining.length ? remaining.map(tab => (tab.id === next.id ? { ...tab, parked: null } : tab)) : [next],
+      activeId: next.id,
+    });
+    showDocument(next.parked, `Open ${next.name}`);
+  };
+
+  const handleRenameTab = (id: string, name: string) => {
+    setWorkspace(current => ({ ...current, tabs: current.tabs.map(tab => (tab.id === id ? { ...tab, name } : tab)) }));
+  };
+
+  const storedWorkspace = (): StoredWorkspace => ({
+    tabs: workspace.tabs.map(tab => {
+      const parked = tab.parked ?? parkActiveDocument();
+      return { id: tab.id, name: tab.name, source: parked.snapshot?.source ?? parked.source, expansion: parked.expansion, scroll: parked.scroll };
+    }),
+    activeId: workspace.activeId,
+  });
+
+  // The latest workspace for saving when the page is hidden, which is no render of its own
+  const storedWorkspaceRef = useRef(storedWorkspace);
+  storedWorkspaceRef.current = storedWorkspace;
+  const saveFailed = useRef(false);
+
+  const persistWorkspace = useCallback(() => {
+    saveWorkspace(storedWorkspaceRef.current()).then(() => {
+      saveFailed.current = false;
+    }, (e: any) => {
+      // Reported once until a save works again
+      if (!saveFailed.current) showToast(`The workspace could not be saved: ${e?.message ?? e}`, true);
+      saveFailed.current = true;
+    });
+  }, [showToast]);
+
+  useEffect(() => {
+    loadWorkspace().then(stored => {
+      if (stored) {
+        const tabs: WorkspaceTab[] = stored.tabs.map(tab => ({
+          id: tab.id,
+          name: tab.name,
+          parked: { ...unparsedDocument(tab.source), expansion: tab.expansion, scroll: tab.scroll },
+        }));
+        const active = tabs.find(tab => tab.id === stored.activeId)!;
+        setWorkspace({ tabs: tabs.map(tab => (tab.id === active.id ? { ...tab, parked: null } : tab)), activeId: active.id });
+        showDocument(active.parked, 'Restore workspace');
+      }
+      setWorkspaceLoaded(true);
+    });
   }, []);
 
+  useEffect(() => {
+    if (!workspaceLoaded) return;
+    const timer = setTimeout(persistWorkspace, WORKSPACE_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [workspaceLoaded, workspace, inputXml, expansion, persistWorkspace]);
+
+  // Scrolling alone does not trigger a save; leaving the page does
+  useEffect(() => {
+    if (!workspaceLoaded) return;
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') persistWorkspace();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [workspaceLoaded, persistWorkspace]);
+
+  useEffect(() => {
+    const scroll = pendingScroll.current;
+    if (!scroll || !parsedData) return;
+    pendingScroll.current = null;
+    requestAnimationFrame(() => gridScrollRef.current?.scrollTo(scroll.left, scroll.top));
+  }, [parsedData]);
+
+  // --- Share links ---
+  const handleCopyLink = () => {
+    encodeSharedView({ source: inputXml, selected: cursorKey, expansion, query }).then(fragment => {
+      const { origin, pathname, search } = window.location;
+      const link = `${origin}${pathname}${search}#${fragment}`;
+      const size = `${Math.ceil(link.length / 1024)} KB`;
+      if (link.length > MAX_SHARE_LINK) {
+        showToast(`This document is too large to share as a link (${size} even compressed); send the file instead`, true);
+        return;
+      }
+      return navigator.clipboard.writeText(link).then(() => {
+        if (link.length > LONG_SHARE_LINK) {
+          showToast(`Link copied, but it is ${size} long: many chat and mail apps cut off links over ${LONG_SHARE_LINK / 1000} KB, so check that it opens`, true);
+          return;
+        }
+        setIsLinkCopied(true);
+        setTimeout(() => setIsLinkCopied(false), 2000);
+      });
+    }, (e: any) => showToast(`The link could not be created: ${e?.message ?? e}`, true));
+  };
+
+  // A shared document opens in a tab of its own, with the sender's view of it
+  const openSharedView = (view: SharedView) => {
+    openDocuments([{ name: 'Shared document', source: view.source, expansion: view.expansion }], 'Open');
+    setQuery(view.query);
+    pendingSelection.current = view.selected;
+  };
+  const openSharedViewRef = useRef(openSharedView);
+  openSharedViewRef.current = openSharedView;
+
+  // Links arrive in the hash, at startup or when one is pasted into the address bar of an open
+  // app. The hash is cleared afterwards so that reloading does not open the document again.
+  useEffect(() => {
+    if (!workspaceLoaded) return;
+    const openLink = () => {
+      decodeSharedView(window.location.hash).then(view => {
+        if (!view) return;
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        openSharedViewRef.current(view);
+      }, (e: any) => {
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        showToast(e.message, true);
+      });
+    };
+    openLink();
+    window.addEventListener('hashchange', openLink);
+    return () => window.removeEventListener('hashchange', openLink);
+  }, [workspaceLoaded, showToast]);
+
+  useEffect(() => {
+    const selection = pendingSelection.current;
+    if (!selection || !parsedData) return;
+    pendingSelection.current = null;
+    const range = sourceRangeOf(parsedData, selection);
+    if (range) sourceRef.current?.revealRange(range.start, range.end);
+    setCursorKey(selection);
+  }, [parsedData]);
+
   const handleLoadSample = () => {
-    processInput(SAMPLE_XML);
+    processInput(SAMPLE_XML, 'Load sample');
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -631,30 +1798,122 @@ const App: React.FC = () => {
     e.preventDefault();
     setIsDragging(false);
 
-    const file = e.dataTransfer.files[0];
-    if (file && (file.type === "text/xml" || file.name.endsWith(".xml") || file.type === "text/plain")) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        if (event.target?.result) {
-          const content = event.target.result as string;
-          processInput(content);
-        }
-      };
-      reader.readAsText(file);
-    } else {
+    // Schemas go to the validation panel; several XML files open in a tab each
+    const dropped = Array.from(e.dataTransfer.files);
+    const schemaFiles = dropped.filter(file => isSchemaFileName(file.name));
+    const documents = dropped.filter(file => !isSchemaFileName(file.name) &&
+      (file.type === "text/xml" || file.name.endsWith(".xml") || file.type === "text/plain"));
+    if (schemaFiles.length > 0) readSchemaFiles(schemaFiles).then(handleAddSchemas);
+    if (documents.length > 0) {
+      Promise.all(documents.map(file => file.text().then(source => ({ name: file.name, source }))))
+        .then(loaded => openDocuments(loaded, 'Dropped'));
+    } else if (schemaFiles.length === 0) {
       setError("Please drop a valid XML file.");
+      setParseErrors([]);
     }
   };
 
-  const handleExpandAll = () => setViewAction({ type: 'EXPAND_ALL', id: Date.now() });
-  const handleCollapseAll = () => setViewAction({ type: 'COLLAPSE_ALL', id: Date.now() });
+  // --- Validation ---
+  // Runs while the panel is open, against the loaded XSDs and the document's DOCTYPE (with any
+  // external DTD files loaded for it)
+  const handleAddSchemas = useCallback((files: SchemaFile[]) => {
+    setSchemas(current => [...current.filter(schema => !files.some(file => file.name === schema.name)), ...files]);
+    setShowValidation(true);
+    showToast(`Loaded ${files.map(file => file.name).join(', ')}`);
+  }, [showToast]);
+
+  const grammars = useMemo(() => {
+    const compiled: { source: string; grammar: Grammar }[] = [];
+    const problems: string[] = [];
+    if (!showValidation) return { compiled, problems };
+    const xsdFiles = schemas.filter(schema => !/\.dtd$/i.test(schema.name));
+    const dtdFiles = schemas.filter(schema => /\.dtd$/i.test(schema.name));
+    try {
+      if (xsdFiles.length) compiled.push({ source: xsdFiles.map(schema => schema.name).join(', '), grammar: compileSchemas(xsdFiles) });
+    } catch (e: any) {
+      problems.push(e.message);
+    }
+    const { doctype } = outerNodes;
+    const subsets = [doctype?.internalSubset ?? '', ...dtdFiles.map(schema => schema.source)];
+    // A DOCTYPE that only declares entities is not a grammar
+    if (doctype && subsets.some(subset => subset.includes('<!ELEMENT'))) {
+      try {
+        compiled.push({ source: `DOCTYPE ${doctype.name}`, grammar: compileDtd(subsets, doctype.name) });
+      } catch (e: any) {
+        problems.push(e.message);
+      }
+    }
+    return { compiled, problems };
+  }, [showValidation, schemas, outerNodes]);
+
+  const validation = useMemo((): ValidationReport & { byKey: Map<string, string[]> } => {
+    const problems = [...grammars.problems];
+    const issues: ValidationIssue[] = [];
+    if (parsedData && outerNodes.isFragment && grammars.compiled.length) {
+      problems.push('A fragment with several top-level elements cannot be validated');
+    } else if (parsedData) {
+      grammars.compiled.forEach(({ grammar }) => {
+        try {
+          issues.push(...validateTree(parsedData, grammar));
+        } catch (e: any) {
+          problems.push(e.message);
+        }
+      });
+    }
+    const byKey = new Map<string, string[]>();
+    issues.forEach(issue => byKey.set(issue.key, [...(byKey.get(issue.key) ?? []), issue.message]));
+    return { sources: grammars.compiled.map(({ source }) => source), issues, problems, byKey };
+  }, [parsedData, outerNodes.isFragment, grammars]);
+
+  // The read-only grids of the compare view and the XSLT result
+  const renderReadOnlyGrid = (props: CompareGridProps) => (
+    <CompareGrid
+      {...props}
+      showNamespaceDeclarations={showNamespaceDeclarations}
+      tableViews={tableViews.views}
+      onCopyXPath={(path) => navigator.clipboard.writeText(path).then(() => showToast(`XPath copied: ${path}`))}
+      onTableViewChange={tableViews.setView}
+    />
+  );
+
+  // Schema inference and statistics take the root, or each top-level element of a fragment
+  const inferenceDocuments = useMemo(
+    () => (!parsedData ? [] : outerNodes.isFragment ? parsedData.children : [parsedData]),
+    [parsedData, outerNodes.isFragment]
+  );
+
+  const handleSelectIssue = useCallback((issue: ValidationIssue) => {
+    handleHighlight([issue.key], issue.key, [issue.path]);
+    handleRevealSource(issue.key);
+  }, [handleHighlight, handleRevealSource]);
+
+  const handleShowStatistics = useCallback((path: string) => {
+    setStatisticsPath(path);
+    setShowStatistics(true);
+  }, []);
+
+  const handleExpandAll = () => setExpansion(expandAll());
+  const handleCollapseAll = () => setExpansion(collapseAll());
 
   return (
     <GridContext.Provider value={{
-      viewAction,
+      expansion,
+      showNamespaceDeclarations,
+      highlightedKeys: highlight.keys,
+      activeHighlightKey: highlight.active,
+      cursorKey,
+      diffMarks: NO_DIFF_MARKS,
+      validationIssues: validation.byKey,
+      tableViews: tableViews.views,
+      editable: editMode,
       onCopyXPath: handleCopyXPath,
+      onSetExpanded: handleSetExpanded,
       onExpandPath: handleExpandPath,
-      onCollapsePath: handleCollapsePath
+      onCollapsePath: handleCollapsePath,
+      onEdit: handleEdit,
+      onRevealSource: handleRevealSource,
+      onTableViewChange: tableViews.setView,
+      onShowStatistics: handleShowStatistics
     }}>
       <div className="flex flex-col h-screen bg-gray-100 dark:bg-slate-900 font-sans text-gray-900 dark:text-gray-100 overflow-hidden transition-colors duration-200">
 
@@ -668,6 +1927,20 @@ const App: React.FC = () => {
             <div className="text-sm text-gray-500 dark:text-gray-400 hidden sm:block">
               Inspired by xmlgrid.net
             </div>
+            <button
+              onClick={() => setWorkbench(workbench === 'compare' ? null : 'compare')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded transition-colors ${workbench === 'compare' ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700'}`}
+              title="Compare two documents side by side"
+            >
+              <GitCompare size={14} /> Compare
+            </button>
+            <button
+              onClick={() => setWorkbench(workbench === 'xslt' ? null : 'xslt')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded transition-colors ${workbench === 'xslt' ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700'}`}
+              title="Run an XSLT stylesheet over the document"
+            >
+              <FileCog size={14} /> XSLT
+            </button>
             <button
               onClick={toggleDarkMode}
               className="p-2 rounded-full bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-yellow-400 hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
@@ -678,8 +1951,34 @@ const App: React.FC = () => {
           </div>
         </header>
 
-        {/* Main Content Split */}
-        <main className="flex-1 flex flex-col overflow-hidden relative">
+        <TabBar
+          tabs={workspace.tabs}
+          activeId={workspace.activeId}
+          onSelect={handleSelectTab}
+          onRename={handleRenameTab}
+          onClose={handleCloseTab}
+          onNew={handleNewTab}
+        />
+
+        {workbench === 'compare' && (
+          <CompareView
+            currentSource={inputXml}
+            onClose={() => setWorkbench(null)}
+            renderGrid={renderReadOnlyGrid}
+          />
+        )}
+
+        {workbench === 'xslt' && (
+          <XsltWorkbench
+            documentSource={parsedData ? parsedSource : null}
+            onLoadXml={(xml) => { processInput(xml, 'XSLT result'); setWorkbench(null); }}
+            onClose={() => setWorkbench(null)}
+            renderGrid={renderReadOnlyGrid}
+          />
+        )}
+
+        {/* Main Content Split; kept mounted in the workbenches so the editor keeps its state */}
+        <main className={`flex-1 flex flex-col overflow-hidden relative ${workbench ? 'hidden' : ''}`}>
 
           {/* Source Editor - Resizable */}
           <section
@@ -700,9 +1999,56 @@ const App: React.FC = () => {
                 >
                   <AlignLeft size={14} /> Prettify
                 </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setShowFormatOptions(!showFormatOptions)}
+                    className={`flex items-center px-2 py-1.5 border border-gray-300 dark:border-slate-600 text-xs rounded shadow-sm transition-colors ${showFormatOptions ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-700 dark:text-gray-200'}`}
+                    title="Formatting Options"
+                  >
+                    <SlidersHorizontal size={14} />
+                  </button>
+                  {showFormatOptions && (
+                    <FormatOptionsMenu
+                      options={formatOptions}
+                      onChange={setFormatOptions}
+                      onClose={() => setShowFormatOptions(false)}
+                    />
+                  )}
+                </div>
+                <button
+                  onClick={handleMinify}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-700 dark:text-gray-200 text-xs font-medium rounded shadow-sm transition-colors"
+                >
+                  <Shrink size={14} /> Minify
+                </button>
               </div>
 
               <div className="flex gap-2">
+                <div className="flex">
+                  <button
+                    onClick={handleUndo}
+                    disabled={!history.canUndo}
+                    className="flex items-center px-2 py-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-slate-700 rounded transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                    title={history.canUndo ? `Undo ${history.entries[history.index].label} (Ctrl+Z)` : 'Nothing to undo'}
+                  >
+                    <Undo size={14} />
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={!history.canRedo}
+                    className="flex items-center px-2 py-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-slate-700 rounded transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                    title={history.canRedo ? `Redo ${history.entries[history.index + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                  >
+                    <Redo size={14} />
+                  </button>
+                  <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    className={`flex items-center px-2 py-1.5 rounded transition-colors ${showHistory ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-slate-700'}`}
+                    title="Show history"
+                  >
+                    <History size={14} />
+                  </button>
+                </div>
                 <button
                   onClick={handleLoadSample}
                   className="flex items-center gap-1.5 px-3 py-1.5 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-slate-700 text-xs font-medium rounded transition-colors"
@@ -716,6 +2062,14 @@ const App: React.FC = () => {
                 >
                   <Copy size={14} /> {isCopied ? 'Copied!' : 'Copy'}
                 </button>
+                <button
+                  onClick={handleCopyLink}
+                  disabled={!inputXml.trim()}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-slate-700 text-xs font-medium rounded transition-colors disabled:opacity-40"
+                  title="Copy a link that opens this document with the selected node, expanded paths and XPath query"
+                >
+                  <Link2 size={14} /> {isLinkCopied ? 'Copied!' : 'Link'}
+                </button>
                 <button
                   onClick={handleClear}
                   className="flex items-center gap-1.5 px-3 py-1.5 text-red-500 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-slate-700 text-xs font-medium rounded transition-colors"
@@ -732,13 +2086,13 @@ const App: React.FC = () => {
               onDragLeave={handleDragLeave}
               onDrop={handleDrop}
             >
-              <textarea
-                className="w-full h-full p-4 font-mono text-sm resize-none focus:outline-none bg-slate-900 text-gray-100 selection:bg-blue-700"
+              <SourceEditor
+                ref={sourceRef}
                 placeholder="Paste your XML here or drop a file..."
                 value={inputXml}
+                errors={parseErrors}
                 onChange={handleInputChange}
-                onPaste={handlePaste}
-                spellCheck={false}
+                onCursorMove={handleCursorMove}
               />
 
               {isDragging && (
@@ -753,9 +2107,25 @@ const App: React.FC = () => {
               {error && (
                 <div className="absolute bottom-4 left-4 right-4 bg-red-900/90 border border-red-700 text-white rounded-lg p-3 flex items-start gap-2 shadow-lg animate-fade-in-up z-10 backdrop-blur">
                   <AlertCircle className="w-5 h-5 text-red-300 shrink-0 mt-0.5" />
-                  <div className="text-sm">
-                    <span className="font-semibold block text-red-200">Parsing Error</span>
-                    {error}
+                  <div className="text-sm min-w-0 flex-1">
+                    <span className="font-semibold block text-red-200">
+                      {parseErrors.length > 1 ? `${parseErrors.length} Parsing Errors` : 'Parsing Error'}
+                    </span>
+                    {parseErrors.length === 0 ? error : (
+                      <ul className="max-h-24 overflow-auto custom-scrollbar">
+                        {parseErrors.map((parseError, index) => (
+                          <li key={index}>
+                            <button
+                              onClick={() => sourceRef.current?.jumpTo(parseError.offset)}
+                              className="text-left hover:underline"
+                              title="Go to error"
+                            >
+                              <span className="font-mono text-red-200">{parseError.line}:{parseError.column}</span> {parseError.message}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 </div>
               )}
@@ -779,6 +2149,69 @@ const App: React.FC = () => {
                 Grid View
               </span>
               <div className="flex gap-2">
+                <button
+                  onClick={() => setEditMode(!editMode)}
+                  disabled={!parsedData}
+                  className={`flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-slate-600 text-xs rounded shadow-sm transition-colors disabled:opacity-40 ${editMode ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300'}`}
+                  title="Edit values, attributes and structure in the grid; the source is rewritten to match"
+                >
+                  <Pencil size={12} /> Edit
+                </button>
+                <button
+                  onClick={() => setShowSearch(!showSearch)}
+                  className={`flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-slate-600 text-xs rounded shadow-sm transition-colors ${showSearch ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300'}`}
+                  title="Search tags, attributes and text"
+                >
+                  <TextSearch size={12} /> Search
+                </button>
+                <button
+                  onClick={() => setShowConvert(!showConvert)}
+                  className={`flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-slate-600 text-xs rounded shadow-sm transition-colors ${showConvert ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300'}`}
+                  title="Convert between XML and JSON / YAML"
+                >
+                  <Braces size={12} /> JSON
+                </button>
+                <button
+                  onClick={() => setShowValidation(!showValidation)}
+                  className={`flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-slate-600 text-xs rounded shadow-sm transition-colors ${showValidation ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300'}`}
+                  title="Validate against XSD files or the DOCTYPE"
+                >
+                  <ShieldCheck size={12} /> Validate
+                  {validation.issues.length > 0 && (
+                    <span className="px-1 rounded-full bg-red-600 text-white text-[10px] leading-4">{validation.issues.length}</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => setShowInference(!showInference)}
+                  className={`flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-slate-600 text-xs rounded shadow-sm transition-colors ${showInference ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300'}`}
+                  title="Infer XSD, JSON Schema or TypeScript types from sample documents"
+                >
+                  <Wand2 size={12} /> Infer
+                </button>
+                <button
+                  onClick={() => setShowStatistics(!showStatistics)}
+                  className={`flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-slate-600 text-xs rounded shadow-sm transition-colors ${showStatistics ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300'}`}
+                  title="Count, missing values, ranges and most frequent values at any element path"
+                >
+                  <BarChart3 size={12} /> Stats
+                </button>
+                <select
+                  value={xpathStyle}
+                  onChange={(e) => setXPathStyle(e.target.value as XPathStyle)}
+                  className="px-1.5 py-1 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-gray-600 dark:text-gray-300 text-xs rounded shadow-sm"
+                  title="XPath form used when copying"
+                >
+                  <option value="plain">XPath: as written</option>
+                  <option value="local-name">XPath: local-name()</option>
+                  <option value="prefixed">XPath: prefix map</option>
+                </select>
+                <button
+                  onClick={() => setShowNamespaceDeclarations(!showNamespaceDeclarations)}
+                  className="flex items-center gap-1 px-2 py-1 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300 text-xs rounded shadow-sm transition-colors"
+                  title={showNamespaceDeclarations ? "Hide xmlns declarations" : "Show xmlns declarations"}
+                >
+                  {showNamespaceDeclarations ? <Eye size={12} /> : <EyeOff size={12} />} xmlns
+                </button>
                 <button
                   onClick={handleExpandAll}
                   className="flex items-center gap-1 px-2 py-1 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300 text-xs rounded shadow-sm transition-colors"
@@ -793,33 +2226,164 @@ const App: React.FC = () => {
                 >
                   <Minimize2 size={12} /> Collapse All
                 </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setShowViews(!showViews)}
+                    className={`flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-slate-600 text-xs rounded shadow-sm transition-colors ${showViews ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300'}`}
+                    title="Saved views"
+                  >
+                    <Bookmark size={12} /> Views
+                  </button>
+                  {showViews && (
+                    <SavedViewsMenu
+                      views={savedViews.views}
+                      onSave={(name) => savedViews.saveView(name, expansion)}
+                      onRestore={(view) => {
+                        setExpansion(view.expansion);
+                        setShowViews(false);
+                      }}
+                      onDelete={savedViews.deleteView}
+                      onClose={() => setShowViews(false)}
+                    />
+                  )}
+                </div>
+                <button
+                  onClick={(e) => setExportAnchor(e.currentTarget.getBoundingClientRect())}
+                  disabled={!parsedData}
+                  className={`flex items-center gap-1 px-2 py-1 border border-gray-300 dark:border-slate-600 text-xs rounded shadow-sm transition-colors disabled:opacity-40 ${exportAnchor ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300'}`}
+                  title="Export the root element as a table"
+                >
+                  <FileDown size={12} /> Export
+                </button>
+                {exportAnchor && parsedData && (
+                  <ExportMenu
+                    name={parsedData.name}
+                    elements={[parsedData]}
+                    includeNamespaceDeclarations={showNamespaceDeclarations}
+                    anchor={exportAnchor}
+                    onClose={() => setExportAnchor(null)}
+                  />
+                )}
               </div>
             </div>
 
-            <div className="flex-1 overflow-auto p-4 custom-scrollbar relative">
-              {parsedData ? (
-                <div className="inline-block pb-10">
-                  <GridNode node={parsedData} depth={0} />
-                </div>
-              ) : (
-                <div className="flex flex-col items-center justify-center h-full text-gray-400 dark:text-slate-600">
-                  <Code className="w-16 h-16 mb-4 opacity-20" />
-                  <p className="text-sm font-medium">No valid XML data to display</p>
-                  <p className="text-xs mt-1">Paste XML above, drag & drop a file, or click "Sample"</p>
+            <XPathQueryBar
+              root={parsedData}
+              prolog={outerNodes.prolog}
+              epilog={outerNodes.epilog}
+              query={query}
+              onQueryChange={setQuery}
+              onHighlight={handleHighlight}
+            />
+
+            <div className="flex-1 flex overflow-hidden relative">
+              {parseProgress !== null && (
+                <div className="absolute inset-0 z-20 bg-gray-100/70 dark:bg-slate-900/70 backdrop-blur-sm flex items-center justify-center">
+                  <div className="w-72 p-4 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-lg shadow-xl flex flex-col gap-3 text-sm">
+                    <div className="flex items-center gap-2 text-gray-700 dark:text-gray-200">
+                      <Loader2 size={16} className="animate-spin text-blue-600 dark:text-blue-400" />
+                      <span className="flex-1">Parsing document…</span>
+                      <span className="font-mono text-xs">{Math.round(parseProgress * 100)}%</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-gray-200 dark:bg-slate-700 overflow-hidden">
+                      <div className="h-full bg-blue-600 transition-[width]" style={{ width: `${parseProgress * 100}%` }} />
+                    </div>
+                    <button
+                      onClick={handleCancelParse}
+                      className="self-end px-3 py-1 text-xs font-medium rounded border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-700"
+                    >
+                      Cancel
+                    </button>
+                  </div>
                 </div>
               )}
 
-              {/* Toast Notification for XPath Copy */}
-              {toastMessage && (
-                <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 bg-gray-800 dark:bg-slate-700 text-white dark:text-gray-100 px-4 py-2 rounded-full shadow-xl flex items-center gap-2 z-50 animate-fade-in-up text-sm">
-                  <CheckCircle2 size={16} className="text-green-400" />
-                  <span>{toastMessage}</span>
-                </div>
+              <div ref={gridScrollRef} data-grid-scroller className="flex-1 overflow-auto p-4 custom-scrollbar relative">
+                {parsedData ? (
+                  <div className="inline-block pb-10">
+                    {outerNodes.prolog.map((child, idx) => child.type !== 'element' && (
+                      <MiscNodeView key={child.id} node={child} path={documentLevelPath(child, outerNodes.prolog.slice(0, idx))} />
+                    ))}
+                    <GridNode node={parsedData} depth={0} />
+                    {outerNodes.epilog.map((child, idx) => child.type !== 'element' && (
+                      <MiscNodeView key={child.id} node={child} path={documentLevelPath(child, [...outerNodes.prolog, ...outerNodes.epilog.slice(0, idx)])} />
+                    ))}
+                  </div>
+                ) : (
+                  <div className="flex flex-col items-center justify-center h-full text-gray-400 dark:text-slate-600">
+                    <Code className="w-16 h-16 mb-4 opacity-20" />
+                    <p className="text-sm font-medium">No valid XML data to display</p>
+                    <p className="text-xs mt-1">Paste XML above, drag & drop a file, or click "Sample"</p>
+                  </div>
+                )}
+
+              </div>
+
+              {showSearch && (
+                <SearchPanel
+                  root={parsedData}
+                  onClose={() => setShowSearch(false)}
+                  onHighlight={handleHighlight}
+                />
+              )}
+
+              {showConvert && (
+                <ConvertPanel
+                  root={parsedData}
+                  formatOptions={formatOptions}
+                  onLoadXml={(xml) => processInput(xml, 'Converted from JSON')}
+                  onClose={() => setShowConvert(false)}
+                />
+              )}
+
+              {showValidation && (
+                <ValidationPanel
+                  schemas={schemas}
+                  report={validation}
+                  onAddSchemas={handleAddSchemas}
+                  onRemoveSchema={(name) => setSchemas(current => current.filter(schema => schema.name !== name))}
+                  onSelectIssue={handleSelectIssue}
+                  onClose={() => setShowValidation(false)}
+                />
+              )}
+
+              {showInference && (
+                <InferencePanel
+                  documents={inferenceDocuments}
+                  onValidateWith={(schema) => handleAddSchemas([schema])}
+                  onClose={() => setShowInference(false)}
+                />
+              )}
+
+              {showStatistics && (
+                <StatisticsPanel
+                  documents={inferenceDocuments}
+                  path={statisticsPath}
+                  onPathChange={setStatisticsPath}
+                  onClose={() => setShowStatistics(false)}
+                />
+              )}
+
+              {showHistory && (
+                <HistoryPanel
+                  entries={history.entries}
+                  index={history.index}
+                  onJump={handleJumpToHistory}
+                  onClose={() => setShowHistory(false)}
+                />
               )}
             </div>
           </section>
 
         </main>
+
+        {/* Toast Notification for XPath Copy and rejected edits */}
+        {toast && (
+          <div className={`fixed bottom-6 left-1/2 transform -translate-x-1/2 ${toast.isError ? 'bg-red-800' : 'bg-gray-800 dark:bg-slate-700'} text-white dark:text-gray-100 px-4 py-2 rounded-full shadow-xl flex items-center gap-2 z-50 animate-fade-in-up text-sm`}>
+            {toast.isError ? <AlertCircle size={16} className="text-red-300" /> : <CheckCircle2 size={16} className="text-green-400" />}
+            <span>{toast.message}</span>
+          </div>
+        )}
       </div>
     </GridContext.Provider>
   );
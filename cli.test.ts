@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { runCli, UsageError } from './cli';
+import { DocumentError } from './core';
+import { parseXML } from './utils';
+import { prettifyXML, DEFAULT_FORMAT_OPTIONS } from './formatter';
+import { groupChildren, tableColumns } from './gridLayout';
+import { buildExportTables, writeTables, DEFAULT_EXPORT_OPTIONS } from './tableExport';
+
+const CATALOG = `<?xml version="1.0"?>
+<catalog xmlns="urn:books">
+  <book id="b1"><title>Dune</title><price>9.99</price></book>
+  <book id="b2" lang="en"><title>Emma</title><author><name>Austen</name></author></book>
+</catalog>`;
+
+const run = (...args: string[]) => runCli(args, file => {
+  if (file !== 'catalog.xml' && file !== '-') throw new Error(`ENOENT: ${file}`);
+  return CATALOG;
+});
+
+describe('xmlgrid', () => {
+  it('prettifies and minifies as the toolbar does', () => {
+    expect(run('prettify', 'catalog.xml').output).toBe(prettifyXML(CATALOG, DEFAULT_FORMAT_OPTIONS) + '\r\n');
+    expect(run('prettify', '--indent', 'tab', '--newline', 'lf', 'catalog.xml').output).toContain('\n\t<book id="b1">\n\t\t<title>');
+    expect(run('minify', '--newline', 'lf', '-').output).toBe('<?xml version="1.0"?><catalog xmlns="urn:books"><book id="b1"><title>Dune</title><price>9.99</price></book><book id="b2" lang="en"><title>Emma</title><author><name>Austen</name></author></book></catalog>\n');
+  });
+
+  it('evaluates XPath with the query bar\'s namespace prefixes', () => {
+    expect(run('xpath', '//ns0:title', 'catalog.xml').output).toBe('Dune\nEmma\n');
+    expect(run('xpath', '--paths', '//b:book/@id', '--ns', 'b=urn:books', 'catalog.xml').output)
+      .toBe('/catalog/book[1]/@id\tb1\n/catalog/book[2]/@id\tb2\n');
+    expect(run('xpath', 'sum(//ns0:price) * 2', 'catalog.xml').output).toBe('19.98\n');
+    expect(run('xpath', '//title', 'catalog.xml')).toEqual({ output: '', warnings: ['No matches'] });
+  });
+
+  it('flattens the rows of a grid table as its export menu does', () => {
+    const root = parseXML(CATALOG).root!;
+    const books = groupChildren(root).get('book')!;
+    expect(tableColumns(books, false)).toEqual({ attributes: ['id', 'lang'], children: ['author', 'price', 'title'] });
+
+    const options = { ...DEFAULT_EXPORT_OPTIONS, nested: 'flatten' as const, format: 'markdown' as const };
+    expect(run('flatten', '--select', '/ns0:catalog/ns0:book', '--nested', 'flatten', '--format', 'markdown', 'catalog.xml').output)
+      .toBe(writeTables(buildExportTables('book', books, options), 'markdown'));
+    expect(run('flatten', 'catalog.xml').output.split('\r\n')[0]).toBe('book');
+  });
+
+  it('converts to JSON and reports what the convention drops', () => {
+    const { output, warnings } = run('to-json', '--convention', 'parker', 'catalog.xml');
+    expect(JSON.parse(output)).toEqual({ book: [{ title: 'Dune', price: 9.99 }, { title: 'Emma', author: { name: 'Austen' } }] });
+    expect(warnings).toContain('The root element name <catalog> is dropped');
+    expect(run('to-json', '--yaml', 'catalog.xml').output).toMatch(/^catalog:\n {2}"@xmlns": "urn:books"\n {2}book:\n {4}- "@id": b1\n/);
+  });
+
+  it('rejects bad arguments and documents', () => {
+    expect(() => run('frob', 'catalog.xml')).toThrow(new UsageError('Unknown command "frob"'));
+    expect(() => run('xpath', 'catalog.xml')).toThrow('xpath needs an expression and a file');
+    expect(() => run('prettify', '--yaml', 'catalog.xml')).toThrow('prettify has no option --yaml');
+    expect(() => run('flatten', '--format', 'pdf', 'catalog.xml')).toThrow('--format must be one of csv, tsv, spreadsheetml, markdown, html');
+    expect(() => run('flatten', '--select', '//missing', 'catalog.xml')).toThrow(new DocumentError('//missing selects no elements'));
+    expect(() => runCli(['prettify', 'a.xml'], () => '<a><b></a>')).toThrow(/^The document is not well-formed: .* at line 1, column \d+$/);
+    expect(run('--help').output).toContain('Usage: xmlgrid <command>');
+  });
+});
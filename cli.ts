@@ -0,0 +1,175 @@
+import { formatDocument, queryDocument, flattenDocument, documentToJson } from './core';
+import { FormatOptions, DEFAULT_FORMAT_OPTIONS } from './formatter';
+import { ExportOptions, DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, ExportFormat, NestedMode } from './tableExport';
+import { CONVENTIONS, Convention } from './convert';
+
+// --- Command Line ---
+// xmlgrid prettify|minify|xpath|flatten|to-json, on top of core.ts. The commands are run here
+// without touching the process, so they can be tested; xmlgrid.ts reads the files and writes
+// the results.
+
+export class UsageError extends Error {}
+
+export const USAGE = `Usage: xmlgrid <command> [options] <file.xml | ->
+
+Commands:
+  prettify              Indent the document as the Prettify button does
+  minify                Remove the whitespace between elements
+  xpath <expression>    Evaluate an XPath 1.0 expression; prints each matched node's value,
+                        or the value of a number, string or boolean expression
+  flatten               Export a table as the grid's export menu does
+  to-json               Convert to JSON (or YAML) as the JSON panel does
+
+Formatting (prettify, minify):
+  --indent <n|tab>      Spaces per level (default 2)
+  --newline <lf|crlf>   Line endings (default crlf)
+  --width <n>           Wrap attributes past this column; 0 never wraps (default 0)
+  --self-closing <preserve|collapse|expand>
+  --keep-space          Leave elements under xml:space="preserve" as written (default)
+  --no-keep-space
+
+xpath:
+  --paths               Print each node's grid path before its value
+  --ns <prefix=uri>     Bind a namespace prefix; may be repeated
+
+flatten:
+  --select <xpath>      The rows, e.g. /catalog/book (default: the root element)
+  --format <${Object.keys(EXPORT_FORMATS).join('|')}>  (default csv)
+  --nested <json|flatten|sheets>  Cells holding nested elements (default json)
+  --namespace-declarations  Include xmlns attributes as columns
+
+to-json:
+  --convention <${Object.keys(CONVENTIONS).join('|')}>  (default attr-text)
+  --yaml                Write YAML instead of JSON
+
+Use - as the file to read from standard input.`;
+
+export interface CliResult {
+  output: string;
+  // Printed to standard error, e.g. what a JSON convention could not keep
+  warnings: string[];
+}
+
+// Reads --name value pairs and flags; everything else is positional
+const parseArguments = (args: string[], flags: string[]) => {
+  const options = new Map<string, string[]>();
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    let value = 'true';
+    if (!flags.includes(name)) {
+      if (i + 1 >= args.length) throw new UsageError(`${arg} needs a value`);
+      value = args[++i];
+    }
+    options.set(name, [...(options.get(name) ?? []), value]);
+  }
+  return { options, positional };
+};
+
+const lastValue = (options: Map<string, string[]>, name: string): string | undefined => {
+  const values = options.get(name);
+  return values ? values[values.length - 1] : undefined;
+};
+
+const choice = <T extends string>(name: string, value: string | undefined, allowed: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!(allowed as readonly string[]).includes(value)) throw new UsageError(`--${name} must be one of ${allowed.join(', ')}`);
+  return value as T;
+};
+
+const count = (name: string, value: string | undefined, fallback: number): number => {
+  if (value === undefined) return fallback;
+  if (!/^\d+$/.test(value)) throw new UsageError(`--${name} must be a whole number`);
+  return Number(value);
+};
+
+const COMMAND_FLAGS: Record<string, string[]> = {
+  prettify: ['keep-space', 'no-keep-space'],
+  minify: ['keep-space', 'no-keep-space'],
+  xpath: ['paths'],
+  flatten: ['namespace-declarations'],
+  'to-json': ['yaml'],
+};
+
+const COMMAND_OPTIONS: Record<string, string[]> = {
+  prettify: ['indent', 'newline', 'width', 'self-closing'],
+  minify: ['indent', 'newline', 'width', 'self-closing'],
+  xpath: ['ns'],
+  flatten: ['select', 'format', 'nested'],
+  'to-json': ['convention'],
+};
+
+const formatOptions = (options: Map<string, string[]>): FormatOptions => {
+  const last = (name: string) => lastValue(options, name);
+  const indent = last('indent');
+  return {
+    indent: indent === 'tab' ? 'tab' : count('indent', indent, DEFAULT_FORMAT_OPTIONS.indent as number),
+    newline: choice('newline', last('newline'), ['lf', 'crlf'], DEFAULT_FORMAT_OPTIONS.newline),
+    maxLineWidth: count('width', last('width'), DEFAULT_FORMAT_OPTIONS.maxLineWidth),
+    selfClosing: choice('self-closing', last('self-closing'), ['preserve', 'collapse', 'expand'], DEFAULT_FORMAT_OPTIONS.selfClosing),
+    preserveSpace: options.has('no-keep-space') ? false : options.has('keep-space') || DEFAULT_FORMAT_OPTIONS.preserveSpace,
+  };
+};
+
+// Runs one command line. readInput gets the file argument (- for standard input) and returns its
+// text. Throws a UsageError for bad arguments; document and expression errors are thrown as they are.
+export const runCli = (args: string[], readInput: (file: string) => string): CliResult => {
+  const [command, ...rest] = args;
+  if (!command || command === '--help' || command === 'help') return { output: USAGE + '\n', warnings: [] };
+  if (!(command in COMMAND_FLAGS)) throw new UsageError(`Unknown command "${command}"`);
+
+  const { options, positional } = parseArguments(rest, COMMAND_FLAGS[command]);
+  const known = [...COMMAND_FLAGS[command], ...COMMAND_OPTIONS[command]];
+  options.forEach((_, name) => {
+    if (!known.includes(name)) throw new UsageError(`${command} has no option --${name}`);
+  });
+  const last = (name: string) => lastValue(options, name);
+
+  const expected = command === 'xpath' ? 2 : 1;
+  if (positional.length !== expected) {
+    throw new UsageError(command === 'xpath' ? 'xpath needs an expression and a file' : `${command} needs one file`);
+  }
+  const source = readInput(positional[expected - 1]);
+
+  switch (command) {
+    case 'prettify':
+    case 'minify': {
+      const format = formatOptions(options);
+      return { output: formatDocument(source, command, format) + (format.newline === 'crlf' ? '\r\n' : '\n'), warnings: [] };
+    }
+
+    case 'xpath': {
+      const namespaces: Record<string, string> = {};
+      (options.get('ns') ?? []).forEach(binding => {
+        const match = binding.match(/^([A-Za-z_][\w.-]*)=(.+)$/);
+        if (!match) throw new UsageError(`--ns takes prefix=uri, not "${binding}"`);
+        namespaces[match[1]] = match[2];
+      });
+      const result = queryDocument(source, positional[0], namespaces);
+      if (result.kind === 'value') return { output: result.value + '\n', warnings: [] };
+      const lines = result.matches.map(match => (options.has('paths') ? `${match.path}\t${match.value}` : match.value));
+      return { output: lines.map(line => line + '\n').join(''), warnings: result.matches.length === 0 ? ['No matches'] : [] };
+    }
+
+    case 'flatten': {
+      const exportOptions: ExportOptions = {
+        format: choice('format', last('format'), Object.keys(EXPORT_FORMATS) as ExportFormat[], DEFAULT_EXPORT_OPTIONS.format),
+        nested: choice('nested', last('nested'), ['json', 'flatten', 'sheets'] as NestedMode[], DEFAULT_EXPORT_OPTIONS.nested),
+        includeNamespaceDeclarations: options.has('namespace-declarations'),
+      };
+      const output = flattenDocument(source, last('select') ?? null, exportOptions);
+      return { output: output.endsWith('\n') ? output : output + '\n', warnings: [] };
+    }
+
+    default: {
+      const convention = choice('convention', last('convention'), Object.keys(CONVENTIONS) as Convention[], 'attr-text');
+      const { output, losses } = documentToJson(source, convention, options.has('yaml') ? 'yaml' : 'json');
+      return { output, warnings: losses };
+    }
+  }
+};
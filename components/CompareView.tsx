@@ -0,0 +1,329 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { GitCompare, X, FolderOpen, FileCode, Code, AlertCircle } from 'lucide-react';
+import { XMLNode } from '../types';
+import { parseXML } from '../utils';
+import { ancestorPaths } from '../paths';
+import { ExpansionState, DEFAULT_EXPANSION, expandPaths } from '../expansion';
+import { useWindowedList } from '../windowing';
+import { diffDocuments, DiffChange, DiffKind, DiffOptions, DEFAULT_DIFF_OPTIONS } from '../xmlDiff';
+
+export interface CompareGridProps {
+  root: XMLNode;
+  marks: Map<string, DiffKind>;
+  activeKey: string | null;
+  expansion: ExpansionState;
+  onExpansionChange: (update: (state: ExpansionState) => ExpansionState) => void;
+}
+
+interface CompareViewProps {
+  // The editor's document, offered as either side
+  currentSource: string;
+  // Draws one side's grid; the grid components live with the app
+  renderGrid: (props: CompareGridProps) => React.ReactNode;
+  onClose: () => void;
+}
+
+type Side = 'left' | 'right';
+
+interface CompareDocument {
+  label: string;
+  source: string;
+}
+
+const DIFF_OPTIONS_KEY = 'diffOptions';
+
+// Changes revealed when a diff is computed; the rest open when picked from the list
+const MAX_REVEALED_CHANGES = 200;
+
+const KIND_BADGES: Record<DiffKind, string> = {
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+  removed: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+  changed: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300',
+};
+
+const loadDiffOptions = (): DiffOptions => {
+  try {
+    const saved = localStorage.getItem(DIFF_OPTIONS_KEY);
+    return saved ? { ...DEFAULT_DIFF_OPTIONS, ...JSON.parse(saved) } : DEFAULT_DIFF_OPTIONS;
+  } catch {
+    return DEFAULT_DIFF_OPTIONS;
+  }
+};
+
+// The grid paths to open so a change can be seen. Elements are opened themselves.
+const revealPathsOf = (change: DiffChange): string[] =>
+  [change.leftPath, change.rightPath]
+    .filter((path): path is string => path !== null)
+    .map(path => (change.target === 'element' ? `${path}/text()` : path));
+
+const describeValue = (value: string | null): string => {
+  if (value === null) return '';
+  return value.length > 60 ? `"${value.slice(0, 60)}…"` : `"${value}"`;
+};
+
+// Before/after comparison: two documents side by side with the differences marked in both grids
+// and listed below them. Expansion is shared, so opening a node on one side opens it on the other.
+const CompareView: React.FC<CompareViewProps> = ({ currentSource, renderGrid, onClose }) => {
+  const [documents, setDocuments] = useState<Record<Side, CompareDocument>>({
+    left: { label: 'Before', source: '' },
+    right: { label: 'Current document', source: currentSource },
+  });
+  const [showSource, setShowSource] = useState<Record<Side, boolean>>({ left: true, right: false });
+  const [options, setOptions] = useState<DiffOptions>(loadDiffOptions);
+  const [keysText, setKeysText] = useState(() => loadDiffOptions().keys.join(', '));
+  const [expansion, setExpansion] = useState<ExpansionState>(DEFAULT_EXPANSION);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [syncScroll, setSyncScroll] = useState(true);
+
+  const paneRefs = { left: useRef<HTMLDivElement>(null), right: useRef<HTMLDivElement>(null) };
+  const fileInputs = { left: useRef<HTMLInputElement>(null), right: useRef<HTMLInputElement>(null) };
+  // The pane whose next scroll event was caused by syncing, not by the user
+  const echoScroll = useRef<Side | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(DIFF_OPTIONS_KEY, JSON.stringify(options));
+  }, [options]);
+
+  const parsed = useMemo(() => ({
+    left: documents.left.source.trim() ? parseXML(documents.left.source) : null,
+    right: documents.right.source.trim() ? parseXML(documents.right.source) : null,
+  }), [documents]);
+
+  const diff = useMemo(() => {
+    const left = parsed.left?.root;
+    const right = parsed.right?.root;
+    return left && right ? diffDocuments(left, right, options) : null;
+  }, [parsed, options]);
+
+  // A new diff opens the nodes its first changes sit in
+  useEffect(() => {
+    setActiveIndex(null);
+    if (!diff) return;
+    const paths = diff.changes.slice(0, MAX_REVEALED_CHANGES).flatMap(revealPathsOf);
+    setExpansion(current => expandPaths(current, ancestorPaths(paths)));
+  }, [diff]);
+
+  const activeChange = diff && activeIndex !== null ? diff.changes[activeIndex] : null;
+
+  useEffect(() => {
+    if (!activeChange) return;
+    const timer = setTimeout(() => {
+      (['left', 'right'] as Side[]).forEach(side => {
+        const key = side === 'left' ? activeChange.leftKey : activeChange.rightKey;
+        if (!key) return;
+        const target = paneRefs[side].current?.querySelector(`[data-highlight-key="${CSS.escape(key)}"]`);
+        target?.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'smooth' });
+      });
+    }, 50);
+    return () => clearTimeout(timer);
+  }, [activeChange]);
+
+  const selectChange = (index: number) => {
+    setActiveIndex(index);
+    setExpansion(current => expandPaths(current, ancestorPaths(revealPathsOf(diff!.changes[index]))));
+  };
+
+  const setSource = (side: Side, label: string, source: string) =>
+    setDocuments(current => ({ ...current, [side]: { label, source } }));
+
+  const loadFile = (side: Side, file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => setSource(side, file.name, text));
+  };
+
+  const handleScroll = (side: Side) => {
+    if (!syncScroll) return;
+    if (echoScroll.current === side) {
+      echoScroll.current = null;
+      return;
+    }
+    const other: Side = side === 'left' ? 'right' : 'left';
+    const from = paneRefs[side].current;
+    const to = paneRefs[other].current;
+    if (!from || !to) return;
+    echoScroll.current = other;
+    to.scrollTop = from.scrollTop;
+    to.scrollLeft = from.scrollLeft;
+  };
+
+  const applyKeys = () => setOptions({ ...options, keys: keysText.split(',').map(key => key.trim()).filter(Boolean) });
+
+  const changeRows = useWindowedList<HTMLUListElement>(diff ? diff.changes.length : 0, true);
+
+  const counts = useMemo(() => {
+    const result: Record<DiffKind, number> = { added: 0, removed: 0, changed: 0 };
+    diff?.changes.forEach(change => { result[change.kind]++; });
+    return result;
+  }, [diff]);
+
+  const checkbox = (label: string, checked: boolean, onChange: (checked: boolean) => void) => (
+    <label className="flex items-center gap-1 cursor-pointer select-none whitespace-nowrap">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      {label}
+    </label>
+  );
+
+  const renderPane = (side: Side) => {
+    const doc = documents[side];
+    const result = parsed[side];
+    const marks = diff ? (side === 'left' ? diff.leftMarks : diff.rightMarks) : new Map<string, DiffKind>();
+    const activeKey = activeChange ? (side === 'left' ? activeChange.leftKey : activeChange.rightKey) : null;
+
+    return (
+      <div
+        className="flex-1 min-w-0 flex flex-col border-r last:border-r-0 border-gray-200 dark:border-slate-700"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => { e.preventDefault(); loadFile(side, e.dataTransfer.files[0]); }}
+      >
+        <div className="bg-gray-50 dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 px-3 py-1.5 flex items-center gap-2 text-xs shrink-0">
+          <span className="font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">{side === 'left' ? 'Before' : 'After'}</span>
+          <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-200" title={doc.label}>{doc.label}</span>
+          <button
+            onClick={() => setSource(side, 'Current document', currentSource)}
+            className="flex items-center gap-1 px-2 py-0.5 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-slate-700"
+            title="Use the document from the editor"
+          >
+            <FileCode size={12} /> Current
+          </button>
+          <button
+            onClick={() => fileInputs[side].current?.click()}
+            className="flex items-center gap-1 px-2 py-0.5 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-slate-700"
+            title="Open an XML file (or drop one here)"
+          >
+            <FolderOpen size={12} /> Open
+          </button>
+          <input
+            ref={fileInputs[side]}
+            type="file"
+            accept=".xml,text/xml,application/xml"
+            className="hidden"
+            onChange={(e) => { loadFile(side, e.target.files?.[0]); e.target.value = ''; }}
+          />
+          <button
+            onClick={() => setShowSource({ ...showSource, [side]: !showSource[side] })}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded ${showSource[side] ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-slate-700'}`}
+            title="Show or edit the source"
+          >
+            <Code size={12} /> Source
+          </button>
+        </div>
+
+        {showSource[side] && (
+          <textarea
+            value={doc.source}
+            onChange={(e) => setSource(side, doc.label, e.target.value)}
+            placeholder="Paste XML here, or open or drop a file"
+            spellCheck={false}
+            className="h-40 shrink-0 p-2 font-mono text-xs bg-slate-900 text-slate-200 border-b border-gray-200 dark:border-slate-700 resize-y focus:outline-none custom-scrollbar"
+          />
+        )}
+
+        <div ref={paneRefs[side]} data-grid-scroller onScroll={() => handleScroll(side)} className="flex-1 overflow-auto p-4 custom-scrollbar bg-gray-100 dark:bg-slate-900">
+          {result?.root ? (
+            <div className="inline-block min-w-full">
+              {renderGrid({ root: result.root, marks, activeKey, expansion, onExpansionChange: setExpansion })}
+            </div>
+          ) : result?.error ? (
+            <div className="flex items-start gap-2 text-red-600 dark:text-red-400 text-sm">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" /> {result.error}
+            </div>
+          ) : (
+            <div className="text-gray-400 dark:text-slate-500 text-sm">No document yet</div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Options */}
+      <div className="bg-white dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 px-4 py-2 flex items-center gap-4 flex-wrap text-xs text-gray-700 dark:text-gray-200 shrink-0">
+        <span className="flex items-center gap-1.5 font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+          <GitCompare size={14} /> Compare
+        </span>
+        {checkbox('Ignore attribute order', options.ignoreAttributeOrder, (checked) => setOptions({ ...options, ignoreAttributeOrder: checked }))}
+        {checkbox('Ignore whitespace', options.ignoreWhitespace, (checked) => setOptions({ ...options, ignoreWhitespace: checked }))}
+        {checkbox('Ignore namespace prefixes', options.ignoreNamespacePrefixes, (checked) => setOptions({ ...options, ignoreNamespacePrefixes: checked }))}
+        {checkbox('Sync scrolling', syncScroll, setSyncScroll)}
+        <label className="flex items-center gap-1 flex-1 min-w-[220px]">
+          <span className="whitespace-nowrap">Match by</span>
+          <input
+            value={keysText}
+            onChange={(e) => setKeysText(e.target.value)}
+            onBlur={applyKeys}
+            onKeyDown={(e) => e.key === 'Enter' && applyKeys()}
+            placeholder="book/@id, item/sku"
+            spellCheck={false}
+            className="flex-1 min-w-0 px-2 py-1 font-mono bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded focus:outline-none focus:border-blue-500"
+            title="Key attributes or children that pair repeated siblings instead of their position, separated by commas"
+          />
+        </label>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700"
+          title="Close compare mode"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Grids */}
+      <div className="flex-1 min-h-0 flex">
+        {renderPane('left')}
+        {renderPane('right')}
+      </div>
+
+      {/* Change list */}
+      <div className="h-48 shrink-0 border-t border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex flex-col text-xs">
+        <div className="px-3 py-1.5 border-b border-gray-200 dark:border-slate-700 flex items-center gap-3 text-gray-600 dark:text-gray-300">
+          <span className="font-semibold uppercase tracking-wider">Changes</span>
+          {diff && (
+            <>
+              <span className="text-green-700 dark:text-green-400">{counts.added} added</span>
+              <span className="text-red-700 dark:text-red-400">{counts.removed} removed</span>
+              <span className="text-amber-700 dark:text-amber-400">{counts.changed} changed</span>
+            </>
+          )}
+        </div>
+        {!diff ? (
+          <div className="p-3 text-gray-500 dark:text-gray-400">Load a document on each side to compare them</div>
+        ) : diff.changes.length === 0 ? (
+          <div className="p-3 text-gray-500 dark:text-gray-400">The documents are the same</div>
+        ) : (
+          <div data-grid-scroller className="flex-1 overflow-auto custom-scrollbar">
+            <ul ref={changeRows.containerRef}>
+              {changeRows.paddingTop > 0 && <li data-spacer="true" style={{ height: changeRows.paddingTop }} />}
+              {diff.changes.slice(changeRows.start, changeRows.end).map((change, windowIndex) => {
+                const index = changeRows.start + windowIndex;
+                return (
+                  <li
+                    key={index}
+                    onClick={() => selectChange(index)}
+                    className={`px-3 py-1 border-b border-gray-100 dark:border-slate-700 cursor-pointer flex items-center gap-2 ${index === activeIndex ? 'bg-blue-100 dark:bg-slate-600' : 'hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+                  >
+                    <span className={`px-1.5 rounded text-[10px] font-semibold uppercase shrink-0 ${KIND_BADGES[change.kind]}`}>{change.kind}</span>
+                    <span className="text-gray-500 dark:text-gray-400 shrink-0">{change.target}</span>
+                    <span className="font-mono text-gray-900 dark:text-gray-100 truncate" title={change.rightPath ?? change.leftPath ?? ''}>
+                      {change.rightPath ?? change.leftPath}
+                    </span>
+                    {change.target !== 'element' || change.kind === 'changed' ? (
+                      <span className="ml-auto pl-2 font-mono text-gray-500 dark:text-gray-400 truncate shrink-0 max-w-[40%]">
+                        {change.kind === 'changed'
+                          ? `${describeValue(change.before)} → ${describeValue(change.after)}`
+                          : describeValue(change.kind === 'added' ? change.after : change.before)}
+                      </span>
+                    ) : null}
+                  </li>
+                );
+              })}
+              {changeRows.paddingBottom > 0 && <li data-spacer="true" style={{ height: changeRows.paddingBottom }} />}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,176 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Braces, X, Copy, Download, AlertCircle, FileCode } from 'lucide-react';
+import { XMLNode } from '../types';
+import { FormatOptions } from '../formatter';
+import { Convention, OutputFormat, CONVENTIONS, xmlToValue, writeValue, jsonToXml } from '../convert';
+
+interface ConvertPanelProps {
+  root: XMLNode | null;
+  formatOptions: FormatOptions;
+  // Replaces the editor content with XML converted from JSON
+  onLoadXml: (xml: string) => void;
+  onClose: () => void;
+}
+
+type Direction = 'toJson' | 'toXml';
+
+const CONVERT_OPTIONS_KEY = 'convertOptions';
+
+const loadConvertOptions = (): { convention: Convention; format: OutputFormat } => {
+  const defaults = { convention: 'attr-text' as Convention, format: 'json' as OutputFormat };
+  try {
+    const saved = localStorage.getItem(CONVERT_OPTIONS_KEY);
+    return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
+const textAreaClass = 'flex-1 min-h-0 w-full p-2 font-mono text-[11px] leading-4 bg-gray-50 dark:bg-slate-900 text-gray-900 dark:text-gray-100 border border-gray-300 dark:border-slate-600 rounded resize-none focus:outline-none focus:border-blue-500 custom-scrollbar';
+
+const ConvertPanel: React.FC<ConvertPanelProps> = ({ root, formatOptions, onLoadXml, onClose }) => {
+  const [direction, setDirection] = useState<Direction>('toJson');
+  const [convention, setConvention] = useState<Convention>(() => loadConvertOptions().convention);
+  const [format, setFormat] = useState<OutputFormat>(() => loadConvertOptions().format);
+  const [json, setJson] = useState('');
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem(CONVERT_OPTIONS_KEY, JSON.stringify({ convention, format }));
+  }, [convention, format]);
+
+  const output = useMemo(() => {
+    if (!root || direction !== 'toJson') return null;
+    const { value, losses } = xmlToValue(root, convention);
+    return { text: writeValue(value, format), losses };
+  }, [root, convention, format, direction]);
+
+  const copyOutput = () => {
+    if (!output) return;
+    navigator.clipboard.writeText(output.text).then(() => {
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    });
+  };
+
+  const downloadOutput = () => {
+    if (!output || !root) return;
+    const blob = new Blob([output.text], { type: format === 'yaml' ? 'application/yaml' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${root.name}.${format === 'yaml' ? 'yaml' : 'json'}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadXml = () => {
+    try {
+      onLoadXml(jsonToXml(json, convention, formatOptions));
+      setJsonError(null);
+    } catch (e: any) {
+      setJsonError(e.message);
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex-1 px-2 py-1 rounded transition-colors ${active
+      ? 'bg-blue-100 dark:bg-slate-600 text-blue-700 dark:text-blue-300 font-semibold'
+      : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-slate-700'}`;
+
+  const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded border border-gray-300 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-40';
+
+  return (
+    <aside className="w-96 shrink-0 border-l border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex flex-col text-xs text-gray-700 dark:text-gray-200">
+      <div className="p-2 border-b border-gray-200 dark:border-slate-700 flex flex-col gap-2">
+        <div className="flex items-center gap-1.5 text-gray-600 dark:text-gray-300">
+          <Braces size={14} className="text-gray-400 shrink-0" />
+          <span className="flex-1 font-semibold uppercase tracking-wider">Convert</span>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700"
+            title="Close conversion"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <div className="flex gap-1">
+          <button onClick={() => setDirection('toJson')} className={tabClass(direction === 'toJson')}>XML → JSON / YAML</button>
+          <button onClick={() => setDirection('toXml')} className={tabClass(direction === 'toXml')}>JSON → XML</button>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={convention}
+            onChange={(e) => setConvention(e.target.value as Convention)}
+            className="flex-1 min-w-0 px-1 py-0.5 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded"
+            title="Mapping convention"
+          >
+            {(Object.keys(CONVENTIONS) as Convention[]).map(key => (
+              <option key={key} value={key}>{CONVENTIONS[key].label}{CONVENTIONS[key].lossless ? '' : ' (lossy)'}</option>
+            ))}
+          </select>
+          {direction === 'toJson' && (
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as OutputFormat)}
+              className="px-1 py-0.5 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded"
+              title="Output format"
+            >
+              <option value="json">JSON</option>
+              <option value="yaml">YAML</option>
+            </select>
+          )}
+        </div>
+        <div className="text-gray-500 dark:text-gray-400">{CONVENTIONS[convention].description}</div>
+      </div>
+
+      {direction === 'toJson' ? (
+        <div className="flex-1 min-h-0 p-2 flex flex-col gap-2">
+          {!output ? (
+            <div className="text-gray-500 dark:text-gray-400">Parse a document to convert it</div>
+          ) : (
+            <>
+              {output.losses.length > 0 && (
+                <ul className="max-h-24 overflow-auto custom-scrollbar text-amber-700 dark:text-amber-300">
+                  {output.losses.map(loss => (
+                    <li key={loss} className="flex items-start gap-1"><AlertCircle size={12} className="mt-0.5 shrink-0" />{loss}</li>
+                  ))}
+                </ul>
+              )}
+              <textarea readOnly value={output.text} className={textAreaClass} spellCheck={false} />
+              <div className="flex gap-2">
+                <button onClick={copyOutput} className={buttonClass}>
+                  <Copy size={12} /> {isCopied ? 'Copied' : 'Copy'}
+                </button>
+                <button onClick={downloadOutput} className={buttonClass}>
+                  <Download size={12} /> Download
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 p-2 flex flex-col gap-2">
+          <textarea
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+            className={textAreaClass}
+            placeholder="Paste JSON written under the selected convention"
+            spellCheck={false}
+          />
+          {jsonError && (
+            <div className="flex items-start gap-1 text-red-600 dark:text-red-400"><AlertCircle size={12} className="mt-0.5 shrink-0" />{jsonError}</div>
+          )}
+          <div>
+            <button onClick={loadXml} disabled={!json.trim()} className={buttonClass} title="Replace the editor content with the converted XML">
+              <FileCode size={12} /> Load into editor
+            </button>
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default ConvertPanel;
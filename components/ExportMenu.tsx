@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { Download, Copy } from 'lucide-react';
+import { XMLNode } from '../types';
+import {
+  ExportFormat, ExportKeyColumn, NestedMode, DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, buildExportTables, writeTables, writeHtmlTables,
+} from '../tableExport';
+
+interface ExportMenuProps {
+  // File name (without extension) and name of the main sheet
+  name: string;
+  // The rows to export: the items of one table as filtered and sorted, or just the root element
+  elements: XMLNode[];
+  // Columns from the rows' ancestors, for a flattened table
+  keyColumns?: ExportKeyColumn[];
+  // The columns the table shows, in display order; hidden ones are not exported
+  columns?: string[];
+  includeNamespaceDeclarations: boolean;
+  // The button that opened the menu; the menu is placed below it
+  anchor: DOMRect;
+  onClose: () => void;
+}
+
+const EXPORT_OPTIONS_KEY = 'exportOptions';
+
+const NESTED_MODES: { value: NestedMode; label: string }[] = [
+  { value: 'json', label: 'JSON in cell' },
+  { value: 'flatten', label: 'Flatten to dotted columns' },
+  { value: 'sheets', label: 'Separate sheet per nested group' },
+];
+
+const MENU_WIDTH = 256;
+
+const loadExportOptions = (): { format: ExportFormat; nested: NestedMode } => {
+  try {
+    const saved = localStorage.getItem(EXPORT_OPTIONS_KEY);
+    return saved ? { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(saved) } : DEFAULT_EXPORT_OPTIONS;
+  } catch {
+    return DEFAULT_EXPORT_OPTIONS;
+  }
+};
+
+// Popover for downloading a table in one of the export formats or copying it to the clipboard.
+// It is positioned against the viewport because table headers clip their overflow.
+const ExportMenu: React.FC<ExportMenuProps> = ({ name, elements, keyColumns = [], columns, includeNamespaceDeclarations, anchor, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>(() => loadExportOptions().format);
+  const [nested, setNested] = useState<NestedMode>(() => loadExportOptions().nested);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(EXPORT_OPTIONS_KEY, JSON.stringify({ format, nested }));
+  }, [format, nested]);
+
+  const tables = () => buildExportTables(name, elements, { format, nested, includeNamespaceDeclarations }, keyColumns, columns);
+
+  const download = () => {
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    const blob = new Blob([writeTables(tables(), format)], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  // HTML for spreadsheets and rich text editors, TSV for everything else
+  const copy = () => {
+    const result = tables();
+    const text = writeTables(result, 'tsv');
+    const rows = result[0].rows.length;
+    const done = () => setStatus(`Copied ${rows} row${rows === 1 ? '' : 's'}`);
+    const failed = () => setStatus('Could not access the clipboard');
+
+    if (typeof ClipboardItem !== 'undefined') {
+      navigator.clipboard.write([new ClipboardItem({
+        'text/html': new Blob([writeHtmlTables(result)], { type: 'text/html' }),
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+      })]).then(done, () => navigator.clipboard.writeText(text).then(done, failed));
+    } else {
+      navigator.clipboard.writeText(text).then(done, failed);
+    }
+  };
+
+  const left = Math.max(8, Math.min(anchor.right - MENU_WIDTH, window.innerWidth - MENU_WIDTH - 8));
+
+  return (
+    <>
+      <div className="fixed inset-0 z-30" onClick={(e) => { e.stopPropagation(); onClose(); }} />
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{ top: anchor.bottom + 4, left, width: MENU_WIDTH }}
+        className="fixed z-40 p-3 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-lg shadow-xl flex flex-col gap-2 text-xs font-normal text-gray-700 dark:text-gray-200 cursor-default"
+      >
+        <div className="font-semibold text-gray-900 dark:text-gray-100 truncate">
+          Export {name} <span className="font-normal text-gray-500 dark:text-gray-400">({elements.length} row{elements.length === 1 ? '' : 's'})</span>
+        </div>
+        <label className="flex items-center justify-between gap-2">
+          <span>Format</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="px-1 py-0.5 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded"
+          >
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+              <option key={key} value={key}>{EXPORT_FORMATS[key].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Nested elements</span>
+          <select
+            value={nested}
+            onChange={(e) => setNested(e.target.value as NestedMode)}
+            className="px-1 py-0.5 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded"
+          >
+            {NESTED_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+          </select>
+        </label>
+        <div className="flex items-center gap-2 pt-1">
+          <button
+            onClick={download}
+            className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white"
+            title={`Download ${name}.${EXPORT_FORMATS[format].extension}`}
+          >
+            <Download size={12} /> Download
+          </button>
+          <button
+            onClick={copy}
+            className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded border border-gray-300 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700"
+            title="Copy the table for pasting into a spreadsheet or document"
+          >
+            <Copy size={12} /> Copy table
+          </button>
+        </div>
+        {status && <div className="text-gray-500 dark:text-gray-400">{status}</div>}
+      </div>
+    </>
+  );
+};
+
+export default ExportMenu;
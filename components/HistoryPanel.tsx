@@ -0,0 +1,50 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { HistoryEntry } from '../history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<unknown>[];
+  index: number;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (time: number): string =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, onJump, onClose }) => (
+  <aside className="w-64 shrink-0 border-l border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex flex-col text-xs">
+    <div className="p-2 border-b border-gray-200 dark:border-slate-700 flex items-center gap-1.5 text-gray-600 dark:text-gray-300">
+      <History size={14} className="text-gray-400 shrink-0" />
+      <span className="flex-1 font-semibold uppercase tracking-wider">History</span>
+      <button
+        onClick={onClose}
+        className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700"
+        title="Close history"
+      >
+        <X size={14} />
+      </button>
+    </div>
+
+    {/* Newest first; entries past the current one can still be redone */}
+    <ul className="flex-1 overflow-auto custom-scrollbar">
+      {entries.map((entry, entryIndex) => ({ entry, entryIndex })).reverse().map(({ entry, entryIndex }) => (
+        <li
+          key={`${entryIndex}-${entry.time}`}
+          onClick={() => onJump(entryIndex)}
+          className={`px-2 py-1.5 border-b border-gray-100 dark:border-slate-700 cursor-pointer flex items-center gap-2 ${entryIndex === index
+            ? 'bg-blue-100 dark:bg-slate-600 text-blue-800 dark:text-blue-200 font-semibold'
+            : entryIndex > index
+              ? 'text-gray-400 dark:text-slate-500 italic hover:bg-gray-50 dark:hover:bg-slate-700'
+              : 'text-gray-800 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+          title={entryIndex > index ? 'Undone — click to redo up to here' : 'Click to return to this state'}
+        >
+          <span className="flex-1 truncate">{entry.label}</span>
+          <span className="font-mono text-[10px] text-gray-400 dark:text-slate-500 shrink-0">{formatTime(entry.time)}</span>
+        </li>
+      ))}
+    </ul>
+  </aside>
+);
+
+export default HistoryPanel;
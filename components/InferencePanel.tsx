@@ -0,0 +1,201 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Wand2, X, Copy, Download, FolderOpen, FileCode, AlertCircle, ShieldCheck } from 'lucide-react';
+import { XMLNode } from '../types';
+import { parseXML } from '../utils';
+import { InferenceFormat, INFERENCE_FORMATS, inferSchema, writeInferredSchema } from '../inference';
+import { SchemaFile } from '../xsd';
+
+interface InferencePanelProps {
+  // The documents being edited: the root, or each top-level element of a fragment
+  documents: XMLNode[];
+  // Loads the inferred XSD into the validation panel
+  onValidateWith: (schema: SchemaFile) => void;
+  onClose: () => void;
+}
+
+interface Sample {
+  name: string;
+  roots: XMLNode[];
+  error: string | null;
+}
+
+const INFER_OPTIONS_KEY = 'inferOptions';
+
+const loadInferOptions = (): { format: InferenceFormat } => {
+  const defaults = { format: 'xsd' as InferenceFormat };
+  try {
+    const saved = localStorage.getItem(INFER_OPTIONS_KEY);
+    return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
+const readSamples = (files: FileList): Promise<Sample[]> =>
+  Promise.all(Array.from(files).map(file => file.text().then(source => {
+    const { root, error, isFragment } = parseXML(source);
+    if (!root || error) return { name: file.name, roots: [], error: error ?? 'No root element' };
+    // Each top-level element of a fragment is a sample of its own
+    return { name: file.name, roots: isFragment ? root.children : [root], error: null };
+  })));
+
+const InferencePanel: React.FC<InferencePanelProps> = ({ documents, onValidateWith, onClose }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState<InferenceFormat>(() => loadInferOptions().format);
+  const [samples, setSamples] = useState<Sample[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem(INFER_OPTIONS_KEY, JSON.stringify({ format }));
+  }, [format]);
+
+  const roots = useMemo(
+    () => [...documents, ...samples.flatMap(sample => sample.roots)],
+    [documents, samples]
+  );
+
+  const output = useMemo(() => (roots.length ? writeInferredSchema(inferSchema(roots), format) : null), [roots, format]);
+
+  const fileName = `${roots[0]?.localName ?? 'schema'}.${INFERENCE_FORMATS[format].extension}`;
+
+  const addFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    readSamples(files).then(loaded =>
+      setSamples(current => [...current.filter(sample => !loaded.some(file => file.name === sample.name)), ...loaded]));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const copyOutput = () => {
+    if (!output) return;
+    navigator.clipboard.writeText(output).then(() => {
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    });
+  };
+
+  const downloadOutput = () => {
+    if (!output) return;
+    const blob = new Blob([output], { type: INFERENCE_FORMATS[format].mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex-1 px-2 py-1 rounded transition-colors ${active
+      ? 'bg-blue-100 dark:bg-slate-600 text-blue-700 dark:text-blue-300 font-semibold'
+      : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-slate-700'}`;
+
+  const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded border border-gray-300 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-40';
+
+  return (
+    <aside
+      onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`w-96 shrink-0 border-l border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex flex-col text-xs text-gray-700 dark:text-gray-200 ${isDragging ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+    >
+      <div className="p-2 border-b border-gray-200 dark:border-slate-700 flex flex-col gap-2">
+        <div className="flex items-center gap-1.5 text-gray-600 dark:text-gray-300">
+          <Wand2 size={14} className="text-gray-400 shrink-0" />
+          <span className="flex-1 font-semibold uppercase tracking-wider">Infer schema</span>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700"
+            title="Close schema inference"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileInput.current?.click()} className={buttonClass} title="Load more sample documents">
+            <FolderOpen size={12} /> Add samples
+          </button>
+          <span className="text-gray-400 dark:text-slate-500">or drop .xml files here</span>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".xml,text/xml"
+            multiple
+            className="hidden"
+            onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+          />
+        </div>
+        <ul className="flex flex-col gap-0.5">
+          <li className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400">
+            <FileCode size={12} className="text-gray-400 shrink-0" />
+            {documents.length ? `Current document (${documents.map(root => `<${root.name}>`).join(', ')})` : 'No parsed document'}
+          </li>
+          {samples.map(sample => (
+            <li key={sample.name} className="flex items-center gap-1.5">
+              {sample.error
+                ? <AlertCircle size={12} className="text-red-500 shrink-0" />
+                : <FileCode size={12} className="text-gray-400 shrink-0" />}
+              <span className="flex-1 truncate font-mono" title={sample.name}>{sample.name}</span>
+              {sample.error && <span className="truncate text-red-600 dark:text-red-400" title={sample.error}>{sample.error}</span>}
+              <button
+                onClick={() => setSamples(current => current.filter(other => other !== sample))}
+                className="p-0.5 rounded text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-slate-700"
+                title={`Remove ${sample.name}`}
+              >
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-1">
+          {(Object.keys(INFERENCE_FORMATS) as InferenceFormat[]).map(key => (
+            <button key={key} onClick={() => setFormat(key)} className={tabClass(format === key)}>{INFERENCE_FORMATS[key].label}</button>
+          ))}
+        </div>
+        {format !== 'xsd' && (
+          <div className="text-gray-500 dark:text-gray-400">Describes the "@attr / #text" JSON of the conversion panel</div>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 p-2 flex flex-col gap-2">
+        {!output ? (
+          <div className="text-gray-500 dark:text-gray-400">Parse a document or add samples to infer a schema</div>
+        ) : (
+          <>
+            <textarea
+              readOnly
+              value={output}
+              className="flex-1 min-h-0 w-full p-2 font-mono text-[11px] leading-4 bg-gray-50 dark:bg-slate-900 text-gray-900 dark:text-gray-100 border border-gray-300 dark:border-slate-600 rounded resize-none focus:outline-none focus:border-blue-500 custom-scrollbar"
+              spellCheck={false}
+            />
+            <div className="flex gap-2">
+              <button onClick={copyOutput} className={buttonClass}>
+                <Copy size={12} /> {isCopied ? 'Copied' : 'Copy'}
+              </button>
+              <button onClick={downloadOutput} className={buttonClass}>
+                <Download size={12} /> Download
+              </button>
+              {format === 'xsd' && (
+                <button
+                  onClick={() => onValidateWith({ name: fileName, source: output })}
+                  className={buttonClass}
+                  title="Check documents against the inferred schema in the validation panel"
+                >
+                  <ShieldCheck size={12} /> Validate with it
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default InferencePanel;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { BookmarkPlus, X } from 'lucide-react';
+import { SavedView } from '../expansion';
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  onSave: (name: string) => void;
+  onRestore: (view: SavedView) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+// Popover for saving the current expand/collapse state under a name and bringing it back later
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ views, onSave, onRestore, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-30" onClick={onClose} />
+      <div className="absolute right-0 top-full mt-1 z-40 w-64 p-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-lg shadow-xl flex flex-col gap-2 text-xs text-gray-700 dark:text-gray-200">
+        <div className="flex items-center gap-1">
+          <input
+            autoFocus
+            className="flex-1 min-w-0 px-2 py-1 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded focus:outline-none focus:border-blue-500"
+            placeholder="Name this view"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+          />
+          <button
+            onClick={save}
+            disabled={!name.trim()}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-gray-300 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-40"
+            title="Save the current expand/collapse state"
+          >
+            <BookmarkPlus size={12} /> Save
+          </button>
+        </div>
+
+        {views.length === 0 ? (
+          <div className="px-1 text-gray-500 dark:text-gray-400">No saved views yet</div>
+        ) : (
+          <ul className="max-h-60 overflow-auto custom-scrollbar">
+            {views.map(view => (
+              <li key={view.name} className="flex items-center group rounded hover:bg-gray-100 dark:hover:bg-slate-700">
+                <button
+                  onClick={() => onRestore(view)}
+                  className="flex-1 min-w-0 px-2 py-1 text-left truncate"
+                  title={`Restore "${view.name}"`}
+                >
+                  {view.name}
+                </button>
+                <button
+                  onClick={() => onDelete(view.name)}
+                  className="p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                  title={`Delete "${view.name}"`}
+                >
+                  <X size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default SavedViewsMenu;
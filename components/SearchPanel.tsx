@@ -0,0 +1,141 @@
+import React, { useState, useMemo, useDeferredValue, useEffect } from 'react';
+import { Search, X, CaseSensitive, Regex, AlertCircle } from 'lucide-react';
+import { XMLNode } from '../types';
+import { searchTree, SearchHit, SearchScope, DEFAULT_SEARCH_SCOPES, MAX_SEARCH_HITS } from '../search';
+
+interface SearchPanelProps {
+  root: XMLNode | null;
+  onClose: () => void;
+  // Highlight every hit, mark one as active and reveal the given grid paths
+  onHighlight: (keys: string[], activeKey: string | null, revealPaths: string[]) => void;
+}
+
+const SCOPE_LABELS: Record<SearchScope, string> = {
+  elementName: 'Tags',
+  attributeName: 'Attr names',
+  attributeValue: 'Attr values',
+  text: 'Text',
+};
+
+const SCOPE_BADGES: Record<SearchScope, string> = {
+  elementName: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300',
+  attributeName: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300',
+  attributeValue: 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-200',
+  text: 'bg-gray-100 text-gray-700 dark:bg-slate-700 dark:text-gray-300',
+};
+
+// The grid path of a text hit is its element; the element itself must be open to show the text
+const revealPathOf = (hit: SearchHit): string => (hit.scope === 'text' ? `${hit.path}/text()` : hit.path);
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ root, onClose, onHighlight }) => {
+  const [query, setQuery] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [scopes, setScopes] = useState(DEFAULT_SEARCH_SCOPES);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  // Typing stays responsive on large documents; the search catches up in the background
+  const deferredQuery = useDeferredValue(query);
+
+  const { hits, error } = useMemo((): { hits: SearchHit[]; error: string | null } => {
+    if (!root || !deferredQuery) return { hits: [], error: null };
+    try {
+      return { hits: searchTree(root, { query: deferredQuery, regex, caseSensitive, scopes }), error: null };
+    } catch (e: any) {
+      return { hits: [], error: e.message };
+    }
+  }, [root, deferredQuery, regex, caseSensitive, scopes]);
+
+  useEffect(() => {
+    setActiveIndex(null);
+    onHighlight(hits.map(hit => hit.key), null, []);
+  }, [hits, onHighlight]);
+
+  const selectHit = (index: number) => {
+    setActiveIndex(index);
+    onHighlight(hits.map(hit => hit.key), hits[index].key, [revealPathOf(hits[index])]);
+  };
+
+  const toggleScope = (scope: SearchScope) => setScopes({ ...scopes, [scope]: !scopes[scope] });
+
+  const toggleClass = (active: boolean) =>
+    `p-1 rounded border transition-colors ${active
+      ? 'bg-blue-100 dark:bg-slate-600 border-blue-400 text-blue-700 dark:text-blue-300'
+      : 'border-transparent text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-slate-700'}`;
+
+  return (
+    <aside className="w-80 shrink-0 border-l border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex flex-col text-xs">
+      <div className="p-2 border-b border-gray-200 dark:border-slate-700 flex flex-col gap-2">
+        <div className="flex items-center gap-1">
+          <Search size={14} className="text-gray-400 shrink-0" />
+          <input
+            autoFocus
+            className="flex-1 min-w-0 px-2 py-1 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded focus:outline-none focus:border-blue-500 text-gray-900 dark:text-gray-100"
+            placeholder="Search tags, attributes and text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && hits.length > 0) {
+                selectHit(activeIndex === null ? 0 : (activeIndex + (e.shiftKey ? hits.length - 1 : 1)) % hits.length);
+              }
+            }}
+            spellCheck={false}
+          />
+          <button onClick={() => setCaseSensitive(!caseSensitive)} className={toggleClass(caseSensitive)} title="Match case">
+            <CaseSensitive size={14} />
+          </button>
+          <button onClick={() => setRegex(!regex)} className={toggleClass(regex)} title="Regular expression">
+            <Regex size={14} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700"
+            title="Close search"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-gray-600 dark:text-gray-300">
+          {(Object.keys(SCOPE_LABELS) as SearchScope[]).map(scope => (
+            <label key={scope} className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={scopes[scope]} onChange={() => toggleScope(scope)} />
+              {SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="px-2 py-1 text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-slate-700">
+        {error ? (
+          <span className="flex items-center gap-1 text-red-600 dark:text-red-400"><AlertCircle size={12} /> {error}</span>
+        ) : query ? (
+          hits.length >= MAX_SEARCH_HITS ? `First ${MAX_SEARCH_HITS} results` : `${hits.length} result${hits.length === 1 ? '' : 's'}`
+        ) : (
+          'Type to search the parsed document'
+        )}
+      </div>
+
+      <ul className="flex-1 overflow-auto custom-scrollbar">
+        {hits.map((hit, index) => (
+          <li
+            key={`${hit.key}-${hit.scope}`}
+            onClick={() => selectHit(index)}
+            className={`px-2 py-1.5 border-b border-gray-100 dark:border-slate-700 cursor-pointer ${index === activeIndex ? 'bg-orange-100 dark:bg-orange-900/40' : 'hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+          >
+            <div className="flex items-center gap-1.5">
+              <span className={`px-1 rounded text-[10px] font-semibold shrink-0 ${SCOPE_BADGES[hit.scope]}`}>{SCOPE_LABELS[hit.scope]}</span>
+              <span className="font-mono truncate text-gray-900 dark:text-gray-100" title={hit.value}>
+                {hit.value.slice(Math.max(0, hit.matchStart - 20), hit.matchStart)}
+                <mark className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded-sm">{hit.value.substr(hit.matchStart, hit.matchLength)}</mark>
+                {hit.value.slice(hit.matchStart + hit.matchLength, hit.matchStart + hit.matchLength + 60)}
+              </span>
+            </div>
+            <div className="font-mono text-[10px] text-gray-400 dark:text-slate-500 truncate mt-0.5" title={hit.path}>{hit.path}</div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default SearchPanel;
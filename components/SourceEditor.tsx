@@ -0,0 +1,160 @@
+import React, { forwardRef, useRef, useEffect, useImperativeHandle } from 'react';
+import { EditorState, EditorSelection, Annotation } from '@codemirror/state';
+import {
+  EditorView, keymap, lineNumbers, highlightActiveLine, highlightActiveLineGutter,
+  drawSelection, placeholder as placeholderExtension,
+} from '@codemirror/view';
+import { defaultKeymap } from '@codemirror/commands';
+import { foldGutter, foldKeymap, bracketMatching, indentOnInput } from '@codemirror/language';
+import { searchKeymap, highlightSelectionMatches } from '@codemirror/search';
+import { lintGutter, lintKeymap, setDiagnostics, Diagnostic } from '@codemirror/lint';
+import { xml } from '@codemirror/lang-xml';
+import { oneDark } from '@codemirror/theme-one-dark';
+import { ParseError } from '../types';
+
+export interface SourceEditorHandle {
+  // Puts the caret at an offset and scrolls it to the middle of the editor
+  jumpTo: (offset: number) => void;
+  // Selects a range and scrolls it into view without taking focus
+  revealRange: (from: number, to: number) => void;
+}
+
+interface SourceEditorProps {
+  value: string;
+  errors: ParseError[];
+  placeholder?: string;
+  onChange: (value: string, isPaste: boolean) => void;
+  // The caret offset, reported once the caret comes to rest after the user moved it
+  onCursorMove?: (offset: number) => void;
+}
+
+const CURSOR_SYNC_DELAY = 150;
+
+// Marks transactions that come from the props or the grid rather than from the user
+const external = Annotation.define<boolean>();
+
+// The part of the source an error points at: the tag, name or character starting there
+const errorSpan = (rest: string): number => {
+  const match = rest.match(/^(<\/?[^\s<>]*>?|[^\s<>]+|\S)/);
+  return match ? match[0].length : 0;
+};
+
+const toDiagnostics = (state: EditorState, errors: ParseError[]): Diagnostic[] => {
+  const length = state.doc.length;
+  return errors.filter(error => error.offset <= length).map(error => ({
+    from: error.offset,
+    to: Math.min(length, error.offset + errorSpan(state.sliceDoc(error.offset, error.offset + 200))),
+    severity: 'error',
+    message: error.message,
+  }));
+};
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '0.875rem', backgroundColor: '#0f172a' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace', lineHeight: '1.25rem' },
+  '.cm-gutters': { backgroundColor: 'rgba(2, 6, 23, 0.6)', borderRight: '1px solid #334155' },
+}, { dark: true });
+
+// CodeMirror with XML highlighting, folding, tag matching and auto-closing tags. Parse errors show as
+// squiggles and gutter markers. There is no editor-level undo: Ctrl+Z goes to the app's history.
+const SourceEditor = forwardRef<SourceEditorHandle, SourceEditorProps>(({ value, errors, placeholder, onChange, onCursorMove }, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  // The view is created once, so it reaches the latest callbacks through these
+  const onChangeRef = useRef(onChange);
+  const onCursorMoveRef = useRef(onCursorMove);
+  onChangeRef.current = onChange;
+  onCursorMoveRef.current = onCursorMove;
+
+  useEffect(() => {
+    let cursorTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          lineNumbers(),
+          foldGutter(),
+          lintGutter(),
+          highlightActiveLineGutter(),
+          highlightActiveLine(),
+          drawSelection(),
+          indentOnInput(),
+          bracketMatching(),
+          highlightSelectionMatches(),
+          xml(),
+          oneDark,
+          editorTheme,
+          placeholderExtension(placeholder || ''),
+          keymap.of([...defaultKeymap, ...searchKeymap, ...foldKeymap, ...lintKeymap]),
+          // Dropped files are loaded by the pane around the editor, not inserted at the drop point
+          EditorView.domEventHandlers({ drop: event => !!event.dataTransfer?.files.length }),
+          EditorView.updateListener.of(update => {
+            const fromUser = update.transactions.some(tr => !tr.annotation(external));
+            if (update.docChanged && fromUser) {
+              const isPaste = update.transactions.some(tr => tr.isUserEvent('input.paste'));
+              onChangeRef.current(update.state.doc.toString(), isPaste);
+            }
+            if ((update.selectionSet || update.docChanged) && fromUser) {
+              clearTimeout(cursorTimer);
+              const offset = update.state.selection.main.head;
+              cursorTimer = setTimeout(() => onCursorMoveRef.current?.(offset), CURSOR_SYNC_DELAY);
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      clearTimeout(cursorTimer);
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Loads, prettify, undo and grid edits replace the document from outside
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.state.doc.toString() === value) return;
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: value },
+      selection: EditorSelection.cursor(Math.min(view.state.selection.main.head, value.length)),
+      annotations: external.of(true),
+    });
+  }, [value]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    view.dispatch({ ...setDiagnostics(view.state, toDiagnostics(view.state, errors)), annotations: external.of(true) });
+  }, [errors, value]);
+
+  useImperativeHandle(ref, () => ({
+    jumpTo: (offset: number) => {
+      const view = viewRef.current;
+      if (!view) return;
+      const pos = Math.min(offset, view.state.doc.length);
+      view.dispatch({
+        selection: EditorSelection.cursor(pos),
+        effects: EditorView.scrollIntoView(pos, { y: 'center' }),
+        annotations: external.of(true),
+      });
+      view.focus();
+    },
+    revealRange: (from: number, to: number) => {
+      const view = viewRef.current;
+      if (!view || to > view.state.doc.length) return;
+      view.dispatch({
+        selection: EditorSelection.single(from, to),
+        effects: EditorView.scrollIntoView(from, { y: 'center' }),
+        annotations: external.of(true),
+      });
+    },
+  }), []);
+
+  return <div ref={containerRef} className="w-full h-full overflow-hidden" />;
+});
+
+export default SourceEditor;
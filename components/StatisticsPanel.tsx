@@ -0,0 +1,168 @@
+import React, { useMemo } from 'react';
+import { BarChart3, X } from 'lucide-react';
+import { XMLNode } from '../types';
+import { HistogramBin, ValueCount, documentSummary, pathStatistics } from '../statistics';
+
+interface StatisticsPanelProps {
+  // The documents being edited: the root, or each top-level element of a fragment
+  documents: XMLNode[];
+  // Element or attribute path without positions, e.g. /orders/order/shipDate
+  path: string;
+  onPathChange: (path: string) => void;
+  onClose: () => void;
+}
+
+const formatNumber = (value: number): string => value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const Figure: React.FC<{ label: string; value: React.ReactNode; title?: string }> = ({ label, value, title }) => (
+  <div className="flex flex-col px-2 py-1 rounded bg-gray-50 dark:bg-slate-900" title={title}>
+    <span className="text-[10px] uppercase tracking-wider text-gray-400 dark:text-slate-500">{label}</span>
+    <span className="font-mono text-sm text-gray-900 dark:text-gray-100 truncate">{value}</span>
+  </div>
+);
+
+const Histogram: React.FC<{ bins: HistogramBin[] }> = ({ bins }) => {
+  const highest = Math.max(1, ...bins.map(bin => bin.count));
+  return (
+    <div className="flex items-end gap-0.5 h-16" aria-label="Histogram">
+      {bins.map((bin, index) => (
+        <div
+          key={index}
+          className="flex-1 bg-blue-400 dark:bg-blue-500 rounded-t-sm min-h-px"
+          style={{ height: `${(bin.count / highest) * 100}%` }}
+          title={`${formatNumber(bin.from)} – ${formatNumber(bin.to)}: ${bin.count}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+const TopValues: React.FC<{ values: ValueCount[]; total: number }> = ({ values, total }) => (
+  <ul className="flex flex-col gap-0.5">
+    {values.map(({ value, count }) => (
+      <li key={value} className="relative flex items-center gap-2 px-1.5 py-0.5">
+        <div className="absolute inset-y-0 left-0 bg-blue-50 dark:bg-slate-700 rounded" style={{ width: `${(count / total) * 100}%` }} />
+        <span className="relative flex-1 truncate font-mono" title={value}>{value}</span>
+        <span className="relative text-gray-500 dark:text-gray-400">{count}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+// Figures for the values at one path — counts, missing values, number ranges, the most frequent
+// values and a histogram — above a summary of every element path in the document
+const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ documents, path, onPathChange, onClose }) => {
+  const summary = useMemo(() => documentSummary(documents), [documents]);
+  const statistics = useMemo(() => (path ? pathStatistics(documents, path) : null), [documents, path]);
+
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const parentName = path.slice(0, path.lastIndexOf('/')).split('/').pop();
+  const records = parentName ? `${parentName} elements` : 'documents';
+
+  return (
+    <aside className="w-96 shrink-0 border-l border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex flex-col text-xs text-gray-700 dark:text-gray-200">
+      <div className="p-2 border-b border-gray-200 dark:border-slate-700 flex flex-col gap-2">
+        <div className="flex items-center gap-1.5 text-gray-600 dark:text-gray-300">
+          <BarChart3 size={14} className="text-gray-400 shrink-0" />
+          <span className="flex-1 font-semibold uppercase tracking-wider">Statistics</span>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700"
+            title="Close statistics"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <input
+          value={path}
+          onChange={(e) => onPathChange(e.target.value.trim())}
+          list="statistics-paths"
+          placeholder="/orders/order/shipDate or /orders/order/@id"
+          spellCheck={false}
+          className="px-2 py-1 font-mono bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          aria-label="Element or attribute path"
+        />
+        <datalist id="statistics-paths">
+          {summary.paths.flatMap(entry => [entry.path, ...entry.attributes.map(attribute => `${entry.path}/@${attribute}`)])
+            .map(option => <option key={option} value={option} />)}
+        </datalist>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {statistics && (
+          <div className="p-2 flex flex-col gap-3 border-b border-gray-200 dark:border-slate-700">
+            {statistics.records === 0 ? (
+              <p className="text-gray-400 dark:text-slate-500">No elements at {path.slice(0, path.lastIndexOf('/')) || path}</p>
+            ) : (
+              <>
+                <p className={statistics.missing ? 'text-amber-700 dark:text-amber-300' : 'text-gray-500 dark:text-gray-400'}>
+                  {statistics.missing} of {statistics.records} {records} {statistics.missing === 1 ? 'has' : 'have'} no {name}
+                </p>
+                <div className="grid grid-cols-3 gap-1">
+                  <Figure label="Count" value={statistics.count} />
+                  <Figure label="Distinct" value={statistics.distinct} />
+                  <Figure label="Missing" value={statistics.missing} title={`${records} without ${name}`} />
+                  <Figure label="Empty" value={statistics.empty} title={`${name} with no text`} />
+                  <Figure label="Kind" value={statistics.kind} />
+                </div>
+                {statistics.numbers && (
+                  <>
+                    <div className="grid grid-cols-2 gap-1">
+                      <Figure label="Min" value={formatNumber(statistics.numbers.min)} />
+                      <Figure label="Max" value={formatNumber(statistics.numbers.max)} />
+                      <Figure label="Sum" value={formatNumber(statistics.numbers.sum)} />
+                      <Figure label="Average" value={formatNumber(statistics.numbers.average)} />
+                    </div>
+                    <Histogram bins={statistics.histogram} />
+                  </>
+                )}
+                {statistics.topValues.length > 0 && (
+                  <div className="flex flex-col gap-1">
+                    <span className="font-semibold text-gray-500 dark:text-gray-400">Most frequent</span>
+                    <TopValues values={statistics.topValues} total={statistics.count} />
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="p-2 flex flex-col gap-1">
+          <span className="font-semibold text-gray-500 dark:text-gray-400">
+            {summary.elements} elements, {summary.paths.length} paths, max depth {summary.maxDepth}
+          </span>
+          <ul className="flex flex-col">
+            {summary.paths.map(entry => (
+              <li key={entry.path} className="flex flex-col" style={{ paddingLeft: (entry.depth - 1) * 12 }}>
+                <button
+                  onClick={() => onPathChange(entry.path)}
+                  className={`flex items-center gap-2 px-1.5 py-0.5 rounded text-left hover:bg-gray-100 dark:hover:bg-slate-700 ${entry.path === path ? 'bg-blue-50 dark:bg-slate-700' : ''}`}
+                  title={`${entry.path}: ${entry.count} elements, up to depth ${entry.maxDepth}`}
+                >
+                  <span className="flex-1 truncate font-mono text-green-800 dark:text-green-300">{entry.path.slice(entry.path.lastIndexOf('/') + 1)}</span>
+                  <span className="text-gray-500 dark:text-gray-400">{entry.count}</span>
+                  <span className="w-8 text-right text-gray-400 dark:text-slate-500" title="Deepest level below">↓{entry.maxDepth}</span>
+                </button>
+                {entry.attributes.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pl-3">
+                    {entry.attributes.map(attribute => (
+                      <button
+                        key={attribute}
+                        onClick={() => onPathChange(`${entry.path}/@${attribute}`)}
+                        className={`px-1 rounded font-mono text-amber-800 dark:text-amber-300 hover:bg-gray-100 dark:hover:bg-slate-700 ${path === `${entry.path}/@${attribute}` ? 'bg-blue-50 dark:bg-slate-700' : ''}`}
+                      >
+                        @{attribute}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+export default StatisticsPanel;
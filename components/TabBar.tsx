@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { FileCode, X, Plus } from 'lucide-react';
+
+export interface TabInfo {
+  id: string;
+  name: string;
+}
+
+interface TabBarProps {
+  tabs: TabInfo[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onClose: (id: string) => void;
+  onNew: () => void;
+}
+
+// The open documents. Double-click a name to rename it; middle-click or the cross closes a tab.
+const TabBar: React.FC<TabBarProps> = ({ tabs, activeId, onSelect, onRename, onClose, onNew }) => {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 px-2 pt-1 flex items-end gap-0.5 overflow-x-auto custom-scrollbar shrink-0 text-xs" role="tablist">
+      {tabs.map(tab => {
+        const active = tab.id === activeId;
+        return (
+          <div
+            key={tab.id}
+            role="tab"
+            aria-selected={active}
+            onClick={() => onSelect(tab.id)}
+            onDoubleClick={() => setRenaming({ id: tab.id, name: tab.name })}
+            onMouseDown={(e) => { if (e.button === 1) e.preventDefault(); }}
+            onAuxClick={(e) => { if (e.button === 1) onClose(tab.id); }}
+            className={`group flex items-center gap-1.5 pl-2 pr-1 py-1 max-w-[220px] rounded-t border border-b-0 cursor-pointer select-none ${active
+              ? 'bg-white dark:bg-slate-700 border-gray-300 dark:border-slate-600 text-gray-900 dark:text-gray-100'
+              : 'border-transparent text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-slate-700/50'}`}
+            title={tab.name}
+          >
+            <FileCode size={12} className="shrink-0 text-gray-400" />
+            {renaming?.id === tab.id ? (
+              <input
+                autoFocus
+                value={renaming.name}
+                onChange={(e) => setRenaming({ id: tab.id, name: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  else if (e.key === 'Escape') setRenaming(null);
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="w-32 px-1 bg-white dark:bg-slate-900 border border-blue-500 rounded focus:outline-none"
+              />
+            ) : (
+              <span className="truncate">{tab.name}</span>
+            )}
+            <button
+              onClick={(e) => { e.stopPropagation(); onClose(tab.id); }}
+              className={`p-0.5 rounded hover:bg-gray-200 dark:hover:bg-slate-600 hover:text-red-600 ${active ? '' : 'opacity-0 group-hover:opacity-100'}`}
+              title={`Close ${tab.name}`}
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={onNew}
+        className="p-1 mb-0.5 rounded text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-slate-700"
+        title="New document"
+      >
+        <Plus size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default TabBar;
@@ -0,0 +1,176 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Pin, PinOff, BarChart3 } from 'lucide-react';
+import { TableView, DEFAULT_TABLE_VIEW, moveColumn } from '../tableView';
+import { GroupingStrategy } from '../grouping';
+
+interface TableColumnsMenuProps {
+  name: string;
+  // Every column in display order, hidden ones included
+  columns: string[];
+  view: TableView;
+  onChange: (view: TableView) => void;
+  // The grouping of the elements the table shows (named groupName), with the attributes it can
+  // be split on and the descendant paths it can be flattened on
+  grouping: GroupingStrategy;
+  groupName: string;
+  discriminators: string[];
+  descendants: string[];
+  onGroupingChange: (grouping: GroupingStrategy) => void;
+  // Opens the statistics of a column's values; the button is left out without it
+  onShowStatistics?: (column: string) => void;
+  // The button that opened the menu; the menu is placed below it
+  anchor: DOMRect;
+  onClose: () => void;
+}
+
+const MENU_WIDTH = 256;
+
+const selectClass = "px-1 py-0.5 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded min-w-0";
+
+const toggle = (list: string[], item: string) => (list.includes(item) ? list.filter(entry => entry !== item) : [...list, item]);
+
+// Popover for how a group of elements is made into tables, and for showing, hiding, pinning and
+// reordering the columns of a table
+const TableColumnsMenu: React.FC<TableColumnsMenuProps> = ({
+  name, columns, view, onChange, grouping, groupName, discriminators, descendants, onGroupingChange, onShowStatistics, anchor, onClose,
+}) => {
+  const left = Math.max(8, Math.min(anchor.right - MENU_WIDTH, window.innerWidth - MENU_WIDTH - 8));
+  const buttonClass = "p-0.5 rounded hover:bg-gray-200 dark:hover:bg-slate-600 disabled:opacity-30 disabled:hover:bg-transparent";
+
+  const changeStrategy = (by: GroupingStrategy['by']) => {
+    if (by === 'attribute') onGroupingChange({ by, attribute: discriminators.includes('type') ? 'type' : discriminators[0] });
+    else if (by === 'flatten') onGroupingChange({ by, descendant: descendants[0] });
+    else onGroupingChange({ by });
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-30" onClick={(e) => { e.stopPropagation(); onClose(); }} />
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{ top: anchor.bottom + 4, left, width: MENU_WIDTH }}
+        className="fixed z-40 p-3 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-lg shadow-xl flex flex-col gap-2 text-xs font-normal text-gray-700 dark:text-gray-200 cursor-default"
+      >
+        <div className="font-semibold text-gray-900 dark:text-gray-100 truncate">Group {groupName}</div>
+        <select
+          value={grouping.by}
+          onChange={(e) => changeStrategy(e.target.value as GroupingStrategy['by'])}
+          className={selectClass}
+          aria-label="Grouping"
+        >
+          <option value="tag">By tag name</option>
+          <option value="attribute" disabled={discriminators.length === 0}>By tag and attribute</option>
+          <option value="table">Always as a table</option>
+          <option value="flatten" disabled={descendants.length === 0}>Flatten descendants</option>
+        </select>
+        {grouping.by === 'attribute' && (
+          <label className="flex items-center justify-between gap-2">
+            <span>One table per</span>
+            <select
+              value={grouping.attribute}
+              onChange={(e) => onGroupingChange({ by: 'attribute', attribute: e.target.value })}
+              className={selectClass}
+            >
+              {discriminators.map(attribute => <option key={attribute} value={attribute}>@{attribute}</option>)}
+            </select>
+          </label>
+        )}
+        {grouping.by === 'flatten' && (
+          <label className="flex items-center justify-between gap-2" title={`One row per element at this path below every ${groupName}, with the ${groupName} values as key columns`}>
+            <span>Rows</span>
+            <select
+              value={grouping.descendant}
+              onChange={(e) => onGroupingChange({ by: 'flatten', descendant: e.target.value })}
+              className={selectClass}
+            >
+              {(descendants.includes(grouping.descendant) ? descendants : [grouping.descendant, ...descendants]).map(path => (
+                <option key={path} value={path}>{groupName}/{path}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <div className="font-semibold text-gray-900 dark:text-gray-100 truncate pt-1 border-t border-gray-100 dark:border-slate-700">Columns of {name}</div>
+        <label className="flex items-center justify-between gap-2">
+          <span>Order</span>
+          <select
+            value={view.columnOrder}
+            onChange={(e) => onChange({ ...view, columnOrder: e.target.value as TableView['columnOrder'], order: [] })}
+            className={selectClass}
+          >
+            <option value="name">By name</option>
+            <option value="document">As in the document</option>
+          </select>
+        </label>
+        <ul className="max-h-64 overflow-y-auto custom-scrollbar flex flex-col border-y border-gray-100 dark:border-slate-700 py-1">
+          {columns.map((column, index) => {
+            const pinned = view.pinned.includes(column);
+            const sameGroup = (other: string | undefined) => other !== undefined && view.pinned.includes(other) === pinned;
+            return (
+              <li key={column} className="flex items-center gap-1 py-0.5">
+                <label className="flex-1 flex items-center gap-1.5 min-w-0 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!view.hidden.includes(column)}
+                    onChange={() => onChange({ ...view, hidden: toggle(view.hidden, column) })}
+                  />
+                  <span className={`truncate font-mono ${column.includes('/') ? 'text-slate-600 dark:text-slate-300' : column.startsWith('@') ? 'text-amber-800 dark:text-amber-300' : 'text-green-800 dark:text-green-300'}`}>{column}</span>
+                </label>
+                {onShowStatistics && (
+                  <button
+                    onClick={() => { onShowStatistics(column); onClose(); }}
+                    className={`${buttonClass} text-gray-400`}
+                    title={`Statistics for ${column}`}
+                  >
+                    <BarChart3 size={12} />
+                  </button>
+                )}
+                <button
+                  onClick={() => onChange({ ...view, pinned: toggle(view.pinned, column) })}
+                  className={`${buttonClass} ${pinned ? 'text-blue-600 dark:text-blue-400' : 'text-gray-400'}`}
+                  title={pinned ? `Unpin ${column}` : `Pin ${column} to the left edge`}
+                >
+                  {pinned ? <PinOff size={12} /> : <Pin size={12} />}
+                </button>
+                <button
+                  onClick={() => onChange(moveColumn(view, columns, column, -1))}
+                  disabled={!sameGroup(columns[index - 1])}
+                  className={buttonClass}
+                  title="Move left"
+                >
+                  <ArrowUp size={12} />
+                </button>
+                <button
+                  onClick={() => onChange(moveColumn(view, columns, column, 1))}
+                  disabled={!sameGroup(columns[index + 1])}
+                  className={buttonClass}
+                  title="Move right"
+                >
+                  <ArrowDown size={12} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onChange({ ...view, hidden: [] })}
+            disabled={view.hidden.length === 0}
+            className="flex-1 px-2 py-1 rounded border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-40"
+          >
+            Show all
+          </button>
+          <button
+            onClick={() => onChange({ ...DEFAULT_TABLE_VIEW, grouping: view.grouping })}
+            className="flex-1 px-2 py-1 rounded border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-700"
+            title="Show every column by name, unsorted and unfiltered"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TableColumnsMenu;
@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import { ShieldCheck, X, FolderOpen, FileCode, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { ValidationIssue } from '../validation';
+import { SchemaFile } from '../xsd';
+import { useWindowedList } from '../windowing';
+
+export interface ValidationReport {
+  // What the document was checked against: schema file names, or the DOCTYPE
+  sources: string[];
+  issues: ValidationIssue[];
+  // Schemas that could not be read, and why validation did not run
+  problems: string[];
+}
+
+interface ValidationPanelProps {
+  schemas: SchemaFile[];
+  report: ValidationReport;
+  onAddSchemas: (files: SchemaFile[]) => void;
+  onRemoveSchema: (name: string) => void;
+  // Highlight the issue's node in the grid and select it in the source
+  onSelectIssue: (issue: ValidationIssue) => void;
+  onClose: () => void;
+}
+
+export const isSchemaFileName = (name: string): boolean => /\.(xsd|dtd)$/i.test(name);
+
+export const readSchemaFiles = (files: FileList | File[]): Promise<SchemaFile[]> =>
+  Promise.all(Array.from(files).filter(file => isSchemaFileName(file.name))
+    .map(file => file.text().then(source => ({ name: file.name, source }))));
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ schemas, report, onAddSchemas, onRemoveSchema, onSelectIssue, onClose }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const rows = useWindowedList<HTMLUListElement>(report.issues.length, true);
+
+  const addFiles = (files: FileList | null) => {
+    if (files) readSchemaFiles(files).then(loaded => loaded.length && onAddSchemas(loaded));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const selectIssue = (index: number) => {
+    setActiveIndex(index);
+    onSelectIssue(report.issues[index]);
+  };
+
+  const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded border border-gray-300 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700';
+
+  return (
+    <aside
+      onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`w-96 shrink-0 border-l border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex flex-col text-xs text-gray-700 dark:text-gray-200 ${isDragging ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+    >
+      <div className="p-2 border-b border-gray-200 dark:border-slate-700 flex flex-col gap-2">
+        <div className="flex items-center gap-1.5 text-gray-600 dark:text-gray-300">
+          <ShieldCheck size={14} className="text-gray-400 shrink-0" />
+          <span className="flex-1 font-semibold uppercase tracking-wider">Validate</span>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700"
+            title="Close validation"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileInput.current?.click()} className={buttonClass} title="Load XSD files, or external DTDs for the DOCTYPE">
+            <FolderOpen size={12} /> Add schema
+          </button>
+          <span className="text-gray-400 dark:text-slate-500">or drop .xsd / .dtd files here</span>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".xsd,.dtd"
+            multiple
+            className="hidden"
+            onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+          />
+        </div>
+        {schemas.length > 0 && (
+          <ul className="flex flex-col gap-0.5">
+            {schemas.map(schema => (
+              <li key={schema.name} className="flex items-center gap-1.5">
+                <FileCode size={12} className="text-gray-400 shrink-0" />
+                <span className="flex-1 truncate font-mono" title={schema.name}>{schema.name}</span>
+                <button
+                  onClick={() => onRemoveSchema(schema.name)}
+                  className="p-0.5 rounded text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-slate-700"
+                  title={`Remove ${schema.name}`}
+                >
+                  <X size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="px-2 py-1 border-b border-gray-100 dark:border-slate-700 flex flex-col gap-1">
+        {report.problems.map(problem => (
+          <div key={problem} className="flex items-start gap-1 text-red-600 dark:text-red-400"><AlertCircle size={12} className="mt-0.5 shrink-0" />{problem}</div>
+        ))}
+        {report.sources.length === 0 ? (
+          report.problems.length === 0 && (
+            <span className="text-gray-500 dark:text-gray-400">Add an XSD, or give the document a DOCTYPE with element declarations</span>
+          )
+        ) : report.issues.length === 0 ? (
+          <span className="flex items-center gap-1 text-green-700 dark:text-green-400">
+            <CheckCircle2 size={12} /> Valid against {report.sources.join(', ')}
+          </span>
+        ) : (
+          <span className="text-gray-500 dark:text-gray-400">
+            {report.issues.length} issue{report.issues.length === 1 ? '' : 's'} against {report.sources.join(', ')}
+          </span>
+        )}
+      </div>
+
+      <div data-grid-scroller className="flex-1 min-h-0 overflow-auto custom-scrollbar">
+        <ul ref={rows.containerRef}>
+          {rows.paddingTop > 0 && <li data-spacer="true" style={{ height: rows.paddingTop }} />}
+          {report.issues.slice(rows.start, rows.end).map((issue, windowIndex) => {
+            const index = rows.start + windowIndex;
+            return (
+              <li
+                key={`${issue.key}-${index}`}
+                onClick={() => selectIssue(index)}
+                className={`px-2 py-1.5 border-b border-gray-100 dark:border-slate-700 cursor-pointer ${index === activeIndex ? 'bg-orange-100 dark:bg-orange-900/40' : 'hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+              >
+                <div className="flex items-start gap-1.5">
+                  <AlertCircle size={12} className="mt-0.5 shrink-0 text-red-500" />
+                  <span className="text-gray-900 dark:text-gray-100 break-words min-w-0">{issue.message}</span>
+                </div>
+                <div className="flex gap-2 font-mono text-[10px] text-gray-400 dark:text-slate-500 mt-0.5 pl-[18px]">
+                  <span className="truncate flex-1" title={issue.path}>{issue.path}</span>
+                  {issue.line !== null && <span className="shrink-0">line {issue.line}:{issue.column}</span>}
+                </div>
+              </li>
+            );
+          })}
+          {rows.paddingBottom > 0 && <li data-spacer="true" style={{ height: rows.paddingBottom }} />}
+        </ul>
+      </div>
+    </aside>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Search, ChevronUp, ChevronDown, X, AlertCircle } from 'lucide-react';
+import { XMLNode, XMLChildNode } from '../types';
+import { buildXPathDocument, evaluateXPath, formatXPathValue, XPathNode, XPathValue } from '../xpath';
+import { documentNamespaces, gridPathOf, highlightKeyOf } from '../paths';
+
+interface XPathQueryBarProps {
+  root: XMLNode | null;
+  prolog: XMLChildNode[];
+  epilog: XMLChildNode[];
+  // The query that was run; kept by the app so links can share it
+  query: string;
+  onQueryChange: (query: string) => void;
+  // Highlight the given keys and make sure the listed grid paths are visible
+  onHighlight: (keys: string[], activeKey: string | null, revealPaths: string[]) => void;
+}
+
+const XPathQueryBar: React.FC<XPathQueryBarProps> = ({ root, prolog, epilog, query: submittedQuery, onQueryChange, onHighlight }) => {
+  const [query, setQuery] = useState(submittedQuery);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const namespaces = useMemo(() => (root ? documentNamespaces(root) : {}), [root]);
+  const document = useMemo(() => (root ? buildXPathDocument(root, prolog, epilog) : null), [root, prolog, epilog]);
+
+  // Re-evaluated whenever the document is reparsed, so the query survives edits
+  const result = useMemo((): { value: XPathValue | null; error: string | null } => {
+    if (!document || !submittedQuery.trim()) return { value: null, error: null };
+    try {
+      return { value: evaluateXPath(submittedQuery, document, { namespaces }), error: null };
+    } catch (e: any) {
+      return { value: null, error: e.message };
+    }
+  }, [document, submittedQuery, namespaces]);
+
+  const matches: XPathNode[] = useMemo(
+    () => (Array.isArray(result.value) ? result.value.filter(node => node.kind !== 'document') : []),
+    [result]
+  );
+
+  const highlightMatches = useCallback((index: number, revealAll: boolean) => {
+    const keys = matches.map(highlightKeyOf);
+    const active = matches[index];
+    const revealPaths = revealAll ? matches.map(gridPathOf) : active ? [gridPathOf(active)] : [];
+    onHighlight(keys, active ? highlightKeyOf(active) : null, revealPaths);
+  }, [matches, onHighlight]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+    highlightMatches(0, true);
+  }, [highlightMatches]);
+
+  // A query set from outside, such as from a shared link, also replaces what is typed
+  useEffect(() => setQuery(submittedQuery), [submittedQuery]);
+
+  const runQuery = () => onQueryChange(query);
+
+  const navigate = (delta: number) => {
+    if (matches.length === 0) return;
+    const next = (activeIndex + delta + matches.length) % matches.length;
+    setActiveIndex(next);
+    highlightMatches(next, false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (query !== submittedQuery) runQuery();
+      else navigate(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+      onQueryChange('');
+    }
+  };
+
+  const prefixHint = Object.keys(namespaces).map(prefix => `${prefix} = ${namespaces[prefix]}`).join('\n');
+  const isScalar = result.value !== null && !Array.isArray(result.value);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 px-4 py-1.5 flex items-center gap-2 shrink-0 text-xs">
+      <Search size={14} className="text-gray-400 shrink-0" />
+      <input
+        className="flex-1 min-w-0 px-2 py-1 font-mono bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded focus:outline-none focus:border-blue-500 text-gray-900 dark:text-gray-100"
+        placeholder="XPath query, e.g. //book[price > 30]/title or count(//book) — Enter to run"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        disabled={!root}
+        title={prefixHint ? `Namespace prefixes:\n${prefixHint}` : undefined}
+      />
+
+      {result.error && (
+        <span className="flex items-center gap-1 text-red-600 dark:text-red-400 truncate max-w-[40%]" title={result.error}>
+          <AlertCircle size={12} className="shrink-0" /> {result.error}
+        </span>
+      )}
+
+      {isScalar && (
+        <span className="px-2 py-0.5 rounded bg-blue-50 dark:bg-slate-700 text-blue-800 dark:text-blue-300 font-mono truncate max-w-[40%]" title={formatXPathValue(result.value!)}>
+          = {formatXPathValue(result.value!)}
+        </span>
+      )}
+
+      {Array.isArray(result.value) && (
+        <>
+          <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+            {matches.length === 0 ? 'No matches' : `${activeIndex + 1} / ${matches.length}`}
+          </span>
+          <button
+            onClick={() => navigate(-1)}
+            disabled={matches.length === 0}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-slate-700 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+            title="Previous match (Shift+Enter)"
+          >
+            <ChevronUp size={14} />
+          </button>
+          <button
+            onClick={() => navigate(1)}
+            disabled={matches.length === 0}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-slate-700 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+            title="Next match (Enter)"
+          >
+            <ChevronDown size={14} />
+          </button>
+        </>
+      )}
+
+      {submittedQuery && (
+        <button
+          onClick={() => { setQuery(''); onQueryChange(''); }}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-slate-700 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          title="Clear query"
+        >
+          <X size={14} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default XPathQueryBar;
@@ -0,0 +1,242 @@
+import React, { useState, useMemo, useRef, useDeferredValue } from 'react';
+import { FileCog, X, FolderOpen, Copy, Download, FileCode, AlertCircle, AlertTriangle } from 'lucide-react';
+import { parseXML } from '../utils';
+import { ExpansionState, DEFAULT_EXPANSION } from '../expansion';
+import { DiffKind } from '../xmlDiff';
+import { readStylesheet, transformDocument, StylesheetInfo, TransformResult, OutputMethod } from '../xslt';
+import { CompareGridProps } from './CompareView';
+
+interface XsltWorkbenchProps {
+  // The parsed document from the editor, or null while it does not parse
+  documentSource: string | null;
+  // Draws the result grid; the grid components live with the app
+  renderGrid: (props: CompareGridProps) => React.ReactNode;
+  // Replaces the editor content with the transform's output
+  onLoadXml: (xml: string) => void;
+  onClose: () => void;
+}
+
+type OutputView = 'text' | 'grid';
+
+const NO_MARKS = new Map<string, DiffKind>();
+
+const OUTPUT_TYPES: Record<OutputMethod, { extension: string; mimeType: string }> = {
+  xml: { extension: 'xml', mimeType: 'application/xml' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  text: { extension: 'txt', mimeType: 'text/plain' },
+};
+
+const PLACEHOLDER = `<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+  <xsl:param name="title" select="'Report'"/>
+  <xsl:template match="/">
+    ...
+  </xsl:template>
+</xsl:stylesheet>`;
+
+// Runs an XSLT stylesheet over the editor's document as it is typed: the stylesheet and its
+// parameters on the left, the result as text or as a grid on the right
+const XsltWorkbench: React.FC<XsltWorkbenchProps> = ({ documentSource, renderGrid, onLoadXml, onClose }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [stylesheet, setStylesheet] = useState('');
+  const [stylesheetName, setStylesheetName] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [view, setView] = useState<OutputView>('grid');
+  const [expansion, setExpansion] = useState<ExpansionState>(DEFAULT_EXPANSION);
+  const [isCopied, setIsCopied] = useState(false);
+
+  // Typing stays responsive while a large document is transformed
+  const deferredStylesheet = useDeferredValue(stylesheet);
+  const deferredValues = useDeferredValue(values);
+
+  const info = useMemo((): { stylesheet: StylesheetInfo | null; error: string | null } => {
+    if (!deferredStylesheet.trim()) return { stylesheet: null, error: null };
+    try {
+      return { stylesheet: readStylesheet(deferredStylesheet), error: null };
+    } catch (e: any) {
+      return { stylesheet: null, error: e.message };
+    }
+  }, [deferredStylesheet]);
+
+  const result = useMemo((): { result: TransformResult | null; error: string | null } => {
+    if (!info.stylesheet || documentSource === null) return { result: null, error: null };
+    try {
+      return { result: transformDocument(documentSource, deferredStylesheet, deferredValues), error: null };
+    } catch (e: any) {
+      return { result: null, error: e.message };
+    }
+  }, [info, documentSource, deferredStylesheet, deferredValues]);
+
+  const output = result.result;
+
+  // Text output has no tree; XML or HTML that parses is also shown as a grid
+  const outputTree = useMemo(() => {
+    if (!output || output.method === 'text' || !output.output.trim()) return null;
+    const parsed = parseXML(output.output);
+    return parsed.root && !parsed.isFragment ? parsed.root : null;
+  }, [output]);
+
+  const error = info.error ?? result.error;
+
+  const loadFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => {
+      setStylesheet(text);
+      setStylesheetName(file.name);
+    });
+  };
+
+  const copyOutput = () => {
+    if (!output) return;
+    navigator.clipboard.writeText(output.output).then(() => {
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    });
+  };
+
+  const downloadOutput = () => {
+    if (!output) return;
+    const { extension, mimeType } = OUTPUT_TYPES[output.method];
+    const blob = new Blob([output.output], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(stylesheetName ?? 'output').replace(/\.[^.]*$/, '')}-result.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-2 py-0.5 rounded ${active ? 'bg-blue-50 dark:bg-slate-600 text-blue-700 dark:text-blue-300' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-slate-700'} disabled:opacity-40`;
+
+  const paneButtonClass = 'flex items-center gap-1 px-2 py-0.5 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-slate-700 disabled:opacity-40';
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Title bar */}
+      <div className="bg-white dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 px-4 py-2 flex items-center gap-4 text-xs text-gray-700 dark:text-gray-200 shrink-0">
+        <span className="flex items-center gap-1.5 font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+          <FileCog size={14} /> XSLT
+        </span>
+        <span className="flex-1 text-gray-500 dark:text-gray-400">
+          {documentSource === null
+            ? 'Parse a well-formed document in the editor to transform it'
+            : 'Transforms the document in the editor with the browser\'s XSLT 1.0 processor'}
+        </span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-slate-700"
+          title="Close the XSLT workbench"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        {/* Stylesheet and parameters */}
+        <div
+          className="flex-1 min-w-0 flex flex-col border-r border-gray-200 dark:border-slate-700"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => { e.preventDefault(); loadFile(e.dataTransfer.files[0]); }}
+        >
+          <div className="bg-gray-50 dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 px-3 py-1.5 flex items-center gap-2 text-xs shrink-0">
+            <span className="font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">Stylesheet</span>
+            <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-200" title={stylesheetName ?? ''}>{stylesheetName}</span>
+            <button onClick={() => fileInput.current?.click()} className={paneButtonClass} title="Open an XSLT file (or drop one here)">
+              <FolderOpen size={12} /> Open
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".xsl,.xslt,.xml"
+              className="hidden"
+              onChange={(e) => { loadFile(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </div>
+          <textarea
+            value={stylesheet}
+            onChange={(e) => setStylesheet(e.target.value)}
+            placeholder={PLACEHOLDER}
+            spellCheck={false}
+            className="flex-1 min-h-0 p-2 font-mono text-xs bg-slate-900 text-slate-200 resize-none focus:outline-none custom-scrollbar"
+          />
+          {info.stylesheet && info.stylesheet.parameters.length > 0 && (
+            <div className="max-h-48 overflow-auto custom-scrollbar border-t border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-2 text-xs text-gray-700 dark:text-gray-200 shrink-0">
+              <div className="font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-1">Parameters</div>
+              <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 items-center">
+                {info.stylesheet.parameters.map(param => (
+                  <React.Fragment key={param.name}>
+                    <label htmlFor={`xslt-param-${param.name}`} className="font-mono">{param.name}</label>
+                    <input
+                      id={`xslt-param-${param.name}`}
+                      value={values[param.name] ?? ''}
+                      onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+                      placeholder={param.defaultValue ? `default: ${param.defaultValue}` : 'no default'}
+                      spellCheck={false}
+                      className="min-w-0 px-2 py-0.5 font-mono bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded focus:outline-none focus:border-blue-500"
+                      title="Passed to the stylesheet as a string; leave empty for the default"
+                    />
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          )}
+          {(error || (info.stylesheet?.warnings.length ?? 0) > 0) && (
+            <div className="border-t border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-2 flex flex-col gap-1 text-xs shrink-0">
+              {error && (
+                <div className="flex items-start gap-1 text-red-600 dark:text-red-400"><AlertCircle size={12} className="mt-0.5 shrink-0" />{error}</div>
+              )}
+              {info.stylesheet?.warnings.map(warning => (
+                <div key={warning} className="flex items-start gap-1 text-amber-700 dark:text-amber-300"><AlertTriangle size={12} className="mt-0.5 shrink-0" />{warning}</div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Result */}
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="bg-gray-50 dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 px-3 py-1.5 flex items-center gap-2 text-xs shrink-0">
+            <span className="font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">Result</span>
+            {output && <span className="text-gray-500 dark:text-gray-400">{output.method}</span>}
+            <span className="flex-1" />
+            <button onClick={() => setView('grid')} disabled={!outputTree} className={tabClass(view === 'grid' && outputTree !== null)}>Grid</button>
+            <button onClick={() => setView('text')} className={tabClass(view === 'text' || outputTree === null)}>Text</button>
+            <button onClick={copyOutput} disabled={!output} className={paneButtonClass}>
+              <Copy size={12} /> {isCopied ? 'Copied' : 'Copy'}
+            </button>
+            <button onClick={downloadOutput} disabled={!output} className={paneButtonClass}>
+              <Download size={12} /> Download
+            </button>
+            <button
+              onClick={() => output && onLoadXml(output.output)}
+              disabled={!outputTree}
+              className={paneButtonClass}
+              title="Replace the editor content with the result"
+            >
+              <FileCode size={12} /> Open in editor
+            </button>
+          </div>
+          {!output ? (
+            <div className="p-4 text-gray-400 dark:text-slate-500 text-sm">
+              {error ? 'No result' : 'Paste, open or drop a stylesheet to see its result'}
+            </div>
+          ) : view === 'grid' && outputTree ? (
+            <div data-grid-scroller className="flex-1 overflow-auto p-4 custom-scrollbar bg-gray-100 dark:bg-slate-900">
+              <div className="inline-block min-w-full">
+                {renderGrid({ root: outputTree, marks: NO_MARKS, activeKey: null, expansion, onExpansionChange: setExpansion })}
+              </div>
+            </div>
+          ) : (
+            <textarea
+              readOnly
+              value={output.output}
+              spellCheck={false}
+              className="flex-1 min-h-0 p-2 font-mono text-xs bg-gray-50 dark:bg-slate-900 text-gray-900 dark:text-gray-100 resize-none focus:outline-none custom-scrollbar"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default XsltWorkbench;
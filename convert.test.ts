@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML, SAMPLE_XML } from './utils';
+import { XMLNode } from './types';
+import { xmlToValue, jsonToXml, toYaml, Convention, CONVENTIONS, ConversionError } from './convert';
+
+const parseRoot = (xml: string): XMLNode => {
+  const result = parseXML(xml);
+  if (!result.root) throw new Error(result.error || 'no root');
+  return result.root;
+};
+
+// The information a lossless convention promises to keep. Attribute order carries no meaning in XML.
+const shape = (node: XMLNode): unknown => ({
+  name: node.name,
+  attributes: node.attributes.map(attr => [attr.name, attr.value]).sort(),
+  text: node.nodes.filter(child => child.type === 'text').map(child => (child as { value: string }).value).join(''),
+  children: node.children.map(shape),
+});
+
+const DOCUMENTS: Record<string, string> = {
+  sample: SAMPLE_XML,
+  namespaces: `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns="urn:orders">
+  <soap:Body>
+    <order id="1" xml:lang="en">
+      <item sku="a&amp;b">Tea &lt;green&gt;</item>
+      <item sku="c"/>
+      <note>  padded  </note>
+    </order>
+  </soap:Body>
+</soap:Envelope>`,
+  values: `<data>
+  <code>007</code>
+  <flag>true</flag>
+  <empty/>
+  <emoji>日本語 ✓</emoji>
+  <quote a='say "hi"'>it's</quote>
+  <multi>line one
+line two</multi>
+</data>`,
+  nested: '<a><b><c>1</c><c>2</c></b><b><c>3</c></b><d x="1"><c>4</c></d></a>',
+};
+
+const LOSSLESS = (Object.keys(CONVENTIONS) as Convention[]).filter(convention => CONVENTIONS[convention].lossless);
+
+describe('lossless conventions', () => {
+  it('covers BadgerFish and @attr/#text', () => {
+    expect(LOSSLESS).toEqual(['badgerfish', 'attr-text']);
+  });
+
+  LOSSLESS.forEach(convention => {
+    describe(convention, () => {
+      Object.entries(DOCUMENTS).forEach(([name, xml]) => {
+        it(`round-trips ${name} through JSON without losses`, () => {
+          const root = parseRoot(xml);
+          const { value, losses } = xmlToValue(root, convention);
+          expect(losses).toEqual([]);
+
+          const back = parseRoot(jsonToXml(JSON.stringify(value), convention));
+          expect(shape(back)).toEqual(shape(root));
+        });
+
+        it(`gives the same JSON for ${name} after converting back`, () => {
+          const { value } = xmlToValue(parseRoot(xml), convention);
+          const again = xmlToValue(parseRoot(jsonToXml(JSON.stringify(value), convention)), convention);
+          expect(again.value).toEqual(value);
+        });
+      });
+    });
+  });
+});
+
+describe('xmlToValue', () => {
+  const book = parseRoot('<book id="1" xmlns:x="urn:x"><title>XML</title><tag>a</tag><tag>b</tag><x:empty/></book>');
+
+  it('writes BadgerFish with @xmlns, @attributes and $ text', () => {
+    expect(xmlToValue(book, 'badgerfish').value).toEqual({
+      book: {
+        '@xmlns': { x: 'urn:x' },
+        '@id': '1',
+        title: { $: 'XML' },
+        tag: [{ $: 'a' }, { $: 'b' }],
+        'x:empty': {},
+      },
+    });
+  });
+
+  it('writes @attr/#text with text-only elements as strings', () => {
+    expect(xmlToValue(book, 'attr-text').value).toEqual({
+      book: { '@id': '1', '@xmlns:x': 'urn:x', title: 'XML', tag: ['a', 'b'], 'x:empty': '' },
+    });
+  });
+
+  it('writes Parker values with typed numbers and booleans', () => {
+    const root = parseRoot('<r a="1"><n>42</n><f>1.50</f><z>007</z><b>false</b><e/></r>');
+    const { value, losses } = xmlToValue(root, 'parker');
+    expect(value).toEqual({ n: 42, f: '1.50', z: '007', b: false, e: null });
+    expect(losses).toEqual(['The root element name <r> is dropped', 'Attributes of <r> are dropped']);
+  });
+
+  it('writes the grid shape with plain attribute keys and arrays for repeated tags', () => {
+    const root = parseRoot('<r name="x"><name>y</name><row id="1"/><row id="2"/></r>');
+    expect(xmlToValue(root, 'grid').value).toEqual({
+      r: { '@name': 'x', name: 'y', row: [{ id: '1' }, { id: '2' }] },
+    });
+  });
+
+  it('reports what even the lossless conventions cannot keep', () => {
+    const root = parseRoot('<r><!-- note --><a>1</a><b><![CDATA[<x>]]></b><a>2</a><p>Hello <em>you</em></p><?pi data?></r>');
+    LOSSLESS.forEach(convention => {
+      expect(xmlToValue(root, convention).losses).toEqual([
+        'Comments in <r> are dropped',
+        'Processing instructions in <r> are dropped',
+        'Interleaved children of <r> are regrouped by name',
+        'CDATA sections in <b> become plain text',
+        'Mixed content in <p> is merged into one text value',
+      ]);
+    });
+  });
+});
+
+describe('jsonToXml', () => {
+  it('wraps Parker values in a root element and repeats array items', () => {
+    const root = parseRoot(jsonToXml('{"a": [1, 2], "b": {"c": true}, "d": null}', 'parker'));
+    expect(shape(root)).toEqual(shape(parseRoot('<root><a>1</a><a>2</a><b><c>true</c></b><d/></root>')));
+  });
+
+  it('wraps objects with several top-level keys', () => {
+    const root = parseRoot(jsonToXml('{"@v": "1", "a": "x", "b": "y"}', 'attr-text'));
+    expect(shape(root)).toEqual(shape(parseRoot('<root v="1"><a>x</a><b>y</b></root>')));
+  });
+
+  it('reads grid JSON back with plain keys as child elements', () => {
+    const root = parseRoot(jsonToXml('{"r": {"@name": "x", "id": "1", "row": [{"id": "2"}]}}', 'grid'));
+    expect(shape(root)).toEqual(shape(parseRoot('<r name="x"><id>1</id><row><id>2</id></row></r>')));
+  });
+
+  it('rejects invalid JSON, invalid names and nested arrays', () => {
+    expect(() => jsonToXml('{', 'attr-text')).toThrow(ConversionError);
+    expect(() => jsonToXml('{"a b": 1}', 'attr-text')).toThrow('"a b" is not a valid XML name');
+    expect(() => jsonToXml('{"r": {"a": [[1]]}}', 'attr-text')).toThrow('array inside an array');
+    expect(() => jsonToXml('{"r": {"@a": {"b": 1}}}', 'badgerfish')).toThrow('must be a string, number or boolean');
+  });
+});
+
+describe('toYaml', () => {
+  it('writes block YAML and quotes anything that would read back differently', () => {
+    expect(toYaml({
+      book: {
+        '@id': '1',
+        title: 'Learning XML',
+        tag: ['a', 'yes', '42'],
+        'x:empty': '',
+        rows: [{ id: '1', name: 'one' }, {}],
+        note: 'line one\nline two',
+      },
+    })).toBe([
+      'book:',
+      '  "@id": "1"',
+      '  title: Learning XML',
+      '  tag:',
+      '    - a',
+      '    - "yes"',
+      '    - "42"',
+      '  "x:empty": ""',
+      '  rows:',
+      '    - id: "1"',
+      '      name: one',
+      '    - {}',
+      '  note: "line one\\nline two"',
+      '',
+    ].join('\n'));
+  });
+});
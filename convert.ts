@@ -0,0 +1,343 @@
+import { XMLNode, XMLAttribute, XMLChildNode } from './types';
+import { serializeXML } from './utils';
+import { groupChildren } from './gridLayout';
+import { prettifyXML, FormatOptions, DEFAULT_FORMAT_OPTIONS } from './formatter';
+
+// --- XML ⇄ JSON / YAML ---
+// Maps the parsed tree onto plain JSON values under one of several common conventions, and JSON
+// written under the same convention back onto XML. Whatever a convention cannot represent is
+// reported as a loss rather than dropped silently.
+
+export type Convention = 'badgerfish' | 'attr-text' | 'parker' | 'grid';
+
+export type OutputFormat = 'json' | 'yaml';
+
+export const CONVENTIONS: Record<Convention, { label: string; description: string; lossless: boolean }> = {
+  badgerfish: {
+    label: 'BadgerFish',
+    description: 'Every element is an object; attributes as "@name", text as "$", namespace declarations under "@xmlns"',
+    lossless: true,
+  },
+  'attr-text': {
+    label: '@attr / #text',
+    description: 'Attributes as "@name", text as "#text"; elements with only text become strings',
+    lossless: true,
+  },
+  parker: {
+    label: 'Parker',
+    description: 'Values only: attributes and the root name are dropped, numbers and booleans are typed',
+    lossless: false,
+  },
+  grid: {
+    label: 'Arrays for repeated siblings',
+    description: 'Shaped like the grid: attributes and children as plain keys, a repeated tag as an array',
+    lossless: false,
+  },
+};
+
+export class ConversionError extends Error {}
+
+export interface ConversionResult {
+  value: unknown;
+  // What the chosen convention could not keep, one line per kind and element name
+  losses: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Children are grouped by tag name as in the grid's tables; a name that occurs more than once
+// becomes an array
+const groupValue = <T>(matches: XMLNode[], convert: (element: XMLNode) => T): T | T[] =>
+  matches.length === 1 ? convert(matches[0]) : matches.map(convert);
+
+// The text an element carries: the exact text of a leaf, or the merged text runs of mixed content
+const textOf = (element: XMLNode): string | null => {
+  if (element.children.length > 0) return element.content;
+  const runs = element.nodes.filter(child => child.type === 'text' || child.type === 'cdata');
+  return runs.length ? runs.map(child => (child as { value: string }).value).join('') : null;
+};
+
+// Records what is lost for this element under any convention: markup other than elements and
+// text, the position of text among elements, and the order of interleaved siblings
+const noteStructuralLosses = (element: XMLNode, losses: Set<string>) => {
+  const tag = `<${element.name}>`;
+  const has = (type: XMLChildNode['type']) => element.nodes.some(child => child.type === type);
+  if (has('comment')) losses.add(`Comments in ${tag} are dropped`);
+  if (has('pi')) losses.add(`Processing instructions in ${tag} are dropped`);
+  if (has('cdata')) losses.add(`CDATA sections in ${tag} become plain text`);
+  if (element.children.length > 0 && element.content !== null) {
+    losses.add(`Mixed content in ${tag} is merged into one text value`);
+  }
+  const grouped = Array.from(groupChildren(element).values()).flat();
+  if (grouped.some((child, index) => child !== element.children[index])) {
+    losses.add(`Interleaved children of ${tag} are regrouped by name`);
+  }
+};
+
+const isDeclaration = (attr: XMLAttribute): boolean => attr.name === 'xmlns' || attr.name.startsWith('xmlns:');
+
+const badgerfish = (element: XMLNode, losses: Set<string>): JsonObject => {
+  noteStructuralLosses(element, losses);
+  const result: JsonObject = {};
+  // Only the declarations made on this element, not every namespace in scope
+  const declarations = element.attributes.filter(isDeclaration);
+  if (declarations.length) {
+    const xmlns: Record<string, string> = {};
+    declarations.forEach(attr => { xmlns[attr.name === 'xmlns' ? '$' : attr.name.slice(6)] = attr.value; });
+    result['@xmlns'] = xmlns;
+  }
+  element.attributes.forEach(attr => {
+    if (!isDeclaration(attr)) result[`@${attr.name}`] = attr.value;
+  });
+  const text = textOf(element);
+  if (text !== null) result.$ = text;
+  groupChildren(element).forEach((matches, name) => {
+    result[name] = groupValue(matches, child => badgerfish(child, losses));
+  });
+  return result;
+};
+
+const attrText = (element: XMLNode, losses: Set<string>): unknown => {
+  noteStructuralLosses(element, losses);
+  const text = textOf(element);
+  if (element.attributes.length === 0 && element.children.length === 0) return text ?? '';
+  const result: JsonObject = {};
+  element.attributes.forEach(attr => { result[`@${attr.name}`] = attr.value; });
+  if (text !== null) result['#text'] = text;
+  groupChildren(element).forEach((matches, name) => {
+    result[name] = groupValue(matches, child => attrText(child, losses));
+  });
+  return result;
+};
+
+// Only canonical numbers are typed, so "007" or "1.50" stay strings
+const typedValue = (text: string): string | number | boolean => {
+  if (text === 'true' || text === 'false') return text === 'true';
+  const number = Number(text);
+  return text.trim() !== '' && String(number) === text ? number : text;
+};
+
+const parker = (element: XMLNode, losses: Set<string>): unknown => {
+  noteStructuralLosses(element, losses);
+  if (element.attributes.length) losses.add(`Attributes of <${element.name}> are dropped`);
+  const text = textOf(element);
+  if (element.children.length === 0) return text === null ? null : typedValue(text);
+  if (text !== null) losses.add(`Text of <${element.name}> is dropped because it also has child elements`);
+  const result: JsonObject = {};
+  groupChildren(element).forEach((matches, name) => {
+    result[name] = groupValue(matches, child => parker(child, losses));
+  });
+  return result;
+};
+
+const grid = (element: XMLNode, losses: Set<string>): unknown => {
+  noteStructuralLosses(element, losses);
+  const text = textOf(element);
+  if (element.attributes.length === 0 && element.children.length === 0) return text ?? '';
+  const groups = groupChildren(element);
+  const result: JsonObject = {};
+  // An attribute keeps its @ only where a child element of the same name would overwrite it
+  element.attributes.forEach(attr => { result[groups.has(attr.name) ? `@${attr.name}` : attr.name] = attr.value; });
+  if (text !== null) result['#text'] = text;
+  groups.forEach((matches, name) => {
+    result[name] = groupValue(matches, child => grid(child, losses));
+  });
+  return result;
+};
+
+export const xmlToValue = (root: XMLNode, convention: Convention): ConversionResult => {
+  const losses = new Set<string>();
+  let value: unknown;
+  switch (convention) {
+    case 'badgerfish': value = { [root.name]: badgerfish(root, losses) }; break;
+    case 'attr-text': value = { [root.name]: attrText(root, losses) }; break;
+    case 'grid': value = { [root.name]: grid(root, losses) }; break;
+    case 'parker':
+      losses.add(`The root element name <${root.name}> is dropped`);
+      value = parker(root, losses);
+      break;
+  }
+  return { value, losses: Array.from(losses) };
+};
+
+// --- YAML output ---
+const YAML_PLAIN = /^[A-Za-z_$][\w$.\-]*( [\w$.\-]+)*$/;
+const YAML_RESERVED = /^(true|false|yes|no|on|off|y|n|null|~)$/i;
+
+// Strings that could be read back as something else are double-quoted; JSON string syntax is valid YAML
+const yamlScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object') return '{}';
+  const text = String(value);
+  return YAML_PLAIN.test(text) && !YAML_RESERVED.test(text) ? text : JSON.stringify(text);
+};
+
+const isBlock = (value: unknown): boolean =>
+  value !== null && typeof value === 'object' && Object.keys(value as object).length > 0;
+
+const writeYaml = (value: unknown, indent: string): string => {
+  if (Array.isArray(value)) {
+    return value.map(item => (isBlock(item)
+      ? `${indent}- ${writeYaml(item, indent + '  ').trimStart()}`
+      : `${indent}- ${yamlScalar(item)}`)).join('\n');
+  }
+  return Object.entries(value as JsonObject).map(([key, item]) => (isBlock(item)
+    ? `${indent}${yamlScalar(key)}:\n${writeYaml(item, indent + '  ')}`
+    : `${indent}${yamlScalar(key)}: ${yamlScalar(item)}`)).join('\n');
+};
+
+export const toYaml = (value: unknown): string => (isBlock(value) ? writeYaml(value, '') : yamlScalar(value)) + '\n';
+
+export const writeValue = (value: unknown, format: OutputFormat): string =>
+  format === 'yaml' ? toYaml(value) : JSON.stringify(value, null, 2) + '\n';
+
+// --- JSON to XML ---
+const NAME_PATTERN = /^[A-Za-z_À-￿][\w.\-·À-￿]*(:[A-Za-z_À-￿][\w.\-·À-￿]*)?$/;
+
+const assertName = (name: string) => {
+  if (!NAME_PATTERN.test(name)) throw new ConversionError(`"${name}" is not a valid XML name`);
+};
+
+// Serialization only needs names, attributes and child nodes; namespaces are resolved when the
+// result is parsed again
+const makeElement = (name: string): XMLNode => {
+  assertName(name);
+  const colon = name.indexOf(':');
+  return {
+    type: 'element',
+    id: '',
+    name,
+    namespaceURI: null,
+    prefix: colon === -1 ? null : name.slice(0, colon),
+    localName: colon === -1 ? name : name.slice(colon + 1),
+    attributes: [],
+    children: [],
+    nodes: [],
+    content: null,
+  };
+};
+
+const addAttribute = (element: XMLNode, name: string, value: unknown) => {
+  if (value !== null && typeof value === 'object') {
+    throw new ConversionError(`Attribute "${name}" of <${element.name}> must be a string, number or boolean`);
+  }
+  assertName(name);
+  const colon = name.indexOf(':');
+  element.attributes.push({
+    name,
+    value: value === null ? '' : String(value),
+    namespaceURI: null,
+    prefix: colon === -1 ? null : name.slice(0, colon),
+    localName: colon === -1 ? name : name.slice(colon + 1),
+  });
+};
+
+const addText = (element: XMLNode, value: unknown) => {
+  if (value === null || value === '') return;
+  if (typeof value === 'object') throw new ConversionError(`Text of <${element.name}> must be a string, number or boolean`);
+  element.nodes.push({ type: 'text', id: '', value: String(value) });
+};
+
+const addChild = (parent: XMLNode, child: XMLNode) => {
+  parent.children.push(child);
+  parent.nodes.push(child);
+};
+
+// An array stands for repeated siblings of the same name
+const appendValue = (parent: XMLNode, name: string, value: unknown, build: (name: string, value: unknown) => XMLNode) => {
+  if (!Array.isArray(value)) {
+    addChild(parent, build(name, value));
+    return;
+  }
+  value.forEach(item => {
+    if (Array.isArray(item)) throw new ConversionError(`<${name}> contains an array inside an array, which has no XML equivalent`);
+    addChild(parent, build(name, item));
+  });
+};
+
+const fromBadgerfish = (name: string, value: unknown): XMLNode => {
+  const element = makeElement(name);
+  if (value === null || typeof value !== 'object') {
+    addText(element, value);
+    return element;
+  }
+  Object.entries(value as JsonObject).forEach(([key, item]) => {
+    if (key === '@xmlns' && item !== null && typeof item === 'object') {
+      Object.entries(item as JsonObject).forEach(([prefix, uri]) => addAttribute(element, prefix === '$' ? 'xmlns' : `xmlns:${prefix}`, uri));
+    } else if (key.startsWith('@')) {
+      addAttribute(element, key.slice(1), item);
+    } else if (key === '$') {
+      addText(element, item);
+    } else {
+      appendValue(element, key, item, fromBadgerfish);
+    }
+  });
+  return element;
+};
+
+// Also reads the grid convention: there, keys without @ come back as child elements
+const fromAttrText = (name: string, value: unknown): XMLNode => {
+  const element = makeElement(name);
+  if (value === null || typeof value !== 'object') {
+    addText(element, value);
+    return element;
+  }
+  Object.entries(value as JsonObject).forEach(([key, item]) => {
+    if (key.startsWith('@')) addAttribute(element, key.slice(1), item);
+    else if (key === '#text') addText(element, item);
+    else appendValue(element, key, item, fromAttrText);
+  });
+  return element;
+};
+
+const fromParker = (name: string, value: unknown): XMLNode => {
+  const element = makeElement(name);
+  if (value === null || typeof value !== 'object') {
+    addText(element, value);
+    return element;
+  }
+  Object.entries(value as JsonObject).forEach(([key, item]) => appendValue(element, key, item, fromParker));
+  return element;
+};
+
+const FALLBACK_ROOT = 'root';
+
+const valueToElement = (value: unknown, convention: Convention): XMLNode => {
+  const build = convention === 'badgerfish' ? fromBadgerfish : convention === 'parker' ? fromParker : fromAttrText;
+
+  // Parker has no root name; a top-level array is a list of <item> elements
+  if (convention === 'parker') {
+    if (!Array.isArray(value)) return fromParker(FALLBACK_ROOT, value);
+    const root = makeElement(FALLBACK_ROOT);
+    appendValue(root, 'item', value, fromParker);
+    return root;
+  }
+
+  // The other conventions name the root with the single top-level key. Anything else is wrapped.
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value as JsonObject);
+    if (entries.length === 1 && !Array.isArray(entries[0][1]) && !entries[0][0].startsWith('@')) {
+      return build(entries[0][0], entries[0][1]);
+    }
+    return build(FALLBACK_ROOT, value);
+  }
+  const root = makeElement(FALLBACK_ROOT);
+  if (Array.isArray(value)) appendValue(root, 'item', value, build);
+  else addText(root, value);
+  return root;
+};
+
+export const valueToXml = (value: unknown, convention: Convention, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): string =>
+  prettifyXML(`<?xml version="1.0" encoding="UTF-8"?>\r\n${serializeXML(valueToElement(value, convention))}`, options);
+
+export const jsonToXml = (json: string, convention: Convention, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): string => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e: any) {
+    throw new ConversionError(`Invalid JSON: ${e.message}`);
+  }
+  return valueToXml(value, convention, options);
+};
@@ -0,0 +1,89 @@
+import { XMLNode, XMLChildNode } from './types';
+import { parseXML } from './utils';
+import { prettifyXML, minifyXML, FormatOptions, DEFAULT_FORMAT_OPTIONS } from './formatter';
+import { buildXPathDocument, evaluateXPath, formatXPathValue, stringValue } from './xpath';
+import { documentNamespaces, gridPathOf } from './paths';
+import { buildExportTables, writeTables, ExportOptions, DEFAULT_EXPORT_OPTIONS } from './tableExport';
+import { xmlToValue, writeValue, Convention, OutputFormat } from './convert';
+
+// --- Headless Core ---
+// The app's document operations as functions of the source text, for use outside the browser
+// (see cli.ts). Nothing here touches the DOM: parsing, formatting, XPath and the table builder are
+// the same plain TypeScript the app runs, so the results match what the grid shows.
+
+export class DocumentError extends Error {}
+
+export interface ParsedDocument {
+  root: XMLNode;
+  prolog: XMLChildNode[];
+  epilog: XMLChildNode[];
+  // Several top-level nodes, held by a synthetic root as in the grid
+  isFragment: boolean;
+}
+
+// Unlike the editor, which shows what it could recover, this only accepts well-formed documents
+export const parseDocument = (source: string): ParsedDocument => {
+  const { root, error, errors = [], prolog = [], epilog = [], isFragment = false } = parseXML(source);
+  if (errors.length > 0) {
+    const [first] = errors;
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+    throw new DocumentError(`The document is not well-formed: ${first.message} at line ${first.line}, column ${first.column}${more}`);
+  }
+  if (error) throw new DocumentError(error);
+  if (!root) throw new DocumentError('The document is empty');
+  return { root, prolog, epilog, isFragment };
+};
+
+// prettifyXML and minifyXML hand back input they cannot format unchanged; here that is an error
+export const formatDocument = (source: string, mode: 'prettify' | 'minify', options: FormatOptions = DEFAULT_FORMAT_OPTIONS): string => {
+  parseDocument(source);
+  return mode === 'prettify' ? prettifyXML(source, options) : minifyXML(source, options);
+};
+
+export interface QueryMatch {
+  // Grid path of the node, as the grid shows and copies it
+  path: string;
+  value: string;
+}
+
+export type QueryResult =
+  | { kind: 'nodes'; matches: QueryMatch[] }
+  | { kind: 'value'; value: string };
+
+// Evaluates an XPath 1.0 expression as the query bar does: the document's prefixes (and ns0, ns1,
+// ... for default namespaces) are bound, and extra bindings can be given
+export const queryDocument = (source: string, expression: string, namespaces: Record<string, string> = {}): QueryResult => {
+  const { root, prolog, epilog } = parseDocument(source);
+  const value = evaluateXPath(expression, buildXPathDocument(root, prolog, epilog), {
+    namespaces: { ...documentNamespaces(root), ...namespaces },
+  });
+  if (!Array.isArray(value)) return { kind: 'value', value: formatXPathValue(value) };
+  return {
+    kind: 'nodes',
+    matches: value.filter(node => node.kind !== 'document').map(node => ({ path: gridPathOf(node), value: stringValue(node) })),
+  };
+};
+
+// The export of a table: the elements an XPath selects (the rows of a grid table, e.g. /catalog/book),
+// or the root element as a single row
+export const flattenDocument = (source: string, select: string | null, options: ExportOptions = DEFAULT_EXPORT_OPTIONS): string => {
+  const { root, prolog, epilog } = parseDocument(source);
+  let elements = [root];
+  if (select !== null) {
+    const value = evaluateXPath(select, buildXPathDocument(root, prolog, epilog), { namespaces: documentNamespaces(root) });
+    elements = Array.isArray(value) ? value.flatMap(node => (node.element && node.kind === 'element' ? [node.element] : [])) : [];
+    if (elements.length === 0) throw new DocumentError(`${select} selects no elements`);
+  }
+  return writeTables(buildExportTables(elements[0].name, elements, options), options.format);
+};
+
+export interface JsonOutput {
+  output: string;
+  // What the convention could not keep, as listed by the JSON panel
+  losses: string[];
+}
+
+export const documentToJson = (source: string, convention: Convention, format: OutputFormat = 'json'): JsonOutput => {
+  const { value, losses } = xmlToValue(parseDocument(source).root, convention);
+  return { output: writeValue(value, format), losses };
+};
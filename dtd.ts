@@ -0,0 +1,154 @@
+import {
+  Grammar, ElementDeclaration, ComplexType, AttributeUse, Particle, SimpleType, SchemaError, builtinType,
+} from './validation';
+
+// --- DTD ---
+// Reads <!ELEMENT> and <!ATTLIST> declarations from a DOCTYPE's internal subset (and any external
+// DTD files loaded alongside it) into the grammar model of validation.ts. DTDs know nothing of
+// namespaces: names are matched as written, prefix included.
+
+const COMMENT = /<!--[\s\S]*?-->/g;
+const PROCESSING_INSTRUCTION = /<\?[\s\S]*?\?>/g;
+const PARAMETER_ENTITY = /<!ENTITY\s+%\s+([^\s]+)\s+(?:"([^"]*)"|'([^']*)')\s*>/g;
+const PARAMETER_REFERENCE = /%([^\s;%]+);/g;
+const DECLARATION = /<!(ELEMENT|ATTLIST)\s+([^\s>]+)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_DEFINITION = /([^\s()]+)\s+(\([^)]*\)|NOTATION\s*\([^)]*\)|[A-Z]+)\s+(#REQUIRED|#IMPLIED|(?:#FIXED\s+)?(?:"[^"]*"|'[^']*'))/g;
+const MAX_EXPANSIONS = 32;
+
+// Substitutes parameter entities, which DTDs commonly use to share content models
+const expandParameterEntities = (subset: string): string => {
+  const entities = new Map<string, string>();
+  let text = subset.replace(COMMENT, '').replace(PROCESSING_INSTRUCTION, '');
+  for (let pass = 0; pass < MAX_EXPANSIONS; pass++) {
+    for (const match of text.matchAll(PARAMETER_ENTITY)) {
+      if (!entities.has(match[1])) entities.set(match[1], match[2] ?? match[3]);
+    }
+    text = text.replace(PARAMETER_ENTITY, '');
+    let replaced = false;
+    text = text.replace(PARAMETER_REFERENCE, (reference, name) => {
+      const value = entities.get(name);
+      if (value === undefined) return reference;
+      replaced = true;
+      return value;
+    });
+    if (!replaced) return text;
+  }
+  throw new SchemaError('Parameter entities nest too deeply');
+};
+
+// Parses a children content model such as (title, (author | editor)+, note?)
+const parseContentModel = (spec: string, element: string, declaration: (name: string) => ElementDeclaration | null): Particle => {
+  const tokens = spec.match(/[(),|?*+]|[^\s(),|?*+]+/g) ?? [];
+  let index = 0;
+
+  const occurrence = (): { min: number; max: number } => {
+    const next = tokens[index];
+    if (next === '?') { index++; return { min: 0, max: 1 }; }
+    if (next === '*') { index++; return { min: 0, max: Infinity }; }
+    if (next === '+') { index++; return { min: 1, max: Infinity }; }
+    return { min: 1, max: 1 };
+  };
+
+  const parseItem = (): Particle => {
+    const token = tokens[index++];
+    if (token === '(') return parseGroup();
+    if (!token || /^[(),|?*+]$/.test(token)) throw new SchemaError(`Malformed content model for <${element}>: ${spec}`);
+    return { kind: 'element', name: { ns: null, local: token }, declaration: () => declaration(token), ...occurrence() };
+  };
+
+  const parseGroup = (): Particle => {
+    const particles = [parseItem()];
+    let separator: string | null = null;
+    while (tokens[index] === ',' || tokens[index] === '|') {
+      if (separator && tokens[index] !== separator) throw new SchemaError(`Content model for <${element}> mixes "," and "|": ${spec}`);
+      separator = tokens[index++];
+      particles.push(parseItem());
+    }
+    if (tokens[index++] !== ')') throw new SchemaError(`Malformed content model for <${element}>: ${spec}`);
+    return { kind: separator === '|' ? 'choice' : 'sequence', particles, ...occurrence() };
+  };
+
+  if (tokens[index++] !== '(') throw new SchemaError(`Malformed content model for <${element}>: ${spec}`);
+  const model = parseGroup();
+  if (index !== tokens.length) throw new SchemaError(`Malformed content model for <${element}>: ${spec}`);
+  return model;
+};
+
+const ATTRIBUTE_TYPES: Record<string, string> = {
+  CDATA: 'string', ID: 'ID', IDREF: 'IDREF', IDREFS: 'IDREFS', ENTITY: 'ENTITY', ENTITIES: 'ENTITIES',
+  NMTOKEN: 'NMTOKEN', NMTOKENS: 'NMTOKENS',
+};
+
+const attributeType = (spec: string, element: string): SimpleType => {
+  const enumeration = spec.match(/\(([^)]*)\)/);
+  if (enumeration) {
+    return { ...builtinType('NMTOKEN'), name: 'enumeration', facets: { enumeration: enumeration[1].split('|').map(value => value.trim()) } };
+  }
+  const builtin = ATTRIBUTE_TYPES[spec];
+  if (!builtin) throw new SchemaError(`Unknown attribute type ${spec} on <${element}>`);
+  // CDATA values are compared as written; the tokenized types collapse whitespace
+  return builtinType(builtin);
+};
+
+// Compiles DTD text (internal subset first, so its declarations win) into a grammar rooted at rootName
+export const compileDtd = (subsets: string[], rootName: string): Grammar => {
+  const elements = new Map<string, { spec: string }>();
+  const attributes = new Map<string, AttributeUse[]>();
+
+  subsets.map(expandParameterEntities).forEach(text => {
+    for (const [, kind, name, body] of text.matchAll(DECLARATION)) {
+      if (kind === 'ELEMENT') {
+        if (!elements.has(name)) elements.set(name, { spec: body.trim() });
+        continue;
+      }
+      const uses = attributes.get(name) ?? [];
+      for (const [, attrName, type, defaultValue] of body.matchAll(ATTRIBUTE_DEFINITION)) {
+        // The first definition of an attribute is binding
+        if (uses.some(use => use.name.local === attrName)) continue;
+        const fixed = defaultValue.startsWith('#FIXED') ? defaultValue.replace(/^#FIXED\s+/, '').slice(1, -1) : null;
+        uses.push({ name: { ns: null, local: attrName }, type: attributeType(type, name), required: defaultValue === '#REQUIRED', fixed });
+      }
+      attributes.set(name, uses);
+    }
+  });
+
+  const declarations = new Map<string, ElementDeclaration>();
+
+  const declaration = (name: string): ElementDeclaration | null => {
+    const cached = declarations.get(name);
+    if (cached) return cached;
+    const element = elements.get(name);
+    if (!element) return null;
+    const type = compileElementType(name, element.spec);
+    const compiled: ElementDeclaration = { name: { ns: null, local: name }, type: () => type, nillable: false, fixed: null };
+    declarations.set(name, compiled);
+    return compiled;
+  };
+
+  const compileElementType = (name: string, spec: string): ComplexType => {
+    const type: ComplexType = {
+      kind: 'complex', name, content: 'empty', particle: null, simpleType: null,
+      attributes: attributes.get(name) ?? [], anyAttribute: null,
+    };
+    if (spec === 'EMPTY') return type;
+    if (spec === 'ANY') return { ...type, content: 'any' };
+    if (/^\(\s*#PCDATA/.test(spec)) {
+      // (#PCDATA | a | b)*: text and the named elements in any order
+      const names = spec.replace(/^\(\s*#PCDATA/, '').replace(/\)\*?$/, '').split('|').map(part => part.trim()).filter(Boolean);
+      const particles: Particle[] = names.map(child => ({
+        kind: 'element', name: { ns: null, local: child }, declaration: () => declaration(child), min: 1, max: 1,
+      }));
+      return { ...type, content: 'mixed', particle: particles.length ? { kind: 'choice', particles, min: 0, max: Infinity } : null };
+    }
+    return { ...type, content: 'elementOnly', particle: parseContentModel(spec, name, declaration) };
+  };
+
+  // Parse every content model now so malformed declarations are reported when the DTD loads
+  elements.forEach((_, name) => declaration(name));
+
+  return {
+    namespaceAware: false,
+    rootName,
+    globalElement: (name) => declaration(name.local),
+  };
+};
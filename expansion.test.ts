@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EXPANSION, isWithinPath, isPathExpanded, isPathRecursivelyExpanded, setPathExpanded, expandPaths,
+  expandSubtree, collapseSubtree, expandAll, collapseAll, readExpansion,
+} from './expansion';
+
+describe('expansion state', () => {
+  it('treats a table path as covering its rows but not similarly named siblings', () => {
+    expect(isWithinPath('/a/book[2]/title', '/a/book')).toBe(true);
+    expect(isWithinPath('/a/book', '/a/book')).toBe(true);
+    expect(isWithinPath('/a/bookmark', '/a/book')).toBe(false);
+    expect(isWithinPath('/a/book[2]', '/a/book[1]')).toBe(false);
+  });
+
+  it('opens the top level by default and follows Expand All / Collapse All otherwise', () => {
+    expect(isPathExpanded(DEFAULT_EXPANSION, '/a', 0)).toBe(true);
+    expect(isPathExpanded(DEFAULT_EXPANSION, '/a/b', 1)).toBe(false);
+    expect(isPathExpanded(expandAll(), '/a/b/c', 5)).toBe(true);
+    expect(isPathExpanded(collapseAll(), '/a', 0)).toBe(false);
+
+    const state = setPathExpanded(DEFAULT_EXPANSION, '/a/b', true);
+    expect(isPathExpanded(state, '/a/b', 1)).toBe(true);
+    expect(isPathExpanded(setPathExpanded(state, '/a', false), '/a', 0)).toBe(false);
+    expect(expandPaths(DEFAULT_EXPANSION, ['/a/b', '/a/c']).nodes).toEqual({ '/a/b': true, '/a/c': true });
+  });
+
+  it('applies the nearest subtree setting, table paths included, and clears settings below it', () => {
+    let state = setPathExpanded(DEFAULT_EXPANSION, '/a/book[2]/title', false);
+    state = expandSubtree(state, '/a/book');
+    expect(state.nodes).toEqual({});
+    expect(isPathExpanded(state, '/a/book[2]/title', 3)).toBe(true);
+    expect(isPathRecursivelyExpanded(state, '/a/book[2]')).toBe(true);
+    expect(isPathRecursivelyExpanded(state, '/a')).toBe(false);
+
+    // Collapsing below keeps the node itself open and overrides the outer setting
+    state = collapseSubtree(state, '/a/book[2]');
+    expect(isPathExpanded(state, '/a/book[2]', 2)).toBe(true);
+    expect(isPathExpanded(state, '/a/book[2]/title', 3)).toBe(false);
+    expect(isPathExpanded(state, '/a/book[1]/title', 3)).toBe(true);
+  });
+
+  it('reads back stored states, dropping settings of the wrong type', () => {
+    expect(readExpansion({ base: 'expanded', nodes: { '/a': false, '/b': 'yes' }, subtrees: { '/a/b': true }, extra: 1 }))
+      .toEqual({ base: 'expanded', nodes: { '/a': false }, subtrees: { '/a/b': true } });
+    expect(readExpansion({ base: 'sideways', nodes: {}, subtrees: {} })).toEqual(DEFAULT_EXPANSION);
+    expect(readExpansion({ nodes: {} })).toBe(DEFAULT_EXPANSION);
+    expect(readExpansion('damaged')).toBe(DEFAULT_EXPANSION);
+  });
+});
@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback } from 'react';
+
+// --- Grid Expansion State ---
+// Which grid nodes are open, kept in one place and keyed by grid path (/catalog/book[2], or
+// /catalog/book for the table of all books). Paths stay the same when the document is reparsed,
+// so the view survives Submit, edits and undo, and a whole view can be saved under a name.
+
+export interface ExpansionState {
+  // What a node with no setting of its own (or from an ancestor) does: open only the top level,
+  // or follow the last Expand All / Collapse All
+  base: 'default' | 'expanded' | 'collapsed';
+  // Set on a single node
+  nodes: Record<string, boolean>;
+  // Set on a node and everything below it. The nearest one above a node applies.
+  subtrees: Record<string, boolean>;
+}
+
+export const DEFAULT_EXPANSION: ExpansionState = { base: 'default', nodes: {}, subtrees: {} };
+
+// Whether path is base itself or lies below it. A table path covers its rows (/a/book covers
+// /a/book[2]) but not a sibling whose name merely starts the same way (/a/bookmark).
+export const isWithinPath = (path: string, base: string): boolean =>
+  path === base || path.startsWith(base + '/') || path.startsWith(base + '[');
+
+// Subtree paths that could cover a path, nearest first
+const coveringPaths = (path: string): string[] => {
+  const result: string[] = [];
+  for (let end = path.length; end > 0; end = path.lastIndexOf('/', end - 1)) {
+    const prefix = path.slice(0, end);
+    result.push(prefix);
+    const tablePath = prefix.replace(/\[\d+\]$/, '');
+    if (tablePath !== prefix) result.push(tablePath);
+  }
+  return result;
+};
+
+const subtreeSetting = (state: ExpansionState, path: string): boolean | undefined => {
+  for (const candidate of coveringPaths(path)) {
+    if (state.subtrees[candidate] !== undefined) return state.subtrees[candidate];
+  }
+  return undefined;
+};
+
+export const isPathExpanded = (state: ExpansionState, path: string, depth: number): boolean => {
+  const own = state.nodes[path];
+  if (own !== undefined) return own;
+  const inherited = subtreeSetting(state, path);
+  if (inherited !== undefined) return inherited;
+  return state.base === 'default' ? depth < 1 : state.base === 'expanded';
+};
+
+// Drives the double-chevron button: true when the node's whole subtree was opened
+export const isPathRecursivelyExpanded = (state: ExpansionState, path: string): boolean =>
+  subtreeSetting(state, path) ?? state.base === 'expanded';
+
+const withoutPathsWithin = (entries: Record<string, boolean>, base: string): Record<string, boolean> => {
+  const kept: Record<string, boolean> = {};
+  Object.keys(entries).forEach(path => {
+    if (!isWithinPath(path, base)) kept[path] = entries[path];
+  });
+  return kept;
+};
+
+export const setPathExpanded = (state: ExpansionState, path: string, expanded: boolean): ExpansionState =>
+  ({ ...state, nodes: { ...state.nodes, [path]: expanded } });
+
+export const expandPaths = (state: ExpansionState, paths: Iterable<string>): ExpansionState => {
+  const nodes = { ...state.nodes };
+  for (const path of paths) nodes[path] = true;
+  return { ...state, nodes };
+};
+
+// Opens the node and everything below it
+export const expandSubtree = (state: ExpansionState, base: string): ExpansionState => ({
+  ...state,
+  nodes: withoutPathsWithin(state.nodes, base),
+  subtrees: { ...withoutPathsWithin(state.subtrees, base), [base]: true },
+});
+
+// Closes everything below the node but leaves the node itself open
+export const collapseSubtree = (state: ExpansionState, base: string): ExpansionState => ({
+  ...state,
+  nodes: { ...withoutPathsWithin(state.nodes, base), [base]: true },
+  subtrees: { ...withoutPathsWithin(state.subtrees, base), [base]: false },
+});
+
+export const expandAll = (): ExpansionState => ({ base: 'expanded', nodes: {}, subtrees: {} });
+export const collapseAll = (): ExpansionState => ({ base: 'collapsed', nodes: {}, subtrees: {} });
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const BASES: ExpansionState['base'][] = ['default', 'expanded', 'collapsed'];
+
+// The boolean settings of a stored nodes or subtrees map; anything else in it is dropped
+const readSettings = (value: unknown): Record<string, boolean> | null => {
+  if (!isRecord(value)) return null;
+  const settings: Record<string, boolean> = {};
+  Object.keys(value).forEach(path => {
+    const setting = value[path];
+    if (typeof setting === 'boolean') settings[path] = setting;
+  });
+  return settings;
+};
+
+// An expansion state read back from storage or a link, or the default when it is not one
+export const readExpansion = (value: unknown): ExpansionState => {
+  if (!isRecord(value)) return DEFAULT_EXPANSION;
+  const nodes = readSettings(value.nodes);
+  const subtrees = readSettings(value.subtrees);
+  if (!nodes || !subtrees) return DEFAULT_EXPANSION;
+  const base = BASES.find(candidate => candidate === value.base) ?? DEFAULT_EXPANSION.base;
+  return { base, nodes, subtrees };
+};
+
+// --- Saved Views ---
+export interface SavedView {
+  name: string;
+  expansion: ExpansionState;
+}
+
+const SAVED_VIEWS_KEY = 'savedViews';
+
+const loadSavedViews = (): SavedView[] => {
+  try {
+    const saved = localStorage.getItem(SAVED_VIEWS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Named expansion states, kept in localStorage. Saving under an existing name replaces it.
+export const useSavedViews = () => {
+  const [views, setViews] = useState<SavedView[]>(loadSavedViews);
+
+  useEffect(() => {
+    localStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify(views));
+  }, [views]);
+
+  const saveView = useCallback((name: string, expansion: ExpansionState) => {
+    setViews(current => [...current.filter(view => view.name !== name), { name, expansion }]);
+  }, []);
+
+  const deleteView = useCallback((name: string) => {
+    setViews(current => current.filter(view => view.name !== name));
+  }, []);
+
+  return { views, saveView, deleteView };
+};
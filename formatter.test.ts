@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { prettifyXML, minifyXML, FormatOptions, DEFAULT_FORMAT_OPTIONS, readFormatOptions } from './formatter';
+import { parseXML } from './utils';
+import { XMLNode, XMLChildNode } from './types';
+
+const LF: FormatOptions = { ...DEFAULT_FORMAT_OPTIONS, newline: 'lf' };
+
+// --- Generated documents ---
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const escapeAttribute = (text: string) => escapeText(text).replace(/"/g, '&quot;');
+
+const name = fc.constantFrom('a', 'item', 'ns:b', 'x-y', 'row_1');
+const text = fc.stringOf(fc.constantFrom('a', 'B', ' ', '&', '<', '>', '"', "'", '\n', '\t', 'é', '1'), { minLength: 1, maxLength: 8 });
+const attributes = fc.uniqueArray(fc.tuple(fc.constantFrom('id', 'type', 'x:lang', 'value'), text), { selector: ([key]) => key, maxLength: 3 })
+  .map(pairs => pairs.map(([key, value]) => ` ${key}="${escapeAttribute(value)}"`).join(''));
+
+const { element } = fc.letrec<{ element: string; content: string; node: string }>(tie => ({
+  element: fc.tuple(name, attributes, tie('content')).map(([tag, attrs, content]) =>
+    content ? `<${tag}${attrs}>${content}</${tag}>` : `<${tag}${attrs}/>`),
+  // Element-only content with whitespace between, a text leaf, or mixed content
+  content: fc.oneof(
+    { depthSize: 'small', withCrossShrink: true },
+    fc.constant(''),
+    text.map(escapeText),
+    fc.array(tie('node'), { maxLength: 4 }).map(nodes => nodes.map(node => `\n  ${node}`).join('') + '\n'),
+    fc.array(fc.oneof(tie('node'), text.map(escapeText)), { maxLength: 4 }).map(nodes => nodes.join('')),
+  ),
+  node: fc.oneof(
+    { depthSize: 'small' },
+    tie('element'),
+    text.map(value => `<!--${value.replace(/-/g, '')}-->`),
+    text.map(value => `<![CDATA[${value}]]>`),
+  ),
+}));
+
+const documents = element.map(root => `<root xmlns:ns="urn:ns" xmlns:x="urn:x">${root}</root>`);
+
+// What must survive formatting: names, attributes, comments, CDATA and text exactly. The parser
+// already drops whitespace-only runs between child elements, which are layout.
+const canonical = (node: XMLChildNode): unknown => {
+  switch (node.type) {
+    case 'element':
+      return {
+        name: node.name,
+        attributes: node.attributes.map(attr => [attr.name, attr.value]),
+        nodes: node.nodes.map(canonical),
+      };
+    case 'text': return node.value;
+    case 'pi': return { target: node.target, value: node.value };
+    default: return { [node.type]: node.value };
+  }
+};
+
+const parsedTree = (source: string): unknown => {
+  const { root, error } = parseXML(source);
+  expect(error).toBeNull();
+  return canonical(root as XMLNode);
+};
+
+describe('prettifyXML and minifyXML', () => {
+  it('keep the document\'s content', () => {
+    fc.assert(fc.property(documents, source => {
+      const tree = parsedTree(source);
+      expect(parsedTree(prettifyXML(source, LF))).toEqual(tree);
+      expect(parsedTree(minifyXML(source, LF))).toEqual(tree);
+    }), { numRuns: 300 });
+  });
+
+  it('are idempotent and undo each other\'s layout', () => {
+    fc.assert(fc.property(documents, source => {
+      const pretty = prettifyXML(source, LF);
+      const minified = minifyXML(source, LF);
+      expect(prettifyXML(pretty, LF)).toBe(pretty);
+      expect(minifyXML(minified, LF)).toBe(minified);
+      expect(minifyXML(pretty, LF)).toBe(minified);
+      expect(prettifyXML(minified, LF)).toBe(pretty);
+    }), { numRuns: 300 });
+  });
+
+  it('honour the indent and newline options', () => {
+    fc.assert(fc.property(documents, fc.constantFrom<FormatOptions['indent']>(2, 4, 'tab'), (source, indent) => {
+      const output = prettifyXML(source, { ...DEFAULT_FORMAT_OPTIONS, indent });
+      expect(output).not.toMatch(/[^\r]\n/);
+      expect(output.replace(/\r\n/g, '\n')).toBe(prettifyXML(source, { ...LF, indent }));
+    }), { numRuns: 100 });
+    expect(prettifyXML('<a><b><c/></b></a>', { ...LF, indent: 'tab' })).toBe('<a>\n\t<b>\n\t\t<c/>\n\t</b>\n</a>');
+    expect(prettifyXML('<a><b><c/></b></a>', { ...LF, indent: 4 })).toBe('<a>\n    <b>\n        <c/>\n    </b>\n</a>');
+  });
+
+  it('keeps whitespace that is an element\'s only text', () => {
+    const source = '<root>\n<ws>   </ws>\n<tab>\t</tab><b/></root>';
+    expect(prettifyXML(source, LF)).toBe('<root>\n  <ws>   </ws>\n  <tab>\t</tab>\n  <b/>\n</root>');
+    expect(minifyXML(source, LF)).toBe('<root><ws>   </ws><tab>\t</tab><b/></root>');
+    const ws = parseXML(source).root!.children[0];
+    expect(ws.nodes).toMatchObject([{ type: 'text', value: '   ' }]);
+  });
+
+  it('reads stored options field by field, keeping the default for invalid ones', () => {
+    expect(readFormatOptions({ indent: -1, newline: 'lf', maxLineWidth: 'x', selfClosing: 'expand', preserveSpace: 1 }))
+      .toEqual({ ...DEFAULT_FORMAT_OPTIONS, newline: 'lf', selfClosing: 'expand' });
+    expect(readFormatOptions({ indent: 'x' }).indent).toBe(DEFAULT_FORMAT_OPTIONS.indent);
+    expect(readFormatOptions({ indent: 'tab', maxLineWidth: 80 })).toEqual({ ...DEFAULT_FORMAT_OPTIONS, indent: 'tab', maxLineWidth: 80 });
+    expect(readFormatOptions(null)).toBe(DEFAULT_FORMAT_OPTIONS);
+    expect(prettifyXML('<a><b/></a>', readFormatOptions({ indent: 1.5 }))).toBe('<a>\r\n  <b/>\r\n</a>');
+  });
+
+  it('leaves input that is not well-formed unchanged', () => {
+    expect(prettifyXML('<a><b></a>')).toBe('<a><b></a>');
+    expect(minifyXML('<a>\n  <b>\n</a>')).toBe('<a>\n  <b>\n</a>');
+  });
+
+  // The first prettifier split the source on />\s*</ and re-joined the pieces, which mangled the
+  // PIP 3B13 sample below: its mixed tab and space indentation made <contactName> come out twice
+  it('writes each element once (contactName regression)', () => {
+    const source = `<?xml version="1.0" encoding="utf-8"?>
+<Pip3B13ShippingOrderConfirmationNotification>
+	<fromRole>
+		<PartnerRoleDescription>
+			<ContactInformation>
+				<contactName>Irene Wu</contactName>
+				<EmailAddress>irenew@spil.com.tw</EmailAddress>
+			</ContactInformation>
+        </PartnerRoleDescription>
+    </fromRole>
+</Pip3B13ShippingOrderConfirmationNotification>`;
+    const output = prettifyXML(source, LF);
+    expect(output.match(/<contactName>/g)).toHaveLength(1);
+    expect(output).toBe(`<?xml version="1.0" encoding="utf-8"?>
+<Pip3B13ShippingOrderConfirmationNotification>
+  <fromRole>
+    <PartnerRoleDescription>
+      <ContactInformation>
+        <contactName>Irene Wu</contactName>
+        <EmailAddress>irenew@spil.com.tw</EmailAddress>
+      </ContactInformation>
+    </PartnerRoleDescription>
+  </fromRole>
+</Pip3B13ShippingOrderConfirmationNotification>`);
+  });
+});
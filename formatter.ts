@@ -0,0 +1,227 @@
+import { tokenizeXML, XMLToken, RawAttribute } from './tokenizer';
+import { parseXML } from './utils';
+import { ParseResult, XMLChildNode } from './types';
+
+export interface FormatOptions {
+  // Number of spaces per level, or 'tab'
+  indent: number | 'tab';
+  newline: 'lf' | 'crlf';
+  // Put each attribute on its own line once a start tag would exceed this column (0 = never wrap)
+  maxLineWidth: number;
+  // How elements without content are written
+  selfClosing: 'preserve' | 'collapse' | 'expand';
+  // Leave elements under xml:space="preserve" exactly as written
+  preserveSpace: boolean;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  indent: 2,
+  newline: 'crlf',
+  maxLineWidth: 0,
+  selfClosing: 'preserve',
+  preserveSpace: true,
+};
+
+const isWholeNumber = (value: unknown, max = Number.MAX_SAFE_INTEGER): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+// Options read back from storage, which may be from an older version or damaged. Each field that
+// is not one of its allowed values keeps its default.
+export const readFormatOptions = (value: unknown): FormatOptions => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_FORMAT_OPTIONS;
+  const { indent, newline, maxLineWidth, selfClosing, preserveSpace } = value as Record<string, unknown>;
+  return {
+    indent: indent === 'tab' || isWholeNumber(indent, 16) ? indent : DEFAULT_FORMAT_OPTIONS.indent,
+    newline: newline === 'lf' || newline === 'crlf' ? newline : DEFAULT_FORMAT_OPTIONS.newline,
+    maxLineWidth: isWholeNumber(maxLineWidth) ? maxLineWidth : DEFAULT_FORMAT_OPTIONS.maxLineWidth,
+    selfClosing: selfClosing === 'preserve' || selfClosing === 'collapse' || selfClosing === 'expand'
+      ? selfClosing
+      : DEFAULT_FORMAT_OPTIONS.selfClosing,
+    preserveSpace: typeof preserveSpace === 'boolean' ? preserveSpace : DEFAULT_FORMAT_OPTIONS.preserveSpace,
+  };
+};
+
+type StartTagToken = Extract<XMLToken, { type: 'startTag' }>;
+type LeafToken = Extract<XMLToken, { raw: string }>;
+
+// Lightweight syntax tree over the tokens. Unlike XMLNode it keeps the original source
+// ranges, so regions we must not touch can be copied through byte for byte.
+interface FormatElement {
+  kind: 'element';
+  tag: StartTagToken;
+  children: FormatNode[];
+  start: number;
+  end: number;
+}
+
+type FormatNode = FormatElement | { kind: 'leaf'; token: LeafToken };
+
+const buildFormatTree = (xml: string): FormatNode[] => {
+  const topLevel: FormatNode[] = [];
+  const stack: FormatElement[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].children : topLevel);
+
+  tokenizeXML(xml).forEach(token => {
+    if (token.type === 'startTag') {
+      const element: FormatElement = { kind: 'element', tag: token, children: [], start: token.start, end: token.end };
+      current().push(element);
+      if (!token.selfClosing) stack.push(element);
+    } else if (token.type === 'endTag') {
+      const element = stack.pop();
+      if (element) element.end = token.end;
+    } else {
+      current().push({ kind: 'leaf', token });
+    }
+  });
+
+  return topLevel;
+};
+
+const isWhitespaceText = (node: FormatNode): boolean =>
+  node.kind === 'leaf' && node.token.type === 'text' && node.token.raw.trim() === '';
+
+// Text or CDATA next to elements: every character of it is data, so no whitespace may be added or removed
+const hasMixedContent = (children: FormatNode[]): boolean =>
+  children.some(child =>
+    child.kind === 'leaf' &&
+    (child.token.type === 'cdata' || (child.token.type === 'text' && child.token.raw.trim() !== ''))
+  );
+
+// In an element without child elements, whitespace is its value (<ws>   </ws>), not indentation, so
+// its content is written as it stands, comments and processing instructions included
+const hasSignificantText = (children: FormatNode[]): boolean =>
+  hasMixedContent(children) || (children.length > 0 && !children.some(child => child.kind === 'element'));
+
+const preservesSpace = (element: FormatElement, inherited: boolean): boolean => {
+  const attr = element.tag.attributes.find(a => a.name === 'xml:space');
+  if (!attr) return inherited;
+  return attr.value === 'preserve';
+};
+
+const formatAttribute = (attr: RawAttribute): string => `${attr.name}=${attr.quote}${attr.value}${attr.quote}`;
+
+const createPrinter = (xml: string, options: FormatOptions) => {
+  const indentUnit = options.indent === 'tab' ? '\t' : ' '.repeat(options.indent);
+
+  const openTag = (tag: StartTagToken, indent: string, selfClose: boolean, allowWrap: boolean): string => {
+    const end = selfClose ? '/>' : '>';
+    const attrs = tag.attributes.map(formatAttribute);
+    const singleLine = `<${tag.name}${attrs.map(a => ' ' + a).join('')}${end}`;
+
+    if (!allowWrap || options.maxLineWidth <= 0 || attrs.length < 2 || indent.length + singleLine.length <= options.maxLineWidth) {
+      return singleLine;
+    }
+
+    const attrIndent = indent + indentUnit;
+    return `<${tag.name}\n${attrs.map(a => attrIndent + a).join('\n')}${end}`;
+  };
+
+  const emptyElement = (element: FormatElement, indent: string, allowWrap: boolean): string => {
+    const selfClose = options.selfClosing === 'preserve' ? element.tag.selfClosing : options.selfClosing === 'collapse';
+    if (selfClose) return openTag(element.tag, indent, true, allowWrap);
+    return `${openTag(element.tag, indent, false, allowWrap)}</${element.tag.name}>`;
+  };
+
+  // Everything on one line; whitespace is only dropped where it is insignificant
+  const printCompact = (node: FormatNode, preserve: boolean): string => {
+    if (node.kind === 'leaf') return node.token.raw;
+
+    const inPreserve = options.preserveSpace && preservesSpace(node, preserve);
+    if (inPreserve) return xml.slice(node.start, node.end);
+
+    const children = hasSignificantText(node.children)
+      ? node.children
+      : node.children.filter(child => !isWhitespaceText(child));
+    if (children.length === 0) return emptyElement(node, '', false);
+
+    return openTag(node.tag, '', false, false) +
+      children.map(child => printCompact(child, inPreserve)).join('') +
+      `</${node.tag.name}>`;
+  };
+
+  const printBlock = (node: FormatNode, depth: number, preserve: boolean): string => {
+    const indent = indentUnit.repeat(depth);
+    if (node.kind === 'leaf') return indent + node.token.raw.trim();
+
+    const inPreserve = options.preserveSpace && preservesSpace(node, preserve);
+    if (inPreserve) return indent + xml.slice(node.start, node.end);
+
+    if (hasSignificantText(node.children)) {
+      return indent + openTag(node.tag, indent, false, true) +
+        node.children.map(child => printCompact(child, inPreserve)).join('') +
+        `</${node.tag.name}>`;
+    }
+
+    const children = node.children.filter(child => !isWhitespaceText(child));
+    if (children.length === 0) return indent + emptyElement(node, indent, true);
+
+    return indent + openTag(node.tag, indent, false, true) + '\n' +
+      children.map(child => printBlock(child, depth + 1, inPreserve)).join('\n') + '\n' +
+      indent + `</${node.tag.name}>`;
+  };
+
+  return { printCompact, printBlock };
+};
+
+const applyNewlines = (text: string, options: FormatOptions): string =>
+  text.replace(/\r\n|\r|\n/g, options.newline === 'crlf' ? '\r\n' : '\n');
+
+// --- Tree comparison used to guarantee formatting never changes the data ---
+// (also used to check that an edit written into the source reads back as the edited tree)
+export const sameChildNode = (a: XMLChildNode, b: XMLChildNode): boolean => {
+  if (a.type !== b.type) return false;
+  if (a.type === 'element' && b.type === 'element') {
+    return a.name === b.name &&
+      a.attributes.length === b.attributes.length &&
+      a.attributes.every((attr, i) => attr.name === b.attributes[i].name && attr.value === b.attributes[i].value) &&
+      sameChildNodes(a.nodes, b.nodes);
+  }
+  if (a.type === 'pi' && b.type === 'pi') {
+    return a.target === b.target && a.value === b.value;
+  }
+  return (a as { value: string }).value === (b as { value: string }).value;
+};
+
+const sameChildNodes = (a: XMLChildNode[], b: XMLChildNode[]): boolean =>
+  a.length === b.length && a.every((child, i) => sameChildNode(child, b[i]));
+
+const sameDocument = (a: ParseResult, b: ParseResult): boolean => {
+  if (!a.root || !b.root) return false;
+  return sameChildNode(a.root, b.root) &&
+    sameChildNodes(a.prolog || [], b.prolog || []) &&
+    sameChildNodes(a.epilog || [], b.epilog || []);
+};
+
+// Falls back to the original text if the input is not well-formed or if, against
+// expectations, the output would parse to a different tree.
+const formatSafely = (xml: string, format: () => string): string => {
+  const original = parseXML(xml);
+  if (original.error || !original.root) {
+    return xml;
+  }
+
+  const formatted = format();
+  return sameDocument(original, parseXML(formatted)) ? formatted : xml;
+};
+
+export const prettifyXML = (xml: string, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): string =>
+  formatSafely(xml, () => {
+    const topLevel = buildFormatTree(xml);
+    const { printCompact, printBlock } = createPrinter(xml, options);
+
+    // Loose text between top-level nodes only happens in fragments; treat it like mixed content
+    const output = hasMixedContent(topLevel)
+      ? topLevel.map(node => printCompact(node, false)).join('')
+      : topLevel.filter(node => !isWhitespaceText(node)).map(node => printBlock(node, 0, false)).join('\n');
+
+    return applyNewlines(output, options);
+  });
+
+export const minifyXML = (xml: string, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): string =>
+  formatSafely(xml, () => {
+    const topLevel = buildFormatTree(xml);
+    const { printCompact } = createPrinter(xml, options);
+    const nodes = hasMixedContent(topLevel) ? topLevel : topLevel.filter(node => !isWhitespaceText(node));
+
+    return applyNewlines(nodes.map(node => printCompact(node, false)).join(''), options);
+  });
@@ -0,0 +1,91 @@
+import { XMLNode, XMLTextNode, XMLProcessingInstruction } from './types';
+import { isNamespaceDeclaration } from './utils';
+
+// --- Grid Layout ---
+// How the grid arranges an element: its content in document order, with repeated child elements
+// gathered into one table, and the columns of such a table. Plain functions of the tree, so the
+// command line gives the same tables as the grid.
+
+export type ContentItem =
+  | { kind: 'group'; tagName: string; nodes: XMLNode[]; paths: string[] }
+  | { kind: 'misc'; node: XMLTextNode | XMLProcessingInstruction; path: string };
+
+export interface TableColumns {
+  attributes: string[];
+  children: string[];
+}
+
+// Child elements by name, in document order within each name
+export const groupChildren = (node: XMLNode): Map<string, XMLNode[]> => {
+  const groups = new Map<string, XMLNode[]>();
+  node.children.forEach(child => {
+    const group = groups.get(child.name);
+    if (group) group.push(child);
+    else groups.set(child.name, [child]);
+  });
+  return groups;
+};
+
+// Walk the child nodes in order. A repeated tag is listed once, at the position of its first
+// occurrence, with the grid path of each element; the grid shows a group of more than one element
+// as a table.
+export const contentItems = (node: XMLNode, path: string): ContentItem[] => {
+  const groups = groupChildren(node);
+  const items: ContentItem[] = [];
+  const emittedGroups = new Set<string>();
+  const textRuns = node.nodes.filter(child => child.type === 'text' || child.type === 'cdata');
+  const isSimpleLeaf = node.children.length === 0 && textRuns.length === 1;
+  const counters = { text: 0, comment: 0, pi: 0 };
+
+  node.nodes.forEach(child => {
+    if (child.type === 'element') {
+      if (!emittedGroups.has(child.name)) {
+        emittedGroups.add(child.name);
+        const nodes = groups.get(child.name)!;
+        const paths = nodes.length > 1
+          ? nodes.map((_, index) => `${path}/${child.name}[${index + 1}]`)
+          : [`${path}/${child.name}`];
+        items.push({ kind: 'group', tagName: child.name, nodes, paths });
+      }
+      return;
+    }
+
+    if (child.type === 'text' || child.type === 'cdata') {
+      counters.text++;
+      // Whitespace between inline elements is kept in the model but not worth a box of its own
+      if (child.value.trim() === '') return;
+      items.push({ kind: 'misc', node: child, path: isSimpleLeaf ? path : `${path}/text()[${counters.text}]` });
+    } else if (child.type === 'comment') {
+      counters.comment++;
+      items.push({ kind: 'misc', node: child, path: `${path}/comment()[${counters.comment}]` });
+    } else {
+      counters.pi++;
+      items.push({ kind: 'misc', node: child, path: `${path}/processing-instruction()[${counters.pi}]` });
+    }
+  });
+  return items;
+};
+
+// The columns of a table of rows: every attribute and child element name found in any row,
+// attributes first, each sorted by name or in the order the names first occur in the document
+export const tableColumns = (
+  rows: XMLNode[],
+  includeNamespaceDeclarations: boolean,
+  order: 'name' | 'document' = 'name',
+): TableColumns => {
+  const attrKeys = new Set<string>();
+  const childKeys = new Set<string>();
+
+  rows.forEach(node => {
+    node.attributes.forEach(attr => {
+      if (includeNamespaceDeclarations || !isNamespaceDeclaration(attr)) attrKeys.add(attr.name);
+    });
+    node.children.forEach(child => childKeys.add(child.name));
+  });
+
+  const arrange = (keys: Set<string>) => (order === 'name' ? Array.from(keys).sort() : Array.from(keys));
+  return {
+    attributes: arrange(attrKeys),
+    children: arrange(childKeys),
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML } from './utils';
+import { ContentItem, contentItems } from './gridLayout';
+import { groupTables, flattenCandidates, discriminatorCandidates } from './grouping';
+import { buildExportTables, DEFAULT_EXPORT_OPTIONS } from './tableExport';
+
+const ORDERS = parseXML(`<orders xmlns:x="urn:x">
+  <order id="A1"><date>2024-03-01</date><customer><name>Ann</name></customer>
+    <lines><line sku="p1"><qty>2</qty></line><line sku="p2"><qty>1</qty></line></lines>
+  </order>
+  <order id="A2" type="rush"><date>2024-03-02</date>
+    <lines kind="backorder"><line sku="p3"><qty>5</qty></line></lines>
+  </order>
+  <order id="A3" type="rush"><date>2024-03-04</date><lines/></order>
+</orders>`).root!;
+
+const orders = contentItems(ORDERS, '/orders')
+  .find((item): item is Extract<ContentItem, { kind: 'group' }> => item.kind === 'group')!;
+
+describe('groupTables', () => {
+  it('makes repeated elements a table and leaves a single one a node unless forced', () => {
+    expect(orders.paths).toEqual(['/orders/order[1]', '/orders/order[2]', '/orders/order[3]']);
+    const [table] = groupTables('order', orders.nodes, orders.paths, '/orders', { by: 'tag' }, false)!;
+    expect(table).toMatchObject({ tablePath: '/orders/order', viewPath: '/orders/order', caption: 'order', keyColumns: [] });
+
+    const customer = ORDERS.children[0].children[1];
+    expect(groupTables('customer', [customer], ['/orders/order[1]/customer'], '/orders/order[1]', { by: 'tag' }, false)).toBeNull();
+    expect(groupTables('customer', [customer], ['/orders/order[1]/customer'], '/orders/order[1]', { by: 'table' }, false))
+      .toMatchObject([{ tablePath: '/orders/order[1]/customer', rows: [customer], paths: ['/orders/order[1]/customer'] }]);
+  });
+
+  it('splits a group into a table per value of a discriminator attribute', () => {
+    const tables = groupTables('order', orders.nodes, orders.paths, '/orders', { by: 'attribute', attribute: 'type' }, false)!;
+    expect(tables.map(table => [table.caption, table.paths])).toEqual([
+      ['order[not(@type)]', ['/orders/order[1]']],
+      ["order[@type='rush']", ['/orders/order[2]', '/orders/order[3]']],
+    ]);
+    expect(tables.every(table => table.groupPath === '/orders/order')).toBe(true);
+    expect(discriminatorCandidates(orders.nodes, false)).toEqual(['id', 'type']);
+  });
+
+  it('flattens a descendant path across the group with the ancestors as key columns', () => {
+    const [table] = groupTables('order', orders.nodes, orders.paths, '/orders', { by: 'flatten', descendant: 'lines/line' }, false)!;
+    expect(table).toMatchObject({ caption: 'order/lines/line', tagName: 'line', tablePath: '/orders/order', viewPath: '/orders/order/lines/line' });
+    expect(table.paths).toEqual(['/orders/order[1]/lines/line[1]', '/orders/order[1]/lines/line[2]', '/orders/order[2]/lines/line']);
+    expect(table.keyColumns.map(column => [column.name, column.cells.map(cell => cell?.value ?? null)])).toEqual([
+      ['order/@id', ['A1', 'A1', 'A2']],
+      ['order/date', ['2024-03-01', '2024-03-01', '2024-03-02']],
+      ['order/@type', [null, null, 'rush']],
+      ['order/lines/@kind', [null, null, 'backorder']],
+    ]);
+    expect(table.keyColumns[0].cells[2]).toEqual({ value: 'A2', key: '/orders[1]/order[2]/@id', path: '/orders/order[2]/@id' });
+    expect(flattenCandidates(orders.nodes)).toEqual(['customer', 'lines', 'lines/line']);
+
+    const [exported] = buildExportTables('line', table.rows, DEFAULT_EXPORT_OPTIONS,
+      table.keyColumns.map(column => ({ name: column.name, values: column.cells.map(cell => cell?.value ?? '') })));
+    expect(exported.columns).toEqual(['order/@id', 'order/date', 'order/@type', 'order/lines/@kind', '@sku', 'qty']);
+    expect(exported.rows[2]).toEqual(['A2', '2024-03-02', 'rush', 'backorder', 'p3', '5']);
+  });
+});
@@ -0,0 +1,192 @@
+import { XMLNode } from './types';
+import { isNamespaceDeclaration } from './utils';
+import { childGridStep } from './paths';
+import { groupChildren } from './gridLayout';
+
+// --- Grouping Strategies ---
+// How the grid lays out a run of same-named sibling elements. By tag, two or more of them make one
+// table and a single one is shown as a node. Splitting on a discriminator attribute gives a table
+// per attribute value, a forced table shows even a single element as a one-row table, and
+// flattening turns a descendant path (order → line) into one table across every element of the
+// group, with key columns that carry the values of the ancestors each row came from.
+
+export type GroupingStrategy =
+  | { by: 'tag' }
+  | { by: 'attribute'; attribute: string }
+  | { by: 'table' }
+  | { by: 'flatten'; descendant: string };
+
+export const DEFAULT_GROUPING: GroupingStrategy = { by: 'tag' };
+
+export interface KeyCell {
+  value: string;
+  // Highlight key and grid path of the attribute or element the value came from
+  key: string;
+  path: string;
+}
+
+// A column of values from each row's ancestors, named like order/@id or order/date
+export interface KeyColumn {
+  name: string;
+  // Per row; null where that row's ancestor lacks the value
+  cells: (KeyCell | null)[];
+}
+
+export interface GridTable {
+  // Expansion path of the table. A table split off by attribute follows its group's setting
+  // until it is opened or closed on its own.
+  tablePath: string;
+  groupPath: string;
+  // Key of the table's view (column arrangement, sorting and filters)
+  viewPath: string;
+  caption: string;
+  // Element name of the rows
+  tagName: string;
+  rows: XMLNode[];
+  // Every element of the group, which the rows are taken from
+  members: XMLNode[];
+  // Grid path of each row
+  paths: string[];
+  keyColumns: KeyColumn[];
+}
+
+const isLeaf = (element: XMLNode): boolean => element.children.length === 0 && element.attributes.length === 0;
+
+const quote = (value: string): string => (value.includes("'") ? `"${value}"` : `'${value}'`);
+
+// The elements at a descendant path (line, or lines/line) below each node of a group, with the
+// ancestors that lead to them as key columns
+const flattenGroup = (
+  tagName: string,
+  nodes: XMLNode[],
+  paths: string[],
+  groupPath: string,
+  descendant: string,
+  includeNamespaceDeclarations: boolean,
+): GridTable => {
+  const steps = descendant.split('/');
+  const rows: XMLNode[] = [];
+  const rowPaths: string[] = [];
+  // Per row: the node of the group and the elements between it and the row
+  const chains: { node: XMLNode; path: string }[][] = [];
+
+  const walk = (node: XMLNode, path: string, chain: { node: XMLNode; path: string }[]) => {
+    if (chain.length === steps.length) {
+      rows.push(node);
+      rowPaths.push(path);
+      chains.push(chain);
+      return;
+    }
+    node.children
+      .filter(child => child.name === steps[chain.length])
+      .forEach(child => walk(child, `${path}/${childGridStep(node, child)}`, [...chain, { node, path }]));
+  };
+  nodes.forEach((node, index) => walk(node, paths[index], []));
+
+  // An ancestor's attributes and its text children that occur once (besides the next step down)
+  const columns = new Map<string, (KeyCell | null)[]>();
+  const add = (name: string, rowIndex: number, cell: KeyCell) => {
+    let cells = columns.get(name);
+    if (!cells) {
+      cells = rows.map(() => null);
+      columns.set(name, cells);
+    }
+    cells[rowIndex] = cell;
+  };
+  chains.forEach((chain, rowIndex) => chain.forEach(({ node, path }, level) => {
+    const prefix = [tagName, ...steps.slice(0, level)].join('/');
+    node.attributes.forEach(attr => {
+      if (!includeNamespaceDeclarations && isNamespaceDeclaration(attr)) return;
+      add(`${prefix}/@${attr.name}`, rowIndex, { value: attr.value, key: `${node.id}/@${attr.name}`, path: `${path}/@${attr.name}` });
+    });
+    groupChildren(node).forEach((matches, name) => {
+      if (matches.length > 1 || name === steps[level] || !isLeaf(matches[0])) return;
+      add(`${prefix}/${name}`, rowIndex, { value: matches[0].content ?? '', key: matches[0].id, path: `${path}/${name}` });
+    });
+  }));
+
+  return {
+    tablePath: groupPath,
+    groupPath,
+    viewPath: `${groupPath}/${descendant}`,
+    caption: `${tagName}/${descendant}`,
+    tagName: steps[steps.length - 1],
+    rows,
+    members: nodes,
+    paths: rowPaths,
+    keyColumns: Array.from(columns, ([name, cells]) => ({ name, cells })),
+  };
+};
+
+// The tables a group of siblings named tagName (with the grid path of each) is shown as, or null
+// when it is a single element shown as a node
+export const groupTables = (
+  tagName: string,
+  nodes: XMLNode[],
+  paths: string[],
+  parentPath: string,
+  strategy: GroupingStrategy,
+  includeNamespaceDeclarations: boolean,
+): GridTable[] | null => {
+  const groupPath = `${parentPath}/${tagName}`;
+  const table: GridTable = {
+    tablePath: groupPath, groupPath, viewPath: groupPath, caption: tagName, tagName, rows: nodes, members: nodes, paths, keyColumns: [],
+  };
+
+  switch (strategy.by) {
+    case 'attribute': {
+      // A table per value in order of first occurrence, and one for the elements without the attribute
+      const buckets = new Map<string | null, number[]>();
+      nodes.forEach((node, index) => {
+        const value = node.attributes.find(attr => attr.name === strategy.attribute)?.value ?? null;
+        buckets.set(value, [...(buckets.get(value) ?? []), index]);
+      });
+      return Array.from(buckets, ([value, indexes]) => {
+        const predicate = value === null ? `[not(@${strategy.attribute})]` : `[@${strategy.attribute}=${quote(value)}]`;
+        return {
+          ...table,
+          tablePath: groupPath + predicate,
+          viewPath: groupPath + predicate,
+          caption: tagName + predicate,
+          rows: indexes.map(index => nodes[index]),
+          paths: indexes.map(index => paths[index]),
+        };
+      });
+    }
+    case 'flatten':
+      return [flattenGroup(tagName, nodes, paths, groupPath, strategy.descendant, includeNamespaceDeclarations)];
+    case 'table':
+      return [table];
+    default:
+      return nodes.length > 1 ? [table] : null;
+  }
+};
+
+// Descendant paths a group can be flattened on: those that reach elements with content of their
+// own, or more elements than the group has
+export const flattenCandidates = (nodes: XMLNode[], maxDepth: number = 3): string[] => {
+  const found = new Map<string, { count: number; records: boolean }>();
+  const visit = (node: XMLNode, prefix: string, depth: number) => {
+    node.children.forEach(child => {
+      const path = prefix ? `${prefix}/${child.name}` : child.name;
+      const entry = found.get(path) ?? { count: 0, records: false };
+      entry.count++;
+      entry.records = entry.records || !isLeaf(child);
+      found.set(path, entry);
+      if (depth + 1 < maxDepth) visit(child, path, depth + 1);
+    });
+  };
+  nodes.forEach(node => visit(node, '', 0));
+  return Array.from(found)
+    .filter(([, { count, records }]) => records || count > nodes.length)
+    .map(([path]) => path);
+};
+
+// Attribute names of a group's elements that can split it into tables
+export const discriminatorCandidates = (nodes: XMLNode[], includeNamespaceDeclarations: boolean): string[] => {
+  const names = new Set<string>();
+  nodes.forEach(node => node.attributes.forEach(attr => {
+    if (includeNamespaceDeclarations || !isNamespaceDeclaration(attr)) names.add(attr.name);
+  }));
+  return Array.from(names);
+};
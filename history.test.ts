@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { HistoryState, MAX_HISTORY_ENTRIES, createHistory, recordEntry } from './history';
+
+const labels = (history: HistoryState<string>) => history.entries.map(entry => entry.label);
+
+describe('recordEntry', () => {
+  it('adds entries after the current one and drops the redo branch', () => {
+    let history = createHistory('a', 'Opened');
+    history = recordEntry(history, 'Prettify', 'b', undefined, 1000);
+    history = recordEntry(history, 'Minify', 'c', undefined, 2000);
+    expect(history.index).toBe(2);
+
+    // Recording after an undo (index moved back) replaces what could have been redone
+    history = recordEntry({ ...history, index: 1 }, 'Cleared', 'd', undefined, 3000);
+    expect(labels(history)).toEqual(['Opened', 'Prettify', 'Cleared']);
+    expect(history.entries.map(entry => entry.state)).toEqual(['a', 'b', 'd']);
+    expect(history.index).toBe(2);
+  });
+
+  it('merges a run of entries of one group while they keep coming', () => {
+    let history = createHistory('', 'Opened');
+    history = recordEntry(history, 'Typing', 'a', 'typing', 1000);
+    history = recordEntry(history, 'Typing', 'ab', 'typing', 1500);
+    history = recordEntry(history, 'Typing', 'abc', 'typing', 2400);
+    expect(labels(history)).toEqual(['Opened', 'Typing']);
+    expect(history.entries[1]).toMatchObject({ state: 'abc', time: 2400 });
+
+    // A pause, another group or an undone entry starts a new one
+    history = recordEntry(history, 'Typing', 'abcd', 'typing', 3500);
+    history = recordEntry(history, 'Edit text', 'x', 'edit', 3600);
+    history = recordEntry({ ...history, index: 2 }, 'Typing', 'abcde', 'typing', 3700);
+    expect(labels(history)).toEqual(['Opened', 'Typing', 'Typing', 'Typing']);
+  });
+
+  it('keeps at most MAX_HISTORY_ENTRIES, dropping the oldest', () => {
+    let history = createHistory(0, 'Opened');
+    for (let step = 1; step <= MAX_HISTORY_ENTRIES + 5; step++) {
+      history = recordEntry(history, `Step ${step}`, step, undefined, step);
+    }
+    expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.index).toBe(MAX_HISTORY_ENTRIES - 1);
+    expect(history.entries[0].label).toBe('Step 6');
+    expect(history.entries[MAX_HISTORY_ENTRIES - 1].state).toBe(MAX_HISTORY_ENTRIES + 5);
+  });
+});
@@ -0,0 +1,81 @@
+import { useState, useCallback } from 'react';
+
+// --- Undo/Redo History ---
+// A linear stack of labelled snapshots. Recording after an undo drops the redo branch.
+
+export interface HistoryEntry<T> {
+  label: string;
+  state: T;
+  time: number;
+  // Consecutive entries with the same group (e.g. typing) merge into one while they keep coming
+  group?: string;
+}
+
+export interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+const GROUP_WINDOW_MS = 1000;
+
+export const createHistory = <T>(initialState: T, initialLabel: string): HistoryState<T> => ({
+  entries: [{ label: initialLabel, state: initialState, time: Date.now() }],
+  index: 0,
+});
+
+// Adds an entry after the current one, dropping the redo branch and the oldest entries beyond
+// MAX_HISTORY_ENTRIES, or updates the current entry when it is of the same group and recent
+export const recordEntry = <T>(
+  { entries, index }: HistoryState<T>,
+  label: string,
+  state: T,
+  group?: string,
+  now: number = Date.now(),
+): HistoryState<T> => {
+  const current = entries[index];
+  const kept = entries.slice(0, index + 1);
+
+  if (group && current.group === group && index === entries.length - 1 && now - current.time < GROUP_WINDOW_MS) {
+    kept[index] = { ...current, state, time: now };
+    return { entries: kept, index };
+  }
+
+  const next = [...kept, { label, state, time: now, group }].slice(-MAX_HISTORY_ENTRIES);
+  return { entries: next, index: next.length - 1 };
+};
+
+export const useHistory = <T>(initialState: T, initialLabel: string) => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => createHistory(initialState, initialLabel));
+
+  const record = useCallback((label: string, state: T, group?: string) => {
+    setHistory(current => recordEntry(current, label, state, group));
+  }, []);
+
+  // Returns the state to restore, or null when there is nowhere to go
+  const jumpTo = useCallback((target: number): T | null => {
+    if (target < 0 || target >= history.entries.length || target === history.index) return null;
+    // From the latest history, so an entry recorded since this render is kept
+    setHistory(current => ({ ...current, index: target }));
+    return history.entries[target].state;
+  }, [history]);
+
+  const undo = useCallback(() => jumpTo(history.index - 1), [jumpTo, history.index]);
+  const redo = useCallback(() => jumpTo(history.index + 1), [jumpTo, history.index]);
+
+  // Swaps in a whole history, e.g. that of another open document
+  const replace = useCallback((state: HistoryState<T>) => setHistory(state), []);
+
+  return {
+    state: history,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    record,
+    jumpTo,
+    undo,
+    redo,
+    replace,
+  };
+};
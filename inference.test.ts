@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML } from './utils';
+import { XMLNode } from './types';
+import { inferSchema, writeXsd, writeJsonSchema, writeTypeScript, InferredElement } from './inference';
+import { compileSchemas } from './xsd';
+import { validateTree } from './validation';
+
+const parseRoot = (xml: string): XMLNode => {
+  const result = parseXML(xml);
+  if (!result.root) throw new Error(result.error || 'no root');
+  return result.root;
+};
+
+const child = (element: InferredElement, name: string) => element.children.find(entry => entry.element.name === name)!;
+
+const CATALOG = `<catalog>
+  <book id="b1" category="web" available="true">
+    <title lang="en">XML</title>
+    <author>A</author>
+    <author>B</author>
+    <price>10.50</price>
+    <published>2024-01-31</published>
+  </book>
+  <book id="b2" category="web" available="false">
+    <title>XSD</title>
+    <author>C</author>
+    <price>8</price>
+    <published>2023-06-01</published>
+    <pages>0120</pages>
+  </book>
+</catalog>`;
+
+const MORE = `<catalog>
+  <book id="b3" category="cooking">
+    <title>Soup</title>
+    <price>4.25</price>
+    <published>2022-02-02</published>
+  </book>
+</catalog>`;
+
+describe('inferSchema', () => {
+  it('infers cardinality, required attributes and datatypes across samples', () => {
+    const [catalog] = inferSchema([parseRoot(CATALOG), parseRoot(MORE)]).roots;
+    const book = child(catalog, 'book');
+    expect(book).toMatchObject({ min: 1, max: 2 });
+    expect(book.element.order).toBe('sequence');
+    expect(book.element.children.map(({ element, min, max }) => [element.name, min, max])).toEqual([
+      ['title', 1, 1], ['author', 0, 2], ['price', 1, 1], ['published', 1, 1], ['pages', 0, 1],
+    ]);
+    expect(book.element.attributes.map(({ name, required, datatype }) => [name, required, datatype])).toEqual([
+      ['id', true, { kind: 'string' }],
+      ['category', true, { kind: 'enumeration', values: ['cooking', 'web'] }],
+      ['available', false, { kind: 'boolean' }],
+    ]);
+    expect(child(book.element, 'price').element.text).toEqual({ kind: 'decimal' });
+    expect(child(book.element, 'published').element.text).toEqual({ kind: 'date' });
+    // A leading zero reads as a code, not a number
+    expect(child(book.element, 'pages').element.text).toEqual({ kind: 'string' });
+    expect(child(book.element, 'title').element).toMatchObject({ sometimesText: true, sometimesObject: true });
+  });
+
+  it('notices children in varying or interleaved order', () => {
+    const [varying] = inferSchema([parseRoot('<r><a/><b/></r>'), parseRoot('<r><b/><a/></r>')]).roots;
+    expect(varying.order).toBe('all');
+    const [interleaved] = inferSchema([parseRoot('<r><a/><b/><a/></r>')]).roots;
+    expect(interleaved.order).toBe('choice');
+  });
+});
+
+describe('writeXsd', () => {
+  it('writes a schema its samples are valid against', () => {
+    const samples = [parseRoot(CATALOG), parseRoot(MORE)];
+    const xsd = writeXsd(inferSchema(samples));
+    expect(xsd).toContain('<xs:element name="author" minOccurs="0" maxOccurs="unbounded" type="xs:string"/>');
+    expect(xsd).toContain('<xs:enumeration value="cooking"/>');
+    // Two books in a sample do not make two the minimum
+    expect(xsd).toContain('<xs:element name="book" maxOccurs="unbounded">');
+    const grammar = compileSchemas([{ name: 'inferred.xsd', source: xsd }]);
+    samples.forEach(sample => expect(validateTree(sample, grammar)).toEqual([]));
+    expect(validateTree(parseRoot('<catalog><book id="x" category="web"><price>free</price></book></catalog>'), grammar)
+      .map(issue => issue.message)).toEqual([
+      'Unexpected element <price>; expected <title>',
+    ]);
+  });
+
+  it('targets the root namespace and lets foreign elements through', () => {
+    const samples = [
+      parseRoot('<r xmlns="urn:a" xmlns:x="urn:x"><item n="1"/><item n="2">t</item><x:ext/></r>'),
+      parseRoot('<r xmlns="urn:a"><item n="3"/></r>'),
+    ];
+    const xsd = writeXsd(inferSchema(samples));
+    expect(xsd).toContain('targetNamespace="urn:a"');
+    expect(xsd).toContain('<xs:any namespace="urn:x" processContents="skip" minOccurs="0"/>');
+    const grammar = compileSchemas([{ name: 'inferred.xsd', source: xsd }]);
+    samples.forEach(sample => expect(validateTree(sample, grammar)).toEqual([]));
+  });
+});
+
+describe('JSON Schema and TypeScript', () => {
+  const schema = () => inferSchema([parseRoot(CATALOG), parseRoot(MORE)]);
+
+  it('describes the @attr / #text JSON', () => {
+    const json = JSON.parse(writeJsonSchema(schema()));
+    expect(json.required).toEqual(['catalog']);
+    const book = json.$defs.Book;
+    expect(book.required).toEqual(['@id', '@category', 'title', 'price', 'published']);
+    expect(book.properties['@available']).toEqual({ type: 'string', enum: ['true', 'false'] });
+    expect(book.properties.published).toEqual({ type: 'string', format: 'date' });
+    expect(book.properties.author.anyOf[1]).toEqual({ type: 'array', items: { type: 'string' }, minItems: 2 });
+    expect(book.properties.title).toEqual({ anyOf: [{ type: 'string' }, { $ref: '#/$defs/Title' }] });
+    expect(json.$defs.Title).toEqual({
+      type: 'object',
+      properties: { '@lang': { type: 'string' }, '#text': { type: 'string' } },
+      required: ['@lang', '#text'],
+      additionalProperties: false,
+    });
+  });
+
+  it('writes interfaces for the same JSON', () => {
+    const ts = writeTypeScript(schema());
+    expect(ts).toContain(`export interface Book {
+  '@id': string;
+  '@category': 'cooking' | 'web';
+  // true or false
+  '@available'?: string;
+  title: string | Title;
+  // Several occurrences become an array
+  author?: string | string[];
+  // decimal number
+  price: string;`);
+    expect(ts).toContain('export type Document = { catalog: Catalog };');
+  });
+});
@@ -0,0 +1,561 @@
+import { XMLNode, XMLAttribute } from './types';
+
+// --- Schema Inference ---
+// Builds a description of one or more sample documents: for every element (by its path of names),
+// which attributes and children it has, how often children repeat, whether attributes are always
+// present, and what datatype the values look like. The description is written out as XSD, or as
+// JSON Schema and TypeScript for the "@attr / #text" JSON the conversion panel produces.
+
+export type InferenceFormat = 'xsd' | 'json-schema' | 'typescript';
+
+export const INFERENCE_FORMATS: Record<InferenceFormat, { label: string; extension: string; mimeType: string }> = {
+  xsd: { label: 'XSD', extension: 'xsd', mimeType: 'application/xml' },
+  'json-schema': { label: 'JSON Schema', extension: 'schema.json', mimeType: 'application/schema+json' },
+  typescript: { label: 'TypeScript', extension: 'ts', mimeType: 'text/plain' },
+};
+
+export type Datatype =
+  | { kind: 'string' | 'boolean' | 'integer' | 'decimal' | 'date' | 'dateTime' }
+  | { kind: 'enumeration'; values: string[] };
+
+interface ValueStats {
+  count: number;
+  // Distinct values and how often each was seen, up to DISTINCT_LIMIT of them
+  distinct: Map<string, number>;
+  overflow: boolean;
+}
+
+export interface InferredAttribute {
+  name: string;
+  namespaceURI: string | null;
+  // Seen on every occurrence of its element
+  required: boolean;
+  // Seen on every occurrence with attributes or children, i.e. wherever the JSON holds an object
+  requiredInObject: boolean;
+  datatype: Datatype;
+}
+
+export interface InferredChild {
+  element: InferredElement;
+  // Occurrences per parent: fewest (0 when some parent lacks it) and most
+  min: number;
+  max: number;
+}
+
+export interface InferredElement {
+  name: string;
+  localName: string;
+  namespaceURI: string | null;
+  occurrences: number;
+  attributes: InferredAttribute[];
+  // xmlns declarations, which the JSON conversion keeps as attributes
+  namespaceDeclarations: { name: string; requiredInObject: boolean }[];
+  children: InferredChild[];
+  // 'sequence': children always came in one order; 'all': in varying order, each at most once;
+  // 'choice': in varying or interleaved order and repeated
+  order: 'sequence' | 'all' | 'choice';
+  // Datatype of the text, or null when no occurrence had any
+  text: Datatype | null;
+  mixed: boolean;
+  // Every occurrence with attributes or children also had text, so "#text" is always there
+  textAlways: boolean;
+  // Some occurrence had neither attributes nor children, so the JSON holds a plain string
+  sometimesText: boolean;
+  // Some occurrence had attributes or children, so the JSON holds an object
+  sometimesObject: boolean;
+}
+
+export interface InferredSchema {
+  roots: InferredElement[];
+}
+
+const DISTINCT_LIMIT = 50;
+const ENUMERATION_LIMIT = 10;
+const ENUMERATION_VALUE_LENGTH = 40;
+
+const INTEGER = /^-?(0|[1-9]\d*)$/;
+const DECIMAL = /^-?(0|[1-9]\d*)\.\d+$/;
+const DATE = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const DATE_TIME = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])T([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+
+const emptyStats = (): ValueStats => ({ count: 0, distinct: new Map(), overflow: false });
+
+const addValue = (stats: ValueStats, value: string) => {
+  stats.count++;
+  const seen = stats.distinct.get(value);
+  if (seen !== undefined) stats.distinct.set(value, seen + 1);
+  else if (stats.distinct.size < DISTINCT_LIMIT) stats.distinct.set(value, 1);
+  else stats.overflow = true;
+};
+
+// The narrowest type every value fits. Leading zeros ("007") keep a value a string, so codes are
+// not mistaken for numbers; an empty value does too, since it is no valid number or date.
+const inferDatatype = (stats: ValueStats): Datatype => {
+  const values = Array.from(stats.distinct.keys());
+  // Past the limit only the first values were kept; a type that fits them is a guess either way
+  if (values.length === 0 || values.some(value => value === '')) return { kind: 'string' };
+  const all = (pattern: RegExp) => values.every(value => pattern.test(value));
+  if (values.every(value => value === 'true' || value === 'false')) return { kind: 'boolean' };
+  if (all(INTEGER)) return { kind: 'integer' };
+  if (values.every(value => INTEGER.test(value) || DECIMAL.test(value))) return { kind: 'decimal' };
+  if (all(DATE)) return { kind: 'date' };
+  if (all(DATE_TIME)) return { kind: 'dateTime' };
+  // A short list of values that repeat reads as a code list
+  if (!stats.overflow && values.length >= 2 && values.length <= ENUMERATION_LIMIT && stats.count > values.length
+    && values.every(value => value.length <= ENUMERATION_VALUE_LENGTH && value.trim() === value)) {
+    return { kind: 'enumeration', values: values.sort() };
+  }
+  return { kind: 'string' };
+};
+
+const isDeclaration = (attr: XMLAttribute): boolean => attr.name === 'xmlns' || attr.name.startsWith('xmlns:');
+
+const textOf = (element: XMLNode): string | null => {
+  if (element.children.length > 0) return element.content;
+  const runs = element.nodes.filter(child => child.type === 'text' || child.type === 'cdata');
+  return runs.length ? runs.map(child => (child as { value: string }).value).join('') : null;
+};
+
+// What is gathered for one element path before it is summarized
+interface Collector {
+  name: string;
+  localName: string;
+  namespaceURI: string | null;
+  occurrences: number;
+  attributes: Map<string, { namespaceURI: string | null; count: number; stats: ValueStats }>;
+  declarations: Map<string, number>;
+  children: Map<string, { collector: Collector; min: number; max: number }>;
+  // Child names that must come before others, from the order of first occurrences
+  precedes: Map<string, Set<string>>;
+  interleaved: boolean;
+  text: ValueStats;
+  sawText: boolean;
+  mixed: boolean;
+  textOnly: number;
+  objects: number;
+  objectsWithText: number;
+}
+
+const newCollector = (element: XMLNode): Collector => ({
+  name: element.name,
+  localName: element.localName,
+  namespaceURI: element.namespaceURI,
+  occurrences: 0,
+  attributes: new Map(),
+  declarations: new Map(),
+  children: new Map(),
+  precedes: new Map(),
+  interleaved: false,
+  text: emptyStats(),
+  sawText: false,
+  mixed: false,
+  textOnly: 0,
+  objects: 0,
+  objectsWithText: 0,
+});
+
+const collect = (element: XMLNode, collector: Collector) => {
+  collector.occurrences++;
+
+  element.attributes.forEach(attr => {
+    if (isDeclaration(attr)) {
+      collector.declarations.set(attr.name, (collector.declarations.get(attr.name) ?? 0) + 1);
+      return;
+    }
+    let entry = collector.attributes.get(attr.name);
+    if (!entry) {
+      entry = { namespaceURI: attr.namespaceURI, count: 0, stats: emptyStats() };
+      collector.attributes.set(attr.name, entry);
+    }
+    entry.count++;
+    addValue(entry.stats, attr.value);
+  });
+
+  const text = textOf(element);
+  if (element.children.length > 0) {
+    if (text !== null && text.trim() !== '') {
+      collector.mixed = true;
+      collector.sawText = true;
+      addValue(collector.text, text.trim());
+    }
+  } else {
+    // An empty element counts as an empty value, which no number or date type accepts
+    if (text !== null) collector.sawText = true;
+    addValue(collector.text, text ?? '');
+  }
+  if (element.attributes.length === 0 && element.children.length === 0) {
+    collector.textOnly++;
+  } else {
+    collector.objects++;
+    if (text !== null) collector.objectsWithText++;
+  }
+
+  // Children by name, in order of first occurrence
+  const counts = new Map<string, number>();
+  let previous: string | null = null;
+  element.children.forEach(child => {
+    const seen = counts.get(child.name);
+    if (seen !== undefined && previous !== child.name) collector.interleaved = true;
+    counts.set(child.name, (seen ?? 0) + 1);
+    previous = child.name;
+
+    let entry = collector.children.get(child.name);
+    if (!entry) {
+      // A child first seen here was absent from every earlier parent
+      entry = { collector: newCollector(child), min: collector.occurrences === 1 ? Infinity : 0, max: 0 };
+      collector.children.set(child.name, entry);
+    }
+    collect(child, entry.collector);
+  });
+
+  const names = Array.from(counts.keys());
+  names.forEach((name, index) => {
+    if (index > 0) {
+      const before = collector.precedes.get(names[index - 1]) ?? new Set<string>();
+      before.add(name);
+      collector.precedes.set(names[index - 1], before);
+    }
+  });
+  collector.children.forEach((entry, name) => {
+    const count = counts.get(name) ?? 0;
+    entry.min = Math.min(entry.min, count);
+    entry.max = Math.max(entry.max, count);
+  });
+};
+
+// Orders child names so every observed "a before b" holds; null when two samples disagree
+const consistentOrder = (names: string[], precedes: Map<string, Set<string>>): string[] | null => {
+  const incoming = new Map(names.map(name => [name, 0]));
+  precedes.forEach(after => after.forEach(name => incoming.set(name, (incoming.get(name) ?? 0) + 1)));
+  const ordered: string[] = [];
+  // Ties keep the order of first appearance
+  const ready = names.filter(name => incoming.get(name) === 0);
+  while (ready.length) {
+    const name = ready.shift()!;
+    ordered.push(name);
+    precedes.get(name)?.forEach(next => {
+      const remaining = incoming.get(next)! - 1;
+      incoming.set(next, remaining);
+      if (remaining === 0) ready.push(next);
+    });
+  }
+  return ordered.length === names.length ? ordered : null;
+};
+
+const summarize = (collector: Collector): InferredElement => {
+  const childNames = Array.from(collector.children.keys());
+  const ordered = collector.interleaved ? null : consistentOrder(childNames, collector.precedes);
+  const children = (ordered ?? childNames).map(name => {
+    const entry = collector.children.get(name)!;
+    return { element: summarize(entry.collector), min: entry.min, max: entry.max };
+  });
+
+  return {
+    name: collector.name,
+    localName: collector.localName,
+    namespaceURI: collector.namespaceURI,
+    occurrences: collector.occurrences,
+    attributes: Array.from(collector.attributes.entries()).map(([name, entry]) => ({
+      name,
+      namespaceURI: entry.namespaceURI,
+      required: entry.count === collector.occurrences,
+      requiredInObject: entry.count === collector.objects,
+      datatype: inferDatatype(entry.stats),
+    })),
+    namespaceDeclarations: Array.from(collector.declarations.entries())
+      .map(([name, count]) => ({ name, requiredInObject: count === collector.objects })),
+    children,
+    order: ordered ? 'sequence' : children.every(child => child.max <= 1) ? 'all' : 'choice',
+    text: collector.sawText ? inferDatatype(collector.text) : null,
+    mixed: collector.mixed,
+    textAlways: collector.objects > 0 && collector.objectsWithText === collector.objects,
+    sometimesText: collector.textOnly > 0,
+    sometimesObject: collector.objects > 0,
+  };
+};
+
+// Samples with the same root element are merged; different roots each become a top-level element
+export const inferSchema = (samples: XMLNode[]): InferredSchema => {
+  const roots = new Map<string, Collector>();
+  samples.forEach(sample => {
+    let collector = roots.get(sample.name);
+    if (!collector) {
+      collector = newCollector(sample);
+      roots.set(sample.name, collector);
+    }
+    collect(sample, collector);
+  });
+  return { roots: Array.from(roots.values()).map(summarize) };
+};
+
+// --- XSD ---
+const XSD_TYPES: Record<Exclude<Datatype['kind'], 'enumeration'>, string> = {
+  string: 'xs:string', boolean: 'xs:boolean', integer: 'xs:integer', decimal: 'xs:decimal', date: 'xs:date', dateTime: 'xs:dateTime',
+};
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+
+// Samples show what may repeat, not a real lower bound: three books in a sample do not make three
+// the minimum
+const occursAttributes = (min: number, max: number): string =>
+  `${min === 0 ? ' minOccurs="0"' : ''}${max !== 1 ? ` maxOccurs="${max > 1 ? 'unbounded' : max}"` : ''}`;
+
+export const writeXsd = (schema: InferredSchema): string => {
+  const targetNamespace = schema.roots[0]?.namespaceURI ?? null;
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  lines.push(targetNamespace
+    ? `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" targetNamespace="${escapeAttribute(targetNamespace)}" xmlns="${escapeAttribute(targetNamespace)}" elementFormDefault="qualified">`
+    : '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">');
+
+  const simpleType = (datatype: Datatype, indent: string): string[] => {
+    if (datatype.kind !== 'enumeration') return [];
+    return [
+      `${indent}<xs:simpleType>`,
+      `${indent}  <xs:restriction base="xs:string">`,
+      ...datatype.values.map(value => `${indent}    <xs:enumeration value="${escapeAttribute(value)}"/>`),
+      `${indent}  </xs:restriction>`,
+      `${indent}</xs:simpleType>`,
+    ];
+  };
+
+  const typeAttribute = (datatype: Datatype | null): string =>
+    datatype === null ? ' type="xs:string"' : datatype.kind === 'enumeration' ? '' : ` type="${XSD_TYPES[datatype.kind]}"`;
+
+  const writeAttributes = (element: InferredElement, indent: string): string[] => {
+    const out: string[] = [];
+    const foreign = element.attributes.filter(attr => attr.namespaceURI !== null);
+    element.attributes.filter(attr => attr.namespaceURI === null).forEach(attr => {
+      const head = `${indent}<xs:attribute name="${attr.name}"${typeAttribute(attr.datatype)}${attr.required ? ' use="required"' : ''}`;
+      if (attr.datatype.kind === 'enumeration') out.push(`${head}>`, ...simpleType(attr.datatype, indent + '  '), `${indent}</xs:attribute>`);
+      else out.push(`${head}/>`);
+    });
+    // Prefixed attributes (xml:lang, xlink:href) belong to schemas of their own namespaces
+    if (foreign.length) out.push(`${indent}<xs:anyAttribute namespace="##other" processContents="lax"/>`);
+    return out;
+  };
+
+  const writeElement = (element: InferredElement, min: number, max: number, indent: string) => {
+    const occurs = occursAttributes(min, max);
+    if (element.namespaceURI !== targetNamespace && element.namespaceURI !== null) {
+      // One schema file has one target namespace; elements from others are let through unchecked
+      lines.push(`${indent}<xs:any namespace="${escapeAttribute(element.namespaceURI)}" processContents="skip"${occurs}/>`);
+      return;
+    }
+    const form = targetNamespace && element.namespaceURI === null ? ' form="unqualified"' : '';
+    const head = `${indent}<xs:element name="${element.localName}"${form}${occurs}`;
+    const hasAttributes = element.attributes.length > 0;
+
+    if (element.children.length === 0) {
+      if (!hasAttributes) {
+        if (element.text?.kind === 'enumeration') {
+          lines.push(`${head}>`, ...simpleType(element.text, indent + '  '), `${indent}</xs:element>`);
+        } else {
+          lines.push(`${head}${typeAttribute(element.text)}/>`);
+        }
+        return;
+      }
+      lines.push(`${head}>`, `${indent}  <xs:complexType>`);
+      if (element.text) {
+        const base = element.text.kind === 'enumeration' ? 'xs:string' : XSD_TYPES[element.text.kind];
+        lines.push(`${indent}    <xs:simpleContent>`, `${indent}      <xs:extension base="${base}">`);
+        lines.push(...writeAttributes(element, indent + '        '));
+        lines.push(`${indent}      </xs:extension>`, `${indent}    </xs:simpleContent>`);
+      } else {
+        lines.push(...writeAttributes(element, indent + '    '));
+      }
+      lines.push(`${indent}  </xs:complexType>`, `${indent}</xs:element>`);
+      return;
+    }
+
+    // Text next to child elements, or in occurrences without any, makes the content mixed
+    const mixed = element.mixed || element.text !== null;
+    lines.push(`${head}>`, `${indent}  <xs:complexType${mixed ? ' mixed="true"' : ''}>`);
+    const group = indent + '    ';
+    if (element.order === 'choice') {
+      lines.push(`${group}<xs:choice minOccurs="0" maxOccurs="unbounded">`);
+      element.children.forEach(child => writeElement(child.element, 1, 1, group + '  '));
+      lines.push(`${group}</xs:choice>`);
+    } else {
+      lines.push(`${group}<xs:${element.order}>`);
+      element.children.forEach(child => writeElement(child.element, child.min, child.max, group + '  '));
+      lines.push(`${group}</xs:${element.order}>`);
+    }
+    lines.push(...writeAttributes(element, indent + '    '));
+    lines.push(`${indent}  </xs:complexType>`, `${indent}</xs:element>`);
+  };
+
+  schema.roots.forEach(root => {
+    if (root.namespaceURI === targetNamespace) writeElement(root, 1, 1, '  ');
+    else lines.push(`  <!-- <${root.name}> is in ${root.namespaceURI ? `namespace ${root.namespaceURI}` : 'no namespace'} and needs a schema of its own -->`);
+  });
+  lines.push('</xs:schema>', '');
+  return lines.join('\n');
+};
+
+// --- Type names for JSON Schema and TypeScript ---
+const pascalCase = (name: string): string =>
+  name.split(/[^A-Za-z0-9]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('') || 'Element';
+
+// Elements that become objects get a named type: their own name, or prefixed with the parent's
+// where two different elements share a name
+const nameTypes = (schema: InferredSchema): Map<InferredElement, string> => {
+  const names = new Map<InferredElement, string>();
+  const taken = new Set<string>();
+  const visit = (element: InferredElement, parent: string | null) => {
+    if (element.sometimesObject) {
+      let name = pascalCase(element.localName);
+      if (/^\d/.test(name)) name = `_${name}`;
+      if (taken.has(name) && parent) name = `${parent}${name}`;
+      for (let i = 2; taken.has(name); i++) name = `${pascalCase(element.localName)}${i}`;
+      taken.add(name);
+      names.set(element, name);
+    }
+    element.children.forEach(child => visit(child.element, names.get(element) ?? parent));
+  };
+  schema.roots.forEach(root => visit(root, null));
+  return names;
+};
+
+const DATATYPE_NOTES: Record<Exclude<Datatype['kind'], 'enumeration' | 'string'>, string> = {
+  boolean: 'true or false', integer: 'integer', decimal: 'decimal number', date: 'date (YYYY-MM-DD)', dateTime: 'date and time (ISO 8601)',
+};
+
+// --- JSON Schema ---
+const JSON_PATTERNS: Partial<Record<Datatype['kind'], string>> = {
+  integer: '^-?(0|[1-9][0-9]*)$',
+  decimal: '^-?(0|[1-9][0-9]*)(\\.[0-9]+)?$',
+};
+
+// Values stay strings in the "@attr / #text" JSON; the datatype becomes a format, pattern or enum
+const stringSchema = (datatype: Datatype | null): Record<string, unknown> => {
+  if (!datatype || datatype.kind === 'string') return { type: 'string' };
+  if (datatype.kind === 'enumeration') return { type: 'string', enum: datatype.values };
+  if (datatype.kind === 'boolean') return { type: 'string', enum: ['true', 'false'] };
+  if (datatype.kind === 'date') return { type: 'string', format: 'date' };
+  if (datatype.kind === 'dateTime') return { type: 'string', format: 'date-time' };
+  return { type: 'string', pattern: JSON_PATTERNS[datatype.kind] };
+};
+
+export const writeJsonSchema = (schema: InferredSchema): string => {
+  const typeNames = nameTypes(schema);
+  const defs: Record<string, unknown> = {};
+
+  const valueSchema = (element: InferredElement): Record<string, unknown> => {
+    const text = stringSchema(element.text);
+    if (!element.sometimesObject) return text;
+    const ref = { $ref: `#/$defs/${typeNames.get(element)}` };
+    return element.sometimesText ? { anyOf: [text, ref] } : ref;
+  };
+
+  const defineObject = (element: InferredElement) => {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    element.namespaceDeclarations.forEach(({ name, requiredInObject }) => {
+      properties[`@${name}`] = { type: 'string' };
+      if (requiredInObject) required.push(`@${name}`);
+    });
+    element.attributes.forEach(attr => {
+      properties[`@${attr.name}`] = stringSchema(attr.datatype);
+      if (attr.requiredInObject) required.push(`@${attr.name}`);
+    });
+    if (element.text) {
+      properties['#text'] = stringSchema(element.text);
+      if (element.textAlways) required.push('#text');
+    }
+    element.children.forEach(({ element: child, min, max }) => {
+      const item = valueSchema(child);
+      // One occurrence is written as a value, several as an array
+      properties[child.name] = max <= 1 ? item : { anyOf: [item, { type: 'array', items: item, minItems: 2 }] };
+      if (min > 0) required.push(child.name);
+    });
+    defs[typeNames.get(element)!] = {
+      type: 'object',
+      properties,
+      ...(required.length ? { required } : {}),
+      additionalProperties: false,
+    };
+    element.children.forEach(({ element: child }) => {
+      if (child.sometimesObject) defineObject(child);
+    });
+  };
+
+  schema.roots.forEach(root => {
+    if (root.sometimesObject) defineObject(root);
+  });
+
+  const documentSchema = (root: InferredElement) => ({
+    type: 'object',
+    properties: { [root.name]: valueSchema(root) },
+    required: [root.name],
+    additionalProperties: false,
+  });
+
+  const rootSchemas = schema.roots.map(documentSchema);
+  return JSON.stringify({
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    ...(rootSchemas.length === 1 ? rootSchemas[0] : { oneOf: rootSchemas }),
+    $defs: defs,
+  }, null, 2) + '\n';
+};
+
+// --- TypeScript ---
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const propertyKey = (key: string): string => (IDENTIFIER.test(key) ? key : `'${key.replace(/'/g, "\\'")}'`);
+
+const stringType = (datatype: Datatype | null): string =>
+  datatype?.kind === 'enumeration' ? datatype.values.map(value => `'${value.replace(/'/g, "\\'")}'`).join(' | ') : 'string';
+
+const datatypeNote = (datatype: Datatype | null): string | null =>
+  datatype && datatype.kind !== 'string' && datatype.kind !== 'enumeration' ? DATATYPE_NOTES[datatype.kind] : null;
+
+export const writeTypeScript = (schema: InferredSchema): string => {
+  const typeNames = nameTypes(schema);
+  const blocks: string[] = [];
+
+  const valueType = (element: InferredElement): string => {
+    if (!element.sometimesObject) return stringType(element.text);
+    const name = typeNames.get(element)!;
+    return element.sometimesText ? `${stringType(element.text)} | ${name}` : name;
+  };
+
+  const writeInterface = (element: InferredElement) => {
+    const lines = [`export interface ${typeNames.get(element)} {`];
+    const field = (key: string, type: string, optional: boolean, note: string | null) => {
+      if (note) lines.push(`  // ${note}`);
+      lines.push(`  ${propertyKey(key)}${optional ? '?' : ''}: ${type};`);
+    };
+    element.namespaceDeclarations.forEach(({ name, requiredInObject }) => field(`@${name}`, 'string', !requiredInObject, null));
+    element.attributes.forEach(attr => field(`@${attr.name}`, stringType(attr.datatype), !attr.requiredInObject, datatypeNote(attr.datatype)));
+    if (element.text) field('#text', stringType(element.text), !element.textAlways, datatypeNote(element.text));
+    element.children.forEach(({ element: child, min, max }) => {
+      const item = valueType(child);
+      const type = max <= 1 ? item : `${item} | ${item.includes(' | ') ? `(${item})` : item}[]`;
+      const note = child.sometimesObject ? null : datatypeNote(child.text);
+      field(child.name, type, min === 0, max > 1 ? ['Several occurrences become an array', note].filter(Boolean).join('; ') : note);
+    });
+    lines.push('}');
+    blocks.push(lines.join('\n'));
+    element.children.forEach(({ element: child }) => {
+      if (child.sometimesObject) writeInterface(child);
+    });
+  };
+
+  schema.roots.forEach(root => {
+    if (root.sometimesObject) writeInterface(root);
+  });
+
+  const documents = schema.roots.map(root => `{ ${propertyKey(root.name)}: ${valueType(root)} }`);
+  const header = '// Shapes of the "@attr / #text" JSON for the sampled documents: attributes as "@name",\n'
+    + '// text next to attributes or children as "#text", and an element with only text as a string.';
+  return [header, ...blocks, `export type Document = ${documents.join(' | ')};`].join('\n\n') + '\n';
+};
+
+export const writeInferredSchema = (schema: InferredSchema, format: InferenceFormat): string => {
+  switch (format) {
+    case 'xsd': return writeXsd(schema);
+    case 'json-schema': return writeJsonSchema(schema);
+    case 'typescript': return writeTypeScript(schema);
+  }
+};
@@ -0,0 +1,9 @@
+import { parseXML } from './utils';
+
+// Runs parseXML off the main thread; see workerParser.ts for the other side
+self.onmessage = (event: MessageEvent<string>) => {
+  const result = parseXML(event.data, {
+    onProgress: fraction => self.postMessage({ type: 'progress', fraction }),
+  });
+  self.postMessage({ type: 'done', result });
+};
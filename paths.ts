@@ -0,0 +1,222 @@
+import { XMLNode, SourceRange } from './types';
+import { isNamespaceDeclaration } from './utils';
+import { XPathNode } from './xpath';
+
+// --- Namespace-aware XPath generation ---
+// The grid identifies nodes by plain paths built from qualified names, e.g. /soap:Envelope/Body/item[2]/@id.
+// Those only work in an XPath engine when no default namespace is involved, so when copying
+// we resolve the path against the tree and rewrite each step in the requested style.
+
+export type XPathStyle = 'plain' | 'local-name' | 'prefixed';
+
+export interface StyledXPath {
+  xpath: string;
+  // Prefix bindings the expression relies on (only used by the 'prefixed' style)
+  namespaces: Record<string, string>;
+}
+
+interface PathStep {
+  name: string;
+  index: number | null;
+}
+
+const parseStep = (step: string): PathStep => {
+  const match = step.match(/^(.*?)(?:\[(\d+)\])?$/);
+  return { name: match ? match[1] : step, index: match && match[2] ? Number(match[2]) : null };
+};
+
+const formatStep = (name: string, index: number | null): string => (index === null ? name : `${name}[${index}]`);
+
+// One prefix per namespace URI for the whole document, so copied XPaths and queries agree.
+// The document's own prefix is reused where it is unambiguous; default namespaces get ns0, ns1, ...
+export const documentNamespaces = (root: XMLNode): Record<string, string> => {
+  const namespaces: Record<string, string> = {};
+  const known = new Set<string>();
+
+  const assign = (prefix: string | null, uri: string | null) => {
+    if (!uri || known.has(uri)) return;
+    let candidate = prefix;
+    let counter = 0;
+    while (!candidate || namespaces[candidate] !== undefined) {
+      candidate = `ns${counter++}`;
+    }
+    namespaces[candidate] = uri;
+    known.add(uri);
+  };
+
+  const visit = (node: XMLNode) => {
+    assign(node.prefix, node.namespaceURI);
+    node.attributes.forEach(attr => {
+      if (!isNamespaceDeclaration(attr)) assign(attr.prefix, attr.namespaceURI);
+    });
+    node.children.forEach(visit);
+  };
+  visit(root);
+
+  return namespaces;
+};
+
+export const formatXPath = (root: XMLNode, path: string, style: XPathStyle): StyledXPath => {
+  const namespaces: Record<string, string> = {};
+  if (style === 'plain') return { xpath: path, namespaces };
+
+  const allNamespaces = documentNamespaces(root);
+  const prefixFor = (uri: string): string => {
+    const prefix = Object.keys(allNamespaces).find(key => allNamespaces[key] === uri)!;
+    namespaces[prefix] = uri;
+    return prefix;
+  };
+
+  const rename = (name: string, localName: string, prefix: string | null, uri: string | null, axis: '' | '@'): string => {
+    if (!uri) return axis + name;
+    if (style === 'local-name') return `${axis}*[local-name()='${localName}']`;
+    return `${axis}${prefixFor(uri)}:${localName}`;
+  };
+
+  const steps = path.split('/').filter(Boolean).map(parseStep);
+  let current: XMLNode | null = null;
+  let resolved = true;
+  const output: string[] = [];
+
+  for (const step of steps) {
+    // Once a step cannot be resolved, keep the rest verbatim rather than guess
+    if (!resolved) {
+      output.push(formatStep(step.name, step.index));
+      continue;
+    }
+
+    if (step.name.startsWith('@')) {
+      const attr = current?.attributes.find(a => a.name === step.name.slice(1));
+      output.push(attr
+        ? rename(attr.name, attr.localName, attr.prefix, attr.namespaceURI, '@')
+        : step.name);
+      continue;
+    }
+
+    // Node tests like text(), comment() or processing-instruction() are namespace-free
+    if (step.name.endsWith(')')) {
+      output.push(formatStep(step.name, step.index));
+      continue;
+    }
+
+    const candidates: XMLNode[] = current ? current.children : [root];
+    const matches = candidates.filter(child => child.name === step.name);
+    const next: XMLNode | undefined = matches[(step.index || 1) - 1];
+
+    if (!next) {
+      output.push(formatStep(step.name, step.index));
+      resolved = false;
+      continue;
+    }
+
+    output.push(formatStep(rename(next.name, next.localName, next.prefix, next.namespaceURI, ''), step.index));
+    current = next;
+  }
+
+  return { xpath: '/' + output.join('/'), namespaces };
+};
+
+// --- Grid paths for XPath results ---
+// Grid paths index a step only when the parent has several children of that name,
+// mirroring how GridNode and NodeTable build theirs.
+
+export const childGridStep = (parent: XMLNode, child: XMLNode): string => {
+  const sameName = parent.children.filter(sibling => sibling.name === child.name);
+  return sameName.length > 1 ? `${child.name}[${sameName.indexOf(child) + 1}]` : child.name;
+};
+
+const elementGridPath = (node: XPathNode): string => {
+  const steps: string[] = [];
+  for (let current: XPathNode | null = node; current && current.kind === 'element'; current = current.parent) {
+    const parent = current.parent;
+    steps.unshift(parent && parent.kind === 'element'
+      ? childGridStep(parent.element!, current.element!)
+      : current.element!.name);
+  }
+  return '/' + steps.join('/');
+};
+
+export const gridPathOf = (node: XPathNode): string => {
+  switch (node.kind) {
+    case 'element':
+      return elementGridPath(node);
+    case 'attribute':
+      return `${elementGridPath(node.parent!)}/@${node.attribute!.name}`;
+    case 'document':
+      return '/';
+    default:
+      return node.parent && node.parent.kind === 'element'
+        ? `${elementGridPath(node.parent)}/${node.kind === 'pi' ? 'processing-instruction' : node.kind}()`
+        : '/';
+  }
+};
+
+// Key used by the grid to find and highlight the element, attribute or text run for a result
+export const highlightKeyOf = (node: XPathNode): string => {
+  if (node.kind === 'attribute') return `${node.element!.id}/@${node.attribute!.name}`;
+  if (node.kind === 'element') return node.element!.id;
+  return node.child ? node.child.id : '';
+};
+
+// Every grid path that has to be expanded to make the given paths visible.
+// Indexed steps also add the unindexed table path (/a/book[2] lives in the /a/book table).
+export const ancestorPaths = (paths: string[]): Set<string> => {
+  const result = new Set<string>();
+  paths.forEach(path => {
+    const steps = path.split('/').filter(Boolean);
+    for (let i = 1; i < steps.length; i++) {
+      const prefix = '/' + steps.slice(0, i).join('/');
+      result.add(prefix);
+      const tablePath = prefix.replace(/\[\d+\]$/, '');
+      if (tablePath !== prefix) result.add(tablePath);
+    }
+  });
+  return result;
+};
+
+// --- Source positions ---
+// Parsed nodes know their range in the source, which maps the editor caret to a grid node and back.
+// Both only hold while the tree and the editor text are from the same parse.
+
+const containsOffset = (range: SourceRange | undefined, offset: number): boolean =>
+  !!range && range.start <= offset && offset < range.end;
+
+// The innermost element containing the offset, or its attribute when the offset is in one.
+// Returns the grid highlight key and the grid path of what was found.
+export const nodeAtOffset = (
+  root: XMLNode,
+  offset: number,
+  isFragment: boolean
+): { key: string; gridPath: string } | null => {
+  let found: { key: string; gridPath: string } | null = null;
+  let parent: XMLNode | null = isFragment ? root : null;
+  let path = isFragment ? `/${root.name}` : '';
+  let candidates = isFragment ? root.children : [root];
+
+  for (; ;) {
+    const element = candidates.find(child => containsOffset(child.range, offset));
+    if (!element) return found;
+    path += `/${parent ? childGridStep(parent, element) : element.name}`;
+    const attr = element.attributes.find(a => containsOffset(a.range, offset));
+    if (attr) return { key: `${element.id}/@${attr.name}`, gridPath: `${path}/@${attr.name}` };
+    found = { key: element.id, gridPath: path };
+    parent = element;
+    candidates = element.children;
+  }
+};
+
+// Source range of the element, attribute (`${id}/@name`) or child node a highlight key refers to
+export const sourceRangeOf = (root: XMLNode, key: string): SourceRange | null => {
+  const [id, attrName] = key.split('/@');
+  const visit = (element: XMLNode): SourceRange | null | undefined => {
+    if (element.id === id) {
+      return (attrName === undefined ? element.range : element.attributes.find(attr => attr.name === attrName)?.range) ?? null;
+    }
+    for (const child of element.nodes) {
+      const range = child.type === 'element' ? visit(child) : child.id === id ? child.range : undefined;
+      if (range !== undefined) return range;
+    }
+    return undefined;
+  };
+  return visit(root) || null;
+};
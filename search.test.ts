@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML } from './utils';
+import { SearchOptions, DEFAULT_SEARCH_SCOPES, MAX_SEARCH_HITS, searchTree } from './search';
+
+const ROOT = parseXML(`<library xmlns:x="urn:x">
+  <book id="b1" genre="Fantasy"><title>The Hobbit</title><note><![CDATA[first <edition>]]></note></book>
+  <book id="b2"><title>Book of Dust</title></book>
+</library>`).root!;
+
+const search = (query: string, options: Partial<SearchOptions> = {}) =>
+  searchTree(ROOT, { query, regex: false, caseSensitive: false, scopes: DEFAULT_SEARCH_SCOPES, ...options });
+
+describe('searchTree', () => {
+  it('finds names, attributes and text with grid paths, keys and match positions', () => {
+    expect(search('book').map(hit => [hit.scope, hit.path])).toEqual([
+      ['elementName', '/library/book[1]'],
+      ['elementName', '/library/book[2]'],
+      ['text', '/library/book[2]/title'],
+    ]);
+    const [hit] = search('hobbit');
+    expect(hit).toEqual({
+      scope: 'text', path: '/library/book[1]/title', key: '/library[1]/book[1]/title[1]/text()[1]',
+      value: 'The Hobbit', matchStart: 4, matchLength: 6,
+    });
+    expect(search('<edition>')[0]).toMatchObject({ scope: 'text', path: '/library/book[1]/note' });
+    expect(search('fantasy')[0]).toMatchObject({ scope: 'attributeValue', path: '/library/book[1]/@genre', key: '/library[1]/book[1]/@genre' });
+    // xmlns declarations are not searched
+    expect(search('urn:x')).toEqual([]);
+  });
+
+  it('honours case, regular expressions and scopes', () => {
+    expect(search('hobbit', { caseSensitive: true })).toEqual([]);
+    expect(search('^b\\d$', { regex: true }).map(hit => hit.value)).toEqual(['b1', 'b2']);
+    expect(search('id', { scopes: { ...DEFAULT_SEARCH_SCOPES, attributeName: false } })).toEqual([]);
+    expect(() => search('(', { regex: true })).toThrow(SyntaxError);
+    // An empty query or an empty regex match finds nothing
+    expect(search('')).toEqual([]);
+    expect(search('x*', { regex: true, scopes: { ...DEFAULT_SEARCH_SCOPES, text: false } })).toEqual([]);
+  });
+
+  it('stops at MAX_SEARCH_HITS', () => {
+    const many = parseXML(`<r>${'<i>a</i>'.repeat(MAX_SEARCH_HITS)}</r>`).root!;
+    expect(searchTree(many, { query: 'i', regex: false, caseSensitive: false, scopes: DEFAULT_SEARCH_SCOPES })).toHaveLength(MAX_SEARCH_HITS);
+  });
+});
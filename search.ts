@@ -0,0 +1,92 @@
+import { XMLNode } from './types';
+import { isNamespaceDeclaration } from './utils';
+import { childGridStep } from './paths';
+
+// --- Full-text Search over the parsed tree ---
+
+export type SearchScope = 'elementName' | 'attributeName' | 'attributeValue' | 'text';
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  scopes: Record<SearchScope, boolean>;
+}
+
+export interface SearchHit {
+  scope: SearchScope;
+  // Grid path of the element, attribute or (for text) the element holding it
+  path: string;
+  // Highlight key understood by the grid (see highlightKeyOf)
+  key: string;
+  // The string that matched and where the match sits inside it
+  value: string;
+  matchStart: number;
+  matchLength: number;
+}
+
+export const DEFAULT_SEARCH_SCOPES: Record<SearchScope, boolean> = {
+  elementName: true,
+  attributeName: true,
+  attributeValue: true,
+  text: true,
+};
+
+// Stop collecting after this many hits; the panel says so instead of rendering them all
+export const MAX_SEARCH_HITS = 1000;
+
+type Matcher = (value: string) => { start: number; length: number } | null;
+
+// Throws a SyntaxError for an invalid regular expression
+const createMatcher = (options: SearchOptions): Matcher => {
+  if (options.regex) {
+    const pattern = new RegExp(options.query, options.caseSensitive ? '' : 'i');
+    return (value) => {
+      const match = pattern.exec(value);
+      return match && match[0].length > 0 ? { start: match.index, length: match[0].length } : null;
+    };
+  }
+
+  const needle = options.caseSensitive ? options.query : options.query.toLowerCase();
+  return (value) => {
+    const start = (options.caseSensitive ? value : value.toLowerCase()).indexOf(needle);
+    return start === -1 ? null : { start, length: needle.length };
+  };
+};
+
+export const searchTree = (root: XMLNode, options: SearchOptions): SearchHit[] => {
+  if (!options.query) return [];
+  const match = createMatcher(options);
+  const hits: SearchHit[] = [];
+
+  const record = (scope: SearchScope, path: string, key: string, value: string) => {
+    if (hits.length >= MAX_SEARCH_HITS) return;
+    const found = match(value);
+    if (found) hits.push({ scope, path, key, value, matchStart: found.start, matchLength: found.length });
+  };
+
+  const visit = (node: XMLNode, path: string) => {
+    if (hits.length >= MAX_SEARCH_HITS) return;
+
+    if (options.scopes.elementName) record('elementName', path, node.id, node.name);
+
+    node.attributes.forEach(attr => {
+      if (isNamespaceDeclaration(attr)) return;
+      const key = `${node.id}/@${attr.name}`;
+      if (options.scopes.attributeName) record('attributeName', `${path}/@${attr.name}`, key, attr.name);
+      if (options.scopes.attributeValue) record('attributeValue', `${path}/@${attr.name}`, key, attr.value);
+    });
+
+    node.nodes.forEach(child => {
+      if (child.type === 'element') {
+        visit(child, `${path}/${childGridStep(node, child)}`);
+      } else if (options.scopes.text && (child.type === 'text' || child.type === 'cdata')) {
+        const text = child.value.trim();
+        if (text) record('text', path, child.id, text);
+      }
+    });
+  };
+
+  visit(root, `/${root.name}`);
+  return hits;
+};
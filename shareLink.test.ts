@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { encodeSharedView, decodeSharedView, ShareLinkError, SharedView } from './shareLink';
+import { DEFAULT_EXPANSION } from './expansion';
+
+const view: SharedView = {
+  source: '<catalog>\n  <book id="b1"><title>Ünïcödé &amp; more</title></book>\n</catalog>',
+  selected: '/catalog[1]/book[1]/@id',
+  expansion: { base: 'collapsed', nodes: { '/catalog/book': true }, subtrees: {} },
+  query: '//book[@id = "b1"]',
+};
+
+describe('share links', () => {
+  it('round-trips a view through a URL-safe fragment', async () => {
+    const fragment = await encodeSharedView(view);
+    expect(fragment).toMatch(/^share=[A-Za-z0-9_-]+$/);
+    expect(await decodeSharedView(`#${fragment}`)).toEqual(view);
+  });
+
+  it('compresses repetitive documents', async () => {
+    const source = `<list>${'<item kind="entry">value</item>'.repeat(1000)}</list>`;
+    const fragment = await encodeSharedView({ ...view, source });
+    expect(fragment.length).toBeLessThan(source.length / 20);
+  });
+
+  it('ignores hashes that are not share links', async () => {
+    expect(await decodeSharedView('')).toBeNull();
+    expect(await decodeSharedView('#section-2')).toBeNull();
+  });
+
+  it('rejects links that were cut off', async () => {
+    const fragment = await encodeSharedView(view);
+    await expect(decodeSharedView(`#${fragment.slice(0, fragment.length / 2)}`)).rejects.toThrow(ShareLinkError);
+    await expect(decodeSharedView('#share=%%%')).rejects.toThrow('The shared link is damaged or incomplete');
+  });
+
+  it('fills in what an older link does not have', async () => {
+    const fragment = await encodeSharedView({ source: '<a/>' } as SharedView);
+    expect(await decodeSharedView(fragment)).toEqual({ source: '<a/>', selected: null, expansion: DEFAULT_EXPANSION, query: '' });
+  });
+});
@@ -0,0 +1,75 @@
+import { ExpansionState, isRecord, readExpansion } from './expansion';
+
+// --- Share Links ---
+// A link that opens what someone else is looking at: the document, the selected node, the
+// expanded paths and the XPath query. Everything travels compressed in the URL fragment
+// (#share=...), which browsers never send to a server.
+
+export interface SharedView {
+  source: string;
+  // Grid key of the selected element or attribute, an XPath such as /catalog[1]/book[2]/@id
+  selected: string | null;
+  expansion: ExpansionState;
+  query: string;
+}
+
+export class ShareLinkError extends Error {}
+
+const SHARE_PARAMETER = 'share=';
+const SHARE_VERSION = 1;
+
+// Longer links are cut off by some chat and mail apps, so copying one comes with a warning
+export const LONG_SHARE_LINK = 8000;
+// Roughly what browsers accept in the address bar (Chrome stops at 2 MB)
+export const MAX_SHARE_LINK = 2_000_000;
+
+const pipe = async (data: BlobPart, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // String.fromCharCode takes its arguments on the stack, so large payloads go in chunks
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// The fragment for a view, without the leading #
+export const encodeSharedView = async (view: SharedView): Promise<string> => {
+  const json = JSON.stringify({ version: SHARE_VERSION, ...view });
+  const compressed = await pipe(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return SHARE_PARAMETER + toBase64Url(compressed);
+};
+
+// Reads a location hash. Resolves to null when it holds no share link and rejects with a
+// ShareLinkError when it holds one that cannot be read, e.g. because it was cut off.
+export const decodeSharedView = async (hash: string): Promise<SharedView | null> => {
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment.startsWith(SHARE_PARAMETER)) return null;
+
+  let value: unknown;
+  try {
+    const compressed = fromBase64Url(decodeURIComponent(fragment.slice(SHARE_PARAMETER.length)));
+    value = JSON.parse(new TextDecoder().decode(await pipe(compressed, new DecompressionStream('deflate-raw'))));
+  } catch {
+    throw new ShareLinkError('The shared link is damaged or incomplete; it may have been cut off when it was sent');
+  }
+  if (!isRecord(value) || typeof value.source !== 'string') {
+    throw new ShareLinkError('The shared link does not contain a document');
+  }
+  if (typeof value.version === 'number' && value.version > SHARE_VERSION) {
+    throw new ShareLinkError('The shared link was made by a newer version of this app');
+  }
+  return {
+    source: value.source,
+    selected: typeof value.selected === 'string' ? value.selected : null,
+    expansion: readExpansion(value.expansion),
+    query: typeof value.query === 'string' ? value.query : '',
+  };
+};
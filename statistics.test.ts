@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML } from './utils';
+import { elementsAtPath, columnStatistics, pathStatistics, documentSummary } from './statistics';
+
+const ORDERS = parseXML(`<orders xmlns="urn:orders">
+  <order id="A1" status="open"><total>12.5</total><shipDate>2024-03-02</shipDate></order>
+  <order id="A2" status="shipped"><total>30</total><shipDate/><note>fragile</note></order>
+  <order id="A3" status="open"><total>7.5</total></order>
+  <order id="A4" status="open"><total>50</total><lines><line sku="p1"/><line sku="p2"/></lines></order>
+</orders>`).root!;
+
+describe('value statistics', () => {
+  it('counts values, empty ones and records without any at an element or attribute path', () => {
+    expect(elementsAtPath([ORDERS], '/orders/order/lines/line')).toHaveLength(2);
+
+    const shipDate = pathStatistics([ORDERS], '/orders/order/shipDate');
+    expect(shipDate).toMatchObject({ records: 4, count: 2, distinct: 1, empty: 1, missing: 2, kind: 'date', numbers: null, histogram: [] });
+
+    const status = pathStatistics([ORDERS], '/orders/order/@status');
+    expect(status).toMatchObject({ count: 4, distinct: 2, missing: 0, kind: 'text' });
+    expect(status.topValues).toEqual([{ value: 'open', count: 3 }, { value: 'shipped', count: 1 }]);
+
+    expect(pathStatistics([ORDERS], '/orders')).toMatchObject({ records: 1, count: 1, missing: 0 });
+    expect(pathStatistics([ORDERS], '/invoices/invoice')).toMatchObject({ records: 0, count: 0, missing: 0 });
+  });
+
+  it('sums, averages and bins number columns', () => {
+    const total = columnStatistics(ORDERS.children, 'total');
+    expect(total.numbers).toEqual({ min: 7.5, max: 50, sum: 100, average: 25 });
+    // Sturges' rule: ceil(log2(4)) + 1 = 3 bins, the last one closed
+    expect(total.histogram.map(bin => bin.count)).toEqual([2, 1, 1]);
+    expect(total.histogram[2]).toMatchObject({ to: 50 });
+    expect(columnStatistics(ORDERS.children.slice(0, 1), 'total').histogram).toEqual([{ from: 12.5, to: 12.5, count: 1 }]);
+  });
+
+  it('summarizes every element path with its count and depth', () => {
+    const summary = documentSummary([ORDERS]);
+    expect(summary).toMatchObject({ elements: 15, maxDepth: 4 });
+    expect(summary.paths.map(({ path, count, maxDepth }) => [path, count, maxDepth])).toEqual([
+      ['/orders', 1, 4],
+      ['/orders/order', 4, 4],
+      ['/orders/order/total', 4, 3],
+      ['/orders/order/shipDate', 2, 3],
+      ['/orders/order/note', 1, 3],
+      ['/orders/order/lines', 1, 4],
+      ['/orders/order/lines/line', 2, 4],
+    ]);
+    // xmlns declarations are left out
+    expect(summary.paths[0].attributes).toEqual([]);
+    expect(summary.paths[1].attributes).toEqual(['id', 'status']);
+  });
+});
@@ -0,0 +1,191 @@
+import { XMLNode } from './types';
+import { isNamespaceDeclaration } from './utils';
+import { ValueKind, valueKind } from './tableView';
+
+// --- Value Statistics ---
+// Figures for the values at an element or attribute path, written without positions as the table
+// views are (/orders/order/shipDate, /orders/order/@id), and a summary of every element path in
+// the document. A value is missing when an element at the parent path has no child or attribute of
+// that name, so "how many orders have no shipDate" is the missing count of /orders/order/shipDate.
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface HistogramBin {
+  // The last bin includes its upper bound
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface NumberSummary {
+  min: number;
+  max: number;
+  sum: number;
+  average: number;
+}
+
+export interface PathStatistics {
+  path: string;
+  // Elements that could hold a value: those at the parent path, or the documents for a root path
+  records: number;
+  // Values found; an element repeated within one record counts once per occurrence
+  count: number;
+  // Distinct non-empty values
+  distinct: number;
+  // Values with no text (<shipDate/>, shipDate="")
+  empty: number;
+  // Records without any value
+  missing: number;
+  // The kind every non-empty value shares, or text when they differ
+  kind: ValueKind;
+  // Only when the values are numbers
+  numbers: NumberSummary | null;
+  // Most frequent non-empty values, up to TOP_VALUES of them, ties in document order
+  topValues: ValueCount[];
+  histogram: HistogramBin[];
+}
+
+export interface PathSummary {
+  path: string;
+  // Steps below the document, 1 for the root element
+  depth: number;
+  // Depth of the deepest element at or below this path
+  maxDepth: number;
+  count: number;
+  // Attribute names seen on the elements at this path, xmlns declarations left out
+  attributes: string[];
+}
+
+export interface DocumentSummary {
+  elements: number;
+  maxDepth: number;
+  // Each path followed by the paths below it, in the order first written
+  paths: PathSummary[];
+}
+
+const TOP_VALUES = 10;
+const MAX_BINS = 10;
+
+const textOf = (element: XMLNode): string =>
+  element.children.length === 0 ? element.content ?? '' : element.children.map(textOf).join(' ');
+
+// The elements at a path of names, across every document
+export const elementsAtPath = (documents: XMLNode[], path: string): XMLNode[] => {
+  const [first, ...rest] = path.split('/').slice(1);
+  return rest.reduce<XMLNode[]>(
+    (elements, step) => elements.flatMap(element => element.children.filter(child => child.name === step)),
+    documents.filter(root => root.name === first),
+  );
+};
+
+// Equal-width bins, as many as Sturges' rule suggests up to MAX_BINS
+const histogramOf = (numbers: number[], min: number, max: number): HistogramBin[] => {
+  if (min === max) return [{ from: min, to: max, count: numbers.length }];
+  const binCount = Math.min(MAX_BINS, Math.ceil(Math.log2(numbers.length)) + 1);
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    from: min + index * width,
+    to: index === binCount - 1 ? max : min + (index + 1) * width,
+    count: 0,
+  }));
+  numbers.forEach(number => bins[Math.min(binCount - 1, Math.floor((number - min) / width))].count++);
+  return bins;
+};
+
+// Statistics of a column (@id, or a child element name) over a set of records
+export const columnStatistics = (records: XMLNode[], column: string, path: string = column): PathStatistics => {
+  const values = records.map(record => (column.startsWith('@')
+    ? record.attributes.filter(attr => attr.name === column.slice(1)).map(attr => attr.value)
+    : record.children.filter(child => child.name === column).map(child => textOf(child).trim())));
+  return summarize(path, records.length, values);
+};
+
+const summarize = (path: string, records: number, values: string[][]): PathStatistics => {
+  const all = values.flat();
+  const filled = all.filter(value => value.trim() !== '');
+  const counts = new Map<string, number>();
+  filled.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  const kinds = new Set(filled.map(valueKind));
+  const kind: ValueKind = kinds.size === 1 ? kinds.values().next().value! : 'text';
+
+  let numbers: NumberSummary | null = null;
+  let histogram: HistogramBin[] = [];
+  if (kind === 'number') {
+    const parsed = filled.map(Number);
+    const sum = parsed.reduce((total, number) => total + number, 0);
+    // Reduced rather than spread into Math.min, which overflows the stack on large documents
+    const min = parsed.reduce((low, number) => Math.min(low, number), Infinity);
+    const max = parsed.reduce((high, number) => Math.max(high, number), -Infinity);
+    numbers = { min, max, sum, average: sum / parsed.length };
+    histogram = histogramOf(parsed, numbers.min, numbers.max);
+  }
+
+  return {
+    path,
+    records,
+    count: all.length,
+    distinct: counts.size,
+    empty: all.length - filled.length,
+    missing: values.filter(found => found.length === 0).length,
+    kind,
+    numbers,
+    // Map order is first occurrence and the sort is stable, so ties stay in document order
+    topValues: Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_VALUES),
+    histogram,
+  };
+};
+
+// Statistics of the elements or attribute at a path, taken over the elements at its parent path
+export const pathStatistics = (documents: XMLNode[], path: string): PathStatistics => {
+  const cut = path.lastIndexOf('/');
+  if (cut <= 0) {
+    const name = path.slice(1);
+    return summarize(path, documents.length, documents.map(root => (root.name === name ? [textOf(root).trim()] : [])));
+  }
+  return columnStatistics(elementsAtPath(documents, path.slice(0, cut)), path.slice(cut + 1), path);
+};
+
+interface PathEntry {
+  summary: PathSummary;
+  attributes: Set<string>;
+  children: Map<string, PathEntry>;
+}
+
+export const documentSummary = (documents: XMLNode[]): DocumentSummary => {
+  const top = new Map<string, PathEntry>();
+  let elements = 0;
+  let maxDepth = 0;
+
+  const visit = (element: XMLNode, level: Map<string, PathEntry>, parentPath: string, depth: number) => {
+    const path = `${parentPath}/${element.name}`;
+    let entry = level.get(element.name);
+    if (!entry) {
+      entry = { summary: { path, depth, maxDepth: depth, count: 0, attributes: [] }, attributes: new Set(), children: new Map() };
+      level.set(element.name, entry);
+    }
+    entry.summary.count++;
+    element.attributes.forEach(attr => {
+      if (!isNamespaceDeclaration(attr)) entry!.attributes.add(attr.name);
+    });
+    elements++;
+    maxDepth = Math.max(maxDepth, depth);
+    element.children.forEach(child => visit(child, entry!.children, path, depth + 1));
+  };
+  documents.forEach(root => visit(root, top, '', 1));
+
+  const paths: PathSummary[] = [];
+  // Lists each path before the ones below it, returning the deepest depth among them
+  const collect = (level: Map<string, PathEntry>): number => Array.from(level.values()).reduce((deepest, entry) => {
+    const summary = { ...entry.summary, attributes: Array.from(entry.attributes) };
+    paths.push(summary);
+    summary.maxDepth = Math.max(summary.depth, collect(entry.children));
+    return Math.max(deepest, summary.maxDepth);
+  }, 0);
+  collect(top);
+  return { elements, maxDepth, paths };
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML } from './utils';
+import { ExportOptions, DEFAULT_EXPORT_OPTIONS, buildExportTables, writeTables } from './tableExport';
+
+const books = parseXML(`<catalog xmlns:x="urn:x">
+  <book id="b1" x:lang="en"><title>Dune, "the" novel</title><author><name>Herbert</name></author></book>
+  <book id="b2"><title>Good Omens</title><author><name>Pratchett</name></author><author><name>Gaiman</name></author></book>
+</catalog>`).root!.children;
+
+const build = (options: Partial<ExportOptions> = {}) => buildExportTables('book', books, { ...DEFAULT_EXPORT_OPTIONS, ...options });
+
+describe('buildExportTables', () => {
+  it('writes nested children as JSON in their cell', () => {
+    const [table] = build();
+    expect(table.columns).toEqual(['@id', '@x:lang', 'author', 'title']);
+    expect(table.rows[1]).toEqual(['b2', '', '[{"name":"Pratchett"},{"name":"Gaiman"}]', 'Good Omens']);
+  });
+
+  it('flattens nested children into dotted and indexed columns', () => {
+    const [table] = build({ nested: 'flatten' });
+    expect(table.columns).toEqual(['@id', '@x:lang', 'author[1].name', 'title', 'author[2].name']);
+    expect(table.rows[1]).toEqual(['b2', '', 'Pratchett', 'Good Omens', 'Gaiman']);
+  });
+
+  it('moves nested groups to sheets that point back at their rows', () => {
+    const tables = build({ nested: 'sheets' });
+    expect(tables.map(table => table.name)).toEqual(['book', 'book.author']);
+    expect(tables[0].rows[1]).toEqual(['2', 'b2', '', '2 in book.author', 'Good Omens']);
+    expect(tables[1].columns).toEqual(['#', '_parent', 'name']);
+    expect(tables[1].rows).toEqual([['1', '1', 'Herbert'], ['2', '2', 'Pratchett'], ['3', '2', 'Gaiman']]);
+  });
+
+  it('lays out the columns the grid shows, in its order, with those spread from them', () => {
+    const keyColumns = [{ name: 'catalog/@n', values: ['1', '1'] }];
+    const [flattened] = buildExportTables('book', books, { ...DEFAULT_EXPORT_OPTIONS, nested: 'flatten' }, keyColumns,
+      ['author', 'catalog/@n', '@id']);
+    expect(flattened.columns).toEqual(['author[1].name', 'author[2].name', 'catalog/@n', '@id']);
+    expect(flattened.rows[0]).toEqual(['Herbert', '', '1', 'b1']);
+
+    // A hidden child gets no sheet of its own
+    const sheets = buildExportTables('book', books, { ...DEFAULT_EXPORT_OPTIONS, nested: 'sheets' }, [], ['title', '@id']);
+    expect(sheets.map(table => table.name)).toEqual(['book']);
+    expect(sheets[0].columns).toEqual(['#', 'title', '@id']);
+  });
+});
+
+describe('writeTables', () => {
+  it('quotes CSV fields with separators, quotes or line breaks only', () => {
+    const csv = writeTables([{ name: 't', columns: ['a', 'b'], rows: [['x, y', 'say "hi"'], ['line\nbreak', 'plain']] }], 'csv');
+    expect(csv).toBe('a,b\r\n"x, y","say ""hi"""\r\n"line\nbreak",plain');
+    expect(writeTables([{ name: 't', columns: ['a'], rows: [['x, y']] }], 'tsv')).toBe('a\r\nx, y');
+  });
+
+  it('gives every worksheet a valid, unique name and types numbers', () => {
+    const long = 'a'.repeat(40);
+    const xml = writeTables([
+      { name: long, columns: ['n'], rows: [['12.5'], ['007']] },
+      { name: long.toUpperCase(), columns: [], rows: [] },
+      { name: 'book/author:*', columns: [], rows: [] },
+    ], 'spreadsheetml');
+    expect(xml.match(/ss:Name="[^"]*"/g)).toEqual([`ss:Name="${'a'.repeat(31)}"`, `ss:Name="${'A'.repeat(29)}~2"`, 'ss:Name="book_author__"']);
+    expect(xml).toContain('<Data ss:Type="Number">12.5</Data>');
+    expect(xml).toContain('<Data ss:Type="String">007</Data>');
+  });
+
+  it('escapes Markdown and HTML cells', () => {
+    const tables = [{ name: 't', columns: ['a|b'], rows: [['<i>\nx']] }];
+    expect(writeTables(tables, 'markdown')).toBe('| a\\|b |\n| --- |\n| <i><br>x |\n');
+    expect(writeTables(tables, 'html')).toContain('<td>&lt;i&gt;\nx</td>');
+  });
+});
@@ -0,0 +1,307 @@
+import { XMLNode } from './types';
+import { isNamespaceDeclaration } from './utils';
+
+// --- Table Export ---
+// Flattens repeated elements into rows the way NodeTable shows them (one column per attribute and
+// per child element name) and writes the result as CSV, TSV, SpreadsheetML, Markdown or HTML.
+
+export type ExportFormat = 'csv' | 'tsv' | 'spreadsheetml' | 'markdown' | 'html';
+
+// What to do with a cell whose child element is not a plain text leaf (or occurs more than once):
+// write it as JSON, spread it over dotted columns (author.@id, author.name), or move it to a sheet
+// of its own that points back at the row it came from
+export type NestedMode = 'json' | 'flatten' | 'sheets';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  nested: NestedMode;
+  includeNamespaceDeclarations: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  nested: 'json',
+  includeNamespaceDeclarations: false,
+};
+
+export interface ExportTable {
+  name: string;
+  columns: string[];
+  rows: string[][];
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  tsv: { label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+  spreadsheetml: { label: 'Excel (SpreadsheetML)', extension: 'xml', mimeType: 'application/vnd.ms-excel' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+};
+
+// Link columns added in 'sheets' mode
+const ROW_COLUMN = '#';
+const PARENT_COLUMN = '_parent';
+
+const isLeaf = (element: XMLNode): boolean => element.children.length === 0 && element.attributes.length === 0;
+
+const groupByName = (elements: XMLNode[]): Map<string, XMLNode[]> => {
+  const groups = new Map<string, XMLNode[]>();
+  elements.forEach(element => {
+    const group = groups.get(element.name);
+    if (group) group.push(element);
+    else groups.set(element.name, [element]);
+  });
+  return groups;
+};
+
+const sortedNames = (groups: Map<string, XMLNode[]>): string[] => Array.from(groups.keys()).sort();
+
+// Compact JSON for a JSON-in-cell value: attributes as @name, text as #text, children by name
+// (an array when repeated). Text-only elements become their text.
+const toJson = (element: XMLNode, options: ExportOptions): unknown => {
+  if (isLeaf(element)) return element.content ?? '';
+  const result: Record<string, unknown> = {};
+  element.attributes.forEach(attr => {
+    if (options.includeNamespaceDeclarations || !isNamespaceDeclaration(attr)) result[`@${attr.name}`] = attr.value;
+  });
+  if (element.content !== null) result['#text'] = element.content;
+  groupByName(element.children).forEach((matches, name) => {
+    result[name] = matches.length === 1 ? toJson(matches[0], options) : matches.map(match => toJson(match, options));
+  });
+  return result;
+};
+
+// One row: column name -> value, in the order the columns were produced
+type Row = Map<string, string>;
+
+const buildTable = (
+  name: string,
+  elements: XMLNode[],
+  options: ExportOptions,
+  parents: number[] | null,
+  tables: ExportTable[],
+  keyColumns: ExportKeyColumn[] = [],
+  gridColumns: string[] | null = null
+) => {
+  const table: ExportTable = { name, columns: [], rows: [] };
+  tables.push(table);
+
+  // Child names that occur more than once in some element get indexed columns in every row
+  const repeated = new Set<string>();
+  const findRepeated = (element: XMLNode, shape: string) => {
+    groupByName(element.children).forEach((matches, childName) => {
+      if (matches.length > 1) repeated.add(shape + childName);
+      if (options.nested === 'flatten') matches.forEach(match => findRepeated(match, `${shape}${childName}.`));
+    });
+  };
+  elements.forEach(element => findRepeated(element, ''));
+
+  // Nested groups collected for 'sheets' mode, per child name
+  const nested = new Map<string, { elements: XMLNode[]; parents: number[] }>();
+  // The grid column (@name or child name) each attribute and child column comes from
+  const origins = new Map<string, string>();
+
+  const set = (row: Row, column: string, value: string, origin: string) => {
+    row.set(column, value);
+    origins.set(column, origin);
+  };
+
+  // origin is the grid column of a flattened child, or null for the row element itself
+  const fill = (row: Row, element: XMLNode, prefix: string, shape: string, rowNumber: number, origin: string | null) => {
+    element.attributes.forEach(attr => {
+      if (options.includeNamespaceDeclarations || !isNamespaceDeclaration(attr)) {
+        set(row, `${prefix}@${attr.name}`, attr.value, origin ?? `@${attr.name}`);
+      }
+    });
+    // The element's own text: #text for the row itself, the bare dotted name for a flattened child
+    if (element.content !== null) {
+      if (origin === null) row.set('#text', element.content);
+      else set(row, prefix.slice(0, -1), element.content, origin);
+    }
+
+    const groups = groupByName(element.children);
+    sortedNames(groups).forEach(childName => {
+      const matches = groups.get(childName)!;
+      const column = prefix + childName;
+      const childOrigin = origin ?? childName;
+      const leaves = matches.every(isLeaf);
+
+      if (matches.length === 1 && leaves) {
+        set(row, column, matches[0].content ?? '', childOrigin);
+      } else if (options.nested === 'json') {
+        const values = matches.map(match => toJson(match, options));
+        set(row, column, JSON.stringify(matches.length === 1 ? values[0] : values), childOrigin);
+      } else if (options.nested === 'flatten') {
+        matches.forEach((match, index) => {
+          const indexed = repeated.has(shape + childName) ? `${column}[${index + 1}]` : column;
+          if (isLeaf(match)) set(row, indexed, match.content ?? '', childOrigin);
+          else fill(row, match, `${indexed}.`, `${shape}${childName}.`, rowNumber, childOrigin);
+        });
+      } else {
+        const group = nested.get(childName) || { elements: [], parents: [] };
+        matches.forEach(match => {
+          group.elements.push(match);
+          group.parents.push(rowNumber);
+        });
+        nested.set(childName, group);
+        set(row, column, `${matches.length} in ${name}.${childName}`, childOrigin);
+      }
+    });
+  };
+
+  const rows: Row[] = elements.map((element, index) => {
+    const row: Row = new Map();
+    if (options.nested === 'sheets') {
+      row.set(ROW_COLUMN, String(index + 1));
+      if (parents) row.set(PARENT_COLUMN, String(parents[index]));
+    }
+    keyColumns.forEach(column => set(row, column.name, column.values[index], column.name));
+    fill(row, element, '', '', index + 1, null);
+    return row;
+  });
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => row.forEach((_, column) => {
+    if (!seen.has(column)) {
+      seen.add(column);
+      columns.push(column);
+    }
+  }));
+  // Laid out like the grid table: the link and #text columns, then each shown grid column with the
+  // columns spread from it. Hidden grid columns are left out.
+  const arranged = gridColumns
+    ? [
+      ...columns.filter(column => !origins.has(column)),
+      ...gridColumns.flatMap(gridColumn => columns.filter(column => origins.get(column) === gridColumn)),
+    ]
+    : columns;
+  table.columns = arranged;
+  table.rows = rows.map(row => arranged.map(column => row.get(column) ?? ''));
+
+  Array.from(nested.keys()).sort().filter(childName => !gridColumns || gridColumns.includes(childName)).forEach(childName => {
+    const group = nested.get(childName)!;
+    buildTable(`${name}.${childName}`, group.elements, options, group.parents, tables);
+  });
+};
+
+// Values from outside the rows, one per row, written before their own columns: the key columns of
+// a flattened grid table
+export interface ExportKeyColumn {
+  name: string;
+  values: string[];
+}
+
+// The rows of one NodeTable (or the root element as a single row). 'sheets' mode adds a table
+// per nested group after the main one. gridColumns, the columns a table shows in their display
+// order, arranges the main table; without it the columns come in the order the rows produce them.
+export const buildExportTables = (
+  name: string,
+  elements: XMLNode[],
+  options: ExportOptions,
+  keyColumns: ExportKeyColumn[] = [],
+  gridColumns: string[] | null = null
+): ExportTable[] => {
+  const tables: ExportTable[] = [];
+  buildTable(name, elements, options, null, tables, keyColumns, gridColumns);
+  return tables;
+};
+
+// --- Writers ---
+
+const csvField = (value: string, separator: string): string =>
+  value.includes(separator) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const writeDelimited = (tables: ExportTable[], separator: string): string => {
+  const write = (table: ExportTable) =>
+    [table.columns, ...table.rows].map(cells => cells.map(cell => csvField(cell, separator)).join(separator)).join('\r\n');
+  if (tables.length === 1) return write(tables[0]);
+  // Several sheets do not fit one CSV; each gets its name on a line of its own and a blank line after
+  return tables.map(table => `${csvField(table.name, separator)}\r\n${write(table)}`).join('\r\n\r\n');
+};
+
+const markdownCell = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const writeMarkdown = (tables: ExportTable[]): string =>
+  tables.map(table => {
+    const lines = [
+      `| ${table.columns.map(markdownCell).join(' | ')} |`,
+      `| ${table.columns.map(() => '---').join(' | ')} |`,
+      ...table.rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+    ];
+    return (tables.length > 1 ? `### ${table.name}\n\n` : '') + lines.join('\n');
+  }).join('\n\n') + '\n';
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Just the tables, as used for the clipboard
+export const writeHtmlTables = (tables: ExportTable[]): string =>
+  tables.map(table => [
+    tables.length > 1 ? `<h2>${escapeHtml(table.name)}</h2>\n` : '',
+    '<table>\n<thead>\n<tr>',
+    table.columns.map(column => `<th>${escapeHtml(column)}</th>`).join(''),
+    '</tr>\n</thead>\n<tbody>\n',
+    table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>\n`).join(''),
+    '</tbody>\n</table>',
+  ].join('')).join('\n');
+
+const writeHtml = (tables: ExportTable[]): string => [
+  '<!DOCTYPE html>',
+  '<html>',
+  `<head><meta charset="utf-8"><title>${escapeHtml(tables[0].name)}</title></head>`,
+  '<body>',
+  writeHtmlTables(tables),
+  '</body>',
+  '</html>',
+  '',
+].join('\n');
+
+// Excel sheet names: at most 31 characters, none of []:*?/\ and unique within the workbook
+const sheetNames = (tables: ExportTable[]): string[] => {
+  const used = new Set<string>();
+  return tables.map(table => {
+    const base = table.name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Sheet';
+    let name = base;
+    for (let counter = 2; used.has(name.toLowerCase()); counter++) {
+      name = `${base.slice(0, 31 - String(counter).length - 1)}~${counter}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+
+const writeSpreadsheetML = (tables: ExportTable[]): string => {
+  const cell = (value: string, style?: string) =>
+    `<Cell${style ? ` ss:StyleID="${style}"` : ''}><Data ss:Type="${NUMBER_PATTERN.test(value) ? 'Number' : 'String'}">${escapeHtml(value).replace(/\r?\n/g, '&#10;')}</Data></Cell>`;
+  const names = sheetNames(tables);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    ' <Styles><Style ss:ID="header"><Font ss:Bold="1"/></Style></Styles>',
+    ...tables.map((table, index) => [
+      ` <Worksheet ss:Name="${escapeHtml(names[index])}">`,
+      '  <Table>',
+      `   <Row>${table.columns.map(column => `<Cell ss:StyleID="header"><Data ss:Type="String">${escapeHtml(column)}</Data></Cell>`).join('')}</Row>`,
+      ...table.rows.map(row => `   <Row>${row.map(value => cell(value)).join('')}</Row>`),
+      '  </Table>',
+      ' </Worksheet>',
+    ].join('\n')),
+    '</Workbook>',
+    '',
+  ].join('\n');
+};
+
+export const writeTables = (tables: ExportTable[], format: ExportFormat): string => {
+  switch (format) {
+    case 'csv': return writeDelimited(tables, ',');
+    case 'tsv': return writeDelimited(tables, '\t');
+    case 'markdown': return writeMarkdown(tables);
+    case 'html': return writeHtml(tables);
+    case 'spreadsheetml': return writeSpreadsheetML(tables);
+  }
+};
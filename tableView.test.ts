@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML } from './utils';
+import { tableColumns } from './gridLayout';
+import {
+  DEFAULT_TABLE_VIEW, tableViewKey, columnKeys, orderColumns, moveColumn, nextSort, valueKind, cellText, columnKinds,
+  matchesFilter, viewRows, readTableView,
+} from './tableView';
+
+const rows = parseXML(`<people>
+  <person id="p2" born="1990-05-01"><name>Zoë</name><age>34</age><tag>a</tag><tag>b</tag></person>
+  <person born="1985-11-30" id="p10"><name>adam</name><age>007</age></person>
+  <person id="p1"><name>Émile</name><age>9</age></person>
+</people>`).root!.children;
+
+describe('table views', () => {
+  it('orders columns by name or as first written, pinned first, moved within their group', () => {
+    expect(columnKeys(tableColumns(rows, false))).toEqual(['@born', '@id', 'age', 'name', 'tag']);
+    const keys = columnKeys(tableColumns(rows, false, 'document'));
+    expect(keys).toEqual(['@id', '@born', 'name', 'age', 'tag']);
+
+    const view = { ...DEFAULT_TABLE_VIEW, pinned: ['age'] };
+    const ordered = orderColumns(keys, view);
+    expect(ordered).toEqual(['age', '@id', '@born', 'name', 'tag']);
+    // Moving across the pinned columns does nothing
+    expect(moveColumn(view, ordered, '@id', -1)).toBe(view);
+    const moved = moveColumn(view, ordered, 'tag', -1);
+    expect(orderColumns([...keys, 'email'], moved)).toEqual(['age', '@id', '@born', 'tag', 'name', 'email']);
+    expect(tableViewKey('/people/team[2]/person')).toBe('/people/team/person');
+  });
+
+  it('recognizes numbers, dates and booleans the way schema inference does', () => {
+    expect(['12', '-0.5', '1e3', '007', '2024-13-01', '2024-02-29', '2024-02-29T10:00:00Z', 'true', 'False'].map(valueKind))
+      .toEqual(['number', 'number', 'number', 'text', 'text', 'date', 'date', 'boolean', 'text']);
+    expect(cellText(rows[0], 'tag')).toBe('a b');
+    expect(cellText(rows[1], '@id')).toBe('p10');
+    expect(columnKinds(rows, ['@born', 'age', 'name'])).toEqual(new Map([['@born', 'date'], ['age', 'text'], ['name', 'text']]));
+  });
+
+  it('sorts by the column\'s kind with empty cells last, and cycles through the directions', () => {
+    const kinds = columnKinds(rows, ['@id', '@born', 'name']);
+    expect(viewRows(rows, { ...DEFAULT_TABLE_VIEW, sort: { column: '@id', direction: 'asc' } }, kinds)).toEqual([2, 0, 1]);
+    expect(viewRows(rows, { ...DEFAULT_TABLE_VIEW, sort: { column: 'name', direction: 'asc' } }, kinds)).toEqual([1, 2, 0]);
+    expect(viewRows(rows, { ...DEFAULT_TABLE_VIEW, sort: { column: '@born', direction: 'desc' } }, kinds)).toEqual([0, 1, 2]);
+    // A sort on a column the table no longer has is ignored
+    expect(viewRows(rows, { ...DEFAULT_TABLE_VIEW, sort: { column: 'email', direction: 'asc' } }, kinds)).toEqual([0, 1, 2]);
+    expect(nextSort(null, 'name')).toEqual({ column: 'name', direction: 'asc' });
+    expect(nextSort({ column: 'name', direction: 'asc' }, 'name')).toEqual({ column: 'name', direction: 'desc' });
+    expect(nextSort({ column: 'name', direction: 'desc' }, 'name')).toBeNull();
+  });
+
+  it('filters by text ignoring case, or by comparison in number and date columns', () => {
+    expect(matchesFilter('Émile', 'ÉMI', 'text')).toBe(true);
+    expect(matchesFilter('34', '> 9', 'number')).toBe(true);
+    expect(matchesFilter('34', '<=9', 'number')).toBe(false);
+    expect(matchesFilter('1990-05-01', '< 1986-01-01', 'date')).toBe(false);
+    expect(matchesFilter('', '< 1986-01-01', 'date')).toBe(false);
+    // Not a comparison in a text column
+    expect(matchesFilter('a > b', '> b', 'text')).toBe(true);
+    const kinds = columnKinds(rows, ['@born', 'name']);
+    expect(viewRows(rows, { ...DEFAULT_TABLE_VIEW, filters: { '@born': '>= 1985-01-01', name: 'a' } }, kinds)).toEqual([1]);
+  });
+
+  it('reads stored views field by field, keeping the default for anything malformed', () => {
+    const view = readTableView({
+      grouping: { by: 'attribute' }, columnOrder: 'document', order: 'x', hidden: ['@id', 3], pinned: null,
+      sort: {}, filters: null,
+    });
+    expect(view).toEqual({ ...DEFAULT_TABLE_VIEW, columnOrder: 'document', hidden: ['@id'] });
+    expect(readTableView({ grouping: { by: 'flatten', descendant: 'lines/line' }, sort: { column: 'age', direction: 'desc' }, filters: { name: 'a', age: 1 } }))
+      .toEqual({ ...DEFAULT_TABLE_VIEW, grouping: { by: 'flatten', descendant: 'lines/line' }, sort: { column: 'age', direction: 'desc' }, filters: { name: 'a' } });
+    expect(readTableView('damaged')).toBe(DEFAULT_TABLE_VIEW);
+    // A view read back this way can be rendered
+    expect(orderColumns(['@id', 'name'], view)).toEqual(['@id', 'name']);
+    expect(viewRows(rows, view, columnKinds(rows, ['@id']))).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,251 @@
+import { useState, useEffect, useCallback } from 'react';
+import { XMLNode } from './types';
+import { TableColumns } from './gridLayout';
+import { GroupingStrategy, KeyColumn, DEFAULT_GROUPING } from './grouping';
+import { isRecord } from './expansion';
+
+// --- Table Views ---
+// How a grid table is arranged: which columns are shown, in what order, which are pinned to its
+// left edge, and how its rows are sorted and filtered. Columns are named as their headers read:
+// "@id" for an attribute, "title" for a child element, "order/@id" for a key column of a
+// flattened table.
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableSort {
+  column: string;
+  direction: SortDirection;
+}
+
+export interface TableView {
+  // How the elements at this path are gathered into tables
+  grouping: GroupingStrategy;
+  // Attributes come before children; within each, by name or in the order first written
+  columnOrder: 'name' | 'document';
+  // Columns moved by hand, in their chosen order; columns not listed follow in the base order
+  order: string[];
+  hidden: string[];
+  // Pinned columns come first and stay in view when the table scrolls sideways
+  pinned: string[];
+  sort: TableSort | null;
+  // Filter text by column; rows must match every one
+  filters: Record<string, string>;
+}
+
+export const DEFAULT_TABLE_VIEW: TableView = {
+  grouping: DEFAULT_GROUPING,
+  columnOrder: 'name',
+  order: [],
+  hidden: [],
+  pinned: [],
+  sort: null,
+  filters: {},
+};
+
+// Views are kept per table path without positions, so /catalog/book[2]/author and
+// /catalog/book[5]/author share one
+export const tableViewKey = (tablePath: string): string => tablePath.replace(/\[\d+\]/g, '');
+
+export const columnKeys = (columns: TableColumns): string[] =>
+  [...columns.attributes.map(name => `@${name}`), ...columns.children];
+
+// Every column in display order, hidden ones included: pinned first, each part in the view's order
+export const orderColumns = (keys: string[], view: TableView): string[] => {
+  const available = new Set(keys);
+  const arranged = [...view.order.filter(key => available.has(key)), ...keys.filter(key => !view.order.includes(key))];
+  return [...arranged.filter(key => view.pinned.includes(key)), ...arranged.filter(key => !view.pinned.includes(key))];
+};
+
+// Moves a column one place left or right among the other pinned or unpinned columns
+export const moveColumn = (view: TableView, ordered: string[], column: string, offset: -1 | 1): TableView => {
+  const index = ordered.indexOf(column);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= ordered.length) return view;
+  if (view.pinned.includes(column) !== view.pinned.includes(ordered[target])) return view;
+  const order = [...ordered];
+  [order[index], order[target]] = [order[target], order[index]];
+  return { ...view, order };
+};
+
+// Click a header to sort ascending, again for descending, a third time for document order
+export const nextSort = (sort: TableSort | null, column: string): TableSort | null => {
+  if (sort?.column !== column) return { column, direction: 'asc' };
+  return sort.direction === 'asc' ? { column, direction: 'desc' } : null;
+};
+
+// --- Cell Values ---
+export type ValueKind = 'number' | 'date' | 'boolean' | 'text';
+
+// Leading zeros ("007") keep a value text, so codes are not taken for numbers
+const NUMBER = /^[+-]?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const DATE = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+export const valueKind = (value: string): ValueKind => {
+  const text = value.trim();
+  if (NUMBER.test(text)) return 'number';
+  if (DATE.test(text)) return 'date';
+  if (text === 'true' || text === 'false') return 'boolean';
+  return 'text';
+};
+
+const textOf = (element: XMLNode): string =>
+  element.children.length === 0 ? element.content ?? '' : element.children.map(textOf).join(' ');
+
+// What a row holds in a column: the attribute's value, or the text of the child elements of that name
+export const cellText = (row: XMLNode, column: string): string => {
+  if (column.startsWith('@')) return row.attributes.find(attr => attr.name === column.slice(1))?.value ?? '';
+  return row.children.filter(child => child.name === column).map(textOf).join(' ').trim();
+};
+
+// Reads a cell by row index, from the key columns when it is one of them
+const cellReader = (rows: XMLNode[], keyColumns: KeyColumn[]) => {
+  const keys = new Map(keyColumns.map(column => [column.name, column.cells]));
+  return (index: number, column: string): string => {
+    const cells = keys.get(column);
+    return cells ? cells[index]?.value ?? '' : cellText(rows[index], column);
+  };
+};
+
+// The kind every non-empty cell of a column shares, or text when they differ
+export const columnKinds = (rows: XMLNode[], columns: string[], keyColumns: KeyColumn[] = []): Map<string, ValueKind> => {
+  const read = cellReader(rows, keyColumns);
+  return new Map(columns.map(column => {
+    const kinds = new Set(rows.map((_, index) => read(index, column).trim()).filter(Boolean).map(valueKind));
+    return [column, kinds.size === 1 ? kinds.values().next().value! : 'text'];
+  }));
+};
+
+const sortValue = (text: string, kind: ValueKind): number =>
+  kind === 'number' ? Number(text) : kind === 'date' ? Date.parse(text) : text.trim() === 'true' ? 1 : 0;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const compareValues = (a: string, b: string, kind: ValueKind): number =>
+  kind === 'text' ? collator.compare(a, b) : sortValue(a, kind) - sortValue(b, kind);
+
+const COMPARISON = /^(<=|>=|<|>|=)\s*(.+)$/;
+
+// A filter keeps the cells that contain its text, ignoring case. In number and date columns it can
+// compare instead: "> 10", "<= 2024-06-30".
+export const matchesFilter = (text: string, filter: string, kind: ValueKind): boolean => {
+  const wanted = filter.trim();
+  if (!wanted) return true;
+  const comparison = COMPARISON.exec(wanted);
+  if (comparison && (kind === 'number' || kind === 'date') && valueKind(comparison[2]) === kind) {
+    if (!text.trim()) return false;
+    const difference = compareValues(text, comparison[2], kind);
+    switch (comparison[1]) {
+      case '<': return difference < 0;
+      case '<=': return difference <= 0;
+      case '>': return difference > 0;
+      case '>=': return difference >= 0;
+      default: return difference === 0;
+    }
+  }
+  return text.toLowerCase().includes(wanted.toLowerCase());
+};
+
+// Indexes of the rows that pass every filter, sorted by the view's column with empty cells last
+// and ties in document order
+export const viewRows = (
+  rows: XMLNode[],
+  view: TableView,
+  kinds: Map<string, ValueKind>,
+  keyColumns: KeyColumn[] = [],
+): number[] => {
+  const read = cellReader(rows, keyColumns);
+  const filters = Object.entries(view.filters).filter(([column]) => kinds.has(column));
+  const indexes = rows
+    .map((_, index) => index)
+    .filter(index => filters.every(([column, filter]) => matchesFilter(read(index, column), filter, kinds.get(column)!)));
+
+  const sort = view.sort;
+  if (!sort || !kinds.has(sort.column)) return indexes;
+  const kind = kinds.get(sort.column)!;
+  const values = new Map(indexes.map(index => [index, read(index, sort.column)]));
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return indexes.sort((a, b) => {
+    const left = values.get(a)!;
+    const right = values.get(b)!;
+    if (!left || !right) return left ? -1 : right ? 1 : a - b;
+    return sign * compareValues(left, right, kind) || a - b;
+  });
+};
+
+// --- Stored Views ---
+const TABLE_VIEWS_KEY = 'tableViews';
+
+const isDefaultView = (view: TableView): boolean =>
+  view.grouping.by === 'tag' && view.columnOrder === 'name' && !view.order.length && !view.hidden.length && !view.pinned.length
+  && !view.sort && !Object.keys(view.filters).length;
+
+const readStrings = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []);
+
+const readGrouping = (value: unknown): GroupingStrategy => {
+  if (!isRecord(value)) return DEFAULT_GROUPING;
+  if (value.by === 'tag' || value.by === 'table') return { by: value.by };
+  if (value.by === 'attribute' && typeof value.attribute === 'string') return { by: 'attribute', attribute: value.attribute };
+  if (value.by === 'flatten' && typeof value.descendant === 'string') return { by: 'flatten', descendant: value.descendant };
+  return DEFAULT_GROUPING;
+};
+
+const readSort = (value: unknown): TableSort | null =>
+  isRecord(value) && typeof value.column === 'string' && (value.direction === 'asc' || value.direction === 'desc')
+    ? { column: value.column, direction: value.direction }
+    : null;
+
+const readFilters = (value: unknown): Record<string, string> => {
+  const filters: Record<string, string> = {};
+  if (isRecord(value)) {
+    Object.keys(value).forEach(column => {
+      const filter = value[column];
+      if (typeof filter === 'string') filters[column] = filter;
+    });
+  }
+  return filters;
+};
+
+// A view read back from storage, which may be from an older version or damaged. Each field that
+// cannot be read keeps its default.
+export const readTableView = (value: unknown): TableView => {
+  if (!isRecord(value)) return DEFAULT_TABLE_VIEW;
+  return {
+    grouping: readGrouping(value.grouping),
+    columnOrder: value.columnOrder === 'document' ? 'document' : 'name',
+    order: readStrings(value.order),
+    hidden: readStrings(value.hidden),
+    pinned: readStrings(value.pinned),
+    sort: readSort(value.sort),
+    filters: readFilters(value.filters),
+  };
+};
+
+const loadTableViews = (): Record<string, TableView> => {
+  try {
+    const saved = localStorage.getItem(TABLE_VIEWS_KEY);
+    const views: unknown = saved ? JSON.parse(saved) : {};
+    if (!isRecord(views)) return {};
+    return Object.fromEntries(Object.keys(views).map(key => [key, readTableView(views[key])]));
+  } catch {
+    return {};
+  }
+};
+
+// Table views by tableViewKey, kept in localStorage. A view set back to the default is forgotten.
+export const useTableViews = () => {
+  const [views, setViews] = useState<Record<string, TableView>>(loadTableViews);
+
+  useEffect(() => {
+    localStorage.setItem(TABLE_VIEWS_KEY, JSON.stringify(views));
+  }, [views]);
+
+  const setView = useCallback((key: string, view: TableView) => {
+    setViews(current => {
+      const { [key]: _previous, ...rest } = current;
+      return isDefaultView(view) ? rest : { ...rest, [key]: view };
+    });
+  }, []);
+
+  return { views, setView };
+};
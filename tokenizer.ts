@@ -0,0 +1,136 @@
+// --- Lexical XML Tokenizer ---
+// Splits raw XML into tokens while remembering the exact source text of each one.
+// It is deliberately lenient: well-formedness is checked by parseXML, this only
+// needs to be precise enough to re-emit the document as it was written.
+
+export interface RawAttribute {
+  name: string;
+  // Attribute value exactly as written (entities not decoded), without the quotes
+  value: string;
+  quote: '"' | "'";
+}
+
+export type XMLToken =
+  | { type: 'startTag'; name: string; attributes: RawAttribute[]; selfClosing: boolean; start: number; end: number }
+  | { type: 'endTag'; name: string; start: number; end: number }
+  | { type: 'text' | 'cdata' | 'comment' | 'pi' | 'doctype'; raw: string; start: number; end: number };
+
+const isWhitespace = (ch: string): boolean => ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+
+const isNameTerminator = (ch: string): boolean =>
+  isWhitespace(ch) || ch === '/' || ch === '>' || ch === '=' || ch === '';
+
+// Returns the index just past `terminator`, or the end of input if it never appears
+const indexAfter = (xml: string, terminator: string, from: number): number => {
+  const idx = xml.indexOf(terminator, from);
+  return idx === -1 ? xml.length : idx + terminator.length;
+};
+
+// DOCTYPE may contain an internal subset with its own quoted strings and '>' characters
+export const doctypeEnd = (xml: string, from: number): number => {
+  let depth = 0;
+  let quote = '';
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[') {
+      depth++;
+    } else if (ch === ']') {
+      depth--;
+    } else if (ch === '>' && depth <= 0) {
+      return i + 1;
+    }
+  }
+  return xml.length;
+};
+
+export const tokenizeXML = (xml: string): XMLToken[] => {
+  const tokens: XMLToken[] = [];
+  let pos = 0;
+
+  const readName = (): string => {
+    const begin = pos;
+    while (pos < xml.length && !isNameTerminator(xml[pos])) pos++;
+    return xml.slice(begin, pos);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < xml.length && isWhitespace(xml[pos])) pos++;
+  };
+
+  while (pos < xml.length) {
+    const start = pos;
+
+    if (xml[pos] !== '<') {
+      const next = xml.indexOf('<', pos);
+      pos = next === -1 ? xml.length : next;
+      tokens.push({ type: 'text', raw: xml.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (xml.startsWith('<!--', pos)) {
+      pos = indexAfter(xml, '-->', pos + 4);
+      tokens.push({ type: 'comment', raw: xml.slice(start, pos), start, end: pos });
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      pos = indexAfter(xml, ']]>', pos + 9);
+      tokens.push({ type: 'cdata', raw: xml.slice(start, pos), start, end: pos });
+    } else if (xml.startsWith('<!', pos)) {
+      pos = doctypeEnd(xml, pos + 2);
+      tokens.push({ type: 'doctype', raw: xml.slice(start, pos), start, end: pos });
+    } else if (xml.startsWith('<?', pos)) {
+      pos = indexAfter(xml, '?>', pos + 2);
+      tokens.push({ type: 'pi', raw: xml.slice(start, pos), start, end: pos });
+    } else if (xml.startsWith('</', pos)) {
+      pos += 2;
+      const name = readName();
+      pos = indexAfter(xml, '>', pos);
+      tokens.push({ type: 'endTag', name, start, end: pos });
+    } else {
+      pos += 1;
+      const name = readName();
+      const attributes: RawAttribute[] = [];
+      let selfClosing = false;
+
+      while (pos < xml.length) {
+        skipWhitespace();
+        if (xml[pos] === '>') {
+          pos++;
+          break;
+        }
+        if (xml.startsWith('/>', pos)) {
+          selfClosing = true;
+          pos += 2;
+          break;
+        }
+
+        const attrName = readName();
+        if (!attrName) {
+          // Stray character inside the tag; step over it rather than loop forever
+          pos++;
+          continue;
+        }
+        skipWhitespace();
+        if (xml[pos] !== '=') {
+          attributes.push({ name: attrName, value: '', quote: '"' });
+          continue;
+        }
+        pos++;
+        skipWhitespace();
+        const quote = xml[pos] === "'" ? "'" : '"';
+        if (xml[pos] === quote) pos++;
+        const valueStart = pos;
+        const valueEnd = xml.indexOf(quote, pos);
+        pos = valueEnd === -1 ? xml.length : valueEnd;
+        attributes.push({ name: attrName, value: xml.slice(valueStart, pos), quote });
+        pos++;
+      }
+
+      tokens.push({ type: 'startTag', name, attributes, selfClosing, start, end: Math.min(pos, xml.length) });
+    }
+  }
+
+  return tokens;
+};
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML, serializeXML } from './utils';
+import { EditOperation, EditError, applyEdit, describeEdit, editSource } from './treeEdit';
+
+const SOURCE = `<catalog xmlns:x="urn:x">
+  <!-- stock -->
+  <book id="b1" note="a&#10;b">
+    <title>Tom &amp; Jerry</title>
+    <price>5</price>
+  </book>
+  <book id="b2"><title>Emma</title><price/></book>
+</catalog>`;
+
+// Applies an edit the way the grid does: to the tree, then into the source
+const edit = (source: string, op: EditOperation) => {
+  const root = parseXML(source).root!;
+  const updated = applyEdit(root, op);
+  return { updated, source: editSource(source, root, updated, op) };
+};
+
+describe('applyEdit', () => {
+  it('returns a new tree and keeps untouched subtrees', () => {
+    const root = parseXML(SOURCE).root!;
+    const updated = applyEdit(root, { type: 'setAttribute', id: '/catalog[1]/book[2]', name: 'lang', value: 'en' });
+    expect(updated).not.toBe(root);
+    expect(updated.children[0]).toBe(root.children[0]);
+    expect(updated.children[1].attributes.map(attr => attr.name)).toEqual(['id', 'lang']);
+    expect(root.children[1].attributes).toHaveLength(1);
+  });
+
+  it('adds blank rows shaped like the last one and moves past comments', () => {
+    const root = parseXML(SOURCE).root!;
+    const added = applyEdit(root, { type: 'addRow', parentId: '/catalog[1]', tagName: 'book' });
+    expect(serializeXML(added.children[2], 0, true)).toBe('<book id=""><title/><price/></book>');
+    const moved = applyEdit(root, { type: 'move', id: '/catalog[1]/book[1]', direction: -1 });
+    expect(moved).toBe(root);
+    expect(applyEdit(root, { type: 'move', id: '/catalog[1]/book[2]', direction: -1 }).children[0].attributes[0].value).toBe('b2');
+  });
+
+  it('rejects invalid names, undeclared prefixes and moving the root', () => {
+    const root = parseXML(SOURCE).root!;
+    expect(() => applyEdit(root, { type: 'rename', id: '/catalog[1]', name: '1st' })).toThrow(EditError);
+    expect(() => applyEdit(root, { type: 'insertChild', parentId: '/catalog[1]', name: 'y:book' })).toThrow('Namespace prefix "y" is not declared');
+    expect(() => applyEdit(root, { type: 'remove', id: '/catalog[1]' })).toThrow(EditError);
+    expect(applyEdit(root, { type: 'insertChild', parentId: '/catalog[1]', name: 'x:book' }).children[2].namespaceURI).toBe('urn:x');
+    expect(describeEdit({ type: 'move', id: '', direction: 1 })).toBe('Move down');
+  });
+});
+
+describe('editSource', () => {
+  it('rewrites only the edited characters', () => {
+    expect(edit(SOURCE, { type: 'setText', id: '/catalog[1]/book[2]/title[1]', value: 'Emma <2>' }).source)
+      .toBe(SOURCE.replace('<title>Emma</title>', '<title>Emma &lt;2&gt;</title>'));
+    expect(edit(SOURCE, { type: 'setText', id: '/catalog[1]/book[2]/price[1]', value: '7' }).source)
+      .toBe(SOURCE.replace('<price/>', '<price>7</price>'));
+    expect(edit(SOURCE, { type: 'setAttribute', id: '/catalog[1]/book[1]', name: 'id', value: 'x\ty' }).source)
+      .toBe(SOURCE.replace('id="b1"', 'id="x&#9;y"'));
+    expect(edit(SOURCE, { type: 'setAttribute', id: '/catalog[1]/book[2]', name: 'lang', value: 'en' }).source)
+      .toBe(SOURCE.replace('<book id="b2">', '<book id="b2" lang="en">'));
+    expect(edit(SOURCE, { type: 'removeAttribute', id: '/catalog[1]/book[1]', name: 'id' }).source)
+      .toBe(SOURCE.replace('<book id="b1" ', '<book '));
+    expect(edit(SOURCE, { type: 'rename', id: '/catalog[1]/book[2]/title[1]', name: 'name' }).source)
+      .toBe(SOURCE.replace('<title>Emma</title>', '<name>Emma</name>'));
+  });
+
+  it('keeps the layout around added, copied, moved and removed elements', () => {
+    const book1 = '\n  <book id="b1" note="a&#10;b">\n    <title>Tom &amp; Jerry</title>\n    <price>5</price>\n  </book>';
+    const book2 = '\n  <book id="b2"><title>Emma</title><price/></book>';
+    expect(edit(SOURCE, { type: 'remove', id: '/catalog[1]/book[1]' }).source).toBe(SOURCE.replace(book1, ''));
+    expect(edit(SOURCE, { type: 'duplicate', id: '/catalog[1]/book[2]' }).source).toBe(SOURCE.replace(book2, book2 + book2));
+    expect(edit(SOURCE, { type: 'move', id: '/catalog[1]/book[2]', direction: -1 }).source)
+      .toBe(SOURCE.replace(book1 + book2, book2 + book1));
+    expect(edit(SOURCE, { type: 'insertChild', parentId: '/catalog[1]/book[1]', name: 'year', value: '1999' }).source)
+      .toBe(SOURCE.replace('<price>5</price>', '<price>5</price>\n    <year>1999</year>'));
+    expect(edit('<a/>', { type: 'insertChild', parentId: '/a[1]', name: 'b' }).source).toBe('<a><b/></a>');
+  });
+
+  it('rewrites only the markup of an edited comment or processing instruction', () => {
+    const source = '<r>\n  <!-- old -->\n  <?app  mode=1?>\n  <a>x</a>\n</r>';
+    expect(edit(source, { type: 'setText', id: '/r[1]/comment()[1]', value: ' new & <b> ' }).source)
+      .toBe(source.replace('<!-- old -->', '<!-- new & <b> -->'));
+    expect(edit(source, { type: 'setText', id: '/r[1]/processing-instruction()[1]', value: 'mode=2' }).source)
+      .toBe(source.replace('<?app  mode=1?>', '<?app mode=2?>'));
+    expect(() => edit(source, { type: 'setText', id: '/r[1]/comment()[1]', value: 'a -- b' })).toThrow(EditError);
+    expect(() => edit(source, { type: 'setText', id: '/r[1]/comment()[1]', value: 'a-' })).toThrow(EditError);
+    expect(() => edit(source, { type: 'setText', id: '/r[1]/processing-instruction()[1]', value: 'a ?> b' })).toThrow(EditError);
+  });
+
+  it('edits the top level of a fragment in place', () => {
+    const fragment = '<a  x="1"/>\n<!-- keep -->\n<b>&#65;</b>\n<c/>';
+    const editFragment = (op: EditOperation) => {
+      const root = parseXML(fragment).root!;
+      return editSource(fragment, root, applyEdit(root, op), op, true);
+    };
+    expect(editFragment({ type: 'remove', id: '/a[1]' })).toBe('<!-- keep -->\n<b>&#65;</b>\n<c/>');
+    expect(editFragment({ type: 'remove', id: '/c[1]' })).toBe('<a  x="1"/>\n<!-- keep -->\n<b>&#65;</b>');
+    expect(editFragment({ type: 'setAttribute', id: '/a[1]', name: 'x', value: '2' })).toBe(fragment.replace('x="1"', 'x="2"'));
+    // Down to a single element, the source reads back as a document rather than a fragment
+    const pair = '<a/>\n<b>&#65;</b>';
+    const root = parseXML(pair).root!;
+    const op: EditOperation = { type: 'remove', id: '/a[1]' };
+    expect(editSource(pair, root, applyEdit(root, op), op, true)).toBe('<b>&#65;</b>');
+  });
+
+  it('rewrites the edited element whole when the edit cannot be spliced in', () => {
+    const mixed = '<p>Hello <b>you</b> there</p>';
+    expect(edit(mixed, { type: 'setText', id: '/p[1]', value: 'Bye' }).source).toBe('<p>Bye<b>you</b></p>');
+  });
+});
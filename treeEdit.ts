@@ -0,0 +1,477 @@
+import { XMLNode, XMLAttribute, XMLChildNode, ParseResult } from './types';
+import { generateId, isNamespaceDeclaration, escapeText, escapeAttribute, serializeXML, parseXML } from './utils';
+import { sameChildNode } from './formatter';
+
+// --- Tree Editing ---
+// Every operation returns a new tree and leaves untouched subtrees (and their ids) as they were,
+// so the grid keeps its expansion state across edits.
+
+export type EditOperation =
+  | { type: 'setText'; id: string; value: string }
+  | { type: 'setAttribute'; id: string; name: string; value: string }
+  | { type: 'removeAttribute'; id: string; name: string }
+  | { type: 'rename'; id: string; name: string }
+  | { type: 'insertChild'; parentId: string; name: string; value?: string }
+  | { type: 'duplicate'; id: string }
+  | { type: 'remove'; id: string }
+  | { type: 'move'; id: string; direction: -1 | 1 }
+  | { type: 'addRow'; parentId: string; tagName: string };
+
+export class EditError extends Error {}
+
+const NAME_PATTERN = /^[A-Za-z_À-￿][\w.\-·À-￿]*(:[A-Za-z_À-￿][\w.\-·À-￿]*)?$/;
+
+const assertName = (name: string) => {
+  if (!NAME_PATTERN.test(name)) throw new EditError(`"${name}" is not a valid XML name`);
+};
+
+const splitName = (name: string): { prefix: string | null; localName: string } => {
+  const colon = name.indexOf(':');
+  return colon === -1 ? { prefix: null, localName: name } : { prefix: name.slice(0, colon), localName: name.slice(colon + 1) };
+};
+
+// Namespace bindings in scope: prefix ('' for the default namespace) -> URI
+type Scope = Record<string, string>;
+
+const extendScope = (scope: Scope, node: XMLNode): Scope => {
+  const declarations = node.attributes.filter(isNamespaceDeclaration);
+  if (declarations.length === 0) return scope;
+  const next = { ...scope };
+  declarations.forEach(attr => {
+    next[attr.name === 'xmlns' ? '' : attr.name.slice(6)] = attr.value;
+  });
+  return next;
+};
+
+const resolveElementNamespace = (prefix: string | null, scope: Scope): string | null => {
+  if (prefix === null) return scope[''] || null;
+  if (prefix === 'xml') return 'http://www.w3.org/XML/1998/namespace';
+  const uri = scope[prefix];
+  if (!uri) throw new EditError(`Namespace prefix "${prefix}" is not declared`);
+  return uri;
+};
+
+const makeAttribute = (name: string, value: string, scope: Scope): XMLAttribute => {
+  assertName(name);
+  const { prefix, localName } = splitName(name);
+  let namespaceURI: string | null = null;
+  if (name === 'xmlns' || prefix === 'xmlns') namespaceURI = 'http://www.w3.org/2000/xmlns/';
+  else if (prefix !== null) namespaceURI = resolveElementNamespace(prefix, scope);
+  return { name, value, prefix, localName, namespaceURI };
+};
+
+// Keeps the derived children/content fields in step with the ordered node list
+const withNodes = (node: XMLNode, nodes: XMLChildNode[]): XMLNode => {
+  const text = nodes
+    .filter(child => child.type === 'text' || child.type === 'cdata')
+    .map(child => (child as { value: string }).value.trim())
+    .filter(Boolean)
+    .join(' ');
+  return {
+    ...node,
+    nodes,
+    children: nodes.filter((child): child is XMLNode => child.type === 'element'),
+    content: text || null,
+  };
+};
+
+const createElement = (name: string, scope: Scope, value?: string): XMLNode => {
+  assertName(name);
+  const { prefix, localName } = splitName(name);
+  const nodes: XMLChildNode[] = value ? [{ type: 'text', id: generateId(), value }] : [];
+  return withNodes({
+    type: 'element',
+    id: generateId(),
+    name,
+    prefix,
+    localName,
+    namespaceURI: resolveElementNamespace(prefix, scope),
+    attributes: [],
+    children: [],
+    nodes: [],
+    content: null,
+  }, nodes);
+};
+
+// Deep copy with fresh ids throughout
+const cloneNode = <T extends XMLChildNode>(node: T): T => {
+  if (node.type !== 'element') return { ...node, id: generateId() };
+  return withNodes({ ...node, id: generateId() }, node.nodes.map(cloneNode)) as T;
+};
+
+// Same shape as the given row, but with every value emptied: the template for a new table row
+const blankCopy = (node: XMLNode): XMLNode => {
+  const nodes = node.nodes
+    .filter(child => child.type === 'element')
+    .map(child => blankCopy(child as XMLNode));
+  return withNodes({
+    ...node,
+    id: generateId(),
+    attributes: node.attributes.map(attr => (isNamespaceDeclaration(attr) ? attr : { ...attr, value: '' })),
+  }, nodes);
+};
+
+// Applies fn to the element with the given id, passing the namespace bindings of its parent
+const updateElement = (
+  node: XMLNode,
+  id: string,
+  fn: (target: XMLNode, scope: Scope) => XMLNode,
+  scope: Scope = {}
+): XMLNode => {
+  const innerScope = extendScope(scope, node);
+  if (node.id === id) return fn(node, scope);
+
+  let changed = false;
+  const nodes = node.nodes.map(child => {
+    if (child.type !== 'element') return child;
+    const updated = updateElement(child, id, fn, innerScope);
+    if (updated !== child) changed = true;
+    return updated;
+  });
+  return changed ? withNodes(node, nodes) : node;
+};
+
+const findParentId = (node: XMLNode, id: string): string | null => {
+  for (const child of node.nodes) {
+    if (child.id === id) return node.id;
+    if (child.type === 'element') {
+      const found = findParentId(child, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+const findElement = (node: XMLNode, id: string): XMLNode | null => {
+  if (node.id === id) return node;
+  for (const child of node.children) {
+    const found = findElement(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Replaces all text and CDATA of an element with one text run where the first one was
+const replaceText = (node: XMLNode, value: string): XMLNode => {
+  const isText = (child: XMLChildNode) => child.type === 'text' || child.type === 'cdata';
+  const kept = node.nodes.filter(child => !isText(child));
+  if (!value) return withNodes(node, kept);
+
+  const firstText = node.nodes.findIndex(isText);
+  const insertAt = firstText === -1 ? 0 : node.nodes.slice(0, firstText).filter(child => !isText(child)).length;
+  const text: XMLChildNode = { type: 'text', id: generateId(), value };
+  return withNodes(node, [...kept.slice(0, insertAt), text, ...kept.slice(insertAt)]);
+};
+
+const requireParent = (root: XMLNode, id: string): string => {
+  const parentId = findParentId(root, id);
+  if (!parentId) throw new EditError('The root element cannot be moved, duplicated or removed');
+  return parentId;
+};
+
+// Comments and processing instructions cannot hold what would end them early
+const withValue = (child: XMLChildNode, value: string): XMLChildNode => {
+  if (child.type === 'comment' && (value.includes('--') || value.endsWith('-'))) {
+    throw new EditError('A comment cannot contain "--" or end with "-"');
+  }
+  if (child.type === 'pi' && value.includes('?>')) throw new EditError('A processing instruction cannot contain "?>"');
+  return { ...child, value } as XMLChildNode;
+};
+
+export const applyEdit = (root: XMLNode, op: EditOperation): XMLNode => {
+  switch (op.type) {
+    case 'setText': {
+      // An element id replaces all of its text; a text node id edits just that run
+      if (findElement(root, op.id)) {
+        return updateElement(root, op.id, target => replaceText(target, op.value));
+      }
+      const ownerId = findParentId(root, op.id);
+      if (!ownerId) throw new EditError('The edited node no longer exists');
+      return updateElement(root, ownerId, target =>
+        withNodes(target, target.nodes.map(child => (child.id === op.id ? withValue(child, op.value) : child))));
+    }
+
+    case 'setAttribute':
+      return updateElement(root, op.id, (target, scope) => {
+        const attribute = makeAttribute(op.name, op.value, extendScope(scope, target));
+        const exists = target.attributes.some(attr => attr.name === op.name);
+        return {
+          ...target,
+          attributes: exists
+            ? target.attributes.map(attr => (attr.name === op.name ? attribute : attr))
+            : [...target.attributes, attribute],
+        };
+      });
+
+    case 'removeAttribute':
+      return updateElement(root, op.id, target => ({
+        ...target,
+        attributes: target.attributes.filter(attr => attr.name !== op.name),
+      }));
+
+    case 'rename':
+      return updateElement(root, op.id, (target, scope) => {
+        assertName(op.name);
+        const { prefix, localName } = splitName(op.name);
+        return { ...target, name: op.name, prefix, localName, namespaceURI: resolveElementNamespace(prefix, extendScope(scope, target)) };
+      });
+
+    case 'insertChild':
+      return updateElement(root, op.parentId, (target, scope) =>
+        withNodes(target, [...target.nodes, createElement(op.name, extendScope(scope, target), op.value)]));
+
+    case 'addRow':
+      return updateElement(root, op.parentId, (target, scope) => {
+        const rows = target.children.filter(child => child.name === op.tagName);
+        const template = rows[rows.length - 1];
+        const row = template ? blankCopy(template) : createElement(op.tagName, extendScope(scope, target));
+        const insertAt = template ? target.nodes.indexOf(template) + 1 : target.nodes.length;
+        return withNodes(target, [...target.nodes.slice(0, insertAt), row, ...target.nodes.slice(insertAt)]);
+      });
+
+    case 'duplicate':
+      return updateElement(root, requireParent(root, op.id), target => {
+        const index = target.nodes.findIndex(child => child.id === op.id);
+        const copy = cloneNode(target.nodes[index]);
+        return withNodes(target, [...target.nodes.slice(0, index + 1), copy, ...target.nodes.slice(index + 1)]);
+      });
+
+    case 'remove':
+      return updateElement(root, requireParent(root, op.id), target =>
+        withNodes(target, target.nodes.filter(child => child.id !== op.id)));
+
+    case 'move':
+      return updateElement(root, requireParent(root, op.id), target => {
+        const index = target.nodes.findIndex(child => child.id === op.id);
+        // Step over comments and text to the next element sibling in that direction
+        let swapWith = index + op.direction;
+        while (swapWith >= 0 && swapWith < target.nodes.length && target.nodes[swapWith].type !== 'element') {
+          swapWith += op.direction;
+        }
+        if (swapWith < 0 || swapWith >= target.nodes.length) return target;
+        const nodes = [...target.nodes];
+        [nodes[index], nodes[swapWith]] = [nodes[swapWith], nodes[index]];
+        return withNodes(target, nodes);
+      });
+  }
+};
+
+// Short label for the undo history
+export const describeEdit = (op: EditOperation): string => {
+  switch (op.type) {
+    case 'setText': return 'Edit text';
+    case 'setAttribute': return `Set @${op.name}`;
+    case 'removeAttribute': return `Remove @${op.name}`;
+    case 'rename': return `Rename to ${op.name}`;
+    case 'insertChild': return `Add <${op.name}>`;
+    case 'duplicate': return 'Duplicate element';
+    case 'remove': return 'Delete element';
+    case 'move': return op.direction < 0 ? 'Move up' : 'Move down';
+    case 'addRow': return `Add ${op.tagName} row`;
+  }
+};
+
+// --- Source Edits ---
+// Writes an edit into the source text the tree was parsed from, touching only the characters it
+// changes, so the rest of the document keeps its layout, entity and character references and
+// comments. Ranges come from parseXML; elements and attributes added by earlier edits have none,
+// but the source is reparsed after every edit.
+
+interface Splice {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const findNode = (node: XMLNode, id: string): XMLChildNode | null => {
+  for (const child of node.nodes) {
+    if (child.id === id) return child;
+    if (child.type === 'element') {
+      const found = findNode(child, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Offset just past the > of an element's start tag
+const startTagEnd = (source: string, element: XMLNode): number => {
+  const from = element.attributes.reduce((end, attr) => Math.max(end, attr.range!.end), element.range!.start + 1 + element.name.length);
+  return source.indexOf('>', from) + 1;
+};
+
+const isSelfClosing = (source: string, element: XMLNode): boolean => source[startTagEnd(source, element) - 2] === '/';
+
+const endTagStart = (source: string, element: XMLNode): number => source.lastIndexOf('</', element.range!.end - 1);
+
+// Start of the whitespace run that ends at offset
+const whitespaceBefore = (source: string, offset: number): number => {
+  let start = offset;
+  while (start > 0 && /\s/.test(source[start - 1])) start--;
+  return start;
+};
+
+// The line break and indentation in front of a child, or nothing inside mixed content
+const layoutBefore = (source: string, parent: XMLNode, child: XMLChildNode): string =>
+  parent.content ? '' : source.slice(whitespaceBefore(source, child.range!.start), child.range!.start);
+
+const writeText = (child: XMLChildNode, value: string): string => {
+  if (child.type === 'comment') return `<!--${value}-->`;
+  if (child.type === 'pi') return `<?${child.target}${value ? ' ' + value : ''}?>`;
+  return child.type === 'cdata' && !value.includes(']]>') ? `<![CDATA[${value}]]>` : escapeText(value);
+};
+
+const hasRanges = (element: XMLNode): boolean => !!element.range && element.attributes.every(attr => attr.range);
+
+// The splices for an edit of root that gave updated, or null when it takes more than these
+const editSplices = (source: string, root: XMLNode, updated: XMLNode, op: EditOperation): Splice[] | null => {
+  switch (op.type) {
+    case 'setAttribute':
+    case 'removeAttribute': {
+      const target = findElement(root, op.id);
+      if (!target || !hasRanges(target)) return null;
+      const attr = target.attributes.find(candidate => candidate.name === op.name);
+      if (op.type === 'removeAttribute') {
+        return attr ? [{ start: whitespaceBefore(source, attr.range!.start), end: attr.range!.end, text: '' }] : [];
+      }
+      const written = `${op.name}="${escapeAttribute(op.value)}"`;
+      if (attr) return [{ start: attr.range!.start, end: attr.range!.end, text: written }];
+      const end = target.attributes.reduce((last, other) => Math.max(last, other.range!.end), target.range!.start + 1 + target.name.length);
+      return [{ start: end, end, text: ` ${written}` }];
+    }
+
+    case 'rename': {
+      const target = findElement(root, op.id);
+      if (!target || !hasRanges(target)) return null;
+      const start = target.range!.start + 1;
+      const splices = [{ start, end: start + target.name.length, text: op.name }];
+      if (!isSelfClosing(source, target)) {
+        const close = endTagStart(source, target) + 2;
+        splices.push({ start: close, end: close + target.name.length, text: op.name });
+      }
+      return splices;
+    }
+
+    case 'setText': {
+      const target = findElement(root, op.id);
+      if (!target) {
+        const child = findNode(root, op.id);
+        return child?.range ? [{ start: child.range.start, end: child.range.end, text: writeText(child, op.value) }] : null;
+      }
+      // Only an element holding nothing but text; anything else is rewritten whole
+      if (!hasRanges(target) || target.nodes.some(child => child.type !== 'text' && child.type !== 'cdata')) return null;
+      const tagEnd = startTagEnd(source, target);
+      const text = writeText(target.nodes[0] ?? { type: 'text', id: '', value: '' }, op.value);
+      if (isSelfClosing(source, target)) {
+        return op.value ? [{ start: tagEnd - 2, end: tagEnd, text: `>${text}</${target.name}>` }] : [];
+      }
+      return [{ start: tagEnd, end: endTagStart(source, target), text }];
+    }
+
+    case 'remove': {
+      const parent = findElement(root, requireParent(root, op.id));
+      const child = findNode(root, op.id);
+      if (!parent || !child?.range) return null;
+      const layout = layoutBefore(source, parent, child);
+      // The first node of a fragment has nothing in front of it; the line break after it goes instead
+      const end = layout || parent.content ? child.range.end : child.range.end + (source.slice(child.range.end).match(/^\s*/)![0].length);
+      return [{ start: child.range.start - layout.length, end, text: '' }];
+    }
+
+    case 'duplicate': {
+      const parent = findElement(root, requireParent(root, op.id));
+      const child = findNode(root, op.id);
+      if (!parent || !child?.range) return null;
+      const { start, end } = child.range;
+      return [{ start: end, end, text: layoutBefore(source, parent, child) + source.slice(start, end) }];
+    }
+
+    case 'move': {
+      const parent = findElement(root, requireParent(root, op.id));
+      if (!parent) return null;
+      const index = parent.nodes.findIndex(child => child.id === op.id);
+      let swapWith = index + op.direction;
+      while (swapWith >= 0 && swapWith < parent.nodes.length && parent.nodes[swapWith].type !== 'element') {
+        swapWith += op.direction;
+      }
+      if (swapWith < 0 || swapWith >= parent.nodes.length) return [];
+      const [a, b] = [parent.nodes[index].range, parent.nodes[swapWith].range];
+      if (!a || !b) return null;
+      return [
+        { start: a.start, end: a.end, text: source.slice(b.start, b.end) },
+        { start: b.start, end: b.end, text: source.slice(a.start, a.end) },
+      ];
+    }
+
+    case 'insertChild':
+    case 'addRow': {
+      const parent = findElement(root, op.parentId);
+      const after = findElement(updated, op.parentId);
+      if (!parent || !after || !hasRanges(parent)) return null;
+      const index = after.nodes.findIndex(child => !parent.nodes.some(old => old.id === child.id));
+      const written = serializeXML(after.nodes[index] as XMLNode, 0, true);
+      const previous = after.nodes[index - 1];
+      if (previous?.range) {
+        return [{ start: previous.range.end, end: previous.range.end, text: layoutBefore(source, parent, previous) + written }];
+      }
+      if (parent.nodes.length > 0) return null;
+      if (isSelfClosing(source, parent)) {
+        const tagEnd = startTagEnd(source, parent);
+        return [{ start: tagEnd - 2, end: tagEnd, text: `>${written}</${parent.name}>` }];
+      }
+      const close = endTagStart(source, parent);
+      return [{ start: close, end: close, text: written }];
+    }
+  }
+};
+
+// The element an edit changes, which is rewritten whole when the edit cannot be spliced in
+const editedElementId = (root: XMLNode, op: EditOperation): string => {
+  switch (op.type) {
+    case 'insertChild':
+    case 'addRow':
+      return op.parentId;
+    case 'duplicate':
+    case 'remove':
+    case 'move':
+      return requireParent(root, op.id);
+    case 'setText':
+      return findElement(root, op.id) ? op.id : findParentId(root, op.id) ?? op.id;
+    default:
+      return op.id;
+  }
+};
+
+// The nodes a source reads back as at the top level of a fragment, whether or not it still is one
+const fragmentNodes = ({ root, prolog = [], epilog = [], isFragment }: ParseResult): XMLChildNode[] =>
+  isFragment ? root!.nodes : [...prolog, root!, ...epilog];
+
+// The source with the edit written in, or null when the tree lacks the ranges to place it (or the
+// result would not read back as the updated tree). In a fragment, root is the synthetic wrapper.
+export const editSource = (
+  source: string,
+  root: XMLNode,
+  updated: XMLNode,
+  op: EditOperation,
+  isFragment = false
+): string | null => {
+  let splices = editSplices(source, root, updated, op);
+  if (!splices) {
+    const id = editedElementId(root, op);
+    // The wrapper is not in the source to be rewritten
+    if (isFragment && id === root.id) return null;
+    const before = findElement(root, id);
+    const after = findElement(updated, id);
+    if (!before?.range || !after) return null;
+    splices = [{ start: before.range.start, end: before.range.end, text: serializeXML(after, 0, true) }];
+  }
+
+  const edited = [...splices]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, { start, end, text: replacement }) => text.slice(0, start) + replacement + text.slice(end), source);
+  const reparsed = parseXML(edited);
+  if (reparsed.error || !reparsed.root) return null;
+  if (!isFragment) return sameChildNode(reparsed.root, updated) ? edited : null;
+  const nodes = fragmentNodes(reparsed);
+  return nodes.length === updated.nodes.length && nodes.every((node, i) => sameChildNode(node, updated.nodes[i])) ? edited : null;
+};
@@ -1,17 +1,87 @@
+// Where a parsed node sits in the source it was parsed from: character offsets (end exclusive)
+// and the 1-based line and column of its start
+export interface SourceRange {
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
 export interface XMLAttribute {
   name: string;
   value: string;
+  namespaceURI: string | null;
+  prefix: string | null;
+  localName: string;
+  // name="value" as written; absent on attributes added by an edit
+  range?: SourceRange;
 }
 
 export interface XMLNode {
+  type: 'element';
+  // Derived from the node's place in the document (e.g. /catalog[1]/book[2]), so it survives reparsing
   id: string;
+  // Qualified name as written (prefix:localName)
   name: string;
+  namespaceURI: string | null;
+  prefix: string | null;
+  localName: string;
   attributes: XMLAttribute[];
+  // Element children only (used for grouping and table detection)
   children: XMLNode[];
+  // Every child node in document order: elements, text runs, CDATA, comments and PIs
+  nodes: XMLChildNode[];
   content: string | null;
+  // From the start tag through the end tag; absent on elements created by an edit
+  range?: SourceRange;
+}
+
+export interface XMLTextNode {
+  type: 'text' | 'cdata' | 'comment';
+  id: string;
+  value: string;
+  range?: SourceRange;
+}
+
+export interface XMLProcessingInstruction {
+  type: 'pi';
+  id: string;
+  target: string;
+  value: string;
+  range?: SourceRange;
+}
+
+export type XMLChildNode = XMLNode | XMLTextNode | XMLProcessingInstruction;
+
+// A well-formedness error located in the source text as given to parseXML
+export interface ParseError {
+  message: string;
+  // 1-based
+  line: number;
+  column: number;
+  // Character offset into the source
+  offset: number;
+}
+
+// <!DOCTYPE name PUBLIC "..." "..." [ internal subset ]> as written before the root element
+export interface DoctypeDeclaration {
+  name: string;
+  publicId: string | null;
+  systemId: string | null;
+  internalSubset: string | null;
+  range: SourceRange;
 }
 
 export interface ParseResult {
   root: XMLNode | null;
+  // Summary of the first error, for display
   error: string | null;
-}
\ No newline at end of file
+  // Every error found, in document order (the parser recovers where it can)
+  errors?: ParseError[];
+  // Comments and processing instructions that sit outside the root element
+  prolog?: XMLChildNode[];
+  epilog?: XMLChildNode[];
+  // True when the input had several top-level nodes and root is the synthetic 'root' wrapper
+  isFragment?: boolean;
+  doctype?: DoctypeDeclaration;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML, serializeXML, MAX_ENTITY_EXPANSION } from './utils';
+import { XMLNode } from './types';
+
+// Names of the element children, recursively, for comparing tree shapes
+const shape = (node: XMLNode): unknown =>
+  node.children.length ? { [node.name]: node.children.map(shape) } : node.name;
+
+describe('parseXML', () => {
+  it('builds elements with attributes, content and structural ids', () => {
+    const { root, error } = parseXML('<catalog><book id="b1" lang="en"><title>Dune</title></book><book id="b2"/></catalog>');
+    expect(error).toBeNull();
+    expect(shape(root!)).toEqual({ catalog: [{ book: ['title'] }, 'book'] });
+    const [first, second] = root!.children;
+    expect(first.attributes.map(attr => [attr.name, attr.value])).toEqual([['id', 'b1'], ['lang', 'en']]);
+    expect(first.children[0].content).toBe('Dune');
+    expect([root!.id, first.id, second.id, first.children[0].id]).toEqual(['/catalog[1]', '/catalog[1]/book[1]', '/catalog[1]/book[2]', '/catalog[1]/book[1]/title[1]']);
+    expect(first.range).toMatchObject({ line: 1, column: 10 });
+  });
+
+  it('wraps several top-level elements in a fragment root', () => {
+    const result = parseXML('<a>1</a>\n<b>2</b>');
+    expect(result.isFragment).toBe(true);
+    expect(result.root!.name).toBe('root');
+    expect(result.root!.children.map(child => child.name)).toEqual(['a', 'b']);
+    expect(parseXML('<a/>').isFragment).toBeUndefined();
+  });
+
+  it('keeps the XML declaration out of the tree and comments and PIs around the root', () => {
+    const result = parseXML('<?xml version="1.0" encoding="UTF-8"?>\n<!-- before --><?style href="a.css"?><root/><!-- after -->');
+    expect(result.root!.name).toBe('root');
+    expect(result.prolog!.map(node => node.type)).toEqual(['comment', 'pi']);
+    expect(result.prolog![1]).toMatchObject({ type: 'pi', target: 'style', value: 'href="a.css"' });
+    expect(result.epilog).toMatchObject([{ type: 'comment', value: ' after ' }]);
+    expect(parseXML('<a/><?xml version="1.0"?>').error).not.toBeNull();
+  });
+
+  it('reads the DOCTYPE and the entities declared in its internal subset', () => {
+    const result = parseXML(`<!DOCTYPE note PUBLIC "-//EX//Note" "note.dtd" [
+  <!ENTITY company "Acme &amp; Co">
+  <!ELEMENT note (#PCDATA)>
+]>
+<note>&company; &#169; &#x2122;</note>`);
+    expect(result.error).toBeNull();
+    expect(result.doctype).toMatchObject({ name: 'note', publicId: '-//EX//Note', systemId: 'note.dtd' });
+    expect(result.doctype!.internalSubset).toContain('<!ELEMENT note (#PCDATA)>');
+    expect(result.root!.content).toBe('Acme & Co © ™');
+  });
+
+  it('decodes the predefined entities in text and attributes', () => {
+    const { root } = parseXML('<a title="&quot;x&quot; &lt; y">Tom &amp; Jerry&apos;s &gt;</a>');
+    expect(root!.attributes[0].value).toBe('"x" < y');
+    expect(root!.content).toBe("Tom & Jerry's >");
+  });
+
+  it('reports undefined entities and stray ampersands with their position', () => {
+    const { root, errors } = parseXML('<a>\n  &nbsp; R&D</a>');
+    expect(root).toBeNull();
+    expect(errors!.map(({ message, line, column }) => ({ message, line, column }))).toEqual([
+      { message: 'Undefined entity &nbsp;', line: 2, column: 3 },
+      { message: "'&' must start an entity reference such as &amp;", line: 2, column: 11 },
+    ]);
+  });
+
+  it('rejects character references to code points XML does not allow', () => {
+    const { errors } = parseXML('<a>&#xD800; &#0; &#xFFFE; &#x110000; &#9;&#x1F600;</a>');
+    expect(errors!.map(error => error.message)).toEqual([
+      '&#xD800; is not a valid character', '&#0; is not a valid character',
+      '&#xFFFE; is not a valid character', '&#x110000; is not a valid character',
+    ]);
+    expect(parseXML('<a>x&#9;&#x1F600;</a>').root!.content).toBe('x\t😀');
+  });
+
+  it('stops entities that expand past the limit', () => {
+    const levels = Array.from({ length: 7 }, (_, i) => `<!ENTITY l${i + 1} "${`&l${i};`.repeat(10)}">`);
+    const result = parseXML(`<!DOCTYPE a [<!ENTITY l0 "lol">${levels.join('')}]><a>&l7;</a>`);
+    expect(result.root).toBeNull();
+    expect(result.errors![0].message).toBe(`Entities expand to more than ${MAX_ENTITY_EXPANSION} characters`);
+    expect(parseXML('<!DOCTYPE a [<!ENTITY l0 "lol"><!ENTITY l1 "&l0;&l0;">]><a>&l1;</a>').root!.content).toBe('lollol');
+  });
+
+  it('keeps CDATA sections as written, separate from the text around them', () => {
+    const { root } = parseXML('<script>before <![CDATA[if (a < b && c) { x = "<tag>"; }]]> after</script>');
+    expect(root!.nodes.map(node => node.type)).toEqual(['text', 'cdata', 'text']);
+    expect(root!.nodes[1]).toMatchObject({ value: 'if (a < b && c) { x = "<tag>"; }' });
+    expect(parseXML('<a><![CDATA[<b>]]></a>').root!.content).toBe('<b>');
+  });
+
+  it('resolves namespaces for elements and attributes', () => {
+    const { root } = parseXML('<s:Envelope xmlns:s="urn:soap" xmlns="urn:default"><Body s:mustUnderstand="1"/></s:Envelope>');
+    expect(root).toMatchObject({ prefix: 's', localName: 'Envelope', namespaceURI: 'urn:soap' });
+    const body = root!.children[0];
+    expect(body).toMatchObject({ prefix: null, localName: 'Body', namespaceURI: 'urn:default' });
+    expect(body.attributes[0]).toMatchObject({ prefix: 's', localName: 'mustUnderstand', namespaceURI: 'urn:soap' });
+  });
+
+  it('reports every mismatched tag rather than only the first', () => {
+    const { root, error, errors } = parseXML('<a><b></c><d></a>');
+    expect(root).toBeNull();
+    expect(error).toMatch(/^Invalid XML: .* \(line 1, column \d+\)$/);
+    expect(errors!.length).toBeGreaterThan(1);
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(parseXML('  \n')).toEqual({ root: null, error: null });
+  });
+});
+
+describe('serializeXML', () => {
+  it('writes a parsed tree back as equivalent XML', () => {
+    const source = '<catalog><book id="b&amp;1"><title>A &lt; B</title><empty/></book></catalog>';
+    const output = serializeXML(parseXML(source).root!);
+    expect(parseXML(output).root).toMatchObject({ name: 'catalog' });
+    expect(shape(parseXML(output).root!)).toEqual(shape(parseXML(source).root!));
+    expect(output).toContain('id="b&amp;1"');
+    expect(output).toContain('<title>A &lt; B</title>');
+  });
+});
@@ -1,126 +1,612 @@
-import { XMLNode, XMLAttribute, ParseResult } from './types';
-
-// Generate a unique ID for React keys
-const generateId = (): string => Math.random().toString(36).substr(2, 9);
+import { XMLNode, XMLAttribute, XMLChildNode, ParseResult, ParseError, SourceRange, DoctypeDeclaration } from './types';
+import { doctypeEnd } from './tokenizer';
+
+// Ids for nodes created by a grid edit; reparsing the edited document replaces them with structural ones
+export const generateId = (): string => Math.random().toString(36).substr(2, 9);
+
+// --- XML Parsing ---
+// A strict, DOM-free parser that builds the XMLNode model directly. Not needing DOMParser lets it
+// run inside the parse worker, where it also reports progress on large inputs.
+// Most well-formedness errors are recorded and skipped over so that all of them can be reported;
+// only those that leave nothing sensible to resume from (e.g. an unterminated comment) stop the parse.
+
+export interface ParseOptions {
+  // Called now and then with the fraction of the input consumed so far
+  onProgress?: (fraction: number) => void;
+}
+
+// Thrown for errors the parser cannot recover from
+class FatalParseError extends Error { }
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns/';
+
+const NAME_PATTERN = /[A-Za-z_:À-￿][\w.\-:·À-￿]*/y;
+const REFERENCE_PATTERN = /^(#[0-9]+|#x[0-9a-fA-F]+|[A-Za-z_:À-￿][\w.\-:·À-￿]*)$/;
+const ENTITY_DECLARATION = /<!ENTITY\s+([^\s%]+)\s+(?:"([^"]*)"|'([^']*)')\s*>/g;
+const DOCTYPE_DECLARATION = /^<!DOCTYPE\s+([^\s\[>]+)(?:\s+(?:SYSTEM\s+(?:"([^"]*)"|'([^']*)')|PUBLIC\s+(?:"([^"]*)"|'([^']*)')\s+(?:"([^"]*)"|'([^']*)')))?\s*(?:\[([\s\S]*)\])?\s*>$/;
+const PREDEFINED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+const PROGRESS_INTERVAL = 1 << 16;
+export const MAX_PARSE_ERRORS = 100;
+// Characters entity references may expand to in one document, so nested entities that double at
+// every level ("billion laughs") are stopped before they exhaust memory
+export const MAX_ENTITY_EXPANSION = 1_000_000;
+
+// The Char production: no surrogates, U+FFFE, U+FFFF or control characters other than tab and newlines
+const isXmlChar = (code: number): boolean =>
+  code === 0x9 || code === 0xA || code === 0xD || (code >= 0x20 && code <= 0xD7FF) ||
+  (code >= 0xE000 && code <= 0xFFFD) || (code >= 0x10000 && code <= 0x10FFFF);
+
+const normalizeNewlines = (text: string): string => text.replace(/\r\n?/g, '\n');
+
+// Literal tabs and line breaks in attribute values read as spaces; character references keep theirs
+const normalizeAttributeWhitespace = (text: string): string => text.replace(/\r\n|[\t\n\r]/g, ' ');
+
+// Line starts of the source, for turning offsets into line/column pairs
+const lineStarts = (xml: string): number[] => {
+  const starts = [0];
+  for (let i = xml.indexOf('\n'); i !== -1; i = xml.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+};
 
-export const parseXML = (xmlString: string): ParseResult => {
-  if (!xmlString || xmlString.trim() === '') {
-    return { root: null, error: null };
+const locate = (starts: number[], offset: number): { line: number; column: number } => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= offset) low = mid;
+    else high = mid - 1;
   }
+  return { line: low + 1, column: offset - starts[low] + 1 };
+};
+
+// An element whose end tag has not been reached yet
+interface OpenElement {
+  name: string;
+  prefix: string | null;
+  localName: string;
+  namespaceURI: string | null;
+  attributes: XMLAttribute[];
+  nodes: XMLChildNode[];
+  // Namespace bindings in scope: prefix ('' for the default namespace) -> URI
+  scope: Record<string, string>;
+  start: number;
+}
+
+const splitQualifiedName = (name: string): { prefix: string | null; localName: string } | null => {
+  const colon = name.indexOf(':');
+  if (colon === -1) return { prefix: null, localName: name };
+  if (colon === 0 || colon === name.length - 1 || name.indexOf(':', colon + 1) !== -1) return null;
+  return { prefix: name.slice(0, colon), localName: name.slice(colon + 1) };
+};
 
-  // Remove XML declaration (<?xml ... ?>) if present.
-  // This is necessary because we wrap the content in a dummy root <__root__>,
-  // and the XML declaration must appear at the very start of the document, not inside an element.
-  let sanitizedXml = xmlString.replace(/^\s*<\?xml[^>]*\?>/i, '');
-
-  // Remove DOCTYPE declaration (<!DOCTYPE ... >) if present.
-  // DOCTYPEs are not allowed inside the dummy root wrapper.
-  // This regex handles basic DOCTYPE declarations.
-  sanitizedXml = sanitizedXml.replace(/^\s*<!DOCTYPE[^>]*>/i, '');
-
-  const parser = new DOMParser();
-  // Wrap in a dummy root to handle fragments (multiple top-level nodes) safely.
-  // This ensures snippets like "<A>...</A><A>...</A>" are parsed correctly.
-  const wrappedXml = `<__root__>${sanitizedXml}</__root__>`;
-  const doc = parser.parseFromString(wrappedXml, "text/xml");
-
-  const errorNode = doc.querySelector("parsererror");
-  if (errorNode) {
-    return { root: null, error: "Invalid XML: " + errorNode.textContent };
+const closeElement = (open: OpenElement, range: SourceRange): XMLNode => {
+  let content = '';
+  const children: XMLNode[] = [];
+  open.nodes.forEach(child => {
+    if (child.type === 'element') {
+      children.push(child);
+    } else if (child.type === 'text' || child.type === 'cdata') {
+      const text = child.value.trim();
+      if (text) content += text + ' ';
+    }
+  });
+
+  // Whitespace-only text is indentation unless the element carries real text (mixed content),
+  // in which case the spaces between inline elements are significant and must be kept, or has no
+  // child elements, in which case the whitespace is its value (<ws>   </ws>).
+  const keepsWhitespace = content.length > 0 || children.length === 0;
+  const nodes = keepsWhitespace
+    ? open.nodes
+    : open.nodes.filter(n => !(n.type === 'text' && n.value.trim() === ''));
+
+  return {
+    type: 'element',
+    id: '',
+    name: open.name,
+    namespaceURI: open.namespaceURI,
+    prefix: open.prefix,
+    localName: open.localName,
+    attributes: open.attributes,
+    children,
+    nodes,
+    content: content.trim() || null,
+    range,
+  };
+};
+
+const idStep = (node: XMLChildNode): string => {
+  switch (node.type) {
+    case 'element': return node.name;
+    case 'pi': return 'processing-instruction()';
+    default: return `${node.type}()`;
   }
+};
+
+// Ids follow the document structure (/catalog[1]/book[2]/text()[1]), so reparsing the same document,
+// or one changed elsewhere, gives the untouched nodes the ids they had before.
+const assignIds = (nodes: XMLChildNode[], parentId: string) => {
+  const counts = new Map<string, number>();
+  nodes.forEach(node => {
+    const step = idStep(node);
+    const count = (counts.get(step) || 0) + 1;
+    counts.set(step, count);
+    node.id = `${parentId}/${step}[${count}]`;
+    if (node.type === 'element') assignIds(node.nodes, node.id);
+  });
+};
+
+// Parses the whole input as the content of a synthetic <__root__> element, so fragments with
+// several top-level nodes are accepted the same way as single-rooted documents.
+const parseContent = (
+  xml: string,
+  starts: number[],
+  onProgress?: (fraction: number) => void
+): { wrapper: XMLNode; errors: { message: string; offset: number }[]; doctype?: DoctypeDeclaration } => {
+  const entities: Record<string, string> = {};
+  let doctype: DoctypeDeclaration | undefined;
+  const errors: { message: string; offset: number }[] = [];
+  const wrapper: OpenElement = {
+    name: '__root__', prefix: null, localName: '__root__', namespaceURI: null,
+    attributes: [], nodes: [], scope: { xml: XML_NAMESPACE }, start: 0,
+  };
+  const stack: OpenElement[] = [wrapper];
+  let pos = xml.charCodeAt(0) === 0xFEFF ? 1 : 0;
+  let seenElement = false;
+  let nextProgress = PROGRESS_INTERVAL;
+  let expanded = 0;
+
+  const report = (message: string, offset: number = pos) => {
+    errors.push({ message, offset });
+    if (errors.length >= MAX_PARSE_ERRORS) throw new FatalParseError('Too many errors');
+  };
+
+  const fail = (message: string, offset: number = pos): never => {
+    errors.push({ message, offset });
+    throw new FatalParseError(message);
+  };
+
+  const readName = (): string => {
+    NAME_PATTERN.lastIndex = pos;
+    const match = NAME_PATTERN.exec(xml);
+    if (!match) return '';
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const skipWhitespace = (): boolean => {
+    const begin = pos;
+    while (pos < xml.length && (xml[pos] === ' ' || xml[pos] === '\t' || xml[pos] === '\n' || xml[pos] === '\r')) pos++;
+    return pos > begin;
+  };
+
+  // Replaces character and entity references; `normalize` applies to the literal text between them.
+  // A broken reference is reported and kept as written.
+  const decode = (raw: string, offset: number, depth: number, normalize: (text: string) => string): string => {
+    let amp = raw.indexOf('&');
+    if (amp === -1) return normalize(raw);
+
+    let result = '';
+    let last = 0;
+    while (amp !== -1) {
+      result += normalize(raw.slice(last, amp));
+      const semicolon = raw.indexOf(';', amp);
+      const reference = semicolon === -1 ? '' : raw.slice(amp + 1, semicolon);
+
+      if (!REFERENCE_PATTERN.test(reference)) {
+        report("'&' must start an entity reference such as &amp;", offset + amp);
+        result += '&';
+        last = amp + 1;
+      } else {
+        result += resolveReference(reference, offset + amp, depth);
+        last = semicolon + 1;
+      }
+      amp = raw.indexOf('&', last);
+    }
+    return result + normalize(raw.slice(last));
+  };
+
+  const resolveReference = (reference: string, offset: number, depth: number): string => {
+    if (reference[0] === '#') {
+      const code = reference[1] === 'x' ? parseInt(reference.slice(2), 16) : parseInt(reference.slice(1), 10);
+      if (isXmlChar(code)) return String.fromCodePoint(code);
+      report(`&${reference}; is not a valid character`, offset);
+    } else if (PREDEFINED_ENTITIES[reference] !== undefined) {
+      return PREDEFINED_ENTITIES[reference];
+    } else if (entities[reference] === undefined) {
+      report(`Undefined entity &${reference};`, offset);
+    } else if (depth > 8) {
+      report(`Entity &${reference}; expands recursively`, offset);
+    } else {
+      const value = decode(entities[reference], offset, depth + 1, text => text);
+      expanded += value.length;
+      if (expanded > MAX_ENTITY_EXPANSION) fail(`Entities expand to more than ${MAX_ENTITY_EXPANSION} characters`, offset);
+      return value;
+    }
+    return `&${reference};`;
+  };
+
+  const current = () => stack[stack.length - 1];
+
+  const rangeOf = (start: number, end: number): SourceRange => ({ start, end, ...locate(starts, start) });
 
-  const convertNode = (domNode: Element): XMLNode => {
-    const attributes: XMLAttribute[] = [];
-    if (domNode.hasAttributes()) {
-      for (let i = 0; i < domNode.attributes.length; i++) {
-        const attr = domNode.attributes[i];
-        attributes.push({ name: attr.name, value: attr.value });
+  const readStartTag = () => {
+    const start = pos;
+    pos++;
+    const name = readName();
+    if (!name) {
+      // A lone '<' in text; keep it as text so the rest still parses
+      report('Expected an element name after "<" (use &lt; for a literal "<")', start);
+      current().nodes.push({ type: 'text', id: '', value: '<', range: rangeOf(start, start + 1) });
+      return;
+    }
+
+    const raw: { name: string; value: string; offset: number; nameOffset: number; end: number }[] = [];
+    let selfClosing = false;
+    for (; ;) {
+      const hadWhitespace = skipWhitespace();
+      if (pos >= xml.length) fail(`Unterminated start tag <${name}>`, start);
+      if (xml[pos] === '>') {
+        pos++;
+        break;
+      }
+      if (xml.startsWith('/>', pos)) {
+        pos += 2;
+        selfClosing = true;
+        break;
+      }
+      if (xml[pos] === '<') {
+        report(`Start tag <${name}> is missing its ">"`, pos);
+        break;
+      }
+      if (!hadWhitespace) report(`Expected whitespace before attribute in <${name}>`);
+
+      const attrStart = pos;
+      const attrName = readName();
+      if (!attrName) {
+        report(`Unexpected character "${xml[pos]}" in <${name}>`);
+        pos++;
+        continue;
+      }
+      skipWhitespace();
+      if (xml[pos] !== '=') {
+        report(`Attribute ${attrName} in <${name}> has no value`, attrStart);
+        continue;
       }
+      pos++;
+      skipWhitespace();
+
+      let value: string;
+      let valueOffset: number;
+      const quote = xml[pos];
+      if (quote === '"' || quote === "'") {
+        const valueEnd = xml.indexOf(quote, pos + 1);
+        if (valueEnd === -1) fail(`Unterminated value for attribute ${attrName}`, pos);
+        valueOffset = pos + 1;
+        value = xml.slice(valueOffset, valueEnd);
+        pos = valueEnd + 1;
+      } else {
+        report(`Value of attribute ${attrName} must be quoted`);
+        valueOffset = pos;
+        while (pos < xml.length && !/[\s>]/.test(xml[pos]) && !xml.startsWith('/>', pos)) pos++;
+        value = xml.slice(valueOffset, pos);
+      }
+
+      const lt = value.indexOf('<');
+      if (lt !== -1) report(`"<" is not allowed in the value of attribute ${attrName}`, valueOffset + lt);
+      if (raw.some(attr => attr.name === attrName)) {
+        report(`Duplicate attribute ${attrName} in <${name}>`, attrStart);
+        continue;
+      }
+      raw.push({ name: attrName, value, offset: valueOffset, nameOffset: attrStart, end: pos });
     }
 
-    const children: XMLNode[] = [];
-    let content = "";
+    // Namespace declarations on the element apply to the element itself and its attributes
+    const parent = current();
+    let scope = parent.scope;
+    raw.forEach(attr => {
+      if (attr.name === 'xmlns' || attr.name.startsWith('xmlns:')) {
+        if (scope === parent.scope) scope = { ...scope };
+        scope[attr.name === 'xmlns' ? '' : attr.name.slice(6)] = decode(attr.value, attr.offset, 0, normalizeAttributeWhitespace);
+      }
+    });
+
+    const resolvePrefix = (prefix: string, offset: number): string | null => {
+      const uri = scope[prefix];
+      if (uri) return uri;
+      report(`Namespace prefix ${prefix} is not defined`, offset);
+      return null;
+    };
 
-    domNode.childNodes.forEach((child) => {
-      if (child.nodeType === Node.ELEMENT_NODE) {
-        children.push(convertNode(child as Element));
-      } else if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
-        const text = child.nodeValue?.trim();
-        if (text) {
-          content += text + " ";
-        }
+    const attributes: XMLAttribute[] = raw.map(attr => {
+      const value = decode(attr.value, attr.offset, 0, normalizeAttributeWhitespace);
+      const range = rangeOf(attr.nameOffset, attr.end);
+      if (attr.name === 'xmlns') {
+        return { name: attr.name, value, namespaceURI: XMLNS_NAMESPACE, prefix: null, localName: 'xmlns', range };
+      }
+      const parts = splitQualifiedName(attr.name);
+      if (!parts) {
+        report(`"${attr.name}" is not a valid attribute name`, attr.nameOffset);
+        return { name: attr.name, value, namespaceURI: null, prefix: null, localName: attr.name, range };
       }
+      const namespaceURI = parts.prefix === null
+        ? null
+        : parts.prefix === 'xmlns' ? XMLNS_NAMESPACE : resolvePrefix(parts.prefix, attr.nameOffset);
+      return { name: attr.name, value, namespaceURI, prefix: parts.prefix, localName: parts.localName, range };
     });
 
-    return {
-      id: generateId(),
-      name: domNode.nodeName,
+    let qualified = splitQualifiedName(name);
+    if (!qualified) {
+      report(`"${name}" is not a valid element name`, start + 1);
+      qualified = { prefix: null, localName: name };
+    }
+    const { prefix, localName } = qualified;
+    const element: OpenElement = {
+      name,
+      prefix,
+      localName,
+      namespaceURI: prefix === null ? scope[''] || null : resolvePrefix(prefix, start + 1),
       attributes,
-      children,
-      content: content.trim() || null,
+      nodes: [],
+      scope,
+      start,
     };
+
+    seenElement = true;
+    if (selfClosing) parent.nodes.push(closeElement(element, rangeOf(start, pos)));
+    else stack.push(element);
+  };
+
+  const readEndTag = () => {
+    const start = pos;
+    pos += 2;
+    const name = readName();
+    skipWhitespace();
+    if (xml[pos] === '>') {
+      pos++;
+    } else {
+      report(`Malformed end tag </${name}`, start);
+      const close = xml.indexOf('>', pos);
+      const next = xml.indexOf('<', pos);
+      pos = close !== -1 && (next === -1 || close < next) ? close + 1 : next === -1 ? xml.length : next;
+    }
+
+    // Close back to the matching open element; anything opened after it was never closed.
+    // With no matching element at all, the end tag itself is the mistake and is ignored.
+    let match = stack.length - 1;
+    while (match > 0 && stack[match].name !== name) match--;
+    if (match === 0) {
+      report(stack.length === 1
+        ? `Unexpected end tag </${name}> with no open element`
+        : `End tag </${name}> does not match <${current().name}>`, start);
+      return;
+    }
+    while (stack.length - 1 > match) {
+      const unclosed = stack.pop()!;
+      report(`Element <${unclosed.name}> is never closed`, unclosed.start);
+      current().nodes.push(closeElement(unclosed, rangeOf(unclosed.start, start)));
+    }
+    const open = stack.pop()!;
+    current().nodes.push(closeElement(open, rangeOf(open.start, pos)));
+  };
+
+  const readMarkup = () => {
+    if (xml.startsWith('<!--', pos)) {
+      const end = xml.indexOf('-->', pos + 4);
+      if (end === -1) fail('Unterminated comment', pos);
+      const value = xml.slice(pos + 4, end);
+      const dashes = value.indexOf('--');
+      if (dashes !== -1 || value.endsWith('-')) report('"--" is not allowed inside a comment', pos + 4 + (dashes === -1 ? value.length - 1 : dashes));
+      current().nodes.push({ type: 'comment', id: '', value: normalizeNewlines(value), range: rangeOf(pos, end + 3) });
+      pos = end + 3;
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      const end = xml.indexOf(']]>', pos + 9);
+      if (end === -1) fail('Unterminated CDATA section', pos);
+      current().nodes.push({ type: 'cdata', id: '', value: normalizeNewlines(xml.slice(pos + 9, end)), range: rangeOf(pos, end + 3) });
+      pos = end + 3;
+    } else if (xml.startsWith('<!DOCTYPE', pos)) {
+      const start = pos;
+      const end = doctypeEnd(xml, pos + 2);
+      if (xml[end - 1] !== '>') fail('Unterminated DOCTYPE', start);
+      pos = end;
+      if (seenElement || stack.length > 1) {
+        report('DOCTYPE is only allowed before the root element', start);
+        return;
+      }
+      const declaration = xml.slice(start, end);
+      for (const match of declaration.matchAll(ENTITY_DECLARATION)) {
+        if (entities[match[1]] === undefined) entities[match[1]] = match[2] ?? match[3];
+      }
+      // Kept for DTD validation; the tree itself only needs the entities
+      const parts = declaration.match(DOCTYPE_DECLARATION);
+      if (parts) {
+        doctype = {
+          name: parts[1],
+          publicId: parts[4] ?? parts[5] ?? null,
+          systemId: parts[2] ?? parts[3] ?? parts[6] ?? parts[7] ?? null,
+          internalSubset: parts[8] ?? null,
+          range: rangeOf(start, end),
+        };
+      }
+    } else if (xml.startsWith('<!', pos)) {
+      report('Unexpected markup declaration', pos);
+      const end = xml.indexOf('>', pos);
+      pos = end === -1 ? xml.length : end + 1;
+    } else {
+      readProcessingInstruction();
+    }
+  };
+
+  const readProcessingInstruction = () => {
+    const start = pos;
+    pos += 2;
+    const target = readName();
+    const end = xml.indexOf('?>', pos);
+    if (end === -1) fail(`Unterminated processing instruction <?${target}`, start);
+    const data = xml.slice(pos, end);
+    pos = end + 2;
+
+    if (!target) {
+      report('Expected a processing instruction target after "<?"', start + 2);
+      return;
+    }
+    if (data && !/^\s/.test(data)) report(`Expected whitespace after <?${target}`, start + 2 + target.length);
+
+    if (target.toLowerCase() === 'xml') {
+      // The XML declaration is not part of the tree; serializers write their own
+      if (xml.slice(0, start).trim() !== '') report('The XML declaration is only allowed at the very start of the document', start);
+      return;
+    }
+    current().nodes.push({ type: 'pi', id: '', target, value: normalizeNewlines(data.replace(/^\s+/, '')), range: rangeOf(start, pos) });
   };
 
   try {
-    const rootWrapper = doc.documentElement; // <__root__>
-    const convertedWrapper = convertNode(rootWrapper);
-
-    // Smart Unwrapping:
-    // If the wrapper has only one child element and no text/attributes (standard valid XML), return that child.
-    if (
-      convertedWrapper.children.length === 1 &&
-      (!convertedWrapper.content) &&
-      convertedWrapper.attributes.length === 0
-    ) {
-      return { root: convertedWrapper.children[0], error: null };
+    while (pos < xml.length) {
+      if (onProgress && pos >= nextProgress) {
+        onProgress(pos / xml.length);
+        nextProgress = pos + PROGRESS_INTERVAL;
+      }
+
+      const lt = xml.indexOf('<', pos);
+      if (lt !== pos) {
+        const end = lt === -1 ? xml.length : lt;
+        const raw = xml.slice(pos, end);
+        const cdataEnd = raw.indexOf(']]>');
+        if (cdataEnd !== -1) report('"]]>" is not allowed in text', pos + cdataEnd);
+        current().nodes.push({ type: 'text', id: '', value: decode(raw, pos, 0, normalizeNewlines), range: rangeOf(pos, end) });
+        pos = end;
+      } else if (xml.startsWith('<!', pos) || xml.startsWith('<?', pos)) {
+        readMarkup();
+      } else if (xml.startsWith('</', pos)) {
+        readEndTag();
+      } else {
+        readStartTag();
+      }
     }
 
-    // If it's a fragment (multiple roots), return the wrapper but rename it to 'root' or 'Document'
-    convertedWrapper.name = "root";
-    return { root: convertedWrapper, error: null };
+    while (stack.length > 1) {
+      const open = stack.pop()!;
+      report(`Element <${open.name}> is never closed`, open.start);
+      current().nodes.push(closeElement(open, rangeOf(open.start, xml.length)));
+    }
+  } catch (e) {
+    if (!(e instanceof FatalParseError)) throw e;
+  }
+
+  onProgress?.(1);
+  const root = closeElement(wrapper, rangeOf(0, xml.length));
+  root.id = '/';
+  assignIds(root.nodes, '');
+  return { wrapper: root, errors, doctype };
+};
 
+export const parseXML = (xmlString: string, options: ParseOptions = {}): ParseResult => {
+  if (!xmlString || xmlString.trim() === '') {
+    return { root: null, error: null };
+  }
+
+  const starts = lineStarts(xmlString);
+  let parsed: ReturnType<typeof parseContent>;
+  try {
+    parsed = parseContent(xmlString, starts, options.onProgress);
   } catch (e: any) {
     return { root: null, error: "Parsing error: " + e.message };
   }
+
+  if (parsed.errors.length > 0) {
+    const errors: ParseError[] = parsed.errors
+      .sort((a, b) => a.offset - b.offset)
+      .map(({ message, offset }) => ({ message, offset, ...locate(starts, offset) }));
+    const [first] = errors;
+    return { root: null, error: `Invalid XML: ${first.message} (line ${first.line}, column ${first.column})`, errors };
+  }
+
+  const convertedWrapper = parsed.wrapper;
+
+  // Smart Unwrapping:
+  // If the wrapper has only one child element and no text (standard valid XML), return that child.
+  // Comments and PIs around that single element are kept as the document prolog/epilog.
+  if (convertedWrapper.children.length === 1 && !convertedWrapper.content) {
+    const root = convertedWrapper.children[0];
+    const rootIndex = convertedWrapper.nodes.indexOf(root);
+    return {
+      root,
+      error: null,
+      prolog: convertedWrapper.nodes.slice(0, rootIndex),
+      epilog: convertedWrapper.nodes.slice(rootIndex + 1),
+      ...(parsed.doctype && { doctype: parsed.doctype }),
+    };
+  }
+
+  // If it's a fragment (multiple roots), return the wrapper but rename it to 'root'
+  convertedWrapper.name = "root";
+  convertedWrapper.localName = "root";
+  return { root: convertedWrapper, error: null, isFragment: true };
 };
 
+// xmlns and xmlns:* attributes declare namespaces rather than carry data
+export const isNamespaceDeclaration = (attr: XMLAttribute): boolean =>
+  attr.namespaceURI === XMLNS_NAMESPACE || attr.name === 'xmlns' || attr.name.startsWith('xmlns:');
 
-const escapeXML = (str: string): string => {
+// Text only needs markup characters escaped; quotes stay readable
+export const escapeText = (str: string): string => {
   return str.replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
+    .replace(/>/g, '&gt;');
+};
+
+// Tabs and line breaks become character references, since literal ones would read back as spaces
+export const escapeAttribute = (str: string): string => {
+  return escapeText(str).replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#9;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;');
+};
+
+const serializeChildNode = (child: XMLChildNode, level: number, inline: boolean): string => {
+  const indent = inline ? '' : '  '.repeat(level);
+  switch (child.type) {
+    case 'element':
+      return serializeXML(child, level, inline);
+    case 'text':
+      return inline ? escapeText(child.value) : indent + escapeText(child.value.trim());
+    case 'cdata':
+      return `${indent}<![CDATA[${child.value}]]>`;
+    case 'comment':
+      return `${indent}<!--${child.value}-->`;
+    case 'pi':
+      return `${indent}<?${child.target}${child.value ? ' ' + child.value : ''}?>`;
+  }
 };
 
-const serializeXML = (node: XMLNode, level: number = 0): string => {
-  const indent = '  '.repeat(level);
+export const serializeXML = (node: XMLNode, level: number = 0, inline: boolean = false): string => {
+  const indent = inline ? '' : '  '.repeat(level);
   let xml = `${indent}<${node.name}`;
 
   if (node.attributes.length > 0) {
     node.attributes.forEach(attr => {
-      xml += ` ${attr.name}="${escapeXML(attr.value)}"`;
+      xml += ` ${attr.name}="${escapeAttribute(attr.value)}"`;
     });
   }
 
-  const hasChildren = node.children.length > 0;
-  const hasContent = node.content !== null && node.content.length > 0;
-
-  if (!hasChildren && !hasContent) {
+  if (node.nodes.length === 0) {
     xml += '/>';
     return xml;
   }
 
   xml += '>';
 
-  if (hasContent) {
-    xml += escapeXML(node.content!);
-  }
+  // Text and CDATA are written exactly in place; adding line breaks around them would change the data.
+  const hasText = node.nodes.some(child => child.type === 'text' || child.type === 'cdata');
 
-  if (hasChildren) {
+  if (inline || hasText) {
+    node.nodes.forEach(child => {
+      xml += serializeChildNode(child, level + 1, true);
+    });
+  } else {
     xml += '\r\n';
-    node.children.forEach(child => {
-      xml += serializeXML(child, level + 1) + '\r\n';
+    node.nodes.forEach(child => {
+      xml += serializeChildNode(child, level + 1, false) + '\r\n';
     });
     xml += indent;
   }
@@ -129,51 +615,28 @@ const serializeXML = (node: XMLNode, level: number = 0): string => {
   return xml;
 };
 
-export const prettifyXML = (xml: string): string => {
-  const { root, error } = parseXML(xml);
-  if (error || !root) {
-    return xml; // Fallback to original if parsing fails
-  }
-
-  // Check for XML declaration in the original string
-  const declarationMatch = xml.match(/^\s*<\?xml[^>]*\?>/i);
-  let result = '';
+// XML declaration and DOCTYPE as written at the top of a source document
+export const documentHeader = (xml: string): string => {
+  const match = xml.match(/^\s*(<\?xml[^>]*\?>)?\s*(<!DOCTYPE[^>\[]*(\[[\s\S]*?\])?\s*>)?/i);
+  return match ? [match[1], match[2]].filter(Boolean).join('\r\n') : '';
+};
 
-  if (declarationMatch) {
-    result += declarationMatch[0] + '\r\n';
+// Writes a whole document back out. Fragments are unwrapped again so no synthetic <root> appears.
+export const serializeDocument = (
+  root: XMLNode,
+  { prolog = [], epilog = [], isFragment = false }: Omit<ParseResult, 'root' | 'error'>,
+  header: string = ''
+): string => {
+  const parts: string[] = [];
+  if (header) parts.push(header);
+  prolog.forEach(child => parts.push(serializeChildNode(child, 0, false)));
+  if (isFragment) {
+    root.nodes.forEach(child => parts.push(serializeChildNode(child, 0, false)));
   } else {
-    // Optional: Add default declaration if none exists? 
-    // For now, let's only preserve if it was there to avoid forcing it on fragments.
-    // Actually, user's example had it.
+    parts.push(serializeXML(root));
   }
-
-  // If the parsed root was a wrapper for a fragment, we might want to unwrap?
-  // parseXML logic: "If ... return { root: convertedWrapper.children[0] }" -> singular root
-  // "Else ... convertedWrapper.name = "root"; return { root: convertedWrapper }" -> fragment wrapper
-
-  // If parseXML returned a generated "root" wrapper that wasn't in original (implicit),
-  // we might be indenting everything under it.
-  // The current parseXML logic tries to be smart:
-  // if 1 child -> returns that child as root.
-  // if multiple -> returns wrapper named "root".
-
-  // If we have a wrapper named "root" that WAS generated (how do we know?), 
-  // we might want to serialize its CHILDREN instead of the root itself?
-  // `parseXML` doesn't explicitly flag "generated". 
-  // But standard XML has 1 root. 
-  // If `parseXML` returns a node named "root" with ID generated, check if input had <root>?
-  // Actually, valid XML 1.0 has exactly one root element. 
-  // If the user pasted a fragment (multiple top levels), `parseXML` wrapped it in `<root>`.
-  // If we serialize `<root>...</root>`, we change the content by adding a container.
-  // But `prettify` usually assumes a document.
-  // Let's stick to simple serialization of the Result Root. 
-  // If the user provided a fragment, they get it wrapped in a root, which makes it valid XML.
-  // Wait, if I paste `<a>...</a><b>...</b>`, parseXML returns `<root><a>...</a><b>...</b></root>`.
-  // Prettify will output `<root>...`. That seems acceptable for "Visualizer". 
-  // But for "Prettify" text transformation... maybe less so.
-  // But strictly, `<a></a><b></b>` is invalid XML document.
-
-  return result + serializeXML(root);
+  epilog.forEach(child => parts.push(serializeChildNode(child, 0, false)));
+  return parts.join('\r\n');
 };
 
 export const SAMPLE_XML = `<?xml version="1.0" encoding="UTF-8"?>
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML } from './utils';
+import { XMLNode } from './types';
+import { validateTree, checkSimpleValue, builtinType, SchemaError } from './validation';
+import { compileSchemas, xsdPattern } from './xsd';
+import { compileDtd } from './dtd';
+
+const parseRoot = (xml: string): XMLNode => {
+  const result = parseXML(xml);
+  if (!result.root) throw new Error(result.error || 'no root');
+  return result.root;
+};
+
+const validateXsd = (xml: string, ...schemas: string[]) =>
+  validateTree(parseRoot(xml), compileSchemas(schemas.map((source, i) => ({ name: `schema${i}.xsd`, source }))))
+    .map(({ message, path, line }) => ({ message, path, line }));
+
+const CATALOG_XSD = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="catalog">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="book" type="Book" maxOccurs="unbounded"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+  <xs:complexType name="Book">
+    <xs:sequence>
+      <xs:element name="title" type="xs:string"/>
+      <xs:choice>
+        <xs:element name="author" type="xs:string" maxOccurs="3"/>
+        <xs:element name="editor" type="xs:string"/>
+      </xs:choice>
+      <xs:element name="price" type="Price" minOccurs="0"/>
+    </xs:sequence>
+    <xs:attribute name="id" type="xs:ID" use="required"/>
+    <xs:attribute name="lang" type="Lang"/>
+  </xs:complexType>
+  <xs:simpleType name="Price">
+    <xs:restriction base="xs:decimal">
+      <xs:minInclusive value="0"/>
+      <xs:fractionDigits value="2"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="Lang">
+    <xs:restriction base="xs:string">
+      <xs:enumeration value="en"/>
+      <xs:enumeration value="fr"/>
+    </xs:restriction>
+  </xs:simpleType>
+</xs:schema>`;
+
+describe('XSD validation', () => {
+  it('accepts a valid document', () => {
+    expect(validateXsd(`<catalog>
+  <book id="b1" lang="en"><title>XML</title><author>A</author><author>B</author><price>10.50</price></book>
+  <book id="b2"><title>XSD</title><editor>C</editor></book>
+</catalog>`, CATALOG_XSD)).toEqual([]);
+  });
+
+  it('reports content, attribute and value errors with paths and lines', () => {
+    expect(validateXsd(`<catalog>
+  <book id="b1" lang="de" isbn="1"><title>XML</title><price>-1</price></book>
+  <book id="b1"><title>XSD</title><editor>C</editor><author>A</author></book>
+  <book><title>T</title><author>A</author><price>1.234</price></book>
+</catalog>`, CATALOG_XSD)).toEqual([
+      { message: 'Attribute "lang": "de" is not one of "en", "fr"', path: '/catalog/book[1]/@lang', line: 2 },
+      { message: 'Attribute "isbn" is not allowed on <book>', path: '/catalog/book[1]/@isbn', line: 2 },
+      { message: 'Unexpected element <price>; expected one of <author>, <editor>', path: '/catalog/book[1]/price', line: 2 },
+      { message: 'Duplicate ID "b1" (also used at /catalog/book[1]/@id)', path: '/catalog/book[2]/@id', line: 3 },
+      { message: 'Unexpected element <author>; expected <price>', path: '/catalog/book[2]/author', line: 3 },
+      { message: 'Missing required attribute "id" on <book>', path: '/catalog/book[3]', line: 4 },
+      { message: '<price>: "1.234" has more than 2 fraction digits', path: '/catalog/book[3]/price', line: 4 },
+    ]);
+  });
+
+  it('reports missing elements and an undeclared root', () => {
+    expect(validateXsd('<catalog><book id="x"><title>T</title></book></catalog>', CATALOG_XSD)).toEqual([
+      { message: '<book> is incomplete; expected one of <author>, <editor>', path: '/catalog/book', line: 1 },
+    ]);
+    expect(validateXsd('<library/>', CATALOG_XSD)[0].message).toBe('No declaration found for the root element <library>');
+  });
+
+  it('resolves namespaces, imports across files, extensions and substitution groups', () => {
+    const base = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" targetNamespace="urn:base" xmlns:b="urn:base" elementFormDefault="qualified">
+  <xs:complexType name="Named">
+    <xs:sequence><xs:element name="name" type="xs:string"/></xs:sequence>
+    <xs:attribute name="id" type="xs:int" use="required"/>
+  </xs:complexType>
+  <xs:element name="shape" abstract="true"/>
+  <xs:element name="circle" substitutionGroup="b:shape" type="xs:string"/>
+  <xs:element name="square" substitutionGroup="b:shape" type="xs:string"/>
+</xs:schema>`;
+    const main = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" targetNamespace="urn:main" xmlns:b="urn:base" xmlns="urn:main" elementFormDefault="qualified">
+  <xs:import namespace="urn:base" schemaLocation="base.xsd"/>
+  <xs:element name="drawing">
+    <xs:complexType>
+      <xs:complexContent>
+        <xs:extension base="b:Named">
+          <xs:sequence><xs:element ref="b:shape" maxOccurs="unbounded"/></xs:sequence>
+        </xs:extension>
+      </xs:complexContent>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`;
+    const valid = '<drawing xmlns="urn:main" xmlns:b="urn:base" id="1"><b:name>x</b:name><b:circle>r</b:circle><b:square>s</b:square></drawing>';
+    expect(validateXsd(valid, main, base)).toEqual([]);
+    expect(validateXsd('<drawing xmlns="urn:main" xmlns:b="urn:base" id="one"><name>x</name></drawing>', main, base)).toEqual([
+      { message: 'Attribute "id": "one" is not a valid int', path: '/drawing/@id', line: 1 },
+      { message: '<name> must be in namespace "urn:base", not namespace "urn:main"', path: '/drawing/name', line: 1 },
+    ]);
+  });
+
+  it('checks simple content, lists, unions and nil', () => {
+    const schema = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <xs:element name="r">
+    <xs:complexType><xs:all>
+      <xs:element name="amount">
+        <xs:complexType><xs:simpleContent>
+          <xs:extension base="xs:decimal"><xs:attribute name="currency" type="xs:string" fixed="EUR"/></xs:extension>
+        </xs:simpleContent></xs:complexType>
+      </xs:element>
+      <xs:element name="sizes"><xs:simpleType><xs:list itemType="xs:positiveInteger"/></xs:simpleType></xs:element>
+      <xs:element name="when"><xs:simpleType><xs:union memberTypes="xs:date xs:gYear"/></xs:simpleType></xs:element>
+      <xs:element name="note" type="xs:string" nillable="true" minOccurs="0"/>
+    </xs:all></xs:complexType>
+  </xs:element>
+</xs:schema>`;
+    const xsi = 'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"';
+    expect(validateXsd(`<r ${xsi}><sizes>1 2 3</sizes><when>2024</when><amount currency="EUR">1.5</amount><note xsi:nil="true"/></r>`, schema)).toEqual([]);
+    expect(validateXsd(`<r ${xsi}><amount currency="USD">x</amount><sizes>1 0</sizes><when>May</when><note xsi:nil="true">n</note></r>`, schema)
+      .map(issue => issue.message)).toEqual([
+      'Attribute "currency" must have the fixed value "EUR"',
+      '<amount>: "x" is not a valid decimal',
+      '<sizes>: "0" is not a valid positiveInteger',
+      '<when>: "May" is not valid for any member type of (anonymous type)',
+      '<note> is nil and must be empty',
+    ]);
+  });
+
+  it('reports schemas that cannot be compiled', () => {
+    expect(() => compileSchemas([{ name: 'a.xsd', source: '<schema/>' }])).toThrow('a.xsd is not an XML Schema');
+    expect(() => compileSchemas([{
+      name: 'b.xsd',
+      source: '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"><xs:element name="a" type="Missing"/></xs:schema>',
+    }])).toThrow(SchemaError);
+  });
+});
+
+describe('simple types', () => {
+  it('checks built-in lexical forms and ranges', () => {
+    expect(checkSimpleValue(builtinType('byte'), '128')).toBe('"128" is not a valid byte');
+    expect(checkSimpleValue(builtinType('boolean'), ' true ')).toBeNull();
+    expect(checkSimpleValue(builtinType('date'), '2024-02-29')).toBeNull();
+    expect(checkSimpleValue(builtinType('dateTime'), '2024-13-01T00:00:00')).not.toBeNull();
+    expect(checkSimpleValue(builtinType('duration'), 'P')).not.toBeNull();
+    expect(checkSimpleValue(builtinType('double'), '-INF')).toBeNull();
+  });
+
+  it('rejects days that do not exist in their month', () => {
+    expect(checkSimpleValue(builtinType('date'), '2024-02-30')).toBe('"2024-02-30" is not a valid date');
+    expect(checkSimpleValue(builtinType('date'), '2023-02-29Z')).not.toBeNull();
+    expect(checkSimpleValue(builtinType('date'), '1900-02-29')).not.toBeNull();
+    expect(checkSimpleValue(builtinType('date'), '2000-02-29')).toBeNull();
+    expect(checkSimpleValue(builtinType('date'), '2024-04-31')).not.toBeNull();
+    expect(checkSimpleValue(builtinType('dateTime'), '2024-06-31T12:00:00')).not.toBeNull();
+    expect(checkSimpleValue(builtinType('dateTime'), '2024-12-31T23:59:59+01:00')).toBeNull();
+  });
+
+  it('translates XSD patterns to anchored regular expressions', () => {
+    expect(xsdPattern('[A-Z]{2}\\d+').test('AB12')).toBe(true);
+    expect(xsdPattern('[A-Z]{2}\\d+').test('xAB12')).toBe(false);
+    expect(xsdPattern('\\i\\c*').test('ns:name-1')).toBe(true);
+    expect(xsdPattern('a$b').test('a$b')).toBe(true);
+  });
+});
+
+describe('DTD validation', () => {
+  const validateDtd = (xml: string) => {
+    const result = parseXML(xml);
+    const doctype = result.doctype!;
+    return validateTree(result.root!, compileDtd([doctype.internalSubset ?? ''], doctype.name)).map(issue => issue.message);
+  };
+
+  const DOCTYPE = `<!DOCTYPE note [
+  <!ENTITY % text "(#PCDATA)">
+  <!ELEMENT note (to+, from?, body)>
+  <!ELEMENT to %text;>
+  <!ELEMENT from %text;>
+  <!ELEMENT body (#PCDATA | b)*>
+  <!ELEMENT b (#PCDATA)>
+  <!ATTLIST note id ID #REQUIRED
+                 priority (low|high) "low"
+                 version CDATA #FIXED "1">
+  <!ATTLIST to ref IDREF #IMPLIED>
+]>`;
+
+  it('keeps the DOCTYPE on the parse result', () => {
+    const { doctype } = parseXML(`<?xml version="1.0"?>\n<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0//EN" "xhtml1.dtd"><html/>`);
+    expect(doctype).toMatchObject({ name: 'html', publicId: '-//W3C//DTD XHTML 1.0//EN', systemId: 'xhtml1.dtd', internalSubset: null });
+  });
+
+  it('accepts a valid document', () => {
+    expect(validateDtd(`${DOCTYPE}<note id="n1" priority="high"><to ref="n1">A</to><to>B</to><body>Hi <b>there</b></body></note>`)).toEqual([]);
+  });
+
+  it('reports content and attribute errors', () => {
+    expect(validateDtd(`${DOCTYPE}<note priority="urgent" version="2"><from>A</from><to ref="x">B<b/></to><body/><extra/></note>`)).toEqual([
+      'Attribute "priority": "urgent" is not one of "low", "high"',
+      'Attribute "version" must have the fixed value "1"',
+      'Missing required attribute "id" on <note>',
+      'Unexpected element <from>; expected <to>',
+      '<to> cannot contain elements',
+      'No element has the ID "x"',
+    ]);
+  });
+
+  it('checks the root against the DOCTYPE name', () => {
+    expect(validateDtd(`${DOCTYPE}<to>x</to>`)).toEqual(['The root element must be <note> as named in the DOCTYPE']);
+  });
+});
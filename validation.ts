@@ -0,0 +1,652 @@
+import { XMLNode, XMLAttribute } from './types';
+import { childGridStep } from './paths';
+
+// --- Validation ---
+// The grammar model shared by the XSD and DTD front ends (xsd.ts, dtd.ts) and the validator that
+// walks a parsed document against it. Content models are matched greedily: both XSD (unique
+// particle attribution) and DTDs (deterministic content models) guarantee that the next child
+// decides which particle it belongs to.
+
+export interface QName {
+  ns: string | null;
+  local: string;
+}
+
+export const qnameKey = (name: QName): string => (name.ns ? `{${name.ns}}${name.local}` : name.local);
+
+export interface Facets {
+  enumeration?: string[];
+  // Each derivation step adds a group; a value must match one pattern of every group
+  patterns?: { source: string; regex: RegExp }[][];
+  length?: number;
+  minLength?: number;
+  maxLength?: number;
+  minInclusive?: string;
+  maxInclusive?: string;
+  minExclusive?: string;
+  maxExclusive?: string;
+  totalDigits?: number;
+  fractionDigits?: number;
+  whiteSpace?: 'preserve' | 'replace' | 'collapse';
+}
+
+export interface SimpleType {
+  kind: 'simple';
+  // For messages: the type's name, or that of the type it restricts
+  name: string;
+  // The built-in type the value's lexical form is checked against (string, integer, date, ...)
+  builtin: string;
+  variety: 'atomic' | 'list' | 'union';
+  item?: SimpleType;
+  members?: SimpleType[];
+  facets: Facets;
+}
+
+export interface Wildcard {
+  // 'any', 'other' (not the target namespace, nor no namespace), or a list of allowed namespaces
+  namespaces: 'any' | 'other' | (string | null)[];
+  targetNamespace: string | null;
+  process: 'strict' | 'lax' | 'skip';
+}
+
+export interface AttributeUse {
+  name: QName;
+  type: SimpleType;
+  required: boolean;
+  fixed: string | null;
+}
+
+export interface ComplexType {
+  kind: 'complex';
+  name: string;
+  // 'any' is xs:anyType and DTD ANY: every attribute and child is allowed
+  content: 'empty' | 'simple' | 'elementOnly' | 'mixed' | 'any';
+  particle: Particle | null;
+  // The type of the text of simple content
+  simpleType: SimpleType | null;
+  attributes: AttributeUse[];
+  anyAttribute: Wildcard | null;
+}
+
+export type TypeDefinition = SimpleType | ComplexType;
+
+export interface ElementDeclaration {
+  name: QName;
+  // Resolved on first use: declarations may refer to types defined later or in another file
+  type: () => TypeDefinition;
+  nillable: boolean;
+  fixed: string | null;
+}
+
+export type Particle =
+  // A DTD content model may name an element that is never declared
+  | { kind: 'element'; name: QName; declaration: () => ElementDeclaration | null; min: number; max: number }
+  | { kind: 'any'; wildcard: Wildcard; min: number; max: number }
+  | { kind: 'sequence' | 'choice' | 'all'; particles: Particle[]; min: number; max: number };
+
+export interface Grammar {
+  // XSD matches names by namespace and local name; DTDs by the qualified name as written
+  namespaceAware: boolean;
+  // The declaration for a top-level element, or one allowed by a lax or strict wildcard
+  globalElement: (name: QName) => ElementDeclaration | null;
+  // A DTD names its root element in the DOCTYPE
+  rootName?: string;
+  // Looks up a type named by xsi:type
+  namedType?: (name: QName) => TypeDefinition | null;
+}
+
+export interface ValidationIssue {
+  message: string;
+  // Highlight key of the offending element or attribute, and its grid path
+  key: string;
+  path: string;
+  line: number | null;
+  column: number | null;
+}
+
+// Raised for schemas that cannot be read or refer to something that is not there
+export class SchemaError extends Error {}
+
+// --- Simple types ---
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+export const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+const NAME_START = 'A-Za-z_\\u00C0-\\uFFFF';
+const NAME_CHAR = `${NAME_START}0-9.\\-\\u00B7`;
+const NCNAME = `[${NAME_START}][${NAME_CHAR}]*`;
+const NCNAME_PATTERN = new RegExp(`^${NCNAME}$`);
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const FLOAT_PATTERN = /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|[+-]?INF|NaN)$/;
+const TIMEZONE = '(Z|[+-]\\d{2}:\\d{2})?';
+const DATE = '-?\\d{4,}-(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])';
+const TIME = '([01]\\d|2[0-3]):[0-5]\\d:[0-5]\\d(\\.\\d+)?|24:00:00(\\.0+)?';
+
+const integerRange = (min: bigint | null, max: bigint | null) => (value: string): boolean => {
+  if (!INTEGER_PATTERN.test(value)) return false;
+  const number = BigInt(value);
+  return (min === null || number >= min) && (max === null || number <= max);
+};
+
+const listOf = (check: (value: string) => boolean) => (value: string): boolean => {
+  const items = value.split(' ').filter(Boolean);
+  return items.length > 0 && items.every(check);
+};
+
+const anything = () => true;
+const pattern = (regex: RegExp) => (value: string) => regex.test(value);
+
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// The pattern only bounds the day by 31; the day must also exist in its month, and 29 February
+// only in leap years
+const calendarDate = (regex: RegExp) => (value: string): boolean => {
+  if (!regex.test(value)) return false;
+  const [, year, month, day] = /^-?(\d+)-(\d{2})-(\d{2})/.exec(value)!.map(Number);
+  const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+  return day <= (month === 2 && !leap ? 28 : DAYS_IN_MONTH[month - 1]);
+};
+
+// Lexical checks of the built-in types, applied after whitespace is normalized
+const BUILTIN_CHECKS: Record<string, (value: string) => boolean> = {
+  anySimpleType: anything,
+  anyAtomicType: anything,
+  string: anything,
+  normalizedString: anything,
+  token: anything,
+  language: pattern(/^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/),
+  Name: pattern(new RegExp(`^[${NAME_START}:][${NAME_CHAR}:]*$`)),
+  NCName: pattern(NCNAME_PATTERN),
+  ID: pattern(NCNAME_PATTERN),
+  IDREF: pattern(NCNAME_PATTERN),
+  IDREFS: listOf(pattern(NCNAME_PATTERN)),
+  ENTITY: pattern(NCNAME_PATTERN),
+  ENTITIES: listOf(pattern(NCNAME_PATTERN)),
+  NMTOKEN: pattern(new RegExp(`^[${NAME_CHAR}:]+$`)),
+  NMTOKENS: listOf(pattern(new RegExp(`^[${NAME_CHAR}:]+$`))),
+  QName: pattern(new RegExp(`^(${NCNAME}:)?${NCNAME}$`)),
+  NOTATION: pattern(new RegExp(`^(${NCNAME}:)?${NCNAME}$`)),
+  anyURI: pattern(/^[^\s]*$/),
+  boolean: pattern(/^(true|false|1|0)$/),
+  decimal: pattern(DECIMAL_PATTERN),
+  integer: integerRange(null, null),
+  long: integerRange(-(2n ** 63n), 2n ** 63n - 1n),
+  int: integerRange(-(2n ** 31n), 2n ** 31n - 1n),
+  short: integerRange(-32768n, 32767n),
+  byte: integerRange(-128n, 127n),
+  nonNegativeInteger: integerRange(0n, null),
+  positiveInteger: integerRange(1n, null),
+  nonPositiveInteger: integerRange(null, 0n),
+  negativeInteger: integerRange(null, -1n),
+  unsignedLong: integerRange(0n, 2n ** 64n - 1n),
+  unsignedInt: integerRange(0n, 2n ** 32n - 1n),
+  unsignedShort: integerRange(0n, 65535n),
+  unsignedByte: integerRange(0n, 255n),
+  float: pattern(FLOAT_PATTERN),
+  double: pattern(FLOAT_PATTERN),
+  duration: (value) => /^-?P(?=\d|T\d)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value),
+  dateTime: calendarDate(new RegExp(`^${DATE}T(${TIME})${TIMEZONE}$`)),
+  date: calendarDate(new RegExp(`^${DATE}${TIMEZONE}$`)),
+  time: pattern(new RegExp(`^(${TIME})${TIMEZONE}$`)),
+  gYear: pattern(new RegExp(`^-?\\d{4,}${TIMEZONE}$`)),
+  gYearMonth: pattern(new RegExp(`^-?\\d{4,}-(0[1-9]|1[0-2])${TIMEZONE}$`)),
+  gMonth: pattern(new RegExp(`^--(0[1-9]|1[0-2])${TIMEZONE}$`)),
+  gMonthDay: pattern(new RegExp(`^--(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])${TIMEZONE}$`)),
+  gDay: pattern(new RegExp(`^---(0[1-9]|[12]\\d|3[01])${TIMEZONE}$`)),
+  hexBinary: pattern(/^([0-9a-fA-F]{2})*$/),
+  base64Binary: pattern(/^[A-Za-z0-9+/= ]*$/),
+};
+
+const NUMERIC_TYPES = new Set([
+  'decimal', 'integer', 'long', 'int', 'short', 'byte', 'nonNegativeInteger', 'positiveInteger', 'nonPositiveInteger',
+  'negativeInteger', 'unsignedLong', 'unsignedInt', 'unsignedShort', 'unsignedByte', 'float', 'double',
+]);
+
+// Types other than string and normalizedString collapse whitespace
+const defaultWhiteSpace = (builtin: string): Facets['whiteSpace'] =>
+  builtin === 'string' || builtin === 'anySimpleType' ? 'preserve' : builtin === 'normalizedString' ? 'replace' : 'collapse';
+
+export const isBuiltinType = (name: QName): boolean => name.ns === XSD_NAMESPACE && name.local in BUILTIN_CHECKS;
+
+export const builtinType = (local: string): SimpleType => ({ kind: 'simple', name: `xs:${local}`, builtin: local, variety: 'atomic', facets: {} });
+
+const normalizeWhiteSpace = (value: string, mode: Facets['whiteSpace']): string => {
+  if (mode === 'replace') return value.replace(/[\t\n\r]/g, ' ');
+  if (mode === 'collapse') return value.replace(/[\t\n\r ]+/g, ' ').trim();
+  return value;
+};
+
+const compareValues = (builtin: string, a: string, b: string): number => {
+  if (NUMERIC_TYPES.has(builtin)) return Number(a) - Number(b);
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const quote = (value: string): string => `"${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+
+// Checks a value against a simple type; returns why it is invalid, or null
+export const checkSimpleValue = (type: SimpleType, raw: string): string | null => {
+  const facets = type.facets;
+  const value = normalizeWhiteSpace(raw, facets.whiteSpace ?? (type.variety === 'atomic' ? defaultWhiteSpace(type.builtin) : 'collapse'));
+
+  if (type.variety === 'list') {
+    const items = value.split(' ').filter(Boolean);
+    for (const item of items) {
+      const problem = checkSimpleValue(type.item!, item);
+      if (problem) return problem;
+    }
+    const length = items.length;
+    if (facets.length !== undefined && length !== facets.length) return `${quote(value)} must have ${facets.length} items`;
+    if (facets.minLength !== undefined && length < facets.minLength) return `${quote(value)} must have at least ${facets.minLength} items`;
+    if (facets.maxLength !== undefined && length > facets.maxLength) return `${quote(value)} must have at most ${facets.maxLength} items`;
+  } else if (type.variety === 'union') {
+    if (!type.members!.some(member => checkSimpleValue(member, value) === null)) {
+      return `${quote(value)} is not valid for any member type of ${type.name}`;
+    }
+  } else {
+    const check = BUILTIN_CHECKS[type.builtin] ?? anything;
+    if (!check(value)) return `${quote(value)} is not a valid ${type.builtin}`;
+    const length = Array.from(value).length;
+    if (facets.length !== undefined && length !== facets.length) return `${quote(value)} must be exactly ${facets.length} characters long`;
+    if (facets.minLength !== undefined && length < facets.minLength) return `${quote(value)} is shorter than ${facets.minLength} characters`;
+    if (facets.maxLength !== undefined && length > facets.maxLength) return `${quote(value)} is longer than ${facets.maxLength} characters`;
+    const compare = (bound: string) => compareValues(type.builtin, value, bound);
+    if (facets.minInclusive !== undefined && compare(facets.minInclusive) < 0) return `${quote(value)} is less than the minimum ${facets.minInclusive}`;
+    if (facets.maxInclusive !== undefined && compare(facets.maxInclusive) > 0) return `${quote(value)} is greater than the maximum ${facets.maxInclusive}`;
+    if (facets.minExclusive !== undefined && compare(facets.minExclusive) <= 0) return `${quote(value)} must be greater than ${facets.minExclusive}`;
+    if (facets.maxExclusive !== undefined && compare(facets.maxExclusive) >= 0) return `${quote(value)} must be less than ${facets.maxExclusive}`;
+    if (facets.totalDigits !== undefined || facets.fractionDigits !== undefined) {
+      const [whole, fraction = ''] = value.replace(/^[+-]/, '').split('.');
+      const fractionDigits = fraction.replace(/0+$/, '').length;
+      const totalDigits = whole.replace(/^0+/, '').length + fractionDigits;
+      if (facets.totalDigits !== undefined && totalDigits > facets.totalDigits) return `${quote(value)} has more than ${facets.totalDigits} digits`;
+      if (facets.fractionDigits !== undefined && fractionDigits > facets.fractionDigits) return `${quote(value)} has more than ${facets.fractionDigits} fraction digits`;
+    }
+  }
+
+  if (facets.enumeration && !facets.enumeration.includes(value)) {
+    const options = facets.enumeration.slice(0, 8).map(quote).join(', ');
+    return `${quote(value)} is not one of ${options}${facets.enumeration.length > 8 ? ', …' : ''}`;
+  }
+  for (const group of facets.patterns ?? []) {
+    if (!group.some(({ regex }) => regex.test(value))) return `${quote(value)} does not match the pattern ${group.map(p => p.source).join(' | ')}`;
+  }
+  return null;
+};
+
+// --- Content models ---
+const emptiableCache = new WeakMap<Particle, boolean>();
+
+const isEmptiable = (particle: Particle): boolean => {
+  if (particle.min === 0) return true;
+  const cached = emptiableCache.get(particle);
+  if (cached !== undefined) return cached;
+  let result = false;
+  if (particle.kind === 'sequence' || particle.kind === 'all') result = particle.particles.every(isEmptiable);
+  else if (particle.kind === 'choice') result = particle.particles.some(isEmptiable);
+  emptiableCache.set(particle, result);
+  return result;
+};
+
+const wildcardAllows = (wildcard: Wildcard, ns: string | null): boolean => {
+  if (wildcard.namespaces === 'any') return true;
+  if (wildcard.namespaces === 'other') return ns !== null && ns !== wildcard.targetNamespace;
+  return wildcard.namespaces.includes(ns);
+};
+
+// Names a particle can start with, for "expected ..." messages; null stands for a wildcard
+const firstNames = (particle: Particle): (QName | null)[] => {
+  switch (particle.kind) {
+    case 'element': return [particle.name];
+    case 'any': return [null];
+    case 'sequence': {
+      const names: (QName | null)[] = [];
+      for (const child of particle.particles) {
+        names.push(...firstNames(child));
+        if (!isEmptiable(child)) break;
+      }
+      return names;
+    }
+    default: return particle.particles.flatMap(firstNames);
+  }
+};
+
+type Assignment = { declaration: ElementDeclaration | null } | { wildcard: Wildcard } | null;
+
+interface MatchFailure {
+  // Index of the child where matching stopped (children.length when elements are missing)
+  position: number;
+  expected: (QName | null)[];
+}
+
+// Pairs each child element with the particle it matches. Returns the assignments, or where and
+// why the children do not fit the model.
+const matchContent = (
+  particle: Particle,
+  children: XMLNode[],
+  nameOf: (node: XMLNode) => QName
+): { assignments: Assignment[]; failure: MatchFailure | null } => {
+  const assignments: Assignment[] = children.map(() => null);
+  let position = 0;
+  let failure: MatchFailure | null = null;
+  // Names that could have come next where a repetition stopped, for a leftover child's message
+  let stoppedAt = -1;
+  let stoppedExpected: (QName | null)[] = [];
+
+  const names = children.map(nameOf);
+  const sameName = (a: QName, b: QName) => a.local === b.local && a.ns === b.ns;
+
+  const canStart = (p: Particle, index: number): boolean => {
+    if (index >= children.length) return false;
+    switch (p.kind) {
+      case 'element': return sameName(p.name, names[index]);
+      case 'any': return wildcardAllows(p.wildcard, names[index].ns);
+      case 'sequence':
+        for (const child of p.particles) {
+          if (canStart(child, index)) return true;
+          if (!isEmptiable(child)) return false;
+        }
+        return false;
+      default: return p.particles.some(child => canStart(child, index));
+    }
+  };
+
+  const fail = (expected: (QName | null)[]): false => {
+    if (!failure) failure = { position, expected };
+    return false;
+  };
+
+  const noteStop = (p: Particle) => {
+    if (position > stoppedAt) {
+      stoppedAt = position;
+      stoppedExpected = [];
+    }
+    if (position === stoppedAt) stoppedExpected.push(...firstNames(p));
+  };
+
+  const once = (p: Particle): boolean => {
+    switch (p.kind) {
+      case 'element':
+        if (!canStart(p, position)) return fail(firstNames(p));
+        assignments[position++] = { declaration: p.declaration() };
+        return true;
+      case 'any':
+        if (!canStart(p, position)) return fail(firstNames(p));
+        assignments[position++] = { wildcard: p.wildcard };
+        return true;
+      case 'sequence':
+        return p.particles.every(repeat);
+      case 'choice': {
+        const branch = p.particles.find(child => canStart(child, position));
+        if (branch) return repeat(branch);
+        if (p.particles.some(isEmptiable)) {
+          noteStop(p);
+          return true;
+        }
+        return fail(firstNames(p));
+      }
+      case 'all': {
+        const used = new Set<Particle>();
+        for (;;) {
+          const next = p.particles.find(child => !used.has(child) && canStart(child, position));
+          if (!next) break;
+          used.add(next);
+          if (!repeat(next)) return false;
+        }
+        const missing = p.particles.filter(child => !used.has(child) && !isEmptiable(child));
+        if (missing.length) return fail(missing.flatMap(firstNames));
+        p.particles.filter(child => !used.has(child)).forEach(noteStop);
+        return true;
+      }
+    }
+  };
+
+  const repeat = (p: Particle): boolean => {
+    let count = 0;
+    while (count < p.max) {
+      if (!canStart(p, position)) {
+        if (count >= p.min || isEmptiable(p)) {
+          if (count < p.max) noteStop(p);
+          return true;
+        }
+        return fail(firstNames(p));
+      }
+      const before = position;
+      if (!once(p)) return false;
+      count++;
+      if (position === before) break;
+    }
+    return true;
+  };
+
+  if (repeat(particle) && position < children.length) {
+    failure = { position, expected: stoppedAt === position ? stoppedExpected : [] };
+  }
+  return { assignments, failure };
+};
+
+// --- Validator ---
+const isWhitespace = (text: string) => /^[\s]*$/.test(text);
+
+const directText = (element: XMLNode): string =>
+  element.nodes.filter(child => child.type === 'text' || child.type === 'cdata').map(child => (child as { value: string }).value).join('');
+
+const describeExpected = (expected: (QName | null)[]): string => {
+  const unique = Array.from(new Set(expected.map(name => (name ? `<${name.local}>` : 'any element'))));
+  if (unique.length === 0) return '';
+  if (unique.length === 1) return unique[0];
+  return `one of ${unique.slice(0, 6).join(', ')}${unique.length > 6 ? ', …' : ''}`;
+};
+
+const MAX_ISSUES = 1000;
+
+export const validateTree = (root: XMLNode, grammar: Grammar): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const ids = new Map<string, string>();
+  const idRefs: { value: string; key: string; path: string; range: XMLNode['range'] }[] = [];
+
+  const report = (message: string, key: string, path: string, range: XMLNode['range']) => {
+    if (issues.length >= MAX_ISSUES) return;
+    issues.push({ message, key, path, line: range ? range.line : null, column: range ? range.column : null });
+  };
+
+  const elementName = (node: XMLNode): QName =>
+    grammar.namespaceAware ? { ns: node.namespaceURI, local: node.localName } : { ns: null, local: node.name };
+
+  const attributeName = (attr: XMLAttribute): QName =>
+    grammar.namespaceAware ? { ns: attr.namespaceURI, local: attr.localName } : { ns: null, local: attr.name };
+
+  const isInfrastructure = (attr: XMLAttribute): boolean =>
+    attr.name === 'xmlns' || attr.name.startsWith('xmlns:') || (grammar.namespaceAware && attr.namespaceURI === XSI_NAMESPACE);
+
+  // ID and IDREF values are checked across the whole document
+  const trackIdentity = (type: SimpleType, value: string, key: string, path: string, range: XMLNode['range']) => {
+    const builtin = type.variety === 'list' ? type.item?.builtin : type.builtin;
+    const values = value.split(/\s+/).filter(Boolean);
+    if (builtin === 'ID') {
+      values.forEach(id => {
+        if (ids.has(id)) report(`Duplicate ID "${id}" (also used at ${ids.get(id)})`, key, path, range);
+        else ids.set(id, path);
+      });
+    } else if (builtin === 'IDREF' || builtin === 'IDREFS' || type.builtin === 'IDREFS') {
+      values.forEach(ref => idRefs.push({ value: ref, key, path, range }));
+    }
+  };
+
+  const checkValue = (type: SimpleType, value: string, subject: string, key: string, path: string, range: XMLNode['range']) => {
+    const problem = checkSimpleValue(type, value);
+    if (problem) report(`${subject}: ${problem}`, key, path, range);
+    else trackIdentity(type, value, key, path, range);
+  };
+
+  const validateAttributes = (node: XMLNode, type: ComplexType, path: string) => {
+    const declared = new Map(type.attributes.map(use => [qnameKey(use.name), use]));
+    const present = new Set<string>();
+
+    node.attributes.forEach(attr => {
+      if (isInfrastructure(attr)) return;
+      const key = `${node.id}/@${attr.name}`;
+      const attrPath = `${path}/@${attr.name}`;
+      const range = attr.range ?? node.range;
+      const name = qnameKey(attributeName(attr));
+      present.add(name);
+      const use = declared.get(name);
+      if (!use) {
+        if (type.content === 'any') return;
+        if (!type.anyAttribute || !wildcardAllows(type.anyAttribute, attributeName(attr).ns)) {
+          report(`Attribute "${attr.name}" is not allowed on <${node.name}>`, key, attrPath, range);
+        }
+        return;
+      }
+      if (use.fixed !== null && attr.value !== use.fixed) {
+        report(`Attribute "${attr.name}" must have the fixed value "${use.fixed}"`, key, attrPath, range);
+        return;
+      }
+      checkValue(use.type, attr.value, `Attribute "${attr.name}"`, key, attrPath, range);
+    });
+
+    type.attributes.forEach(use => {
+      if (use.required && !present.has(qnameKey(use.name))) {
+        report(`Missing required attribute "${use.name.local}" on <${node.name}>`, node.id, path, node.range);
+      }
+    });
+  };
+
+  const xsiAttribute = (node: XMLNode, local: string): XMLAttribute | undefined =>
+    grammar.namespaceAware ? node.attributes.find(attr => attr.namespaceURI === XSI_NAMESPACE && attr.localName === local) : undefined;
+
+  // Children with no particle of their own (under xs:anyType, ANY or a lax wildcard) are
+  // validated if the grammar declares them and skipped otherwise
+  const validateLax = (child: XMLNode, path: string) => {
+    const declaration = grammar.globalElement(elementName(child));
+    if (declaration) validateElement(child, declaration, path);
+    else child.children.forEach(grandchild => validateLax(grandchild, `${path}/${childGridStep(child, grandchild)}`));
+  };
+
+  const validateElement = (node: XMLNode, declaration: ElementDeclaration, path: string) => {
+    if (issues.length >= MAX_ISSUES) return;
+    let type = declaration.type();
+
+    const typeOverride = xsiAttribute(node, 'type');
+    if (typeOverride && grammar.namedType) {
+      const [prefix, local] = typeOverride.value.includes(':') ? typeOverride.value.split(':') : [null, typeOverride.value];
+      const ns = prefix ? lookupNamespace(node, prefix) : lookupNamespace(node, '');
+      const override = grammar.namedType({ ns, local });
+      if (override) type = override;
+      else report(`Unknown xsi:type "${typeOverride.value}"`, node.id, path, node.range);
+    }
+
+    const nil = xsiAttribute(node, 'nil');
+    if (nil && (nil.value === 'true' || nil.value === '1')) {
+      if (!declaration.nillable) report(`<${node.name}> is not nillable`, node.id, path, node.range);
+      else if (node.children.length || !isWhitespace(directText(node))) report(`<${node.name}> is nil and must be empty`, node.id, path, node.range);
+      if (type.kind === 'complex') validateAttributes(node, type, path);
+      return;
+    }
+
+    const text = directText(node);
+
+    if (type.kind === 'simple') {
+      node.attributes.forEach(attr => {
+        if (!isInfrastructure(attr)) {
+          report(`Attribute "${attr.name}" is not allowed on <${node.name}>`, `${node.id}/@${attr.name}`, `${path}/@${attr.name}`, attr.range ?? node.range);
+        }
+      });
+      if (node.children.length) {
+        report(`<${node.name}> has a simple type and cannot contain elements`, node.id, path, node.range);
+        return;
+      }
+      if (declaration.fixed !== null && text !== declaration.fixed) {
+        report(`<${node.name}> must have the fixed value "${declaration.fixed}"`, node.id, path, node.range);
+      } else {
+        checkValue(type, text, `<${node.name}>`, node.id, path, node.range);
+      }
+      return;
+    }
+
+    validateAttributes(node, type, path);
+    const childPath = (child: XMLNode) => `${path}/${childGridStep(node, child)}`;
+
+    switch (type.content) {
+      case 'any':
+        node.children.forEach(child => validateLax(child, childPath(child)));
+        return;
+      case 'simple':
+        if (node.children.length) {
+          report(`<${node.name}> has simple content and cannot contain elements`, node.id, path, node.range);
+        } else if (type.simpleType) {
+          checkValue(type.simpleType, text, `<${node.name}>`, node.id, path, node.range);
+        }
+        return;
+      case 'empty':
+        if (node.children.length || !isWhitespace(text)) report(`<${node.name}> must be empty`, node.id, path, node.range);
+        return;
+      default:
+        if (type.content === 'elementOnly' && !isWhitespace(text)) {
+          report(`<${node.name}> cannot contain text`, node.id, path, node.range);
+        }
+    }
+
+    if (!type.particle) {
+      if (node.children.length) report(`<${node.name}> cannot contain elements`, node.id, path, node.range);
+      return;
+    }
+
+    const { assignments, failure } = matchContent(type.particle, node.children, elementName);
+    if (failure) {
+      const expected = describeExpected(failure.expected);
+      const child = node.children[failure.position];
+      const name = child && elementName(child);
+      // The right name in the wrong namespace would otherwise read as "expected <x>" for an <x>
+      const namesake = name && failure.expected.find(candidate => candidate && candidate.local === name.local && candidate.ns !== name.ns);
+      if (namesake) {
+        const namespace = (ns: string | null) => (ns ? `namespace "${ns}"` : 'no namespace');
+        report(`<${child.name}> must be in ${namespace(namesake.ns)}, not ${namespace(name.ns)}`, child.id, childPath(child), child.range);
+      } else if (child) {
+        report(`Unexpected element <${child.name}>${expected ? `; expected ${expected}` : ` in <${node.name}>`}`, child.id, childPath(child), child.range);
+      } else {
+        report(`<${node.name}> is incomplete; expected ${expected}`, node.id, path, node.range);
+      }
+    }
+
+    node.children.forEach((child, index) => {
+      const assignment = assignments[index];
+      // Children past a content model error still get checked where the grammar declares them
+      if (!assignment) {
+        validateLax(child, childPath(child));
+        return;
+      }
+      if ('declaration' in assignment) {
+        if (assignment.declaration) validateElement(child, assignment.declaration, childPath(child));
+        else report(`No declaration found for <${child.name}>`, child.id, childPath(child), child.range);
+      } else if (assignment.wildcard.process !== 'skip') {
+        const declaration = grammar.globalElement(elementName(child));
+        if (declaration) validateElement(child, declaration, childPath(child));
+        else if (assignment.wildcard.process === 'strict') report(`No declaration found for <${child.name}>`, child.id, childPath(child), child.range);
+      }
+    });
+  };
+
+  const rootPath = `/${root.name}`;
+  if (grammar.rootName !== undefined && grammar.rootName !== root.name) {
+    report(`The root element must be <${grammar.rootName}> as named in the DOCTYPE`, root.id, rootPath, root.range);
+  }
+  const rootDeclaration = grammar.globalElement(elementName(root));
+  if (!rootDeclaration) {
+    report(`No declaration found for the root element <${root.name}>`, root.id, rootPath, root.range);
+    return issues;
+  }
+  validateElement(root, rootDeclaration, rootPath);
+
+  idRefs.forEach(ref => {
+    if (!ids.has(ref.value)) report(`No element has the ID "${ref.value}"`, ref.key, ref.path, ref.range);
+  });
+  return issues;
+};
+
+// The namespace bound to a prefix ('' for the default namespace) where an element sits
+const lookupNamespace = (node: XMLNode, prefix: string): string | null => {
+  // Elements know their own namespace; for other prefixes look at the declarations on the element
+  if ((node.prefix ?? '') === prefix) return node.namespaceURI;
+  const declaration = node.attributes.find(attr => (prefix ? attr.name === `xmlns:${prefix}` : attr.name === 'xmlns'));
+  return declaration ? declaration.value || null : null;
+};
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Bundles the xmlgrid command line tool into a single file for Node
+export default defineConfig({
+  build: {
+    ssr: 'xmlgrid.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'xmlgrid.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -0,0 +1,84 @@
+import { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
+
+// --- Windowed Rendering ---
+// Long lists (table rows, runs of sibling nodes) only mount the items near the viewport of the grid's
+// scroll area. Items are treated as equally tall: the average height of the rendered ones sizes the
+// spacers that stand in for the rest.
+
+export const WINDOWING_THRESHOLD = 200;
+const OVERSCAN = 20;
+const INITIAL_ITEMS = 60;
+const DEFAULT_ITEM_HEIGHT = 28;
+
+// The element that scrolls the grid carries this attribute
+const SCROLLER_SELECTOR = '[data-grid-scroller]';
+
+export const useWindowedList = <T extends HTMLElement>(count: number, active: boolean) => {
+  const enabled = active && count > WINDOWING_THRESHOLD;
+  const containerRef = useRef<T>(null);
+  const [itemHeight, setItemHeight] = useState(DEFAULT_ITEM_HEIGHT);
+  const [range, setRange] = useState({ start: 0, end: INITIAL_ITEMS });
+
+  const update = useCallback(() => {
+    const container = containerRef.current;
+    const scroller = container?.closest<HTMLElement>(SCROLLER_SELECTOR);
+    if (!container || !scroller) return;
+    // How far the top of the list sits above the top of the viewport
+    const offset = scroller.getBoundingClientRect().top - container.getBoundingClientRect().top;
+    const start = Math.min(count, Math.max(0, Math.floor(offset / itemHeight) - OVERSCAN));
+    const end = Math.min(count, Math.max(start, Math.ceil((offset + scroller.clientHeight) / itemHeight) + OVERSCAN));
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [count, itemHeight]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const scroller = containerRef.current?.closest<HTMLElement>(SCROLLER_SELECTOR);
+    if (!scroller) return;
+    let frame = 0;
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    scroller.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      scroller.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [enabled, update]);
+
+  // Re-measure after every render; rows grow when something inside them is expanded
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+    const items = Array.from(container.children).filter(child => !(child as HTMLElement).dataset.spacer);
+    if (items.length < 2) return;
+    const span = items[items.length - 1].getBoundingClientRect().bottom - items[0].getBoundingClientRect().top;
+    const height = span / items.length;
+    if (height > 0 && Math.abs(height - itemHeight) > 1) setItemHeight(height);
+  });
+
+  // Mounts the item right away and scrolls it to the middle of the viewport
+  const scrollToIndex = useCallback((index: number) => {
+    const container = containerRef.current;
+    const scroller = container?.closest<HTMLElement>(SCROLLER_SELECTOR);
+    if (!container || !scroller) return;
+    setRange({ start: Math.max(0, index - OVERSCAN), end: Math.min(count, index + OVERSCAN) });
+    scroller.scrollTop += container.getBoundingClientRect().top + index * itemHeight
+      - scroller.getBoundingClientRect().top - scroller.clientHeight / 2;
+  }, [count, itemHeight]);
+
+  const end = enabled ? Math.min(count, range.end) : count;
+  const start = enabled ? Math.min(range.start, end) : 0;
+  return {
+    containerRef,
+    enabled,
+    start,
+    end,
+    paddingTop: start * itemHeight,
+    paddingBottom: (count - end) * itemHeight,
+    scrollToIndex,
+  };
+};
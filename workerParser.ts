@@ -0,0 +1,53 @@
+import { ParseResult } from './types';
+import { parseXML } from './utils';
+
+// --- Background Parsing ---
+// Large documents are parsed in a Web Worker so the page stays responsive and the parse can be
+// cancelled. Small ones are not worth the round trip (and the structured clone of the tree).
+
+export const WORKER_PARSE_THRESHOLD = 256 * 1024;
+
+export interface ParseTask {
+  // Resolves with null when the task was cancelled
+  promise: Promise<ParseResult | null>;
+  cancel: () => void;
+}
+
+type WorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; result: ParseResult };
+
+export const parseInWorker = (xml: string, onProgress: (fraction: number) => void): ParseTask => {
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    // No worker support (e.g. a file:// page): parse in place instead
+    return { promise: Promise.resolve(parseXML(xml)), cancel: () => { } };
+  }
+
+  let settle: (result: ParseResult | null) => void = () => { };
+  const promise = new Promise<ParseResult | null>(resolve => { settle = resolve; });
+
+  worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    if (event.data.type === 'progress') {
+      onProgress(event.data.fraction);
+    } else {
+      worker.terminate();
+      settle(event.data.result);
+    }
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    settle({ root: null, error: `Parsing error: ${event.message || 'the parser worker failed'}` });
+  };
+  worker.postMessage(xml);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { untitledName, readStoredWorkspace } from './workspace';
+import { DEFAULT_EXPANSION } from './expansion';
+
+describe('untitledName', () => {
+  it('numbers new documents past the names in use', () => {
+    expect(untitledName(['orders.xml'])).toBe('Untitled');
+    expect(untitledName(['Untitled', 'Untitled 2', 'Untitled 4'])).toBe('Untitled 3');
+  });
+});
+
+describe('readStoredWorkspace', () => {
+  it('keeps readable tabs and fills in what is missing', () => {
+    const workspace = readStoredWorkspace({
+      tabs: [
+        { id: 'a', name: 'a.xml', source: '<a/>', expansion: { nodes: { '/a': true }, subtrees: {} }, scroll: { top: 120, left: 4 } },
+        { id: 'b', source: '<b/>', expansion: 'damaged' },
+        { id: 'c', name: 'no source' },
+        { id: 'd', name: 7, source: '<d/>', scroll: { top: '50', left: NaN } },
+        null,
+      ],
+      activeId: 'c',
+    });
+    expect(workspace).toEqual({
+      tabs: [
+        { id: 'a', name: 'a.xml', source: '<a/>', expansion: { ...DEFAULT_EXPANSION, nodes: { '/a': true }, subtrees: {} }, scroll: { top: 120, left: 4 } },
+        { id: 'b', name: 'Untitled', source: '<b/>', expansion: DEFAULT_EXPANSION, scroll: { top: 0, left: 0 } },
+        { id: 'd', name: 'Untitled', source: '<d/>', expansion: DEFAULT_EXPANSION, scroll: { top: 0, left: 0 } },
+      ],
+      activeId: 'a',
+    });
+  });
+
+  it('returns null when nothing usable is stored', () => {
+    expect(readStoredWorkspace(undefined)).toBeNull();
+    expect(readStoredWorkspace({ tabs: 'a' })).toBeNull();
+    expect(readStoredWorkspace({ tabs: [{ id: 1 }] })).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { ExpansionState, readExpansion } from './expansion';
+
+// --- Workspace ---
+// The open documents, saved to IndexedDB so they come back after a reload. Only what cannot be
+// recomputed is stored: each tab's source, name, expansion state and scroll position. Trees are
+// parsed again when a restored tab is first shown, and undo histories start over.
+
+export interface StoredTab {
+  id: string;
+  name: string;
+  source: string;
+  expansion: ExpansionState;
+  scroll: { top: number; left: number };
+}
+
+export interface StoredWorkspace {
+  tabs: StoredTab[];
+  activeId: string;
+}
+
+const DB_NAME = 'xml-grid-visualizer';
+const DB_VERSION = 1;
+const STORE = 'workspace';
+const WORKSPACE_KEY = 'current';
+
+export const newTabId = (): string => `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// "Untitled", then "Untitled 2", "Untitled 3" and so on past the names in use
+export const untitledName = (names: string[]): string => {
+  if (!names.includes('Untitled')) return 'Untitled';
+  let n = 2;
+  while (names.includes(`Untitled ${n}`)) n++;
+  return `Untitled ${n}`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const readScrollOffset = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const readTab = (tab: unknown): StoredTab | null => {
+  if (!isObject(tab) || typeof tab.id !== 'string' || typeof tab.source !== 'string') return null;
+  const scroll = isObject(tab.scroll) ? tab.scroll : {};
+  return {
+    id: tab.id,
+    name: typeof tab.name === 'string' && tab.name ? tab.name : 'Untitled',
+    source: tab.source,
+    expansion: readExpansion(tab.expansion),
+    scroll: { top: readScrollOffset(scroll.top), left: readScrollOffset(scroll.left) },
+  };
+};
+
+// Checks what came back from storage, which may be from an older version or damaged. Tabs that
+// cannot be read are dropped; null when nothing usable is left.
+export const readStoredWorkspace = (value: unknown): StoredWorkspace | null => {
+  if (!isObject(value) || !Array.isArray(value.tabs)) return null;
+  const tabs = value.tabs.map(readTab).filter((tab): tab is StoredTab => tab !== null);
+  if (tabs.length === 0) return null;
+  const active = tabs.find(tab => tab.id === value.activeId) ?? tabs[0];
+  return { tabs, activeId: active.id };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = transaction.onabort = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  }));
+
+// Resolves to null where IndexedDB is unavailable (e.g. some private windows) or holds nothing usable
+export const loadWorkspace = (): Promise<StoredWorkspace | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  return withStore('readonly', store => store.get(WORKSPACE_KEY))
+    .then(readStoredWorkspace)
+    .catch(() => null);
+};
+
+export const saveWorkspace = (workspace: StoredWorkspace): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve();
+  return withStore('readwrite', store => store.put(workspace, WORKSPACE_KEY)).then(() => undefined);
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML } from './utils';
+import { XMLNode } from './types';
+import { diffDocuments, DEFAULT_DIFF_OPTIONS, DiffOptions } from './xmlDiff';
+
+const parseRoot = (xml: string): XMLNode => parseXML(xml).root!;
+
+const diff = (before: string, after: string, options: Partial<DiffOptions> = {}) =>
+  diffDocuments(parseRoot(before), parseRoot(after), { ...DEFAULT_DIFF_OPTIONS, ...options });
+
+const summary = (before: string, after: string, options: Partial<DiffOptions> = {}) =>
+  diff(before, after, options).changes.map(change => `${change.kind} ${change.rightPath ?? change.leftPath}`);
+
+describe('diffDocuments', () => {
+  it('finds no changes between a document and its reformatted copy', () => {
+    expect(summary('<a x="1"><b>t</b></a>', '<a x="1">\n  <b>t</b>\n</a>')).toEqual([]);
+  });
+
+  it('reports added, removed and changed attributes, text and elements', () => {
+    expect(summary(
+      '<a x="1" y="2"><b>old</b><c/></a>',
+      '<a x="1" z="3"><b>new</b><d/></a>'
+    )).toEqual([
+      'removed /a/@y',
+      'added /a/@z',
+      'changed /a/b/text()',
+      'added /a/d',
+      'removed /a/c',
+    ]);
+  });
+
+  it('marks both grids with highlight keys', () => {
+    const { leftMarks, rightMarks } = diff('<a><b>old</b><c/></a>', '<a><b>new</b></a>');
+    expect(leftMarks.get('/a[1]/c[1]')).toBe('removed');
+    expect(leftMarks.get('/a[1]/b[1]/text()[1]')).toBe('changed');
+    expect(rightMarks.get('/a[1]/b[1]')).toBe('changed');
+    expect(rightMarks.has('/a[1]/c[1]')).toBe(false);
+  });
+
+  it('matches repeated siblings by position unless a key is given', () => {
+    const before = '<list><book id="1">A</book><book id="2">B</book></list>';
+    const after = '<list><book id="0">Z</book><book id="1">A</book><book id="2">B</book></list>';
+    expect(summary(before, after)).toHaveLength(5);
+    expect(summary(before, after, { keys: ['book/@id'] })).toEqual(['added /list/book[1]']);
+    expect(summary(
+      '<l><item><sku>a</sku><n>1</n></item><item><sku>b</sku><n>2</n></item></l>',
+      '<l><item><sku>b</sku><n>3</n></item><item><sku>a</sku><n>1</n></item></l>',
+      { keys: ['l/item/sku'] }
+    )).toEqual(['changed /l/item[1]/n/text()']);
+  });
+
+  it('honours the whitespace, attribute order and namespace prefix options', () => {
+    expect(summary('<a v="x  y"> t </a>', '<a v="x y">t</a>', { ignoreWhitespace: true })).toEqual([]);
+    expect(summary('<a v="x  y"> t </a>', '<a v="x y">t</a>')).toHaveLength(2);
+
+    expect(summary('<a x="1" y="2"/>', '<a y="2" x="1"/>')).toEqual([]);
+    expect(summary('<a x="1" y="2"/>', '<a y="2" x="1"/>', { ignoreAttributeOrder: false })).toEqual(['changed /a']);
+
+    const prefixed = '<p:a xmlns:p="urn:x"><p:b>1</p:b></p:a>';
+    const defaulted = '<a xmlns="urn:x"><b>1</b></a>';
+    expect(summary(prefixed, defaulted, { ignoreNamespacePrefixes: true })).toEqual([]);
+    expect(summary(prefixed, defaulted)).toEqual(['removed /p:a', 'added /a']);
+  });
+});
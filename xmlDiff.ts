@@ -0,0 +1,269 @@
+import { XMLNode, XMLAttribute } from './types';
+import { childGridStep } from './paths';
+
+// --- Structural Diff ---
+// Compares two parsed documents element by element. Children are paired by name, then by position
+// among same-named siblings, or by a key (book/@id) where one is configured, so an insertion in
+// the middle of a list does not show up as a change to every row after it.
+
+export interface DiffOptions {
+  ignoreAttributeOrder: boolean;
+  // Compare text and attribute values with runs of whitespace collapsed and the ends trimmed
+  ignoreWhitespace: boolean;
+  // Compare names by namespace URI and local name; xmlns declarations are then not compared
+  ignoreNamespacePrefixes: boolean;
+  // Match rules such as book/@id or item/sku: the element name (or *) and the attribute or child
+  // whose value identifies it among its siblings
+  keys: string[];
+}
+
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = {
+  ignoreAttributeOrder: true,
+  ignoreWhitespace: false,
+  ignoreNamespacePrefixes: false,
+  keys: [],
+};
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface DiffChange {
+  kind: DiffKind;
+  target: 'element' | 'attribute' | 'text';
+  // Grid paths (plain XPaths) in the before (left) and after (right) document
+  leftPath: string | null;
+  rightPath: string | null;
+  // Highlight keys of the node on each side, for the grid overlays
+  leftKey: string | null;
+  rightKey: string | null;
+  before: string | null;
+  after: string | null;
+}
+
+export interface DiffResult {
+  changes: DiffChange[];
+  // Highlight key -> kind, for each grid
+  leftMarks: Map<string, DiffKind>;
+  rightMarks: Map<string, DiffKind>;
+}
+
+interface KeyRule {
+  element: string;
+  attribute: string | null;
+  child: string | null;
+}
+
+// "book/@id" -> element book, attribute id; "catalog/book/isbn" -> element book, child isbn
+export const parseKeyRules = (keys: string[]): KeyRule[] =>
+  keys.map(key => key.trim()).filter(Boolean).flatMap(key => {
+    const steps = key.replace(/^\/+/, '').split('/');
+    if (steps.length < 2) return [];
+    const last = steps[steps.length - 1];
+    const element = steps[steps.length - 2];
+    return [last.startsWith('@')
+      ? { element, attribute: last.slice(1), child: null }
+      : { element, attribute: null, child: last }];
+  });
+
+const elementText = (element: XMLNode): string | null => {
+  if (element.children.length > 0) return element.content;
+  const runs = element.nodes.filter(child => child.type === 'text' || child.type === 'cdata');
+  return runs.length ? runs.map(child => (child as { value: string }).value).join('') : null;
+};
+
+const textKeys = (element: XMLNode): string[] =>
+  element.nodes.filter(child => child.type === 'text' || child.type === 'cdata').map(child => child.id);
+
+export const diffDocuments = (left: XMLNode, right: XMLNode, options: DiffOptions = DEFAULT_DIFF_OPTIONS): DiffResult => {
+  const changes: DiffChange[] = [];
+  const leftMarks = new Map<string, DiffKind>();
+  const rightMarks = new Map<string, DiffKind>();
+  const rules = parseKeyRules(options.keys);
+
+  const normalize = (value: string): string => (options.ignoreWhitespace ? value.replace(/\s+/g, ' ').trim() : value);
+
+  const nameOf = (node: XMLNode | XMLAttribute): string =>
+    options.ignoreNamespacePrefixes && node.namespaceURI ? `{${node.namespaceURI}}${node.localName}` : node.name;
+
+  const comparedAttributes = (element: XMLNode): XMLAttribute[] =>
+    options.ignoreNamespacePrefixes
+      ? element.attributes.filter(attr => attr.name !== 'xmlns' && !attr.name.startsWith('xmlns:'))
+      : element.attributes;
+
+  const record = (change: DiffChange) => {
+    changes.push(change);
+    // A 'changed' mark never hides an added or removed one on the same key
+    const mark = (marks: Map<string, DiffKind>, key: string | null) => {
+      if (key && !(marks.has(key) && change.kind === 'changed')) marks.set(key, change.kind);
+    };
+    if (change.kind !== 'added') mark(leftMarks, change.leftKey);
+    if (change.kind !== 'removed') mark(rightMarks, change.rightKey);
+  };
+
+  const keyOf = (element: XMLNode): string | null => {
+    const rule = rules.find(candidate => candidate.element === '*' || candidate.element === element.name || candidate.element === element.localName);
+    if (!rule) return null;
+    if (rule.attribute !== null) {
+      const attr = element.attributes.find(a => a.name === rule.attribute || a.localName === rule.attribute);
+      return attr ? normalize(attr.value) : null;
+    }
+    const child = element.children.find(c => c.name === rule.child || c.localName === rule.child);
+    return child ? normalize(elementText(child) ?? '') : null;
+  };
+
+  const added = (node: XMLNode, path: string) => record({
+    kind: 'added', target: 'element', leftPath: null, rightPath: path, leftKey: null, rightKey: node.id, before: null, after: node.name,
+  });
+
+  const removed = (node: XMLNode, path: string) => record({
+    kind: 'removed', target: 'element', leftPath: path, rightPath: null, leftKey: node.id, rightKey: null, before: node.name, after: null,
+  });
+
+  const compareAttributes = (a: XMLNode, b: XMLNode, leftPath: string, rightPath: string) => {
+    const leftAttributes = comparedAttributes(a);
+    const rightAttributes = comparedAttributes(b);
+    const rightByName = new Map(rightAttributes.map(attr => [nameOf(attr), attr]));
+    const leftNames = new Set(leftAttributes.map(nameOf));
+
+    leftAttributes.forEach(attr => {
+      const match = rightByName.get(nameOf(attr));
+      const leftKey = `${a.id}/@${attr.name}`;
+      if (!match) {
+        record({
+          kind: 'removed', target: 'attribute', leftPath: `${leftPath}/@${attr.name}`, rightPath: null,
+          leftKey, rightKey: null, before: attr.value, after: null,
+        });
+      } else if (normalize(attr.value) !== normalize(match.value)) {
+        record({
+          kind: 'changed', target: 'attribute', leftPath: `${leftPath}/@${attr.name}`, rightPath: `${rightPath}/@${match.name}`,
+          leftKey, rightKey: `${b.id}/@${match.name}`, before: attr.value, after: match.value,
+        });
+      }
+    });
+    rightAttributes.forEach(attr => {
+      if (leftNames.has(nameOf(attr))) return;
+      record({
+        kind: 'added', target: 'attribute', leftPath: null, rightPath: `${rightPath}/@${attr.name}`,
+        leftKey: null, rightKey: `${b.id}/@${attr.name}`, before: null, after: attr.value,
+      });
+    });
+
+    if (!options.ignoreAttributeOrder) {
+      const shared = (list: XMLAttribute[], other: Set<string>) => list.map(nameOf).filter(name => other.has(name));
+      const leftOrder = shared(leftAttributes, new Set(rightAttributes.map(nameOf)));
+      const rightOrder = shared(rightAttributes, leftNames);
+      if (leftOrder.join('\n') !== rightOrder.join('\n')) {
+        record({
+          kind: 'changed', target: 'element', leftPath, rightPath, leftKey: a.id, rightKey: b.id,
+          before: `attribute order ${leftOrder.join(', ')}`, after: `attribute order ${rightOrder.join(', ')}`,
+        });
+      }
+    }
+  };
+
+  const compareText = (a: XMLNode, b: XMLNode, leftPath: string, rightPath: string) => {
+    const before = elementText(a);
+    const after = elementText(b);
+    const same = before === null || after === null ? before === after : normalize(before) === normalize(after);
+    if (same) return;
+    // Whitespace-only text counts as no text when whitespace is ignored
+    if (options.ignoreWhitespace && normalize(before ?? '') === normalize(after ?? '')) return;
+
+    const kind: DiffKind = before === null ? 'added' : after === null ? 'removed' : 'changed';
+    // Keyed by the element, which is marked as changed: a leaf shows its text in the element's box or table cell
+    changes.push({
+      kind, target: 'text', leftPath: `${leftPath}/text()`, rightPath: `${rightPath}/text()`,
+      leftKey: a.id, rightKey: b.id, before, after,
+    });
+    textKeys(a).forEach(key => leftMarks.set(key, kind));
+    textKeys(b).forEach(key => rightMarks.set(key, kind));
+    if (!leftMarks.has(a.id)) leftMarks.set(a.id, 'changed');
+    if (!rightMarks.has(b.id)) rightMarks.set(b.id, 'changed');
+  };
+
+  // Pairs same-named siblings by key where a rule gives one, otherwise by position
+  const pairSiblings = (leftGroup: XMLNode[], rightGroup: XMLNode[]): [XMLNode | null, XMLNode | null][] => {
+    const pairs: [XMLNode | null, XMLNode | null][] = [];
+    const rightKeys = rightGroup.map(keyOf);
+    const usedRight = new Set<number>();
+    const unkeyedLeft: XMLNode[] = [];
+
+    // Right-hand rows by key; a key used twice is matched in order
+    const rightByKey = new Map<string, number[]>();
+    rightKeys.forEach((key, i) => {
+      if (key === null) return;
+      const indexes = rightByKey.get(key);
+      if (indexes) indexes.push(i);
+      else rightByKey.set(key, [i]);
+    });
+
+    leftGroup.forEach(node => {
+      const key = keyOf(node);
+      if (key === null) {
+        unkeyedLeft.push(node);
+        return;
+      }
+      const index = rightByKey.get(key)?.shift();
+      if (index === undefined) {
+        pairs.push([node, null]);
+      } else {
+        usedRight.add(index);
+        pairs.push([node, rightGroup[index]]);
+      }
+    });
+
+    const unkeyedRight = rightGroup.filter((node, i) => rightKeys[i] === null);
+    unkeyedLeft.forEach((node, i) => pairs.push([node, unkeyedRight[i] ?? null]));
+    unkeyedRight.slice(unkeyedLeft.length).forEach(node => pairs.push([null, node]));
+    rightGroup.forEach((node, i) => {
+      if (rightKeys[i] !== null && !usedRight.has(i)) pairs.push([null, node]);
+    });
+
+    // Report in the order the rows appear in the after document, removals about where they were before
+    const leftIndex = new Map(leftGroup.map((node, i) => [node, i]));
+    const rightIndex = new Map(rightGroup.map((node, i) => [node, i]));
+    const position = (pair: [XMLNode | null, XMLNode | null]) =>
+      pair[1] ? rightIndex.get(pair[1])! : leftIndex.get(pair[0]!)! - 0.5;
+    return pairs.sort((x, y) => position(x) - position(y));
+  };
+
+  const groupByName = (element: XMLNode): Map<string, XMLNode[]> => {
+    const groups = new Map<string, XMLNode[]>();
+    element.children.forEach(child => {
+      const name = nameOf(child);
+      const group = groups.get(name);
+      if (group) group.push(child);
+      else groups.set(name, [child]);
+    });
+    return groups;
+  };
+
+  const compareElements = (a: XMLNode, b: XMLNode, leftPath: string, rightPath: string) => {
+    compareAttributes(a, b, leftPath, rightPath);
+    compareText(a, b, leftPath, rightPath);
+
+    const leftGroups = groupByName(a);
+    const rightGroups = groupByName(b);
+    const names = [...Array.from(rightGroups.keys()), ...Array.from(leftGroups.keys()).filter(name => !rightGroups.has(name))];
+
+    names.forEach(name => {
+      pairSiblings(leftGroups.get(name) || [], rightGroups.get(name) || []).forEach(([before, after]) => {
+        const beforePath = before && `${leftPath}/${childGridStep(a, before)}`;
+        const afterPath = after && `${rightPath}/${childGridStep(b, after)}`;
+        if (before && after) compareElements(before, after, beforePath!, afterPath!);
+        else if (before) removed(before, beforePath!);
+        else if (after) added(after, afterPath!);
+      });
+    });
+  };
+
+  const leftRoot = `/${left.name}`;
+  const rightRoot = `/${right.name}`;
+  if (nameOf(left) === nameOf(right)) {
+    compareElements(left, right, leftRoot, rightRoot);
+  } else {
+    removed(left, leftRoot);
+    added(right, rightRoot);
+  }
+
+  return { changes, leftMarks, rightMarks };
+};
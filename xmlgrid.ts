@@ -0,0 +1,17 @@
+import { readFileSync } from 'node:fs';
+import { runCli, UsageError, USAGE } from './cli';
+
+// Entry point of the xmlgrid command (npm run build:cli). Exit codes: 0 on success, 1 when the
+// document or expression cannot be used, 2 for bad arguments.
+
+const readInput = (file: string): string => readFileSync(file === '-' ? 0 : file, 'utf8');
+
+try {
+  const { output, warnings } = runCli(process.argv.slice(2), readInput);
+  process.stdout.write(output);
+  warnings.forEach(warning => process.stderr.write(`xmlgrid: ${warning}\n`));
+} catch (e: any) {
+  process.stderr.write(`xmlgrid: ${e.message}\n`);
+  if (e instanceof UsageError) process.stderr.write(`\n${USAGE}\n`);
+  process.exitCode = e instanceof UsageError ? 2 : 1;
+}
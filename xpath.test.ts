@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseXML } from './utils';
+import { XPathNode, XPathError, buildXPathDocument, evaluateXPath, formatXPathValue } from './xpath';
+
+const { root, prolog, epilog } = parseXML(`<!-- catalog -->
+<catalog xmlns:p="urn:price">
+  <book id="b1" lang="en" xml:lang="en-GB"><title>Dune</title><p:price>9.5</p:price></book>
+  <book id="b2"><title>Emma</title><p:price>12</p:price><!-- sale --></book>
+  <book id="b3" lang="fr"><title>Candide</title><p:price>3.5</p:price></book>
+</catalog>`);
+const DOCUMENT = buildXPathDocument(root!, prolog, epilog);
+
+const evaluate = (expression: string, options = {}) => evaluateXPath(expression, DOCUMENT, options);
+const names = (expression: string) => (evaluate(expression) as XPathNode[])
+  .map(node => (node.kind === 'attribute' ? `@${node.attribute!.name}` : node.kind === 'element' ? node.element!.name : node.kind));
+
+describe('evaluateXPath', () => {
+  it('selects nodes along the axes in document order', () => {
+    expect(names('/catalog/book')).toEqual(['book', 'book', 'book']);
+    expect(names('//book[@lang]/@id')).toEqual(['@id', '@id']);
+    expect(names('//title | //book[2]')).toEqual(['title', 'book', 'title', 'title']);
+    expect(names('//book[2]/following-sibling::*')).toEqual(['book']);
+    // The element's content comes after its attributes
+    expect(names('//book[1]/@id/following::*')).toEqual(['title', 'p:price', 'book', 'title', 'p:price', 'book', 'title', 'p:price']);
+    // The xml prefix needs no binding
+    expect(names('//@xml:lang')).toEqual(['@xml:lang']);
+    expect(names('//title[. = "Emma"]/ancestor::*')).toEqual(['catalog', 'book']);
+    expect(names('/comment() | //book/comment()')).toEqual(['comment', 'comment']);
+    expect(formatXPathValue(evaluate('//book[last()]/title'))).toBe('Candide');
+  });
+
+  it('evaluates functions, arithmetic and comparisons to scalars', () => {
+    expect(evaluate('count(//book)')).toBe(3);
+    expect(evaluate('sum(//p:price)', { namespaces: { p: 'urn:price' } })).toBe(25);
+    expect(evaluate('//book[p:price > 10]/@id = "b2"', { namespaces: { p: 'urn:price' } })).toBe(true);
+    expect(evaluate('concat(//book[1]/title, "-", string-length("abc"))')).toBe('Dune-3');
+    expect(evaluate('substring-before("2024-03-01", "-") * 2 mod 7')).toBe(4048 % 7);
+    expect(evaluate('//book[@lang = $lang]/title', { variables: { lang: 'fr' } })).toHaveLength(1);
+    expect(evaluate('not(//book[@id = "b9"])')).toBe(true);
+    expect(evaluate('local-name(//*[local-name() = "price"])')).toBe('price');
+  });
+
+  it('rejects malformed expressions and unknown names', () => {
+    expect(() => evaluate('')).toThrow(XPathError);
+    expect(() => evaluate('//book[')).toThrow(XPathError);
+    expect(() => evaluate('nosuch(1)')).toThrow(XPathError);
+    expect(() => evaluate('//x:book')).toThrow(XPathError);
+    expect(() => evaluate('$missing')).toThrow(XPathError);
+  });
+});
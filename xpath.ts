@@ -0,0 +1,778 @@
+import { XMLNode, XMLAttribute, XMLChildNode } from './types';
+import { isNamespaceDeclaration } from './utils';
+
+// --- XPath 1.0 Evaluator ---
+// Evaluates expressions directly against the XMLNode tree so results can be mapped back
+// onto grid nodes. Text and CDATA runs are separate text nodes and whitespace-only text
+// between elements does not exist (parseXML drops it), which matches what the grid shows.
+
+export class XPathError extends Error {}
+
+export type XPathNodeKind = 'document' | 'element' | 'attribute' | 'text' | 'comment' | 'pi';
+
+export interface XPathNode {
+  kind: XPathNodeKind;
+  // Position in document order; attributes sort directly after their owner element
+  order: number;
+  parent: XPathNode | null;
+  children: XPathNode[];
+  attributes: XPathNode[];
+  element: XMLNode | null;
+  attribute: XMLAttribute | null;
+  child: XMLChildNode | null;
+}
+
+export type XPathValue = XPathNode[] | string | number | boolean;
+
+export interface XPathOptions {
+  // Prefix bindings for prefixed name tests such as ns0:Order
+  namespaces?: Record<string, string>;
+  variables?: Record<string, string | number | boolean>;
+}
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+// --- Document model ---
+
+export interface XPathDocument {
+  root: XPathNode;
+  nodeFor: Map<XMLChildNode, XPathNode>;
+}
+
+export const buildXPathDocument = (root: XMLNode, prolog: XMLChildNode[] = [], epilog: XMLChildNode[] = []): XPathDocument => {
+  const nodeFor = new Map<XMLChildNode, XPathNode>();
+  let order = 0;
+
+  const documentNode: XPathNode = {
+    kind: 'document', order: order++, parent: null, children: [], attributes: [],
+    element: null, attribute: null, child: null,
+  };
+
+  const build = (child: XMLChildNode, parent: XPathNode): XPathNode => {
+    const node: XPathNode = {
+      kind: child.type === 'cdata' ? 'text' : child.type,
+      order: order++,
+      parent,
+      children: [],
+      attributes: [],
+      element: child.type === 'element' ? child : null,
+      attribute: null,
+      child,
+    };
+    nodeFor.set(child, node);
+
+    if (child.type === 'element') {
+      node.attributes = child.attributes
+        .filter(attr => !isNamespaceDeclaration(attr))
+        .map(attr => ({
+          kind: 'attribute' as const, order: order++, parent: node, children: [], attributes: [],
+          element: child, attribute: attr, child: null,
+        }));
+      node.children = child.nodes.map(grandChild => build(grandChild, node));
+    }
+    return node;
+  };
+
+  documentNode.children = [...prolog, root, ...epilog].map(child => build(child, documentNode));
+  return { root: documentNode, nodeFor };
+};
+
+// --- Lexer ---
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'variable'; value: string }
+  | { type: 'op'; value: string };
+
+const OPERATORS = ['//', '::', '..', '!=', '<=', '>=', '/', '(', ')', '[', ']', '.', '@', ',', '|', '+', '-', '=', '<', '>'];
+const NODE_TYPES = ['node', 'text', 'comment', 'processing-instruction'];
+const AXES = [
+  'ancestor', 'ancestor-or-self', 'attribute', 'child', 'descendant', 'descendant-or-self', 'following',
+  'following-sibling', 'namespace', 'parent', 'preceding', 'preceding-sibling', 'self',
+];
+
+const isNameStart = (ch: string) => /[A-Za-z_À-￿]/.test(ch);
+const isNameChar = (ch: string) => /[A-Za-z0-9_.\-·À-￿]/.test(ch);
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  // '*' and operator names only act as operators when they follow an operand (XPath 1.0, section 3.7)
+  const precededByOperand = (): boolean => {
+    const prev = tokens[tokens.length - 1];
+    if (!prev) return false;
+    if (prev.type !== 'op') return true;
+    return [')', ']', '.', '..'].includes(prev.value);
+  };
+
+  while (pos < expression.length) {
+    const ch = expression[pos];
+
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = expression.indexOf(ch, pos + 1);
+      if (end === -1) throw new XPathError('Unterminated string literal');
+      tokens.push({ type: 'string', value: expression.slice(pos + 1, end) });
+      pos = end + 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(expression[pos + 1] || ''))) {
+      const match = expression.slice(pos).match(/^\d*\.?\d*/)!;
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (ch === '$') {
+      pos++;
+      const begin = pos;
+      while (pos < expression.length && (isNameChar(expression[pos]) || expression[pos] === ':')) pos++;
+      tokens.push({ type: 'variable', value: expression.slice(begin, pos) });
+      continue;
+    }
+
+    if (ch === '*') {
+      tokens.push(precededByOperand() ? { type: 'op', value: 'mul' } : { type: 'name', value: '*' });
+      pos++;
+      continue;
+    }
+
+    if (isNameStart(ch)) {
+      const begin = pos;
+      while (pos < expression.length && isNameChar(expression[pos])) pos++;
+      // QName or prefix:* (but not the axis separator '::')
+      if (expression[pos] === ':' && expression[pos + 1] !== ':') {
+        if (expression[pos + 1] === '*') {
+          pos += 2;
+        } else if (isNameStart(expression[pos + 1] || '')) {
+          pos++;
+          while (pos < expression.length && isNameChar(expression[pos])) pos++;
+        }
+      }
+      const value = expression.slice(begin, pos);
+      if (['and', 'or', 'mod', 'div'].includes(value) && precededByOperand()) {
+        tokens.push({ type: 'op', value });
+      } else {
+        tokens.push({ type: 'name', value });
+      }
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => expression.startsWith(candidate, pos));
+    if (!op) throw new XPathError(`Unexpected character '${ch}' at position ${pos + 1}`);
+    tokens.push({ type: 'op', value: op });
+    pos += op.length;
+  }
+
+  return tokens;
+};
+
+// --- Parser ---
+
+type NodeTest =
+  | { kind: 'name'; prefix: string | null; localName: string }
+  | { kind: 'type'; nodeType: string; target: string | null };
+
+interface Step {
+  axis: string;
+  test: NodeTest;
+  predicates: Expr[];
+}
+
+type Expr =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'function'; name: string; args: Expr[] }
+  | { type: 'binary'; op: string; left: Expr; right: Expr }
+  | { type: 'negate'; expr: Expr }
+  | { type: 'filter'; expr: Expr; predicates: Expr[] }
+  | { type: 'path'; absolute: boolean; start: Expr | null; steps: Step[] };
+
+const DESCENDANT_OR_SELF: Step = { axis: 'descendant-or-self', test: { kind: 'type', nodeType: 'node', target: null }, predicates: [] };
+
+const parse = (tokens: Token[]): Expr => {
+  let pos = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[pos + offset];
+  const isOp = (value: string, offset = 0): boolean => {
+    const token = peek(offset);
+    return !!token && token.type === 'op' && token.value === value;
+  };
+  const expectOp = (value: string) => {
+    if (!isOp(value)) {
+      const token = peek();
+      throw new XPathError(token ? `Expected '${value}' but found '${String(token.value)}'` : `Expected '${value}' at end of expression`);
+    }
+    pos++;
+  };
+
+  const binaryLevel = (ops: string[], next: () => Expr) => (): Expr => {
+    let left = next();
+    while (peek() && peek()!.type === 'op' && ops.includes(peek()!.value as string)) {
+      const op = (tokens[pos++] as { value: string }).value;
+      left = { type: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const parsePredicates = (): Expr[] => {
+    const predicates: Expr[] = [];
+    while (isOp('[')) {
+      pos++;
+      predicates.push(parseExpr());
+      expectOp(']');
+    }
+    return predicates;
+  };
+
+  const parseNodeTest = (): NodeTest => {
+    const token = peek();
+    if (!token || token.type !== 'name') throw new XPathError('Expected a node test');
+    pos++;
+
+    if (NODE_TYPES.includes(token.value) && isOp('(')) {
+      pos++;
+      let target: string | null = null;
+      const literal = peek();
+      if (token.value === 'processing-instruction' && literal && literal.type === 'string') {
+        target = literal.value;
+        pos++;
+      }
+      expectOp(')');
+      return { kind: 'type', nodeType: token.value, target };
+    }
+
+    const colon = token.value.indexOf(':');
+    return colon === -1
+      ? { kind: 'name', prefix: null, localName: token.value }
+      : { kind: 'name', prefix: token.value.slice(0, colon), localName: token.value.slice(colon + 1) };
+  };
+
+  const parseStep = (): Step => {
+    if (isOp('.')) {
+      pos++;
+      return { axis: 'self', test: { kind: 'type', nodeType: 'node', target: null }, predicates: [] };
+    }
+    if (isOp('..')) {
+      pos++;
+      return { axis: 'parent', test: { kind: 'type', nodeType: 'node', target: null }, predicates: [] };
+    }
+
+    let axis = 'child';
+    if (isOp('@')) {
+      pos++;
+      axis = 'attribute';
+    } else {
+      const token = peek();
+      if (token && token.type === 'name' && isOp('::', 1)) {
+        if (!AXES.includes(token.value)) throw new XPathError(`Unknown axis '${token.value}'`);
+        axis = token.value;
+        pos += 2;
+      }
+    }
+
+    return { axis, test: parseNodeTest(), predicates: parsePredicates() };
+  };
+
+  const parseRelativePath = (steps: Step[]): Step[] => {
+    steps.push(parseStep());
+    while (isOp('/') || isOp('//')) {
+      if (isOp('//')) steps.push(DESCENDANT_OR_SELF);
+      pos++;
+      steps.push(parseStep());
+    }
+    return steps;
+  };
+
+  const startsStep = (): boolean => {
+    const token = peek();
+    if (!token) return false;
+    if (token.type === 'op') return ['.', '..', '@'].includes(token.value);
+    if (token.type !== 'name') return false;
+    // A name followed by '(' is a function call unless it is a node type test
+    if (isOp('(', 1)) return NODE_TYPES.includes(token.value);
+    return true;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = peek();
+    if (!token) throw new XPathError('Unexpected end of expression');
+
+    if (token.type === 'number' || token.type === 'string') {
+      pos++;
+      return { type: token.type, value: token.value } as Expr;
+    }
+    if (token.type === 'variable') {
+      pos++;
+      return { type: 'variable', name: token.value };
+    }
+    if (isOp('(')) {
+      pos++;
+      const expr = parseExpr();
+      expectOp(')');
+      return expr;
+    }
+    if (token.type === 'name' && isOp('(', 1)) {
+      pos += 2;
+      const args: Expr[] = [];
+      if (!isOp(')')) {
+        args.push(parseExpr());
+        while (isOp(',')) {
+          pos++;
+          args.push(parseExpr());
+        }
+      }
+      expectOp(')');
+      return { type: 'function', name: token.value, args };
+    }
+    throw new XPathError(`Unexpected '${String(token.value)}'`);
+  };
+
+  const parsePath = (): Expr => {
+    if (isOp('/')) {
+      pos++;
+      return { type: 'path', absolute: true, start: null, steps: startsStep() ? parseRelativePath([]) : [] };
+    }
+    if (isOp('//')) {
+      pos++;
+      return { type: 'path', absolute: true, start: null, steps: parseRelativePath([DESCENDANT_OR_SELF]) };
+    }
+    if (startsStep()) {
+      return { type: 'path', absolute: false, start: null, steps: parseRelativePath([]) };
+    }
+
+    const primary = parsePrimary();
+    const predicates = parsePredicates();
+    const filter: Expr = predicates.length > 0 ? { type: 'filter', expr: primary, predicates } : primary;
+
+    if (isOp('/') || isOp('//')) {
+      const steps: Step[] = [];
+      if (isOp('//')) steps.push(DESCENDANT_OR_SELF);
+      pos++;
+      return { type: 'path', absolute: false, start: filter, steps: parseRelativePath(steps) };
+    }
+    return filter;
+  };
+
+  const parseUnion = binaryLevel(['|'], parsePath);
+  const parseUnary = (): Expr => {
+    if (isOp('-')) {
+      pos++;
+      return { type: 'negate', expr: parseUnary() };
+    }
+    return parseUnion();
+  };
+  const parseMultiplicative = binaryLevel(['mul', 'div', 'mod'], parseUnary);
+  const parseAdditive = binaryLevel(['+', '-'], parseMultiplicative);
+  const parseRelational = binaryLevel(['<', '<=', '>', '>='], parseAdditive);
+  const parseEquality = binaryLevel(['=', '!='], parseRelational);
+  const parseAnd = binaryLevel(['and'], parseEquality);
+  const parseExpr: () => Expr = binaryLevel(['or'], parseAnd);
+
+  const expr = parseExpr();
+  if (pos < tokens.length) throw new XPathError(`Unexpected '${String(tokens[pos].value)}'`);
+  return expr;
+};
+
+// --- Evaluation ---
+
+interface Context {
+  node: XPathNode;
+  position: number;
+  size: number;
+}
+
+const isNodeSet = (value: XPathValue): value is XPathNode[] => Array.isArray(value);
+
+const sortDocumentOrder = (nodes: XPathNode[]): XPathNode[] =>
+  Array.from(new Set(nodes)).sort((a, b) => a.order - b.order);
+
+export const stringValue = (node: XPathNode): string => {
+  if (node.kind === 'attribute') return node.attribute!.value;
+  if (node.kind === 'element' || node.kind === 'document') {
+    return node.children.map(child => (child.kind === 'element' || child.kind === 'text' ? stringValue(child) : '')).join('');
+  }
+  const child = node.child as { value: string };
+  return child.value;
+};
+
+const toStringValue = (value: XPathValue): string => {
+  if (isNodeSet(value)) return value.length > 0 ? stringValue(value[0]) : '';
+  return String(value);
+};
+
+const toNumberValue = (value: XPathValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const text = toStringValue(value).trim();
+  return /^-?(\d+(\.\d*)?|\.\d+)$/.test(text) ? Number(text) : NaN;
+};
+
+const toBooleanValue = (value: XPathValue): boolean => {
+  if (isNodeSet(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  if (typeof value === 'string') return value.length > 0;
+  return value;
+};
+
+const compareAtoms = (op: string, a: XPathValue, b: XPathValue): boolean => {
+  if (op === '=' || op === '!=') {
+    let equal: boolean;
+    if (typeof a === 'boolean' || typeof b === 'boolean') equal = toBooleanValue(a) === toBooleanValue(b);
+    else if (typeof a === 'number' || typeof b === 'number') equal = toNumberValue(a) === toNumberValue(b);
+    else equal = toStringValue(a) === toStringValue(b);
+    return op === '=' ? equal : !equal;
+  }
+  const x = toNumberValue(a);
+  const y = toNumberValue(b);
+  switch (op) {
+    case '<': return x < y;
+    case '<=': return x <= y;
+    case '>': return x > y;
+    default: return x >= y;
+  }
+};
+
+// Node-set comparisons are existential: true if any pair of string values satisfies the operator
+const compare = (op: string, left: XPathValue, right: XPathValue): boolean => {
+  if (isNodeSet(left) && isNodeSet(right)) {
+    const rightValues = right.map(stringValue);
+    return left.some(l => rightValues.some(r => compareAtoms(op, stringValue(l), r)));
+  }
+  if (isNodeSet(left)) {
+    if (typeof right === 'boolean') return compareAtoms(op, toBooleanValue(left), right);
+    return left.some(node => compareAtoms(op, typeof right === 'number' ? toNumberValue(stringValue(node)) : stringValue(node), right));
+  }
+  if (isNodeSet(right)) {
+    if (typeof left === 'boolean') return compareAtoms(op, left, toBooleanValue(right));
+    return right.some(node => compareAtoms(op, left, typeof left === 'number' ? toNumberValue(stringValue(node)) : stringValue(node)));
+  }
+  return compareAtoms(op, left, right);
+};
+
+const descendants = (node: XPathNode, out: XPathNode[]) => {
+  node.children.forEach(child => {
+    out.push(child);
+    descendants(child, out);
+  });
+};
+
+const ancestors = (node: XPathNode): XPathNode[] => {
+  const out: XPathNode[] = [];
+  for (let current = node.parent; current; current = current.parent) out.push(current);
+  return out;
+};
+
+const siblings = (node: XPathNode): XPathNode[] => (node.parent && node.kind !== 'attribute' ? node.parent.children : []);
+
+// Returns nodes in axis order: reverse axes list the nearest node first
+const axisNodes = (axis: string, node: XPathNode): XPathNode[] => {
+  switch (axis) {
+    case 'child':
+      return node.children;
+    case 'attribute':
+      return node.attributes;
+    case 'self':
+      return [node];
+    case 'parent':
+      return node.parent ? [node.parent] : [];
+    case 'descendant': {
+      const out: XPathNode[] = [];
+      descendants(node, out);
+      return out;
+    }
+    case 'descendant-or-self': {
+      const out: XPathNode[] = [node];
+      descendants(node, out);
+      return out;
+    }
+    case 'ancestor':
+      return ancestors(node);
+    case 'ancestor-or-self':
+      return [node, ...ancestors(node)];
+    case 'following-sibling': {
+      const list = siblings(node);
+      return list.slice(list.indexOf(node) + 1);
+    }
+    case 'preceding-sibling': {
+      const list = siblings(node);
+      return list.slice(0, Math.max(0, list.indexOf(node))).reverse();
+    }
+    case 'following': {
+      const out: XPathNode[] = [];
+      // What follows an attribute starts with its element's content
+      const start = node.kind === 'attribute' ? node.parent! : node;
+      if (start !== node) descendants(start, out);
+      for (let current: XPathNode | null = start; current; current = current.parent) {
+        const list = siblings(current);
+        list.slice(list.indexOf(current) + 1).forEach(sibling => {
+          out.push(sibling);
+          descendants(sibling, out);
+        });
+      }
+      return sortDocumentOrder(out);
+    }
+    case 'preceding': {
+      const ancestorSet = new Set(ancestors(node));
+      const out: XPathNode[] = [];
+      let root = node;
+      while (root.parent) root = root.parent;
+      descendants(root, out);
+      return out.filter(other => other.order < node.order && !ancestorSet.has(other)).reverse();
+    }
+    default:
+      // The namespace axis is not modelled
+      return [];
+  }
+};
+
+const createEvaluator = (options: XPathOptions) => {
+  // The xml prefix is bound in every document, declared or not
+  const namespaces: Record<string, string> = { xml: XML_NAMESPACE, ...options.namespaces };
+  const variables = options.variables || {};
+
+  const matchesTest = (test: NodeTest, node: XPathNode, axis: string): boolean => {
+    if (test.kind === 'type') {
+      switch (test.nodeType) {
+        case 'node': return true;
+        case 'text': return node.kind === 'text';
+        case 'comment': return node.kind === 'comment';
+        default:
+          return node.kind === 'pi' && (test.target === null || (node.child as { target: string }).target === test.target);
+      }
+    }
+
+    const principal = axis === 'attribute' ? 'attribute' : 'element';
+    if (node.kind !== principal) return false;
+
+    const source = node.kind === 'attribute' ? node.attribute! : node.element!;
+    const uri = test.prefix === null ? null : namespaces[test.prefix];
+    if (test.prefix !== null && uri === undefined) {
+      throw new XPathError(`Unknown namespace prefix '${test.prefix}'`);
+    }
+    if (test.localName === '*') return test.prefix === null || source.namespaceURI === uri;
+    return source.localName === test.localName && (source.namespaceURI || null) === uri;
+  };
+
+  const applyPredicates = (nodes: XPathNode[], predicates: Expr[]): XPathNode[] =>
+    predicates.reduce((current, predicate) =>
+      current.filter((node, index) => {
+        const result = evaluate(predicate, { node, position: index + 1, size: current.length });
+        return typeof result === 'number' ? result === index + 1 : toBooleanValue(result);
+      }), nodes);
+
+  const evaluateSteps = (start: XPathNode[], steps: Step[]): XPathNode[] =>
+    steps.reduce((contextNodes, step) => {
+      const result: XPathNode[] = [];
+      contextNodes.forEach(node => {
+        const candidates = axisNodes(step.axis, node).filter(candidate => matchesTest(step.test, candidate, step.axis));
+        result.push(...applyPredicates(candidates, step.predicates));
+      });
+      return sortDocumentOrder(result);
+    }, start);
+
+  const callFunction = (name: string, args: Expr[], context: Context): XPathValue => {
+    const arg = (index: number) => evaluate(args[index], context);
+    const str = (index: number) => (args.length > index ? toStringValue(arg(index)) : stringValue(context.node));
+    const nodeArg = (): XPathNode | undefined => {
+      if (args.length === 0) return context.node;
+      const value = arg(0);
+      if (!isNodeSet(value)) throw new XPathError(`${name}() expects a node-set`);
+      return value[0];
+    };
+    const expectArgs = (min: number, max: number) => {
+      if (args.length < min || args.length > max) throw new XPathError(`Wrong number of arguments for ${name}()`);
+    };
+
+    switch (name) {
+      case 'last': expectArgs(0, 0); return context.size;
+      case 'position': expectArgs(0, 0); return context.position;
+      case 'count': {
+        expectArgs(1, 1);
+        const value = arg(0);
+        if (!isNodeSet(value)) throw new XPathError('count() expects a node-set');
+        return value.length;
+      }
+      case 'id': {
+        expectArgs(1, 1);
+        const value = arg(0);
+        const ids = new Set((isNodeSet(value) ? value.map(stringValue).join(' ') : toStringValue(value)).split(/\s+/).filter(Boolean));
+        let root = context.node;
+        while (root.parent) root = root.parent;
+        const all: XPathNode[] = [];
+        descendants(root, all);
+        return all.filter(node => node.kind === 'element' && node.attributes.some(a => a.attribute!.localName === 'id' && ids.has(a.attribute!.value)));
+      }
+      case 'local-name': {
+        expectArgs(0, 1);
+        const node = nodeArg();
+        if (!node) return '';
+        if (node.kind === 'element') return node.element!.localName;
+        if (node.kind === 'attribute') return node.attribute!.localName;
+        if (node.kind === 'pi') return (node.child as { target: string }).target;
+        return '';
+      }
+      case 'namespace-uri': {
+        expectArgs(0, 1);
+        const node = nodeArg();
+        if (!node) return '';
+        if (node.kind === 'element') return node.element!.namespaceURI || '';
+        if (node.kind === 'attribute') return node.attribute!.namespaceURI || '';
+        return '';
+      }
+      case 'name': {
+        expectArgs(0, 1);
+        const node = nodeArg();
+        if (!node) return '';
+        if (node.kind === 'element') return node.element!.name;
+        if (node.kind === 'attribute') return node.attribute!.name;
+        if (node.kind === 'pi') return (node.child as { target: string }).target;
+        return '';
+      }
+      case 'string': expectArgs(0, 1); return str(0);
+      case 'concat':
+        if (args.length < 2) throw new XPathError('concat() needs at least two arguments');
+        return args.map((_, i) => toStringValue(arg(i))).join('');
+      case 'starts-with': expectArgs(2, 2); return str(0).startsWith(str(1));
+      case 'contains': expectArgs(2, 2); return str(0).includes(str(1));
+      case 'substring-before': {
+        expectArgs(2, 2);
+        const text = str(0);
+        const idx = text.indexOf(str(1));
+        return idx === -1 ? '' : text.slice(0, idx);
+      }
+      case 'substring-after': {
+        expectArgs(2, 2);
+        const text = str(0);
+        const search = str(1);
+        const idx = text.indexOf(search);
+        return idx === -1 ? '' : text.slice(idx + search.length);
+      }
+      case 'substring': {
+        expectArgs(2, 3);
+        const text = str(0);
+        const start = Math.round(toNumberValue(arg(1)));
+        const end = args.length > 2 ? start + Math.round(toNumberValue(arg(2))) : Infinity;
+        let result = '';
+        for (let i = 1; i <= text.length; i++) {
+          if (i >= start && i < end) result += text[i - 1];
+        }
+        return result;
+      }
+      case 'string-length': expectArgs(0, 1); return str(0).length;
+      case 'normalize-space': expectArgs(0, 1); return str(0).trim().replace(/\s+/g, ' ');
+      case 'translate': {
+        expectArgs(3, 3);
+        const from = str(1);
+        const to = str(2);
+        return Array.from(str(0)).map(ch => {
+          const idx = from.indexOf(ch);
+          if (idx === -1) return ch;
+          return idx < to.length ? to[idx] : '';
+        }).join('');
+      }
+      case 'boolean': expectArgs(1, 1); return toBooleanValue(arg(0));
+      case 'not': expectArgs(1, 1); return !toBooleanValue(arg(0));
+      case 'true': expectArgs(0, 0); return true;
+      case 'false': expectArgs(0, 0); return false;
+      case 'lang': {
+        expectArgs(1, 1);
+        const wanted = str(0).toLowerCase();
+        for (let node: XPathNode | null = context.node; node; node = node.parent) {
+          const attr = node.element?.attributes.find(a => a.name === 'xml:lang');
+          if (node.kind === 'element' && attr) {
+            const lang = attr.value.toLowerCase();
+            return lang === wanted || lang.startsWith(wanted + '-');
+          }
+        }
+        return false;
+      }
+      case 'number': expectArgs(0, 1); return args.length ? toNumberValue(arg(0)) : toNumberValue(stringValue(context.node));
+      case 'sum': {
+        expectArgs(1, 1);
+        const value = arg(0);
+        if (!isNodeSet(value)) throw new XPathError('sum() expects a node-set');
+        return value.reduce((total, node) => total + toNumberValue(stringValue(node)), 0);
+      }
+      case 'floor': expectArgs(1, 1); return Math.floor(toNumberValue(arg(0)));
+      case 'ceiling': expectArgs(1, 1); return Math.ceil(toNumberValue(arg(0)));
+      case 'round': expectArgs(1, 1); return Math.round(toNumberValue(arg(0)));
+      default:
+        throw new XPathError(`Unknown function '${name}()'`);
+    }
+  };
+
+  const evaluate = (expr: Expr, context: Context): XPathValue => {
+    switch (expr.type) {
+      case 'number':
+      case 'string':
+        return expr.value;
+      case 'variable': {
+        const value = variables[expr.name];
+        if (value === undefined) throw new XPathError(`Unknown variable '$${expr.name}'`);
+        return value;
+      }
+      case 'function':
+        return callFunction(expr.name, expr.args, context);
+      case 'negate':
+        return -toNumberValue(evaluate(expr.expr, context));
+      case 'filter': {
+        const value = evaluate(expr.expr, context);
+        if (!isNodeSet(value)) throw new XPathError('Predicates can only filter node-sets');
+        return applyPredicates(value, expr.predicates);
+      }
+      case 'path': {
+        let start: XPathNode[];
+        if (expr.start) {
+          const value = evaluate(expr.start, context);
+          if (!isNodeSet(value)) throw new XPathError('Only node-sets can be followed by a path');
+          start = value;
+        } else if (expr.absolute) {
+          let root = context.node;
+          while (root.parent) root = root.parent;
+          start = [root];
+        } else {
+          start = [context.node];
+        }
+        return evaluateSteps(start, expr.steps);
+      }
+      case 'binary': {
+        switch (expr.op) {
+          case 'or': return toBooleanValue(evaluate(expr.left, context)) || toBooleanValue(evaluate(expr.right, context));
+          case 'and': return toBooleanValue(evaluate(expr.left, context)) && toBooleanValue(evaluate(expr.right, context));
+          case '|': {
+            const left = evaluate(expr.left, context);
+            const right = evaluate(expr.right, context);
+            if (!isNodeSet(left) || !isNodeSet(right)) throw new XPathError('The | operator needs node-sets on both sides');
+            return sortDocumentOrder([...left, ...right]);
+          }
+          case '+': return toNumberValue(evaluate(expr.left, context)) + toNumberValue(evaluate(expr.right, context));
+          case '-': return toNumberValue(evaluate(expr.left, context)) - toNumberValue(evaluate(expr.right, context));
+          case 'mul': return toNumberValue(evaluate(expr.left, context)) * toNumberValue(evaluate(expr.right, context));
+          case 'div': return toNumberValue(evaluate(expr.left, context)) / toNumberValue(evaluate(expr.right, context));
+          case 'mod': return toNumberValue(evaluate(expr.left, context)) % toNumberValue(evaluate(expr.right, context));
+          default: return compare(expr.op, evaluate(expr.left, context), evaluate(expr.right, context));
+        }
+      }
+    }
+  };
+
+  return evaluate;
+};
+
+export const evaluateXPath = (expression: string, document: XPathDocument, options: XPathOptions = {}): XPathValue => {
+  if (!expression.trim()) throw new XPathError('Empty expression');
+  const expr = parse(tokenize(expression));
+  return createEvaluator(options)(expr, { node: document.root, position: 1, size: 1 });
+};
+
+export const formatXPathValue = (value: XPathValue): string => toStringValue(value);
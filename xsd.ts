@@ -0,0 +1,512 @@
+import { XMLNode } from './types';
+import { parseXML } from './utils';
+import {
+  QName, qnameKey, Grammar, ElementDeclaration, TypeDefinition, SimpleType, ComplexType, AttributeUse,
+  Wildcard, Particle, Facets, SchemaError, builtinType, isBuiltinType,
+} from './validation';
+
+// --- XML Schema ---
+// Compiles a set of XSD files into the grammar model of validation.ts. References between the
+// files (include, import, type and ref attributes) are resolved among the files loaded; nothing
+// is fetched.
+
+export interface SchemaFile {
+  name: string;
+  source: string;
+}
+
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+
+interface SchemaDocument {
+  file: string;
+  root: XMLNode;
+  targetNamespace: string | null;
+  elementQualified: boolean;
+  attributeQualified: boolean;
+}
+
+interface Definition {
+  node: XMLNode;
+  doc: SchemaDocument;
+}
+
+type Kind = 'element' | 'type' | 'group' | 'attributeGroup' | 'attribute';
+
+const ANY_TYPE: ComplexType = {
+  kind: 'complex', name: 'xs:anyType', content: 'any', particle: null, simpleType: null, attributes: [], anyAttribute: null,
+};
+
+const ANY_SIMPLE_TYPE = builtinType('anySimpleType');
+
+const FACET_NAMES = new Set([
+  'length', 'minLength', 'maxLength', 'minInclusive', 'maxInclusive', 'minExclusive', 'maxExclusive',
+  'totalDigits', 'fractionDigits', 'whiteSpace', 'enumeration', 'pattern',
+]);
+
+// Schema elements other than annotations
+const xsdChildren = (node: XMLNode): XMLNode[] =>
+  node.children.filter(child => child.namespaceURI === XSD_NAMESPACE && child.localName !== 'annotation');
+
+const attribute = (node: XMLNode, name: string): string | null =>
+  node.attributes.find(attr => attr.name === name)?.value ?? null;
+
+const occurs = (node: XMLNode): { min: number; max: number } => {
+  const max = attribute(node, 'maxOccurs');
+  return {
+    min: Number(attribute(node, 'minOccurs') ?? '1'),
+    max: max === 'unbounded' ? Infinity : Number(max ?? '1'),
+  };
+};
+
+const memo = <T,>(compute: () => T): (() => T) => {
+  let done = false;
+  let value: T;
+  return () => {
+    if (!done) {
+      value = compute();
+      done = true;
+    }
+    return value;
+  };
+};
+
+// XSD patterns are implicitly anchored and use a few classes JavaScript lacks (\i, \c)
+const NAME_START_CLASS = '_:A-Za-z\\u00C0-\\uFFFF';
+const NAME_CLASS = '\\-._:A-Za-z0-9\\u00B7\\u00C0-\\uFFFF';
+
+export const xsdPattern = (source: string): RegExp => {
+  let translated = '';
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\' && i + 1 < source.length) {
+      const next = source[++i];
+      const named = next === 'i' ? NAME_START_CLASS : next === 'c' ? NAME_CLASS : null;
+      if (named) translated += inClass ? named : `[${named}]`;
+      else if ((next === 'I' || next === 'C') && !inClass) translated += `[^${next === 'I' ? NAME_START_CLASS : NAME_CLASS}]`;
+      else translated += `\\${next}`;
+    } else if (inClass) {
+      if (char === '-' && source[i + 1] === '[') throw new SchemaError(`Character class subtraction is not supported: ${source}`);
+      if (char === ']') inClass = false;
+      translated += char;
+    } else if (char === '[') {
+      inClass = true;
+      translated += char;
+    } else {
+      translated += char === '^' || char === '$' ? `\\${char}` : char;
+    }
+  }
+  for (const flags of ['u', '']) {
+    try {
+      return new RegExp(`^(?:${translated})$`, flags);
+    } catch {
+      // Retry without the unicode flag, which rejects some escapes XSD allows
+    }
+  }
+  throw new SchemaError(`Unsupported pattern: ${source}`);
+};
+
+export const compileSchemas = (files: SchemaFile[]): Grammar => {
+  const docs: SchemaDocument[] = files.map(({ name, source }) => {
+    const { root, error } = parseXML(source);
+    if (!root) throw new SchemaError(`${name}: ${error || 'empty file'}`);
+    if (root.namespaceURI !== XSD_NAMESPACE || root.localName !== 'schema') {
+      throw new SchemaError(`${name} is not an XML Schema (its root is <${root.name}>)`);
+    }
+    return {
+      file: name,
+      root,
+      targetNamespace: attribute(root, 'targetNamespace'),
+      elementQualified: attribute(root, 'elementFormDefault') === 'qualified',
+      attributeQualified: attribute(root, 'attributeFormDefault') === 'qualified',
+    };
+  });
+
+  // An included schema without a target namespace takes on the including schema's
+  const baseName = (location: string) => location.split(/[\\/]/).pop();
+  docs.forEach(doc => {
+    xsdChildren(doc.root).filter(child => child.localName === 'include').forEach(include => {
+      const location = attribute(include, 'schemaLocation');
+      const included = location && docs.find(other => other.file === baseName(location));
+      if (included && included.targetNamespace === null) included.targetNamespace = doc.targetNamespace;
+    });
+  });
+
+  // Parent links are not kept on parsed nodes, so scopes come from one walk per schema
+  const parents = new Map<XMLNode, XMLNode>();
+  docs.forEach(doc => {
+    const walk = (node: XMLNode) => node.children.forEach(child => {
+      parents.set(child, node);
+      walk(child);
+    });
+    walk(doc.root);
+  });
+
+  const registry: Record<Kind, Map<string, Definition>> = {
+    element: new Map(), type: new Map(), group: new Map(), attributeGroup: new Map(), attribute: new Map(),
+  };
+  // Substitution group head -> the global elements that may stand in for it
+  const substitutes = new Map<string, QName[]>();
+
+  docs.forEach(doc => {
+    xsdChildren(doc.root).forEach(node => {
+      const name = attribute(node, 'name');
+      if (!name) return;
+      const kind: Kind | null = node.localName === 'complexType' || node.localName === 'simpleType' ? 'type'
+        : node.localName in registry ? node.localName as Kind : null;
+      if (!kind) return;
+      const key = qnameKey({ ns: doc.targetNamespace, local: name });
+      if (!registry[kind].has(key)) registry[kind].set(key, { node, doc });
+
+      const head = kind === 'element' && attribute(node, 'substitutionGroup');
+      if (head) {
+        const headKey = qnameKey(resolveQName(node, head));
+        substitutes.set(headKey, [...(substitutes.get(headKey) ?? []), { ns: doc.targetNamespace, local: name }]);
+      }
+    });
+  });
+
+  // Resolves a prefixed name written in a schema attribute against the declarations in scope
+  function resolveQName(node: XMLNode, value: string): QName {
+    const colon = value.indexOf(':');
+    const prefix = colon === -1 ? '' : value.slice(0, colon);
+    const local = colon === -1 ? value : value.slice(colon + 1);
+    const ns = namespaceInScope(node, prefix);
+    if (ns === undefined && prefix) throw new SchemaError(`Undeclared namespace prefix "${prefix}" in "${value}"`);
+    return { ns: ns ?? null, local };
+  }
+
+  function namespaceInScope(node: XMLNode, prefix: string): string | null | undefined {
+    for (let current: XMLNode | undefined = node; current; current = parents.get(current)) {
+      const declaration = current.attributes.find(attr => (prefix ? attr.name === `xmlns:${prefix}` : attr.name === 'xmlns'));
+      if (declaration) return declaration.value || null;
+    }
+    return prefix === 'xml' ? 'http://www.w3.org/XML/1998/namespace' : undefined;
+  }
+
+  const lookup = (kind: Kind, name: QName, what: string): Definition => {
+    const definition = registry[kind].get(qnameKey(name));
+    if (!definition) throw new SchemaError(`Unknown ${what} "${name.ns ? `{${name.ns}}` : ''}${name.local}"`);
+    return definition;
+  };
+
+  // --- Types ---
+  const compiledTypes = new Map<XMLNode, TypeDefinition>();
+  const compiling = new Set<XMLNode>();
+
+  const compileType = (node: XMLNode, doc: SchemaDocument): TypeDefinition => {
+    const cached = compiledTypes.get(node);
+    if (cached) return cached;
+    if (compiling.has(node)) throw new SchemaError(`Type "${attribute(node, 'name') ?? '(anonymous)'}" is derived from itself`);
+    compiling.add(node);
+    const type = node.localName === 'simpleType' ? compileSimpleType(node, doc) : compileComplexType(node, doc);
+    compiling.delete(node);
+    compiledTypes.set(node, type);
+    return type;
+  };
+
+  const resolveType = (name: QName): TypeDefinition => {
+    if (name.ns === XSD_NAMESPACE && name.local === 'anyType') return ANY_TYPE;
+    if (isBuiltinType(name)) return builtinType(name.local);
+    const { node, doc } = lookup('type', name, 'type');
+    return compileType(node, doc);
+  };
+
+  const resolveSimpleType = (name: QName): SimpleType => {
+    const type = resolveType(name);
+    if (type.kind !== 'simple') throw new SchemaError(`"${name.local}" is a complex type where a simple type is needed`);
+    return type;
+  };
+
+  // The simple type named by an attribute (type, base, itemType) or defined inline
+  const simpleTypeOf = (node: XMLNode, doc: SchemaDocument, reference: string): SimpleType => {
+    const name = attribute(node, reference);
+    if (name) return resolveSimpleType(resolveQName(node, name));
+    const inline = xsdChildren(node).find(child => child.localName === 'simpleType');
+    return inline ? compileType(inline, doc) as SimpleType : ANY_SIMPLE_TYPE;
+  };
+
+  const restrict = (base: SimpleType, restriction: XMLNode, name: string): SimpleType => {
+    const facets: Facets = { ...base.facets };
+    const enumeration: string[] = [];
+    const patterns: { source: string; regex: RegExp }[] = [];
+    xsdChildren(restriction).filter(child => FACET_NAMES.has(child.localName)).forEach(facet => {
+      const value = attribute(facet, 'value') ?? '';
+      switch (facet.localName) {
+        case 'enumeration': enumeration.push(value); break;
+        case 'pattern': patterns.push({ source: value, regex: xsdPattern(value) }); break;
+        case 'whiteSpace': facets.whiteSpace = value as Facets['whiteSpace']; break;
+        case 'length': case 'minLength': case 'maxLength': case 'totalDigits': case 'fractionDigits':
+          facets[facet.localName] = Number(value);
+          break;
+        default:
+          facets[facet.localName as 'minInclusive' | 'maxInclusive' | 'minExclusive' | 'maxExclusive'] = value;
+      }
+    });
+    if (enumeration.length) facets.enumeration = enumeration;
+    if (patterns.length) facets.patterns = [...(base.facets.patterns ?? []), patterns];
+    return { ...base, name, facets };
+  };
+
+  const compileSimpleType = (node: XMLNode, doc: SchemaDocument): SimpleType => {
+    const name = attribute(node, 'name') ?? '(anonymous type)';
+    const derivation = xsdChildren(node)[0];
+    if (!derivation) throw new SchemaError(`Simple type ${name} has no restriction, list or union`);
+    switch (derivation.localName) {
+      case 'list':
+        return { kind: 'simple', name, builtin: 'anySimpleType', variety: 'list', item: simpleTypeOf(derivation, doc, 'itemType'), facets: {} };
+      case 'union': {
+        const named = (attribute(derivation, 'memberTypes') ?? '').split(/\s+/).filter(Boolean)
+          .map(member => resolveSimpleType(resolveQName(derivation, member)));
+        const inline = xsdChildren(derivation).filter(child => child.localName === 'simpleType').map(child => compileType(child, doc) as SimpleType);
+        return { kind: 'simple', name, builtin: 'anySimpleType', variety: 'union', members: [...named, ...inline], facets: {} };
+      }
+      default:
+        return restrict(simpleTypeOf(derivation, doc, 'base'), derivation, name);
+    }
+  };
+
+  // --- Attributes ---
+  interface AttributeSet {
+    uses: Map<string, AttributeUse>;
+    prohibited: Set<string>;
+    anyAttribute: Wildcard | null;
+  }
+
+  const wildcard = (node: XMLNode, doc: SchemaDocument): Wildcard => {
+    const namespace = attribute(node, 'namespace') ?? '##any';
+    return {
+      namespaces: namespace === '##any' ? 'any' : namespace === '##other' ? 'other'
+        : namespace.split(/\s+/).filter(Boolean).map(token =>
+          token === '##targetNamespace' ? doc.targetNamespace : token === '##local' ? null : token),
+      targetNamespace: doc.targetNamespace,
+      process: (attribute(node, 'processContents') ?? 'strict') as Wildcard['process'],
+    };
+  };
+
+  const compileAttribute = (node: XMLNode, doc: SchemaDocument, global: boolean): AttributeUse => {
+    const ref = attribute(node, 'ref');
+    if (ref) {
+      const target = lookup('attribute', resolveQName(node, ref), 'attribute');
+      const use = compileAttribute(target.node, target.doc, true);
+      return { ...use, required: attribute(node, 'use') === 'required', fixed: attribute(node, 'fixed') ?? use.fixed };
+    }
+    const form = attribute(node, 'form') ?? (doc.attributeQualified ? 'qualified' : 'unqualified');
+    return {
+      name: { ns: global || form === 'qualified' ? doc.targetNamespace : null, local: attribute(node, 'name') ?? '' },
+      type: simpleTypeOf(node, doc, 'type'),
+      required: attribute(node, 'use') === 'required',
+      fixed: attribute(node, 'fixed'),
+    };
+  };
+
+  const collectAttributes = (container: XMLNode, doc: SchemaDocument, into: AttributeSet = {
+    uses: new Map(), prohibited: new Set(), anyAttribute: null,
+  }): AttributeSet => {
+    xsdChildren(container).forEach(child => {
+      if (child.localName === 'attribute') {
+        const use = compileAttribute(child, doc, false);
+        const key = qnameKey(use.name);
+        if (attribute(child, 'use') === 'prohibited') into.prohibited.add(key);
+        else into.uses.set(key, use);
+      } else if (child.localName === 'attributeGroup') {
+        const ref = attribute(child, 'ref');
+        if (ref) {
+          const group = lookup('attributeGroup', resolveQName(child, ref), 'attribute group');
+          collectAttributes(group.node, group.doc, into);
+        }
+      } else if (child.localName === 'anyAttribute') {
+        into.anyAttribute = wildcard(child, doc);
+      }
+    });
+    return into;
+  };
+
+  const mergeAttributes = (base: AttributeUse[], own: AttributeSet): AttributeUse[] => {
+    const merged = new Map(base.map(use => [qnameKey(use.name), use]));
+    own.uses.forEach((use, key) => merged.set(key, use));
+    own.prohibited.forEach(key => merged.delete(key));
+    return Array.from(merged.values());
+  };
+
+  // --- Content models ---
+  const elementName = (node: XMLNode, doc: SchemaDocument, global: boolean): QName => {
+    const form = attribute(node, 'form') ?? (doc.elementQualified ? 'qualified' : 'unqualified');
+    return { ns: global || form === 'qualified' ? doc.targetNamespace : null, local: attribute(node, 'name') ?? '' };
+  };
+
+  const compiledElements = new Map<XMLNode, ElementDeclaration>();
+
+  const compileElement = (node: XMLNode, doc: SchemaDocument, global: boolean): ElementDeclaration => {
+    const cached = compiledElements.get(node);
+    if (cached) return cached;
+    const declaration: ElementDeclaration = {
+      name: elementName(node, doc, global),
+      type: memo(() => {
+        const typeName = attribute(node, 'type');
+        if (typeName) return resolveType(resolveQName(node, typeName));
+        const inline = xsdChildren(node).find(child => child.localName === 'complexType' || child.localName === 'simpleType');
+        if (inline) return compileType(inline, doc);
+        // Without a type of its own, a substitute takes its group head's
+        const head = attribute(node, 'substitutionGroup');
+        return head ? globalElement(resolveQName(node, head)).type() : ANY_TYPE;
+      }),
+      nillable: attribute(node, 'nillable') === 'true',
+      fixed: attribute(node, 'fixed'),
+    };
+    compiledElements.set(node, declaration);
+    return declaration;
+  };
+
+  const globalElement = (name: QName): ElementDeclaration => {
+    const { node, doc } = lookup('element', name, 'element');
+    return compileElement(node, doc, true);
+  };
+
+  // The head element and everything that may substitute for it, transitively
+  const substitutionGroup = (head: QName): QName[] => {
+    const members = [head];
+    for (let i = 0; i < members.length; i++) {
+      (substitutes.get(qnameKey(members[i])) ?? []).forEach(member => {
+        if (!members.some(known => qnameKey(known) === qnameKey(member))) members.push(member);
+      });
+    }
+    return members;
+  };
+
+  const compileParticle = (node: XMLNode, doc: SchemaDocument): Particle | null => {
+    const { min, max } = occurs(node);
+    switch (node.localName) {
+      case 'element': {
+        const ref = attribute(node, 'ref');
+        if (!ref) {
+          return { kind: 'element', name: elementName(node, doc, false), declaration: () => compileElement(node, doc, false), min, max };
+        }
+        const members = substitutionGroup(resolveQName(node, ref))
+          .filter(name => attribute(lookup('element', name, 'element').node, 'abstract') !== 'true');
+        const particles: Particle[] = members.map(name => ({ kind: 'element', name, declaration: () => globalElement(name), min: 1, max: 1 }));
+        if (particles.length === 1) return { ...particles[0], min, max };
+        return { kind: 'choice', particles, min, max };
+      }
+      case 'any':
+        return { kind: 'any', wildcard: wildcard(node, doc), min, max };
+      case 'group': {
+        const ref = attribute(node, 'ref');
+        if (!ref) return null;
+        const group = lookup('group', resolveQName(node, ref), 'group');
+        const model = xsdChildren(group.node).map(child => compileParticle(child, group.doc)).find(Boolean);
+        return model ? { kind: 'sequence', particles: [model], min, max } : null;
+      }
+      case 'sequence':
+      case 'choice':
+      case 'all':
+        return {
+          kind: node.localName,
+          particles: xsdChildren(node).map(child => compileParticle(child, doc)).filter((p): p is Particle => p !== null),
+          min,
+          max,
+        };
+      default:
+        return null;
+    }
+  };
+
+  const PARTICLE_NAMES = new Set(['sequence', 'choice', 'all', 'group']);
+
+  const particleOf = (container: XMLNode, doc: SchemaDocument): Particle | null => {
+    const node = xsdChildren(container).find(child => PARTICLE_NAMES.has(child.localName));
+    return node ? compileParticle(node, doc) : null;
+  };
+
+  const compileComplexType = (node: XMLNode, doc: SchemaDocument): ComplexType => {
+    const name = attribute(node, 'name') ?? '(anonymous type)';
+    const children = xsdChildren(node);
+    const simpleContent = children.find(child => child.localName === 'simpleContent');
+    const complexContent = children.find(child => child.localName === 'complexContent');
+
+    if (simpleContent) {
+      const derivation = xsdChildren(simpleContent)[0];
+      const baseName = derivation && attribute(derivation, 'base');
+      if (!baseName) throw new SchemaError(`Complex type ${name} has simple content without a base type`);
+      const base = resolveType(resolveQName(derivation, baseName));
+      const baseSimple = base.kind === 'simple' ? base : base.simpleType ?? ANY_SIMPLE_TYPE;
+      const own = collectAttributes(derivation, doc);
+      return {
+        kind: 'complex',
+        name,
+        content: 'simple',
+        particle: null,
+        simpleType: derivation.localName === 'restriction' ? restrict(baseSimple, derivation, baseSimple.name) : baseSimple,
+        attributes: mergeAttributes(base.kind === 'complex' ? base.attributes : [], own),
+        anyAttribute: own.anyAttribute ?? (base.kind === 'complex' ? base.anyAttribute : null),
+      };
+    }
+
+    if (complexContent) {
+      const derivation = xsdChildren(complexContent)[0];
+      const baseName = derivation && attribute(derivation, 'base');
+      if (!baseName) throw new SchemaError(`Complex type ${name} has complex content without a base type`);
+      const base = resolveType(resolveQName(derivation, baseName));
+      if (base.kind !== 'complex') throw new SchemaError(`Complex type ${name} cannot derive complex content from the simple type ${base.name}`);
+      const mixed = (attribute(complexContent, 'mixed') ?? attribute(node, 'mixed')) === 'true';
+      const own = particleOf(derivation, doc);
+      const ownAttributes = collectAttributes(derivation, doc);
+      const particle = derivation.localName === 'extension' && base.particle
+        ? own ? { kind: 'sequence' as const, particles: [base.particle, own], min: 1, max: 1 } : base.particle
+        : own;
+      return {
+        kind: 'complex',
+        name,
+        content: derivation.localName === 'extension' && base === ANY_TYPE ? 'any'
+          : mixed || base.content === 'mixed' ? 'mixed' : particle ? 'elementOnly' : 'empty',
+        particle,
+        simpleType: null,
+        attributes: mergeAttributes(base.attributes, ownAttributes),
+        anyAttribute: ownAttributes.anyAttribute ?? (derivation.localName === 'extension' ? base.anyAttribute : null),
+      };
+    }
+
+    const particle = particleOf(node, doc);
+    const attributes = collectAttributes(node, doc);
+    return {
+      kind: 'complex',
+      name,
+      content: attribute(node, 'mixed') === 'true' ? 'mixed' : particle ? 'elementOnly' : 'empty',
+      particle,
+      simpleType: null,
+      attributes: mergeAttributes([], attributes),
+      anyAttribute: attributes.anyAttribute,
+    };
+  };
+
+  // Compile everything reachable from the global components now, so broken references are
+  // reported when the schemas load rather than halfway through a validation
+  const visited = new Set<TypeDefinition>();
+  const compileAll = (type: TypeDefinition) => {
+    if (visited.has(type)) return;
+    visited.add(type);
+    if (type.kind === 'complex' && type.particle) visitParticle(type.particle);
+  };
+  const visitParticle = (particle: Particle) => {
+    if (particle.kind === 'element') {
+      const declaration = particle.declaration();
+      if (declaration) compileAll(declaration.type());
+    } else if (particle.kind !== 'any') {
+      particle.particles.forEach(visitParticle);
+    }
+  };
+  registry.element.forEach(({ node, doc }) => compileAll(compileElement(node, doc, true).type()));
+  registry.type.forEach(({ node, doc }) => compileAll(compileType(node, doc)));
+
+  return {
+    namespaceAware: true,
+    globalElement: (name) => (registry.element.has(qnameKey(name)) ? globalElement(name) : null),
+    namedType: (name) => {
+      try {
+        return resolveType(name);
+      } catch {
+        return null;
+      }
+    },
+  };
+};
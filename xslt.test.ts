@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { readStylesheet, TransformError } from './xslt';
+
+const stylesheet = (body: string, attributes = 'version="1.0"') =>
+  `<xsl:stylesheet ${attributes} xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:p="urn:params">${body}</xsl:stylesheet>`;
+
+describe('readStylesheet', () => {
+  it('finds top-level parameters, their defaults and the output method', () => {
+    const info = readStylesheet(stylesheet(`
+  <xsl:output method="text"/>
+  <xsl:param name="limit" select="10"/>
+  <xsl:param name="p:title">Books</xsl:param>
+  <xsl:template match="/"><xsl:param name="local"/></xsl:template>`));
+    expect(info.method).toBe('text');
+    expect(info.parameters).toEqual([
+      { name: 'limit', namespaceURI: null, localName: 'limit', defaultValue: '10' },
+      { name: 'p:title', namespaceURI: 'urn:params', localName: 'title', defaultValue: 'Books' },
+    ]);
+    expect(info.warnings).toEqual([]);
+  });
+
+  it('warns about what the browser cannot run', () => {
+    const info = readStylesheet(stylesheet('<xsl:import href="common.xsl"/><xsl:output method="xhtml"/>', 'version="2.0"'));
+    expect(info.warnings).toEqual([
+      'The stylesheet declares version 2.0; browsers run XSLT 1.0 only, so 2.0 and 3.0 instructions and functions will fail',
+      'Output method "xhtml" is not supported; the result is shown as XML',
+      '<xsl:import href="common.xsl"> cannot be loaded here; paste the stylesheets into one',
+    ]);
+  });
+
+  it('accepts a literal result element as a stylesheet', () => {
+    const info = readStylesheet('<html xsl:version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform"><xsl:value-of select="/a"/></html>');
+    expect(info).toEqual({ parameters: [], method: 'html', warnings: [] });
+  });
+
+  it('reports stylesheets that are not well-formed or not XSLT', () => {
+    expect(() => readStylesheet(stylesheet('<xsl:template match="/">'))).toThrow(/^The stylesheet is not well-formed: .*\(line 1, column \d+\)$/);
+    expect(() => readStylesheet('<catalog/>')).toThrow(TransformError);
+    expect(() => readStylesheet('<catalog/>')).toThrow('<catalog> is not an XSLT stylesheet');
+  });
+});
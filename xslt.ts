@@ -0,0 +1,155 @@
+import { XMLNode } from './types';
+import { parseXML } from './utils';
+
+// --- XSLT ---
+// Runs XSLT 1.0 stylesheets with the browser's own XSLTProcessor, so nothing leaves the machine.
+// Stylesheets are read with the app's parser first: it reports where a stylesheet is not
+// well-formed, and finds the top-level parameters that can be set from outside.
+
+export const XSLT_NAMESPACE = 'http://www.w3.org/1999/XSL/Transform';
+
+export type OutputMethod = 'xml' | 'html' | 'text';
+
+export class TransformError extends Error {}
+
+export interface StylesheetParameter {
+  // As written in name="...", prefix included
+  name: string;
+  namespaceURI: string | null;
+  localName: string;
+  // The select expression or content used when no value is given
+  defaultValue: string | null;
+}
+
+export interface StylesheetInfo {
+  parameters: StylesheetParameter[];
+  // From <xsl:output method="...">; null leaves it to the result (html for an <html> root)
+  method: OutputMethod | null;
+  // Things the browser will not do, such as XSLT 2.0 or loading imported stylesheets
+  warnings: string[];
+}
+
+export interface TransformResult {
+  output: string;
+  method: OutputMethod;
+}
+
+const isXslt = (node: XMLNode, localName: string): boolean => node.namespaceURI === XSLT_NAMESPACE && node.localName === localName;
+
+const attributeValue = (node: XMLNode, name: string): string | null =>
+  node.attributes.find(attr => attr.name === name)?.value ?? null;
+
+// Resolves the prefix of a parameter name against the declarations on the parameter and the
+// stylesheet element, the only places a top-level parameter can see
+const namespaceOf = (prefix: string, scopes: XMLNode[]): string | null => {
+  for (const scope of scopes) {
+    const declaration = attributeValue(scope, `xmlns:${prefix}`);
+    if (declaration !== null) return declaration;
+  }
+  return null;
+};
+
+export const readStylesheet = (source: string): StylesheetInfo => {
+  const { root, error, errors, isFragment } = parseXML(source);
+  if (errors?.length) {
+    const [first] = errors;
+    throw new TransformError(`The stylesheet is not well-formed: ${first.message} (line ${first.line}, column ${first.column})`);
+  }
+  if (error) throw new TransformError(`The stylesheet could not be read: ${error}`);
+  if (!root) throw new TransformError('The stylesheet is empty');
+  if (isFragment) throw new TransformError('The stylesheet must have a single root element');
+
+  const warnings: string[] = [];
+  const version = (root: XMLNode, name: string) => {
+    const value = attributeValue(root, name);
+    if (value !== null && parseFloat(value) >= 2) {
+      warnings.push(`The stylesheet declares version ${value}; browsers run XSLT 1.0 only, so 2.0 and 3.0 instructions and functions will fail`);
+    }
+  };
+
+  // A literal result element with xsl:version is a stylesheet of one template
+  if (!isXslt(root, 'stylesheet') && !isXslt(root, 'transform')) {
+    const literalVersion = root.attributes.find(attr => attr.namespaceURI === XSLT_NAMESPACE && attr.localName === 'version');
+    if (!literalVersion) {
+      throw new TransformError(`<${root.name}> is not an XSLT stylesheet: expected <xsl:stylesheet> or <xsl:transform> in namespace ${XSLT_NAMESPACE}`);
+    }
+    version(root, literalVersion.name);
+    return { parameters: [], method: root.localName.toLowerCase() === 'html' && !root.namespaceURI ? 'html' : null, warnings };
+  }
+  version(root, 'version');
+
+  let method: OutputMethod | null = null;
+  root.children.filter(child => isXslt(child, 'output')).forEach(output => {
+    const value = attributeValue(output, 'method');
+    if (value === 'xml' || value === 'html' || value === 'text') method = value;
+    else if (value !== null) warnings.push(`Output method "${value}" is not supported; the result is shown as XML`);
+  });
+
+  root.children.filter(child => isXslt(child, 'import') || isXslt(child, 'include')).forEach(link => {
+    warnings.push(`<${link.name} href="${attributeValue(link, 'href') ?? ''}"> cannot be loaded here; paste the stylesheets into one`);
+  });
+
+  const parameters = root.children.filter(child => isXslt(child, 'param')).flatMap((param): StylesheetParameter[] => {
+    const name = attributeValue(param, 'name');
+    if (!name) return [];
+    const colon = name.indexOf(':');
+    return [{
+      name,
+      namespaceURI: colon < 0 ? null : namespaceOf(name.slice(0, colon), [param, root]),
+      localName: name.slice(colon + 1),
+      defaultValue: attributeValue(param, 'select') ?? param.content,
+    }];
+  });
+
+  return { parameters, method, warnings };
+};
+
+const parseDom = (source: string, what: string): Document => {
+  const dom = new DOMParser().parseFromString(source, 'application/xml');
+  // Browsers report parse errors as a <parsererror> element instead of throwing
+  const failure = dom.getElementsByTagName('parsererror')[0];
+  if (failure) throw new TransformError(`The ${what} could not be parsed: ${failure.textContent?.trim() ?? ''}`);
+  return dom;
+};
+
+// Runs the stylesheet over the document. Parameter values are XPath strings keyed by the
+// parameter's name; parameters without a value keep their default.
+export const transformDocument = (documentSource: string, stylesheetSource: string, values: Record<string, string>): TransformResult => {
+  const info = readStylesheet(stylesheetSource);
+  if (typeof XSLTProcessor === 'undefined') throw new TransformError('This browser has no XSLT processor');
+
+  const input = parseDom(documentSource, 'document');
+  const stylesheet = parseDom(stylesheetSource, 'stylesheet');
+  const processor = new XSLTProcessor();
+  let fragment: DocumentFragment | null;
+  try {
+    processor.importStylesheet(stylesheet);
+    info.parameters.forEach(param => {
+      const value = values[param.name];
+      if (value) processor.setParameter(param.namespaceURI, param.localName, value);
+    });
+    // An HTML owner document gives HTML serialization; anything else is built as XML
+    const owner = info.method === 'html' ? document : document.implementation.createDocument(null, null, null);
+    fragment = processor.transformToFragment(input, owner);
+  } catch (e: any) {
+    // Firefox throws with the processor's message, e.g. for xsl:message terminate="yes"
+    throw new TransformError(`The transform failed: ${e.message ?? e}`);
+  }
+  // Chrome and Safari return nothing and log the reason to the console
+  if (!fragment) {
+    throw new TransformError('The transform failed. The browser gives no details here (see its console); common causes are XSLT 2.0 features, unknown extension functions and xsl:message terminate="yes".');
+  }
+
+  const resultRoot = Array.from(fragment.childNodes).find((node): node is Element => node.nodeType === Node.ELEMENT_NODE);
+  const method: OutputMethod = info.method
+    ?? (resultRoot && !resultRoot.namespaceURI && resultRoot.localName.toLowerCase() === 'html' ? 'html' : 'xml');
+
+  if (method === 'text') return { output: fragment.textContent ?? '', method };
+  if (method === 'html' && info.method === 'html') {
+    const container = document.createElement('div');
+    container.appendChild(fragment);
+    return { output: container.innerHTML, method };
+  }
+  const serializer = new XMLSerializer();
+  return { output: Array.from(fragment.childNodes).map(node => serializer.serializeToString(node)).join(''), method };
+};